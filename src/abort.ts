@@ -0,0 +1,34 @@
+import { NotionAbortError } from './errors';
+
+/**
+ * Throws a NotionAbortError if the signal has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new NotionAbortError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Waits for the specified duration in milliseconds, rejecting with a
+ * NotionAbortError as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new NotionAbortError(undefined, signal.reason));
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(new NotionAbortError(undefined, signal?.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,4 +1,4 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
 import type { PaginatedList, PaginatedListType, PaginationParameters } from '../schemas';
 import { paginatedListSchema } from '../schemas';
 import { LIMITS, validateArrayLength } from '../validation';
@@ -36,15 +36,17 @@ export abstract class BaseAPI<TResponse, TModel> {
    * Delete a resource via DELETE request.
    *
    * @param resourcePath - Path to the specific resource (e.g., '/pages/{page_id}', '/databases/{database_id}')
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Instance of the model class representing the deleted resource
    *
    * @example
    * return this.deleteResource(`/pages/${pageId}`);
    */
-  protected async deleteResource(resourcePath: string): Promise<TModel> {
+  protected async deleteResource(resourcePath: string, callOptions?: CallOptions): Promise<TModel> {
     const response = await this.client.request<TResponse>({
       method: 'DELETE',
       path: resourcePath,
+      signal: callOptions?.signal,
     });
 
     return this.parseAndWrap(response);
@@ -150,6 +152,7 @@ export abstract class BaseAPI<TResponse, TModel> {
    *
    * @param resourcePath - Path to the resource collection (e.g., '/pages', '/databases')
    * @param body - Request body to send
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Instance of the model class representing the created resource
    *
    * @example
@@ -158,11 +161,16 @@ export abstract class BaseAPI<TResponse, TModel> {
    *   { parent: { ... }, properties: { ... } },
    * );
    */
-  protected async createResource(resourcePath: string, body: unknown): Promise<TModel> {
+  protected async createResource(
+    resourcePath: string,
+    body: unknown,
+    callOptions?: CallOptions,
+  ): Promise<TModel> {
     const response = await this.client.request<TResponse>({
       method: 'POST',
       path: resourcePath,
       body,
+      signal: callOptions?.signal,
     });
 
     return this.parseAndWrap(response);
@@ -173,6 +181,7 @@ export abstract class BaseAPI<TResponse, TModel> {
    *
    * @param resourcePath - Path to the specific resource (e.g., '/pages/{page_id}', '/databases/{database_id}')
    * @param query - Optional query parameters for the GET request
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Instance of the model class representing the retrieved resource
    *
    * @example
@@ -181,11 +190,13 @@ export abstract class BaseAPI<TResponse, TModel> {
   protected async retrieveResource(
     resourcePath: string,
     query?: Record<string, string>,
+    callOptions?: CallOptions,
   ): Promise<TModel> {
     const response = await this.client.request<TResponse>({
       method: 'GET',
       path: resourcePath,
       query: Object.keys(query || {}).length > 0 ? query : undefined,
+      signal: callOptions?.signal,
     });
 
     return this.parseAndWrap(response);
@@ -196,6 +207,7 @@ export abstract class BaseAPI<TResponse, TModel> {
    *
    * @param resourcePath - Path to the resource collection (e.g., '/pages', '/databases')
    * @param query - Optional query parameters for pagination and filtering
+   * @param callOptions - Per-call options such as an abort signal
    * @returns PaginatedList containing instances of the model class for each item in the results array
    *
    * @example
@@ -207,11 +219,13 @@ export abstract class BaseAPI<TResponse, TModel> {
   protected async listResources(
     resourcePath: string,
     query?: Record<string, string>,
+    callOptions?: CallOptions,
   ): Promise<PaginatedList<TModel>> {
     const response = await this.client.request<PaginatedList<TResponse>>({
       method: 'GET',
       path: resourcePath,
       query: Object.keys(query || {}).length > 0 ? query : undefined,
+      signal: callOptions?.signal,
     });
 
     return this.parsePaginatedList(response);
@@ -222,6 +236,7 @@ export abstract class BaseAPI<TResponse, TModel> {
    *
    * @param resourcePath - Path to the specific resource (e.g., '/pages/{page_id}', '/databases/{database_id}')
    * @param body - Request body with updated fields
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Instance of the model class representing the updated resource
    *
    * @example
@@ -230,11 +245,16 @@ export abstract class BaseAPI<TResponse, TModel> {
    *   { properties: { ... } },
    * );
    */
-  protected async updateResource(resourcePath: string, body: unknown): Promise<TModel> {
+  protected async updateResource(
+    resourcePath: string,
+    body: unknown,
+    callOptions?: CallOptions,
+  ): Promise<TModel> {
     const response = await this.client.request<TResponse>({
       method: 'PATCH',
       path: resourcePath,
       body,
+      signal: callOptions?.signal,
     });
 
     return this.parseAndWrap(response);
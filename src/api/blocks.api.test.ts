@@ -1,8 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { BlocksAPI } from './blocks.api';
 import type { NotionClient } from '../client';
+import { NotionAPIError } from '../errors';
 import { Block } from '../models';
-import { NotionValidationError } from '../validation';
+import { LIMITS, NotionValidationError } from '../validation';
 
 describe('BlocksAPI', () => {
   const mockClient = {
@@ -139,6 +140,155 @@ describe('BlocksAPI', () => {
     });
   });
 
+  describe('tree', () => {
+    const blockResponse = (
+      id: string,
+      overrides: Record<string, unknown> = {},
+    ): Record<string, unknown> => ({
+      ...mockBlockResponse,
+      id: `123e4567-e89b-12d3-a456-${id.padStart(12, '0')}`,
+      ...overrides,
+    });
+
+    const listResponse = (
+      results: unknown[],
+      next_cursor: string | null = null,
+    ): Record<string, unknown> => ({
+      ...mockPaginatedResponse,
+      results,
+      next_cursor,
+      has_more: next_cursor !== null,
+    });
+
+    /** Routes mocked list requests by the parent block ID in the request path. */
+    function mockChildren(children: Record<string, Record<string, unknown>[]>): void {
+      vi.mocked(mockClient.request).mockImplementation(({ path }) => {
+        const parentId = path.split('/')[2];
+        return Promise.resolve(listResponse(children[parentId] ?? []));
+      });
+    }
+
+    it('should fetch nested children recursively', async () => {
+      const parent = blockResponse('1', { has_children: true });
+      const child = blockResponse('2');
+      mockChildren({ 'page-id': [parent], [parent.id as string]: [child] });
+
+      const result = await blocksAPI.tree('page-id');
+
+      expect(result).toHaveLength(1);
+      expect(result[0].children).toHaveLength(1);
+      expect(result[0].children[0].id).toBe(child.id);
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'GET',
+        path: '/blocks/page-id/children',
+        query: { page_size: '100' },
+      });
+    });
+
+    it('should follow pagination cursors', async () => {
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(listResponse([blockResponse('1')], 'cursor-2'))
+        .mockResolvedValueOnce(listResponse([blockResponse('2')]));
+
+      const result = await blocksAPI.tree('page-id');
+
+      expect(result.map((block) => block.id)).toEqual([
+        blockResponse('1').id,
+        blockResponse('2').id,
+      ]);
+      expect(mockClient.request).toHaveBeenLastCalledWith({
+        method: 'GET',
+        path: '/blocks/page-id/children',
+        query: { page_size: '100', start_cursor: 'cursor-2' },
+      });
+    });
+
+    it('should stop descending at maxDepth', async () => {
+      const parent = blockResponse('1', { has_children: true });
+      mockChildren({ 'page-id': [parent] });
+
+      const result = await blocksAPI.tree('page-id', { maxDepth: 0 });
+
+      expect(result[0].children).toEqual([]);
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not descend into child pages', async () => {
+      const childPage = blockResponse('1', {
+        type: 'child_page',
+        has_children: true,
+        child_page: { title: 'Sub' },
+      });
+      mockChildren({ 'page-id': [childPage] });
+
+      await blocksAPI.tree('page-id');
+
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve synced block references to the original content', async () => {
+      const original = blockResponse('9');
+      const reference = blockResponse('1', {
+        type: 'synced_block',
+        has_children: true,
+        synced_block: { synced_from: { type: 'block_id', block_id: original.id } },
+      });
+      const syncedChild = blockResponse('10');
+      mockChildren({ 'page-id': [reference], [original.id as string]: [syncedChild] });
+
+      const result = await blocksAPI.tree('page-id');
+
+      expect(result[0].type).toBe('synced_block');
+      expect(result[0].children.map((block) => block.id)).toEqual([syncedChild.id]);
+      expect(mockClient.request).not.toHaveBeenCalledWith(
+        expect.objectContaining({ path: `/blocks/${reference.id as string}/children` }),
+      );
+    });
+
+    it('should leave synced block references empty when the original is not shared', async () => {
+      const reference = blockResponse('1', {
+        type: 'synced_block',
+        has_children: true,
+        synced_block: {
+          synced_from: { type: 'block_id', block_id: '123e4567-e89b-12d3-a456-000000000099' },
+        },
+      });
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(listResponse([reference]))
+        .mockRejectedValueOnce(
+          new NotionAPIError({
+            object: 'error',
+            status: 404,
+            code: 'object_not_found',
+            message: 'Could not find block',
+          }),
+        );
+
+      const result = await blocksAPI.tree('page-id');
+
+      expect(result[0].children).toEqual([]);
+    });
+
+    it('should limit the number of concurrent requests', async () => {
+      const parents = ['1', '2', '3', '4'].map((id) => blockResponse(id, { has_children: true }));
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.mocked(mockClient.request).mockImplementation(async ({ path }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return listResponse(path === '/blocks/page-id/children' ? parents : []);
+      });
+
+      const result = await blocksAPI.tree('page-id', { concurrency: 2 });
+
+      expect(result).toHaveLength(4);
+      expect(mockClient.request).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
   describe('children.list', () => {
     it('should list block children without pagination params', async () => {
       vi.mocked(mockClient.request).mockResolvedValue(mockPaginatedResponse);
@@ -251,4 +401,195 @@ describe('BlocksAPI', () => {
       expect(result.has_more).toBe(true);
     });
   });
+
+  describe('children.appendAll', () => {
+    const paragraph = (content: string, children?: unknown[]): Record<string, unknown> => ({
+      type: 'paragraph',
+      paragraph: { rich_text: [{ type: 'text', text: { content } }], children },
+    });
+
+    /**
+     * Mocks the append and list endpoints, assigning sequential IDs to appended
+     * blocks and remembering them so follow-up list requests can find them.
+     */
+    function mockAppendEndpoint(): Map<string, string[]> {
+      const childrenById = new Map<string, string[]>();
+      let nextId = 0;
+
+      vi.mocked(mockClient.request).mockImplementation(({ method, path, body }) => {
+        const parentId = path.split('/')[2];
+        if (method === 'GET') {
+          const ids = childrenById.get(parentId) ?? [];
+          return Promise.resolve({
+            ...mockPaginatedResponse,
+            results: ids.map((id) => ({ ...mockBlockResponse, id })),
+          });
+        }
+
+        const register = (id: string, blocks: unknown[]): string[] => {
+          const ids = blocks.map((block) => {
+            nextId++;
+            const blockId = `123e4567-e89b-12d3-a456-${String(nextId).padStart(12, '0')}`;
+            const { type } = block as { type: string };
+            const content = (block as Record<string, { children?: unknown[] }>)[type];
+            register(blockId, content.children ?? []);
+            return blockId;
+          });
+          childrenById.set(id, [...(childrenById.get(id) ?? []), ...ids]);
+          return ids;
+        };
+        const appended = register(parentId, (body as { children: unknown[] }).children);
+        return Promise.resolve({
+          ...mockPaginatedResponse,
+          results: appended.map((id) => ({ ...mockBlockResponse, id })),
+        });
+      });
+
+      return childrenById;
+    }
+
+    const appendCalls = (): { path: string; body: { children: unknown[]; after?: string } }[] =>
+      vi
+        .mocked(mockClient.request)
+        .mock.calls.map(([options]) => options)
+        .filter((options) => options.method === 'PATCH') as {
+        path: string;
+        body: { children: unknown[]; after?: string };
+      }[];
+
+    it('should split children into batches chained with after', async () => {
+      mockAppendEndpoint();
+      const children = Array.from({ length: 250 }, (_, index) => paragraph(`Block ${index}`));
+
+      const result = await blocksAPI.children.appendAll('page-id', {
+        children,
+        after: 'anchor-id',
+      });
+
+      const calls = appendCalls();
+      expect(calls.map((call) => call.body.children.length)).toEqual([100, 100, 50]);
+      expect(calls[0].body.after).toBe('anchor-id');
+      expect(calls[1].body.after).toBe(result[99].id);
+      expect(calls[2].body.after).toBe(result[199].id);
+      expect(result).toHaveLength(250);
+    });
+
+    it('should split batches that exceed the payload size limit', async () => {
+      mockAppendEndpoint();
+      const content = 'x'.repeat(1_900);
+      const children = Array.from({ length: 100 }, () =>
+        paragraph(content, [paragraph(content), paragraph(content)]),
+      );
+
+      await blocksAPI.children.appendAll('page-id', { children });
+
+      const calls = appendCalls();
+      expect(calls.length).toBeGreaterThan(1);
+      for (const call of calls) {
+        expect(Buffer.byteLength(JSON.stringify(call.body))).toBeLessThanOrEqual(
+          LIMITS.PAYLOAD_SIZE_BYTES,
+        );
+      }
+      expect(calls.reduce((total, call) => total + call.body.children.length, 0)).toBe(100);
+    });
+
+    it('should append children nested deeper than two levels in follow-up requests', async () => {
+      const childrenById = mockAppendEndpoint();
+      const children = [
+        paragraph('Level 0', [
+          paragraph('Level 1', [paragraph('Level 2', [paragraph('Level 3')])]),
+        ]),
+      ];
+
+      const [top] = await blocksAPI.children.appendAll('page-id', { children });
+
+      const calls = appendCalls();
+      expect(calls).toHaveLength(2);
+      expect(calls[0].body.children).toEqual([
+        paragraph('Level 0', [paragraph('Level 1', [paragraph('Level 2')])]),
+      ]);
+      const levelOneId = childrenById.get(top.id)?.[0] as string;
+      const levelTwoId = childrenById.get(levelOneId)?.[0] as string;
+      expect(calls[1].path).toBe(`/blocks/${levelTwoId}/children`);
+      expect(calls[1].body.children).toEqual([paragraph('Level 3')]);
+    });
+
+    it('should append nested children beyond the element limit in follow-up requests', async () => {
+      mockAppendEndpoint();
+      const nested = Array.from({ length: 150 }, (_, index) => paragraph(`Child ${index}`));
+
+      const [top] = await blocksAPI.children.appendAll('page-id', {
+        children: [paragraph('Parent', nested)],
+      });
+
+      const calls = appendCalls();
+      expect(calls).toHaveLength(2);
+      expect(
+        (calls[0].body.children[0] as { paragraph: { children: unknown[] } }).paragraph.children,
+      ).toHaveLength(100);
+      expect(calls[1].path).toBe(`/blocks/${top.id}/children`);
+      expect(calls[1].body.children).toHaveLength(50);
+    });
+
+    it('should send table rows, columns and column content inline with their parent', async () => {
+      const childrenById = mockAppendEndpoint();
+      const row = { type: 'table_row', table_row: { cells: [[]] } };
+      const table = {
+        type: 'table',
+        table: { table_width: 1, has_column_header: false, has_row_header: false, children: [row] },
+      };
+      const column = (children: unknown[]): Record<string, unknown> => ({
+        type: 'column',
+        column: { children },
+      });
+      const columns = (right: unknown[]): Record<string, unknown> => ({
+        type: 'column_list',
+        column_list: { children: [column([paragraph('Left')]), column(right)] },
+      });
+      const children = [
+        columns([paragraph('Right', [paragraph('Nested')])]),
+        paragraph('Level 0', [paragraph('Level 1', [table])]),
+      ];
+
+      const [, top] = await blocksAPI.children.appendAll('page-id', { children });
+
+      const calls = appendCalls();
+      expect(calls).toHaveLength(3);
+      expect(calls[0].body.children).toEqual([
+        columns([paragraph('Right')]),
+        paragraph('Level 0', [paragraph('Level 1')]),
+      ]);
+      expect(calls[1].body.children).toEqual([paragraph('Nested')]);
+      const levelOneId = childrenById.get(top.id)?.[0] as string;
+      expect(calls[2].path).toBe(`/blocks/${levelOneId}/children`);
+      expect(calls[2].body.children).toEqual([table]);
+    });
+
+    it('should report progress after every request', async () => {
+      mockAppendEndpoint();
+      const onProgress = vi.fn();
+      const children = Array.from({ length: 150 }, (_, index) => paragraph(`Block ${index}`));
+
+      await blocksAPI.children.appendAll('page-id', { children, onProgress });
+
+      expect(onProgress.mock.calls).toEqual([
+        [{ appended: 100, total: 150 }],
+        [{ appended: 150, total: 150 }],
+      ]);
+    });
+
+    it('should throw validation error when a single block exceeds the payload size limit', async () => {
+      const rich_text = Array.from({ length: 300 }, () => ({
+        type: 'text',
+        text: { content: 'x'.repeat(2_000) },
+      }));
+
+      await expect(
+        blocksAPI.children.appendAll('page-id', {
+          children: [{ type: 'paragraph', paragraph: { rich_text } }],
+        }),
+      ).rejects.toThrow(NotionValidationError);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,4 +1,7 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
+import { createLimiter } from '../concurrency';
+import { NotionAPIError } from '../errors';
+import { paginate, paginateIterator } from '../helpers/pagination.helpers';
 import {
   blockSchema,
   type NotionBlock,
@@ -7,7 +10,7 @@ import {
   type PaginationParameters,
 } from '../schemas';
 import { Block } from '../models';
-import { LIMITS, validateArrayLength } from '../validation';
+import { LIMITS, NotionValidationError, validateArrayLength } from '../validation';
 import { BaseAPI } from './base.api';
 
 /**
@@ -22,7 +25,7 @@ export interface RetrieveBlockOptions {
  * Options for appending children to a block.
  */
 export interface AppendBlockChildrenOptions extends PaginationParameters {
-  /** Array of block objects to append (max 100) */
+  /** Array of block objects to append (max 100; use `children.appendAll` for more) */
   children: unknown[];
 
   /** Position to insert the children */
@@ -43,6 +46,31 @@ export interface AppendBlockChildrenResponse {
   has_more: boolean;
 }
 
+/**
+ * Progress of a chunked append, reported after every request.
+ */
+export interface AppendProgress {
+  /** Number of blocks (including nested children) appended so far */
+  appended: number;
+
+  /** Total number of blocks (including nested children) to append */
+  total: number;
+}
+
+/**
+ * Options for appending any number of children to a block.
+ */
+export interface AppendAllBlockChildrenOptions {
+  /** Array of block objects to append (no limit on count or nesting depth) */
+  children: unknown[];
+
+  /** Position to insert the children */
+  after?: string;
+
+  /** Called after every append request with the overall progress */
+  onProgress?: (progress: AppendProgress) => void;
+}
+
 /**
  * Options for updating a block.
  */
@@ -54,6 +82,195 @@ export interface UpdateBlockOptions {
   archived?: boolean;
 }
 
+/**
+ * Options for fetching a block tree.
+ */
+export interface BlockTreeOptions {
+  /** Maximum nesting depth to descend into (default: unlimited; 0 fetches direct children only) */
+  maxDepth?: number;
+
+  /** Maximum number of child list requests in flight at once (default: 3) */
+  concurrency?: number;
+}
+
+/**
+ * Block types whose children belong to a separate page or database and are
+ * therefore never descended into when walking a block tree.
+ */
+const DETACHED_CHILD_TYPES: NotionBlock['type'][] = ['child_page', 'child_database'];
+
+// ---------------------------------------------------------------------------
+// Append batching
+// ---------------------------------------------------------------------------
+
+/** A block object as passed to the append endpoint. */
+type BlockRequest = Record<string, unknown>;
+
+/** Children stripped from a request, to be appended once their parent exists. */
+interface DeferredChildren {
+  /** Child indices leading from a top-level block of the batch to the parent */
+  path: number[];
+
+  children: BlockRequest[];
+}
+
+/** A request-sized slice of top-level blocks with everything they defer. */
+interface AppendBatch {
+  children: BlockRequest[];
+  deferred: DeferredChildren[][];
+  blockCount: number;
+}
+
+/** Shared progress state for one chunked append and its follow-up appends. */
+interface AppendState {
+  progress: AppendProgress;
+  onProgress?: (progress: AppendProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** Nesting levels below a top-level block that the API accepts in one request. */
+const MAX_INLINE_DEPTH = 2;
+
+/**
+ * Block types that must be created together with their children: a table with
+ * its rows, a column list with its columns and a column with its content.
+ */
+const INLINE_CHILD_TYPES = new Set(['table', 'column_list', 'column']);
+
+function nestedChildren(block: BlockRequest): BlockRequest[] {
+  const content = block[block.type as string] as { children?: unknown } | undefined;
+  return Array.isArray(content?.children) ? (content.children as BlockRequest[]) : [];
+}
+
+function withChildren(block: BlockRequest, children: BlockRequest[]): BlockRequest {
+  const type = block.type as string;
+  const content = { ...(block[type] as Record<string, unknown>) };
+  if (children.length > 0) {
+    content.children = children;
+  } else {
+    delete content.children;
+  }
+  return { ...block, [type]: content };
+}
+
+function countBlocks(blocks: BlockRequest[]): number {
+  return blocks.reduce((total, block) => total + 1 + countBlocks(nestedChildren(block)), 0);
+}
+
+function payloadSize(children: BlockRequest[]): number {
+  return Buffer.byteLength(JSON.stringify({ children }));
+}
+
+/**
+ * Nesting levels a block needs below it when it is created: one per level of
+ * `INLINE_CHILD_TYPES` children (only a column's first block is required).
+ */
+function requiredDepth(block: BlockRequest): number {
+  if (!INLINE_CHILD_TYPES.has(block.type as string)) {
+    return 0;
+  }
+  const children = nestedChildren(block);
+  const required = block.type === 'column' ? children.slice(0, 1) : children;
+  return 1 + Math.max(0, ...required.map(requiredDepth));
+}
+
+/**
+ * Keep up to `inlineDepth` levels of children (at most 100 per level) inline
+ * and record the rest for follow-up appends. Children of `INLINE_CHILD_TYPES`
+ * stay inline regardless of `inlineDepth`; a child whose own required children
+ * would nest too deep is deferred along with the siblings after it, so order is kept.
+ */
+function prepareBlock(
+  block: BlockRequest,
+  path: number[],
+  inlineDepth: number,
+  deferred: DeferredChildren[],
+): BlockRequest {
+  const children = nestedChildren(block);
+  if (children.length === 0) {
+    return block;
+  }
+  if (path.length >= inlineDepth && !INLINE_CHILD_TYPES.has(block.type as string)) {
+    deferred.push({ path, children });
+    return withChildren(block, []);
+  }
+
+  const tooDeep = children.findIndex(
+    (child) => path.length + 1 + requiredDepth(child) > MAX_INLINE_DEPTH,
+  );
+  const inlineCount = Math.min(LIMITS.ARRAY_ELEMENTS, tooDeep === -1 ? Infinity : tooDeep);
+  const inline = children
+    .slice(0, inlineCount)
+    .map((child, index) => prepareBlock(child, [...path, index], inlineDepth, deferred));
+  const rest = children.slice(inlineCount);
+  if (rest.length > 0) {
+    deferred.push({ path, children: rest });
+  }
+  return withChildren(block, inline);
+}
+
+/**
+ * Prepare a top-level block, inlining as much of its subtree as fits in a single request.
+ *
+ * @throws {NotionValidationError} If the block is too large even without children
+ */
+function prepareTopLevelBlock(block: BlockRequest): {
+  block: BlockRequest;
+  deferred: DeferredChildren[];
+  blockCount: number;
+} {
+  for (let inlineDepth = MAX_INLINE_DEPTH; inlineDepth >= 0; inlineDepth--) {
+    const deferred: DeferredChildren[] = [];
+    const prepared = prepareBlock(block, [], inlineDepth, deferred);
+    const blockCount = countBlocks([prepared]);
+    if (
+      blockCount <= LIMITS.PAYLOAD_BLOCKS &&
+      payloadSize([prepared]) <= LIMITS.PAYLOAD_SIZE_BYTES
+    ) {
+      return { block: prepared, deferred, blockCount };
+    }
+  }
+
+  throw new NotionValidationError(
+    `block exceeds the ${LIMITS.PAYLOAD_SIZE_BYTES}-byte payload limit on its own`,
+  );
+}
+
+/**
+ * Split blocks into batches that respect the per-request element, block count
+ * and payload size limits.
+ */
+function planBatches(blocks: BlockRequest[]): AppendBatch[] {
+  const batches: AppendBatch[] = [];
+  let current: AppendBatch = { children: [], deferred: [], blockCount: 0 };
+  let currentSize = payloadSize([]);
+
+  for (const block of blocks) {
+    const prepared = prepareTopLevelBlock(block);
+    const size = payloadSize([prepared.block]) - payloadSize([]) + 1;
+    const fits =
+      current.children.length < LIMITS.ARRAY_ELEMENTS &&
+      current.blockCount + prepared.blockCount <= LIMITS.PAYLOAD_BLOCKS &&
+      currentSize + size <= LIMITS.PAYLOAD_SIZE_BYTES;
+
+    if (!fits && current.children.length > 0) {
+      batches.push(current);
+      current = { children: [], deferred: [], blockCount: 0 };
+      currentSize = payloadSize([]);
+    }
+
+    current.children.push(prepared.block);
+    current.deferred.push(prepared.deferred);
+    current.blockCount += prepared.blockCount;
+    currentSize += size;
+  }
+
+  if (current.children.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
 /**
  * Blocks API client for working with Notion blocks.
  */
@@ -73,28 +290,34 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
    *
    * @param blockId - The ID of the block to retrieve (with or without dashes)
    * @param options - Options for filtering properties
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The block wrapped in a Block model
    *
    * @see https://developers.notion.com/reference/retrieve-a-block
    */
-  async retrieve(blockId: string, options?: RetrieveBlockOptions): Promise<Block> {
+  async retrieve(
+    blockId: string,
+    options?: RetrieveBlockOptions,
+    callOptions?: CallOptions,
+  ): Promise<Block> {
     const query: Record<string, string> = {
       ...this.buildFilterPropertiesQuery(options?.filter_properties),
     };
 
-    return this.retrieveResource(`/blocks/${blockId}`, query);
+    return this.retrieveResource(`/blocks/${blockId}`, query, callOptions);
   }
 
   /**
    * Delete (archive) a block.
    *
    * @param blockId - The ID of the block to delete
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The deleted block wrapped in a Block model
    *
    * @see https://developers.notion.com/reference/delete-a-block
    */
-  async delete(blockId: string): Promise<Block> {
-    return this.deleteResource(`/blocks/${blockId}`);
+  async delete(blockId: string, callOptions?: CallOptions): Promise<Block> {
+    return this.deleteResource(`/blocks/${blockId}`, callOptions);
   }
 
   /**
@@ -102,12 +325,103 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
    *
    * @param blockId - The ID of the block to update
    * @param options - Options for updating the block
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The updated block wrapped in a Block model
    *
    * @see https://developers.notion.com/reference/update-a-block
    */
-  async update(blockId: string, options: UpdateBlockOptions): Promise<Block> {
-    return this.updateResource(`/blocks/${blockId}`, options);
+  async update(
+    blockId: string,
+    options: UpdateBlockOptions,
+    callOptions?: CallOptions,
+  ): Promise<Block> {
+    return this.updateResource(`/blocks/${blockId}`, options, callOptions);
+  }
+
+  /**
+   * Recursively fetch the children of a page or block.
+   *
+   * Sibling subtrees are fetched in parallel, bounded by `concurrency` across
+   * the whole tree, and every child list is paginated to completion. Children
+   * of `child_page` and `child_database` blocks are not fetched. Synced block
+   * references are resolved: their children are the content of the original
+   * synced block (left empty if the original is not shared with the integration).
+   *
+   * @param blockId - The ID of the page or block whose children to fetch
+   * @param options - Depth and concurrency options
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns Top-level child blocks with nested children populated via `Block.children`
+   *
+   * @example
+   * ```typescript
+   * const blocks = await notion.blocks.tree('page-id', { maxDepth: 2, concurrency: 5 });
+   * for (const block of blocks) {
+   *   console.log(block.type, block.children.length);
+   * }
+   * ```
+   */
+  async tree(
+    blockId: string,
+    options?: BlockTreeOptions,
+    callOptions?: CallOptions,
+  ): Promise<Block[]> {
+    const limit = createLimiter(Math.max(1, options?.concurrency ?? 3));
+    return this.fetchTree(blockId, options?.maxDepth ?? Infinity, 0, limit, callOptions?.signal);
+  }
+
+  private async fetchTree(
+    blockId: string,
+    maxDepth: number,
+    depth: number,
+    limit: ReturnType<typeof createLimiter>,
+    signal: AbortSignal | undefined,
+  ): Promise<Block[]> {
+    const children: Block[] = [];
+    for await (const child of paginateIterator(
+      (cursor) =>
+        limit(() =>
+          this.children.list(blockId, { start_cursor: cursor, page_size: 100 }, { signal }),
+        ),
+      { signal },
+    )) {
+      children.push(child);
+    }
+
+    if (depth >= maxDepth) {
+      return children;
+    }
+
+    return Promise.all(
+      children.map(async (child) => {
+        const sourceId = child.toJSON().synced_block?.synced_from?.block_id;
+        if (sourceId) {
+          const nested = await this.fetchSyncedTree(sourceId, maxDepth, depth + 1, limit, signal);
+          return new Block(child.toJSON(), nested);
+        }
+        if (child.hasChildren && !DETACHED_CHILD_TYPES.includes(child.type)) {
+          const nested = await this.fetchTree(child.id, maxDepth, depth + 1, limit, signal);
+          return new Block(child.toJSON(), nested);
+        }
+        return child;
+      }),
+    );
+  }
+
+  private async fetchSyncedTree(
+    blockId: string,
+    maxDepth: number,
+    depth: number,
+    limit: ReturnType<typeof createLimiter>,
+    signal: AbortSignal | undefined,
+  ): Promise<Block[]> {
+    try {
+      return await this.fetchTree(blockId, maxDepth, depth, limit, signal);
+    } catch (error) {
+      if (error instanceof NotionAPIError && error.isNotFound()) {
+        return [];
+      }
+      throw error;
+    }
   }
 
   /**
@@ -119,14 +433,19 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
      *
      * @param blockId - The ID of the parent block
      * @param params - Pagination parameters
+     * @param callOptions - Per-call options such as an abort signal
      * @returns Paginated list of child blocks
      *
      * @see https://developers.notion.com/reference/get-block-children
      */
-    list: async (blockId: string, params?: PaginationParameters): Promise<PaginatedList<Block>> => {
+    list: async (
+      blockId: string,
+      params?: PaginationParameters,
+      callOptions?: CallOptions,
+    ): Promise<PaginatedList<Block>> => {
       const query = this.buildPaginationQuery(params);
 
-      return this.listResources(`/blocks/${blockId}/children`, query);
+      return this.listResources(`/blocks/${blockId}/children`, query, callOptions);
     },
 
     /**
@@ -134,6 +453,7 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
      *
      * @param blockId - The ID of the parent block
      * @param options - Options for appending children
+     * @param callOptions - Per-call options such as an abort signal
      * @returns Response with appended blocks
      *
      * @see https://developers.notion.com/reference/patch-block-children
@@ -141,6 +461,7 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
     append: async (
       blockId: string,
       options: AppendBlockChildrenOptions,
+      callOptions?: CallOptions,
     ): Promise<AppendBlockChildrenResponse> => {
       validateArrayLength(options.children, LIMITS.ARRAY_ELEMENTS, 'children');
 
@@ -148,6 +469,7 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
         method: 'PATCH',
         path: `/blocks/${blockId}/children`,
         body: options,
+        signal: callOptions?.signal,
       });
 
       const listSchema = paginatedListSchema(blockSchema);
@@ -159,5 +481,153 @@ export class BlocksAPI extends BaseAPI<NotionBlock, Block> {
         has_more: parsed.has_more,
       };
     },
+
+    /**
+     * Append any number of children to a parent block.
+     *
+     * Children are split into batches that respect the 100-element,
+     * `LIMITS.PAYLOAD_BLOCKS` and `LIMITS.PAYLOAD_SIZE_BYTES` limits, and each
+     * batch is inserted after the last block of the previous one so order is
+     * kept. Children nested deeper than the two levels the API accepts in a
+     * single request are appended to their parent in follow-up requests; table
+     * rows, columns and column content are always sent with their parent block.
+     *
+     * @param blockId - The ID of the parent block
+     * @param options - Children to append, insert position and progress callback
+     * @param callOptions - Per-call options such as an abort signal
+     * @returns The appended top-level blocks, in order
+     *
+     * @throws {NotionValidationError} If a single block exceeds the payload size limit
+     *
+     * @example
+     * ```typescript
+     * const blocks = markdownToBlocks(longDocument);
+     * await notion.blocks.children.appendAll('page-id', {
+     *   children: blocks,
+     *   onProgress: ({ appended, total }) => console.log(`${appended}/${total}`),
+     * });
+     * ```
+     */
+    appendAll: async (
+      blockId: string,
+      options: AppendAllBlockChildrenOptions,
+      callOptions?: CallOptions,
+    ): Promise<Block[]> => {
+      const children = options.children as BlockRequest[];
+      const state: AppendState = {
+        progress: { appended: 0, total: countBlocks(children) },
+        onProgress: options.onProgress,
+        signal: callOptions?.signal,
+      };
+
+      return this.appendBatches(blockId, planBatches(children), options.after, state);
+    },
   };
+
+  /**
+   * Create a parent whose create request accepts `children` like an append
+   * (such as a page), sending the first batch of `children` with it and
+   * appending the rest as `children.appendAll` would.
+   *
+   * @internal Used by `pages.createWithChildren`
+   */
+  async createWithChildren<T extends { id: string }>(
+    create: (children: BlockRequest[]) => Promise<T>,
+    children: BlockRequest[],
+    onProgress: ((progress: AppendProgress) => void) | undefined,
+    signal: AbortSignal | undefined,
+  ): Promise<T> {
+    const state: AppendState = {
+      progress: { appended: 0, total: countBlocks(children) },
+      onProgress,
+      signal,
+    };
+    const [first, ...rest] = planBatches(children);
+    const parent = await create(first?.children ?? []);
+    if (!first) {
+      return parent;
+    }
+    this.reportProgress(state, first.blockCount);
+
+    if (first.deferred.some((entries) => entries.length > 0)) {
+      const created = await paginate(
+        (cursor, pageSignal) =>
+          this.children.list(
+            parent.id,
+            { start_cursor: cursor, page_size: 100 },
+            { signal: pageSignal },
+          ),
+        { signal },
+      );
+      for (const [index, deferred] of first.deferred.entries()) {
+        await this.appendDeferred(created[index], deferred, state);
+      }
+    }
+
+    await this.appendBatches(parent.id, rest, undefined, state);
+    return parent;
+  }
+
+  private async appendBatches(
+    blockId: string,
+    batches: AppendBatch[],
+    after: string | undefined,
+    state: AppendState,
+  ): Promise<Block[]> {
+    const appended: Block[] = [];
+    let position = after;
+
+    for (const batch of batches) {
+      const response = await this.children.append(
+        blockId,
+        { children: batch.children, ...(position ? { after: position } : {}) },
+        { signal: state.signal },
+      );
+      this.reportProgress(state, batch.blockCount);
+
+      for (const [index, deferred] of batch.deferred.entries()) {
+        await this.appendDeferred(response.results[index], deferred, state);
+      }
+
+      appended.push(...response.results);
+      position = response.results[response.results.length - 1]?.id ?? position;
+    }
+
+    return appended;
+  }
+
+  private async appendDeferred(
+    parent: Block | undefined,
+    deferred: DeferredChildren[],
+    state: AppendState,
+  ): Promise<void> {
+    if (!parent || deferred.length === 0) {
+      return;
+    }
+
+    const listed = new Map<string, Block[]>();
+    for (const entry of deferred) {
+      let targetId = parent.id;
+      for (const index of entry.path) {
+        let siblings = listed.get(targetId);
+        if (!siblings) {
+          const parentId = targetId;
+          siblings = await paginate(
+            (cursor, signal) =>
+              this.children.list(parentId, { start_cursor: cursor, page_size: 100 }, { signal }),
+            { signal: state.signal },
+          );
+          listed.set(parentId, siblings);
+        }
+        targetId = siblings[index].id;
+      }
+
+      await this.appendBatches(targetId, planBatches(entry.children), undefined, state);
+    }
+  }
+
+  private reportProgress(state: AppendState, blockCount: number): void {
+    state.progress.appended += blockCount;
+    state.onProgress?.({ ...state.progress });
+  }
 }
@@ -1,4 +1,4 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
 import {
   commentSchema,
   type NotionComment,
@@ -67,33 +67,39 @@ export class CommentsAPI extends BaseAPI<NotionComment, Comment> {
    *
    * @param parentId - The ID of the parent page, block, or database
    * @param params - Pagination parameters
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Paginated list of comments
    *
    * @see https://developers.notion.com/reference/retrieve-a-comment
    */
-  async list(parentId: string, params?: PaginationParameters): Promise<PaginatedList<Comment>> {
+  async list(
+    parentId: string,
+    params?: PaginationParameters,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedList<Comment>> {
     const query: Record<string, string> = {
       block_id: parentId, // Can be page_id, block_id, or database_id
       ...this.buildPaginationQuery(params),
     };
 
-    return this.listResources('/comments', query);
+    return this.listResources('/comments', query, callOptions);
   }
 
   /**
    * Create a new comment on a page or block.
    *
    * @param options - Options for creating the comment
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The created comment wrapped in a Comment model
    *
    * @see https://developers.notion.com/reference/create-a-comment
    */
-  async create(options: CreateCommentOptions): Promise<Comment> {
+  async create(options: CreateCommentOptions, callOptions?: CallOptions): Promise<Comment> {
     validateArrayLength(options.rich_text, LIMITS.ARRAY_ELEMENTS, 'rich_text');
     if (options.attachments) {
       validateArrayLength(options.attachments, LIMITS.COMMENT_ATTACHMENTS, 'attachments');
     }
 
-    return this.createResource('/comments', options);
+    return this.createResource('/comments', options, callOptions);
   }
 }
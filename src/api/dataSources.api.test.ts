@@ -519,4 +519,55 @@ describe('DataSourcesAPI', () => {
       expect(result).toBeInstanceOf(DataSource);
     });
   });
+
+  describe('templates.list', () => {
+    const dataSourceId = '123e4567-e89b-12d3-a456-426614174000';
+    const templateList = {
+      templates: [
+        { id: '423e4567-e89b-12d3-a456-426614174000', name: 'Bug report', is_default: true },
+        { id: '523e4567-e89b-12d3-a456-426614174000', name: 'Feature request', is_default: false },
+      ],
+      has_more: false,
+      next_cursor: null,
+    };
+
+    it('should list the templates of a data source', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(templateList);
+
+      const result = await dataSourcesAPI.templates.list(dataSourceId);
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'GET',
+        path: `/data_sources/${dataSourceId}/templates`,
+        query: undefined,
+      });
+      expect(result).toEqual(templateList);
+    });
+
+    it('should pass the name filter and pagination parameters', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(templateList);
+
+      await dataSourcesAPI.templates.list(dataSourceId, {
+        name: 'bug',
+        page_size: 10,
+        start_cursor: 'cursor-1',
+      });
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'GET',
+        path: `/data_sources/${dataSourceId}/templates`,
+        query: { name: 'bug', page_size: '10', start_cursor: 'cursor-1' },
+      });
+    });
+
+    it('should reject malformed template descriptors', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue({
+        templates: [{ id: 'not-a-uuid', name: 'Broken' }],
+        has_more: false,
+        next_cursor: null,
+      });
+
+      await expect(dataSourcesAPI.templates.list(dataSourceId)).rejects.toThrow();
+    });
+  });
 });
@@ -1,8 +1,12 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
 import {
   dataSourceSchema,
+  dataSourceTemplateListSchema,
   type NotionDataSource,
+  type NotionDataSourceTemplateList,
   type NotionPage,
+  type NotionPropertyConfiguration,
+  type NotionPropertyConfigurationUpdate,
   pageSchema,
   type PaginatedList,
   paginatedListSchema,
@@ -11,6 +15,7 @@ import {
 import { DataSource, Page } from '../models';
 import { LIMITS, validateArrayLength } from '../validation';
 import { BaseAPI } from './base.api';
+import { TypedDataSourceAPI, type TypedDataSourceSchema } from './typedDataSource.api';
 
 /**
  * Parent for creating a data source.
@@ -24,8 +29,8 @@ export interface CreateDataSourceOptions {
   /** The parent database object */
   parent: CreateDataSourceParent;
 
-  /** Data source properties schema */
-  properties: Record<string, unknown>;
+  /** Data source properties schema, keyed by property name (see the `schema.*` helpers) */
+  properties: Record<string, NotionPropertyConfiguration>;
 
   /** Data source title as rich text array */
   title?: unknown[];
@@ -44,8 +49,11 @@ export interface UpdateDataSourceOptions {
   /** Update the data source icon */
   icon?: unknown;
 
-  /** Update the data source properties schema */
-  properties?: Record<string, unknown>;
+  /**
+   * Update the data source properties schema, keyed by property name or ID.
+   * `null` removes a property.
+   */
+  properties?: Record<string, NotionPropertyConfigurationUpdate | null>;
 
   /** Archive or restore the data source */
   archived?: boolean;
@@ -115,6 +123,14 @@ export interface QueryDataSourceOptions extends PaginationParameters {
   result_type?: 'page' | 'data_source';
 }
 
+/**
+ * Options for listing a data source's templates.
+ */
+export interface ListDataSourceTemplatesOptions extends PaginationParameters {
+  /** Only include templates whose name contains this text (case-insensitive) */
+  name?: string;
+}
+
 /**
  * Data Sources API client for working with Notion data sources.
  *
@@ -131,21 +147,67 @@ export class DataSourcesAPI extends BaseAPI<NotionDataSource, DataSource> {
     super(client);
   }
 
+  /**
+   * Data source template operations.
+   */
+  readonly templates = {
+    /**
+     * List the page templates of a data source (paginated).
+     *
+     * @param dataSourceId - The ID of the data source
+     * @param options - Name filter and pagination parameters
+     * @param callOptions - Per-call options such as an abort signal
+     * @returns One page of template descriptors
+     *
+     * @example
+     * ```typescript
+     * const { templates } = await notion.dataSources.templates.list('data-source-id');
+     * const defaultTemplate = templates.find((template) => template.is_default);
+     * ```
+     *
+     * @see https://developers.notion.com/reference/list-data-source-templates
+     */
+    list: async (
+      dataSourceId: string,
+      options?: ListDataSourceTemplatesOptions,
+      callOptions?: CallOptions,
+    ): Promise<NotionDataSourceTemplateList> => {
+      const query: Record<string, string> = {
+        ...this.buildPaginationQuery(options),
+        ...(options?.name && { name: options.name }),
+      };
+
+      const response = await this.client.request<NotionDataSourceTemplateList>({
+        method: 'GET',
+        path: `/data_sources/${dataSourceId}/templates`,
+        query: Object.keys(query).length > 0 ? query : undefined,
+        signal: callOptions?.signal,
+      });
+
+      return dataSourceTemplateListSchema.parse(response);
+    },
+  };
+
   /**
    * Retrieve a data source by ID.
    *
    * @param dataSourceId - The ID of the data source to retrieve (with or without dashes)
    * @param options - Options for filtering properties
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The data source wrapped in a DataSource model
    *
    * @see https://developers.notion.com/reference/retrieve-a-data-source
    */
-  async retrieve(dataSourceId: string, options?: RetrieveDataSourceOptions): Promise<DataSource> {
+  async retrieve(
+    dataSourceId: string,
+    options?: RetrieveDataSourceOptions,
+    callOptions?: CallOptions,
+  ): Promise<DataSource> {
     const query: Record<string, string> = {
       ...this.buildFilterPropertiesQuery(options?.filter_properties),
     };
 
-    return this.retrieveResource(`/data_sources/${dataSourceId}`, query);
+    return this.retrieveResource(`/data_sources/${dataSourceId}`, query, callOptions);
   }
 
   /**
@@ -154,6 +216,7 @@ export class DataSourcesAPI extends BaseAPI<NotionDataSource, DataSource> {
    *
    * @param dataSourceId - The ID of the data source to query
    * @param options - Query options (filter, sorts, pagination)
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Paginated list of pages from the data source
    *
    * @see https://developers.notion.com/reference/query-a-data-source
@@ -162,6 +225,7 @@ export class DataSourcesAPI extends BaseAPI<NotionDataSource, DataSource> {
   async query(
     dataSourceId: string,
     options?: QueryDataSourceOptions,
+    callOptions?: CallOptions,
   ): Promise<PaginatedList<Page>> {
     const body: Record<string, unknown> = {};
 
@@ -202,6 +266,7 @@ export class DataSourcesAPI extends BaseAPI<NotionDataSource, DataSource> {
       method: 'POST',
       path: `/data_sources/${dataSourceId}/query`,
       body: Object.keys(body).length > 0 ? body : undefined,
+      signal: callOptions?.signal,
     });
 
     const listSchema = paginatedListSchema(pageSchema);
@@ -220,16 +285,17 @@ export class DataSourcesAPI extends BaseAPI<NotionDataSource, DataSource> {
    * Create a new data source under a database.
    *
    * @param options - Options for creating the data source
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The created data source wrapped in a DataSource model
    *
    * @see https://developers.notion.com/reference/create-a-data-source
    */
-  async create(options: CreateDataSourceOptions): Promise<DataSource> {
+  async create(options: CreateDataSourceOptions, callOptions?: CallOptions): Promise<DataSource> {
     if (options.title) {
       validateArrayLength(options.title, LIMITS.ARRAY_ELEMENTS, 'title');
     }
 
-    return this.createResource('/data_sources', options);
+    return this.createResource('/data_sources', options, callOptions);
   }
 
   /**
@@ -237,55 +303,96 @@ export class DataSourcesAPI extends BaseAPI<NotionDataSource, DataSource> {
    *
    * @param dataSourceId - The ID of the data source to update
    * @param options - Options for updating the data source
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The updated data source wrapped in a DataSource model
    *
    * @see https://developers.notion.com/reference/update-a-data-source
    */
-  async update(dataSourceId: string, options: UpdateDataSourceOptions): Promise<DataSource> {
+  async update(
+    dataSourceId: string,
+    options: UpdateDataSourceOptions,
+    callOptions?: CallOptions,
+  ): Promise<DataSource> {
     if (options.title) {
       validateArrayLength(options.title, LIMITS.ARRAY_ELEMENTS, 'title');
     }
 
-    return this.updateResource(`/data_sources/${dataSourceId}`, options);
+    return this.updateResource(`/data_sources/${dataSourceId}`, options, callOptions);
+  }
+
+  /**
+   * Bind a data source to a row type, for reading and writing plain rows
+   * instead of `Page` models.
+   *
+   * @param dataSourceId - The ID of the data source
+   * @param schema - The property type of each row field, keyed by property name
+   * @returns A repository with `findMany`, `findFirst`, `findById`, `create`, `update`,
+   * `upsert` and `archive`
+   *
+   * @example
+   * ```ts
+   * interface Task {
+   *   Name: string;
+   *   Points: number | null;
+   *   Done: boolean;
+   * }
+   *
+   * const tasks = notion.dataSources.typed<Task>('ds-id', {
+   *   Name: 'title',
+   *   Points: 'number',
+   *   Done: 'checkbox',
+   * });
+   * const open = await tasks.findMany({ Done: false }, { Points: 'descending' });
+   * ```
+   */
+  typed<Row extends object>(
+    dataSourceId: string,
+    schema: TypedDataSourceSchema<Row>,
+  ): TypedDataSourceAPI<Row> {
+    return new TypedDataSourceAPI<Row>(this.client, dataSourceId, schema);
   }
 
   /**
    * Archive a data source (convenience method).
    *
    * @param dataSourceId - The ID of the data source to archive
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The archived data source wrapped in a DataSource model
    */
-  async archive(dataSourceId: string): Promise<DataSource> {
-    return this.update(dataSourceId, { archived: true });
+  async archive(dataSourceId: string, callOptions?: CallOptions): Promise<DataSource> {
+    return this.update(dataSourceId, { archived: true }, callOptions);
   }
 
   /**
    * Restore an archived data source (convenience method).
    *
    * @param dataSourceId - The ID of the data source to restore
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The restored data source wrapped in a DataSource model
    */
-  async restore(dataSourceId: string): Promise<DataSource> {
-    return this.update(dataSourceId, { archived: false });
+  async restore(dataSourceId: string, callOptions?: CallOptions): Promise<DataSource> {
+    return this.update(dataSourceId, { archived: false }, callOptions);
   }
 
   /**
    * Move a data source to trash (convenience method).
    *
    * @param dataSourceId - The ID of the data source to trash
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The trashed data source wrapped in a DataSource model
    */
-  async trash(dataSourceId: string): Promise<DataSource> {
-    return this.update(dataSourceId, { in_trash: true });
+  async trash(dataSourceId: string, callOptions?: CallOptions): Promise<DataSource> {
+    return this.update(dataSourceId, { in_trash: true }, callOptions);
   }
 
   /**
    * Restore a data source from trash (convenience method).
    *
    * @param dataSourceId - The ID of the data source to restore from trash
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The restored data source wrapped in a DataSource model
    */
-  async untrash(dataSourceId: string): Promise<DataSource> {
-    return this.update(dataSourceId, { in_trash: false });
+  async untrash(dataSourceId: string, callOptions?: CallOptions): Promise<DataSource> {
+    return this.update(dataSourceId, { in_trash: false }, callOptions);
   }
 }
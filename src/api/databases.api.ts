@@ -1,8 +1,9 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
 import {
   databaseSchema,
   type NotionDatabase,
   type NotionPage,
+  type NotionPropertyConfiguration,
   pageSchema,
   type PaginatedList,
   paginatedListSchema,
@@ -71,8 +72,8 @@ export type CreateDatabaseParent = { page_id: string } | { workspace: true };
  * In API version 2025-09-03, databases are created with an initial data source.
  */
 export interface InitialDataSource {
-  /** Data source properties schema */
-  properties: Record<string, unknown>;
+  /** Data source properties schema, keyed by property name (see the `schema.*` helpers) */
+  properties: Record<string, NotionPropertyConfiguration>;
 
   /** Data source title as rich text array */
   title?: unknown[];
@@ -150,16 +151,21 @@ export class DatabasesAPI extends BaseAPI<NotionDatabase, Database> {
    *
    * @param databaseId - The ID of the database to retrieve (with or without dashes)
    * @param options - Options for filtering properties
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The database wrapped in a Database model
    *
    * @see https://developers.notion.com/reference/retrieve-a-database
    */
-  async retrieve(databaseId: string, options?: RetrieveDatabaseOptions): Promise<Database> {
+  async retrieve(
+    databaseId: string,
+    options?: RetrieveDatabaseOptions,
+    callOptions?: CallOptions,
+  ): Promise<Database> {
     const query: Record<string, string> = {
       ...this.buildFilterPropertiesQuery(options?.filter_properties),
     };
 
-    return this.retrieveResource(`/databases/${databaseId}`, query);
+    return this.retrieveResource(`/databases/${databaseId}`, query, callOptions);
   }
 
   /**
@@ -168,11 +174,16 @@ export class DatabasesAPI extends BaseAPI<NotionDatabase, Database> {
    *
    * @param databaseId - The ID of the database to query
    * @param options - Query options (filter, sorts, pagination)
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Paginated list of pages from the database
    *
    * @see https://developers.notion.com/reference/post-database-query
    */
-  async query(databaseId: string, options?: QueryDatabaseOptions): Promise<PaginatedList<Page>> {
+  async query(
+    databaseId: string,
+    options?: QueryDatabaseOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedList<Page>> {
     const body: Record<string, unknown> = {
       ...(options?.filter ? { filter: options.filter } : {}),
       ...(options?.sorts ? { sorts: options.sorts } : {}),
@@ -184,6 +195,7 @@ export class DatabasesAPI extends BaseAPI<NotionDatabase, Database> {
       method: 'POST',
       path: `/databases/${databaseId}/query`,
       body: Object.keys(body).length > 0 ? body : undefined,
+      signal: callOptions?.signal,
     });
 
     const listSchema = paginatedListSchema(pageSchema);
@@ -202,11 +214,12 @@ export class DatabasesAPI extends BaseAPI<NotionDatabase, Database> {
    * Create a new database.
    *
    * @param options - Options for creating the database
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The created database wrapped in a Database model
    *
    * @see https://developers.notion.com/reference/create-a-database
    */
-  async create(options: CreateDatabaseOptions): Promise<Database> {
+  async create(options: CreateDatabaseOptions, callOptions?: CallOptions): Promise<Database> {
     if (options.title) {
       validateArrayLength(options.title, LIMITS.ARRAY_ELEMENTS, 'title');
     }
@@ -225,7 +238,7 @@ export class DatabasesAPI extends BaseAPI<NotionDatabase, Database> {
       );
     }
 
-    return this.createResource('/databases', options);
+    return this.createResource('/databases', options, callOptions);
   }
 
   /**
@@ -233,35 +246,42 @@ export class DatabasesAPI extends BaseAPI<NotionDatabase, Database> {
    *
    * @param databaseId - The ID of the database to update
    * @param options - Options for updating the database
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The updated database wrapped in a Database model
    *
    * @see https://developers.notion.com/reference/update-a-database
    */
-  async update(databaseId: string, options: UpdateDatabaseOptions): Promise<Database> {
+  async update(
+    databaseId: string,
+    options: UpdateDatabaseOptions,
+    callOptions?: CallOptions,
+  ): Promise<Database> {
     if (options.title) {
       validateArrayLength(options.title, LIMITS.ARRAY_ELEMENTS, 'title');
     }
 
-    return this.updateResource(`/databases/${databaseId}`, options);
+    return this.updateResource(`/databases/${databaseId}`, options, callOptions);
   }
 
   /**
    * Archive a database (convenience method).
    *
    * @param databaseId - The ID of the database to archive
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The archived database wrapped in a Database model
    */
-  async archive(databaseId: string): Promise<Database> {
-    return this.update(databaseId, { archived: true });
+  async archive(databaseId: string, callOptions?: CallOptions): Promise<Database> {
+    return this.update(databaseId, { archived: true }, callOptions);
   }
 
   /**
    * Restore an archived database (convenience method).
    *
    * @param databaseId - The ID of the database to restore
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The restored database wrapped in a Database model
    */
-  async restore(databaseId: string): Promise<Database> {
-    return this.update(databaseId, { archived: false });
+  async restore(databaseId: string, callOptions?: CallOptions): Promise<Database> {
+    return this.update(databaseId, { archived: false }, callOptions);
   }
 }
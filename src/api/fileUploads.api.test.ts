@@ -1,7 +1,9 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { FileUploadsAPI } from './fileUploads.api';
-import type { NotionClient } from '../client';
+import type { NotionClient, RequestOptions } from '../client';
+import { NotionAPIError, NotionFileImportError, NotionRequestTimeoutError } from '../errors';
 import { FileUpload } from '../models';
+import { NotionValidationError } from '../validation';
 
 // Mock global fetch
 const mockFetch = vi.fn();
@@ -230,6 +232,42 @@ describe('FileUploadsAPI', () => {
     });
   });
 
+  describe('list', () => {
+    const mockListResponse = {
+      object: 'list',
+      results: [mockFileUploadResponse],
+      next_cursor: null,
+      has_more: false,
+      type: 'file_upload',
+    };
+
+    it('should list file uploads without params', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockListResponse);
+
+      const result = await fileUploadsAPI.list();
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'GET',
+        path: '/file_uploads',
+        query: undefined,
+      });
+      expect(result.type).toBe('file_upload');
+      expect(result.results[0]).toBeInstanceOf(FileUpload);
+    });
+
+    it('should filter by status with pagination params', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockListResponse);
+
+      await fileUploadsAPI.list({ status: 'expired', start_cursor: 'cursor-1', page_size: 25 });
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'GET',
+        path: '/file_uploads',
+        query: { status: 'expired', start_cursor: 'cursor-1', page_size: '25' },
+      });
+    });
+  });
+
   describe('uploadFile', () => {
     it('should upload a complete file using Buffer', async () => {
       // Mock initiate response
@@ -327,4 +365,233 @@ describe('FileUploadsAPI', () => {
       ).rejects.toThrow('Cannot determine content length for ReadableStream');
     });
   });
+
+  describe('uploadMultiPart', () => {
+    const MiB = 1_024 * 1_024;
+    const sendPath = '/file_uploads/123e4567-e89b-12d3-a456-426614174000/send';
+    const multiPartResponse = {
+      ...mockFileUploadResponse,
+      upload_url: `https://api.notion.com/v1${sendPath}`,
+    };
+
+    const partRequests = (): RequestOptions[] =>
+      vi
+        .mocked(mockClient.request)
+        .mock.calls.map(([options]) => options)
+        .filter((options) => options.path === sendPath);
+
+    const partForms = (): FormData[] => partRequests().map((options) => options.body as FormData);
+
+    const partBodies = (): number[] => partForms().map((form) => (form.get('file') as Blob).size);
+
+    const partNumbers = (): string[] =>
+      partForms().map((form) => form.get('part_number') as string);
+
+    beforeEach(() => {
+      vi.mocked(mockClient.request).mockImplementation(({ path }) => {
+        return Promise.resolve(
+          path === '/file_uploads' ? multiPartResponse : mockUploadedFileUploadResponse,
+        );
+      });
+    });
+
+    afterEach(() => {
+      vi.mocked(mockClient.request).mockReset();
+    });
+
+    it('should initiate in multi_part mode and upload numbered parts', async () => {
+      const fileData = Buffer.alloc(12 * MiB);
+
+      const result = await fileUploadsAPI.uploadMultiPart('video.mp4', fileData, 'video/mp4', {
+        partSize: 5 * MiB,
+      });
+
+      expect(mockClient.request).toHaveBeenNthCalledWith(1, {
+        method: 'POST',
+        path: '/file_uploads',
+        body: {
+          filename: 'video.mp4',
+          content_type: 'video/mp4',
+          content_length: 12 * MiB,
+          mode: 'multi_part',
+          number_of_parts: 3,
+        },
+      });
+      for (const options of partRequests()) {
+        expect(options).toMatchObject({ method: 'POST', idempotent: true });
+      }
+      expect(partNumbers()).toEqual(['1', '2', '3']);
+      expect(partBodies()).toEqual([5 * MiB, 5 * MiB, 2 * MiB]);
+      expect(mockClient.request).toHaveBeenLastCalledWith({
+        method: 'POST',
+        path: '/file_uploads/123e4567-e89b-12d3-a456-426614174000/complete',
+        body: {},
+      });
+      expect(result.status).toBe('uploaded');
+    });
+
+    it('should stream parts from an async iterable', async () => {
+      async function* chunks(): AsyncGenerator<Uint8Array> {
+        for (let i = 0; i < 11; i++) {
+          yield new Uint8Array(MiB);
+        }
+      }
+
+      await fileUploadsAPI.uploadMultiPart('video.mp4', chunks(), 'video/mp4', {
+        partSize: 5 * MiB,
+        contentLength: 11 * MiB,
+      });
+
+      expect(partBodies()).toEqual([5 * MiB, 5 * MiB, MiB]);
+    });
+
+    it('should stream parts from a web ReadableStream', async () => {
+      let sent = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent === 6) {
+            controller.close();
+            return;
+          }
+          sent++;
+          controller.enqueue(new Uint8Array(MiB));
+        },
+      });
+
+      await fileUploadsAPI.uploadMultiPart('video.mp4', stream, 'video/mp4', {
+        partSize: 5 * MiB,
+        contentLength: 6 * MiB,
+      });
+
+      expect(partBodies()).toEqual([5 * MiB, MiB]);
+    });
+
+    it('should surface API errors from a failed part', async () => {
+      const error = new NotionAPIError({
+        object: 'error',
+        status: 400,
+        code: 'validation_error',
+        message: 'Part rejected',
+      });
+      vi.mocked(mockClient.request).mockImplementation(({ path }) =>
+        path === sendPath ? Promise.reject(error) : Promise.resolve(multiPartResponse),
+      );
+
+      await expect(
+        fileUploadsAPI.uploadMultiPart('file.bin', Buffer.alloc(MiB), 'application/octet-stream'),
+      ).rejects.toBe(error);
+    });
+
+    it('should require a content length for streams', async () => {
+      await expect(
+        fileUploadsAPI.uploadMultiPart(
+          'stream.dat',
+          new ReadableStream(),
+          'application/octet-stream',
+        ),
+      ).rejects.toThrow(NotionValidationError);
+    });
+
+    it('should reject part sizes outside the allowed range', async () => {
+      await expect(
+        fileUploadsAPI.uploadMultiPart('file.bin', Buffer.alloc(1), 'application/octet-stream', {
+          partSize: MiB,
+        }),
+      ).rejects.toThrow(NotionValidationError);
+    });
+
+    it('should fail when a stream is shorter than its declared length', async () => {
+      async function* chunks(): AsyncGenerator<Uint8Array> {
+        yield new Uint8Array(MiB);
+      }
+
+      await expect(
+        fileUploadsAPI.uploadMultiPart('file.bin', chunks(), 'application/octet-stream', {
+          partSize: 5 * MiB,
+          contentLength: 6 * MiB,
+        }),
+      ).rejects.toThrow('File data is smaller than the declared');
+    });
+  });
+
+  describe('importFromUrl', () => {
+    const pendingImport = {
+      ...mockFileUploadResponse,
+      filename: 'report.pdf',
+      mode: 'external_url',
+      external_url: 'https://example.com/report.pdf',
+    };
+
+    it('should initiate an external_url upload and poll until it is uploaded', async () => {
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(pendingImport)
+        .mockResolvedValueOnce(pendingImport)
+        .mockResolvedValueOnce({ ...pendingImport, status: 'uploaded' });
+
+      const result = await fileUploadsAPI.importFromUrl(
+        'https://example.com/report.pdf',
+        'report.pdf',
+        { pollIntervalMs: 0 },
+      );
+
+      expect(mockClient.request).toHaveBeenNthCalledWith(1, {
+        method: 'POST',
+        path: '/file_uploads',
+        body: {
+          filename: 'report.pdf',
+          mode: 'external_url',
+          external_url: 'https://example.com/report.pdf',
+        },
+      });
+      expect(mockClient.request).toHaveBeenNthCalledWith(2, {
+        method: 'GET',
+        path: `/file_uploads/${pendingImport.id}`,
+      });
+      expect(mockClient.request).toHaveBeenCalledTimes(3);
+      expect(result.isUploaded()).toBe(true);
+    });
+
+    it('should throw a file import error when the import fails', async () => {
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(pendingImport)
+        .mockResolvedValueOnce({
+          ...pendingImport,
+          status: 'failed',
+          file_import_result: {
+            imported_time: '2023-01-01T00:00:05.000Z',
+            type: 'error',
+            error: {
+              type: 'validation_error',
+              code: 'file_download_failed',
+              message: 'Could not download the file',
+              parameter: 'external_url',
+              status_code: 404,
+            },
+          },
+        });
+
+      const error = await fileUploadsAPI
+        .importFromUrl('https://example.com/report.pdf', 'report.pdf', { pollIntervalMs: 0 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NotionFileImportError);
+      expect(error).toMatchObject({
+        message: 'Could not download the file',
+        fileUploadId: pendingImport.id,
+        code: 'file_download_failed',
+        statusCode: 404,
+      });
+    });
+
+    it('should throw a timeout error when the import stays pending', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(pendingImport);
+
+      await expect(
+        fileUploadsAPI.importFromUrl('https://example.com/report.pdf', 'report.pdf', {
+          timeoutMs: 0,
+        }),
+      ).rejects.toThrow(NotionRequestTimeoutError);
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
 });
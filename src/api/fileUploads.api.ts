@@ -1,6 +1,14 @@
-import type { NotionClient } from '../client';
-import { fileUploadSchema, type NotionFileUpload } from '../schemas';
+import { sleep, throwIfAborted } from '../abort';
+import type { CallOptions, NotionClient } from '../client';
+import { NotionFileImportError, NotionRequestTimeoutError } from '../errors';
+import {
+  fileUploadSchema,
+  type NotionFileUpload,
+  type PaginatedList,
+  type PaginationParameters,
+} from '../schemas';
 import { FileUpload } from '../models';
+import { NotionValidationError } from '../validation';
 import { BaseAPI } from './base.api';
 
 /**
@@ -10,11 +18,28 @@ export interface InitiateFileUploadOptions {
   /** The filename */
   filename: string;
 
-  /** The MIME type of the file */
-  content_type: string;
+  /** The MIME type of the file (detected from the file when importing from a URL) */
+  content_type?: string;
 
-  /** The size of the file in bytes */
-  content_length: number;
+  /** The size of the file in bytes (not used when importing from a URL) */
+  content_length?: number;
+
+  /** Upload mode (default: single_part) */
+  mode?: 'single_part' | 'multi_part' | 'external_url';
+
+  /** Number of parts the file will be sent in (required for multi_part) */
+  number_of_parts?: number;
+
+  /** Public URL to import the file from (required for external_url) */
+  external_url?: string;
+}
+
+/**
+ * Options for listing file uploads.
+ */
+export interface ListFileUploadsOptions extends PaginationParameters {
+  /** Only return uploads with this status */
+  status?: NotionFileUpload['status'];
 }
 
 /**
@@ -22,6 +47,144 @@ export interface InitiateFileUploadOptions {
  */
 export type FileData = Buffer | ArrayBuffer | Blob | ReadableStream;
 
+/**
+ * File data for a multi-part upload. In addition to {@link FileData}, any async
+ * iterable of bytes (such as a Node.js `Readable`) can be streamed.
+ */
+export type MultiPartFileData = FileData | AsyncIterable<Uint8Array>;
+
+/**
+ * Options for a multi-part upload.
+ */
+export interface MultiPartUploadOptions {
+  /** Size of each part in bytes, except the last (default: 10 MiB; 5–20 MiB) */
+  partSize?: number;
+
+  /** Total size in bytes (required when streaming, detected otherwise) */
+  contentLength?: number;
+}
+
+/**
+ * Options for importing a file from an external URL.
+ */
+export interface ImportFromUrlOptions {
+  /** The MIME type of the file (detected by Notion if omitted) */
+  contentType?: string;
+
+  /** Maximum time to wait for the import to finish, in milliseconds (default: 60000) */
+  timeoutMs?: number;
+
+  /** Delay before the first status check, doubled after every check (default: 500) */
+  pollIntervalMs?: number;
+
+  /** Upper bound for the delay between status checks (default: 5000) */
+  maxPollIntervalMs?: number;
+}
+
+/** Largest file, in bytes, that can be sent in a single-part upload. */
+const MAX_SINGLE_PART_SIZE = 20 * 1_024 * 1_024;
+
+/** Smallest part size, in bytes, accepted for every part but the last. */
+const MIN_PART_SIZE = 5 * 1_024 * 1_024;
+
+/** Default part size for multi-part uploads. */
+const DEFAULT_PART_SIZE = 10 * 1_024 * 1_024;
+
+/** Maximum number of parts in a multi-part upload. */
+const MAX_PARTS = 1_000;
+
+/**
+ * Returns the size of in-memory file data, or undefined for streams.
+ */
+function byteLength(fileData: MultiPartFileData | Uint8Array): number | undefined {
+  if (fileData instanceof Uint8Array) {
+    return fileData.byteLength;
+  }
+  if (fileData instanceof ArrayBuffer) {
+    return fileData.byteLength;
+  }
+  if (fileData instanceof Blob) {
+    return fileData.size;
+  }
+  return undefined;
+}
+
+async function* readStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function concatBytes(chunks: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Yields consecutive `partSize` slices of the file data. Streams are read
+ * incrementally so only one part is held in memory at a time.
+ */
+async function* readParts(
+  fileData: MultiPartFileData,
+  partSize: number,
+): AsyncGenerator<Uint8Array | Blob> {
+  if (
+    fileData instanceof Blob ||
+    fileData instanceof ArrayBuffer ||
+    fileData instanceof Uint8Array
+  ) {
+    const data = fileData instanceof ArrayBuffer ? new Uint8Array(fileData) : fileData;
+    const size = byteLength(data) ?? 0;
+    for (let offset = 0; offset < size; offset += partSize) {
+      yield data instanceof Blob
+        ? data.slice(offset, offset + partSize)
+        : data.subarray(offset, offset + partSize);
+    }
+    return;
+  }
+
+  const chunks =
+    fileData instanceof ReadableStream
+      ? readStream(fileData as ReadableStream<Uint8Array>)
+      : fileData;
+  let buffered: Uint8Array[] = [];
+  let bufferedSize = 0;
+
+  for await (const chunk of chunks) {
+    let offset = 0;
+    while (offset < chunk.byteLength) {
+      const take = Math.min(partSize - bufferedSize, chunk.byteLength - offset);
+      buffered.push(chunk.subarray(offset, offset + take));
+      bufferedSize += take;
+      offset += take;
+
+      if (bufferedSize === partSize) {
+        yield concatBytes(buffered, bufferedSize);
+        buffered = [];
+        bufferedSize = 0;
+      }
+    }
+  }
+
+  if (bufferedSize > 0) {
+    yield concatBytes(buffered, bufferedSize);
+  }
+}
+
 /**
  * FileUploads API client for uploading files to Notion.
  */
@@ -29,6 +192,7 @@ export class FileUploadsAPI extends BaseAPI<NotionFileUpload, FileUpload> {
   protected config = {
     schema: fileUploadSchema,
     ModelClass: FileUpload,
+    listType: 'file_upload' as const,
   };
 
   constructor(protected readonly client: NotionClient) {
@@ -39,15 +203,20 @@ export class FileUploadsAPI extends BaseAPI<NotionFileUpload, FileUpload> {
    * Initiate a file upload and get the upload URL.
    *
    * @param options - File metadata (filename, content type, size)
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The file upload object with upload URL
    *
    * @see https://developers.notion.com/reference/create-a-file-upload
    */
-  async initiate(options: InitiateFileUploadOptions): Promise<FileUpload> {
+  async initiate(
+    options: InitiateFileUploadOptions,
+    callOptions?: CallOptions,
+  ): Promise<FileUpload> {
     const response = await this.client.request<NotionFileUpload>({
       method: 'POST',
       path: '/file_uploads',
       body: options,
+      signal: callOptions?.signal,
     });
 
     const parsed = fileUploadSchema.parse(response);
@@ -61,16 +230,26 @@ export class FileUploadsAPI extends BaseAPI<NotionFileUpload, FileUpload> {
    * @param uploadUrl - The upload URL from initiate()
    * @param fileData - The file data to upload
    * @param contentType - The MIME type of the file
+   * @param callOptions - Per-call options such as an abort signal
    *
    * @see https://developers.notion.com/reference/upload-a-file
    */
-  async upload(uploadUrl: string, fileData: FileData, contentType: string): Promise<void> {
+  async upload(
+    uploadUrl: string,
+    fileData: FileData,
+    contentType: string,
+    callOptions?: CallOptions,
+  ): Promise<void> {
     const response = await fetch(uploadUrl, {
       method: 'PUT',
       headers: {
         'Content-Type': contentType,
       },
       body: fileData,
+      signal: callOptions?.signal,
+    }).catch((error: unknown) => {
+      throwIfAborted(callOptions?.signal);
+      throw error;
     });
 
     if (!response.ok) {
@@ -78,19 +257,148 @@ export class FileUploadsAPI extends BaseAPI<NotionFileUpload, FileUpload> {
     }
   }
 
+  /**
+   * Upload a single part of a multi-part upload to the upload URL.
+   * The part is sent through the client as multipart/form-data, with the bytes
+   * in the `file` field and the part index in `part_number`. Sending a part
+   * again replaces it, so failures are retried under the client's retry policy
+   * whatever its `retry.methods`.
+   *
+   * @param uploadUrl - The upload URL from initiate()
+   * @param partData - The bytes of this part
+   * @param partNumber - The 1-based index of this part
+   * @param contentType - The MIME type of the file
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The file upload object
+   *
+   * @see https://developers.notion.com/reference/send-a-file-upload
+   */
+  async uploadPart(
+    uploadUrl: string,
+    partData: Uint8Array | Blob,
+    partNumber: number,
+    contentType: string,
+    callOptions?: CallOptions,
+  ): Promise<FileUpload> {
+    const form = new FormData();
+    form.append(
+      'file',
+      partData instanceof Blob
+        ? partData
+        : new Blob([new Uint8Array(partData)], { type: contentType }),
+    );
+    form.append('part_number', String(partNumber));
+
+    const response = await this.client.request<NotionFileUpload>({
+      method: 'POST',
+      path: uploadUrl.replace(/^https:\/\/api\.notion\.com\/v1/, ''),
+      body: form,
+      signal: callOptions?.signal,
+      idempotent: true,
+    });
+
+    const parsed = fileUploadSchema.parse(response);
+    return new FileUpload(parsed);
+  }
+
+  /**
+   * Upload a large file in parts.
+   * This combines initiate (in multi_part mode), one upload per part, and complete.
+   *
+   * Streams (a web `ReadableStream` or a Node.js `Readable`) are read one part
+   * at a time, so the whole file is never buffered; their size must be passed
+   * as `options.contentLength`. Failed parts are retried under the client's retry policy.
+   *
+   * @param filename - The filename
+   * @param fileData - The file data or a stream of its bytes
+   * @param contentType - The MIME type
+   * @param options - Part size and content length
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The completed file upload object
+   *
+   * @throws {NotionValidationError} If the part size or number of parts is out of range,
+   * or the content length of a stream is missing
+   *
+   * @example
+   * ```typescript
+   * import { createReadStream, statSync } from 'node:fs';
+   *
+   * const upload = await notion.fileUploads.uploadMultiPart(
+   *   'video.mp4',
+   *   createReadStream('video.mp4'),
+   *   'video/mp4',
+   *   { contentLength: statSync('video.mp4').size },
+   * );
+   * ```
+   */
+  async uploadMultiPart(
+    filename: string,
+    fileData: MultiPartFileData,
+    contentType: string,
+    options: MultiPartUploadOptions = {},
+    callOptions?: CallOptions,
+  ): Promise<FileUpload> {
+    const partSize = options.partSize ?? DEFAULT_PART_SIZE;
+    if (partSize < MIN_PART_SIZE || partSize > MAX_SINGLE_PART_SIZE) {
+      throw new NotionValidationError(
+        `partSize must be between ${MIN_PART_SIZE} and ${MAX_SINGLE_PART_SIZE} bytes (got ${partSize})`,
+      );
+    }
+
+    const contentLength = options.contentLength ?? byteLength(fileData);
+    if (contentLength === undefined) {
+      throw new NotionValidationError('contentLength is required when uploading a stream');
+    }
+
+    const numberOfParts = Math.max(1, Math.ceil(contentLength / partSize));
+    if (numberOfParts > MAX_PARTS) {
+      throw new NotionValidationError(
+        `number_of_parts exceeds the ${MAX_PARTS}-part limit (got ${numberOfParts})`,
+      );
+    }
+
+    const fileUpload = await this.initiate(
+      {
+        filename,
+        content_type: contentType,
+        content_length: contentLength,
+        mode: 'multi_part',
+        number_of_parts: numberOfParts,
+      },
+      callOptions,
+    );
+
+    let partNumber = 0;
+    for await (const part of readParts(fileData, partSize)) {
+      partNumber++;
+      if (partNumber > numberOfParts) {
+        throw new Error(`File data is larger than the declared ${contentLength} bytes`);
+      }
+      await this.uploadPart(fileUpload.uploadUrl, part, partNumber, contentType, callOptions);
+    }
+
+    if (partNumber !== numberOfParts) {
+      throw new Error(`File data is smaller than the declared ${contentLength} bytes`);
+    }
+
+    return this.complete(fileUpload.completeUrl, callOptions);
+  }
+
   /**
    * Complete the file upload after uploading to the URL.
    *
    * @param completeUrl - The complete URL from initiate()
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The completed file upload object
    *
    * @see https://developers.notion.com/reference/complete-a-file-upload
    */
-  async complete(completeUrl: string): Promise<FileUpload> {
+  async complete(completeUrl: string, callOptions?: CallOptions): Promise<FileUpload> {
     const response = await this.client.request<NotionFileUpload>({
       method: 'POST',
       path: completeUrl.replace(/^https:\/\/api\.notion\.com\/v1/, ''),
       body: {},
+      signal: callOptions?.signal,
     });
 
     const parsed = fileUploadSchema.parse(response);
@@ -100,56 +408,166 @@ export class FileUploadsAPI extends BaseAPI<NotionFileUpload, FileUpload> {
   /**
    * Helper method to upload a file in one call.
    * This combines initiate, upload, and complete steps.
+   * Files larger than 20 MiB are sent with {@link FileUploadsAPI.uploadMultiPart}.
    *
    * @param filename - The filename
    * @param fileData - The file data
    * @param contentType - The MIME type
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The completed file upload object
    */
-  async uploadFile(filename: string, fileData: FileData, contentType: string): Promise<FileUpload> {
+  async uploadFile(
+    filename: string,
+    fileData: FileData,
+    contentType: string,
+    callOptions?: CallOptions,
+  ): Promise<FileUpload> {
     // Get content length
-    let contentLength: number;
-    if (fileData instanceof Buffer) {
-      contentLength = fileData.length;
-    } else if (fileData instanceof ArrayBuffer) {
-      contentLength = fileData.byteLength;
-    } else if (fileData instanceof Blob) {
-      contentLength = fileData.size;
-    } else {
+    const contentLength = byteLength(fileData);
+    if (contentLength === undefined) {
       throw new TypeError(
-        'Cannot determine content length for ReadableStream. Use initiate/upload/complete separately.',
+        'Cannot determine content length for ReadableStream. Use uploadMultiPart with contentLength.',
       );
     }
 
+    if (contentLength > MAX_SINGLE_PART_SIZE) {
+      return this.uploadMultiPart(filename, fileData, contentType, { contentLength }, callOptions);
+    }
+
     // Step 1: Initiate upload
-    const fileUpload = await this.initiate({
-      filename,
-      content_type: contentType,
-      content_length: contentLength,
-    });
+    const fileUpload = await this.initiate(
+      {
+        filename,
+        content_type: contentType,
+        content_length: contentLength,
+      },
+      callOptions,
+    );
 
     // Step 2: Upload file
-    await this.upload(fileUpload.uploadUrl, fileData, contentType);
+    await this.upload(fileUpload.uploadUrl, fileData, contentType, callOptions);
 
     // Step 3: Complete upload
-    return this.complete(fileUpload.completeUrl);
+    return this.complete(fileUpload.completeUrl, callOptions);
+  }
+
+  /**
+   * Import a file from a public URL.
+   * This initiates an upload in external_url mode and polls its status with
+   * exponential backoff until Notion has finished fetching the file.
+   *
+   * @param url - Public HTTPS URL of the file
+   * @param filename - The filename to store the file under
+   * @param options - Content type and polling options
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The uploaded file, ready to attach with `notionFile.upload` or `block.image`
+   *
+   * @throws {NotionFileImportError} If Notion could not import the file
+   * @throws {NotionRequestTimeoutError} If the import is still pending after `timeoutMs`
+   *
+   * @see https://developers.notion.com/docs/importing-external-files
+   *
+   * @example
+   * ```typescript
+   * const upload = await notion.fileUploads.importFromUrl(
+   *   'https://example.com/report.pdf',
+   *   'report.pdf',
+   * );
+   * await notion.blocks.children.append('page-id', {
+   *   children: [block.pdf(notionFile.upload(upload.id))],
+   * });
+   * ```
+   */
+  async importFromUrl(
+    url: string,
+    filename: string,
+    options: ImportFromUrlOptions = {},
+    callOptions?: CallOptions,
+  ): Promise<FileUpload> {
+    const timeoutMs = options.timeoutMs ?? 60000;
+    const maxPollIntervalMs = options.maxPollIntervalMs ?? 5000;
+    let delay = options.pollIntervalMs ?? 500;
+
+    let fileUpload = await this.initiate(
+      {
+        filename,
+        mode: 'external_url',
+        external_url: url,
+        ...(options.contentType ? { content_type: options.contentType } : {}),
+      },
+      callOptions,
+    );
+    const deadline = Date.now() + timeoutMs;
+
+    while (fileUpload.isPending()) {
+      if (Date.now() >= deadline) {
+        throw new NotionRequestTimeoutError(
+          `File import did not finish within ${timeoutMs}ms (upload ${fileUpload.id})`,
+        );
+      }
+      await sleep(Math.min(delay, deadline - Date.now()), callOptions?.signal);
+      delay = Math.min(delay * 2, maxPollIntervalMs);
+      fileUpload = await this.retrieve(fileUpload.id, callOptions);
+    }
+
+    if (!fileUpload.isUploaded()) {
+      const result = fileUpload.fileImportResult;
+      const error = typeof result === 'object' ? result.error : undefined;
+      throw new NotionFileImportError(
+        fileUpload.id,
+        error?.message ?? `File import ${fileUpload.status}: ${url}`,
+        error,
+      );
+    }
+
+    return fileUpload;
   }
 
   /**
    * Get the status of a file upload.
    *
    * @param fileUploadId - The ID of the file upload
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The file upload object with current status
    *
    * @see https://developers.notion.com/reference/retrieve-a-file-upload
    */
-  async retrieve(fileUploadId: string): Promise<FileUpload> {
+  async retrieve(fileUploadId: string, callOptions?: CallOptions): Promise<FileUpload> {
     const response = await this.client.request<NotionFileUpload>({
       method: 'GET',
       path: `/file_uploads/${fileUploadId}`,
+      signal: callOptions?.signal,
     });
 
     const parsed = fileUploadSchema.parse(response);
     return new FileUpload(parsed);
   }
+
+  /**
+   * List file uploads created by the integration (paginated).
+   *
+   * @param options - Status filter and pagination parameters
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns Paginated list of file uploads
+   *
+   * @see https://developers.notion.com/reference/list-file-uploads
+   *
+   * @example
+   * ```typescript
+   * const stale = await paginate((cursor) =>
+   *   notion.fileUploads.list({ status: 'expired', start_cursor: cursor }),
+   * );
+   * ```
+   */
+  async list(
+    options?: ListFileUploadsOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedList<FileUpload>> {
+    const query = this.buildPaginationQuery(options);
+    if (options?.status) {
+      query.status = options.status;
+    }
+
+    return this.listResources('/file_uploads', query, callOptions);
+  }
 }
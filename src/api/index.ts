@@ -3,6 +3,8 @@ export { CommentsAPI } from './comments.api';
 export { DatabasesAPI } from './databases.api';
 export { DataSourcesAPI } from './dataSources.api';
 export { FileUploadsAPI } from './fileUploads.api';
+export { OAuthAPI } from './oauth.api';
 export { PagesAPI } from './pages.api';
 export { SearchAPI } from './search.api';
+export { TypedDataSourceAPI } from './typedDataSource.api';
 export { UsersAPI } from './users.api';
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OAuthAPI } from './oauth.api';
+import type { NotionClient } from '../client';
+import { NotionOAuthError } from '../errors';
+import { NotionOAuth } from '../notion';
+
+describe('OAuthAPI', () => {
+  const mockClient = {
+    request: vi.fn(),
+  } as unknown as NotionClient;
+
+  const oauthAPI = new OAuthAPI(mockClient);
+
+  const credentials = { client_id: 'client-id', client_secret: 'client-secret' };
+  const basicAuth = `Basic ${Buffer.from('client-id:client-secret').toString('base64')}`;
+
+  const mockTokenResponse = {
+    access_token: 'secret_access',
+    token_type: 'bearer',
+    refresh_token: 'secret_refresh',
+    bot_id: 'bot-id',
+    workspace_id: 'workspace-id',
+    workspace_name: 'Acme',
+    workspace_icon: null,
+    owner: {
+      type: 'user',
+      user: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+    },
+    duplicated_template_id: '423e4567-e89b-12d3-a456-426614174000',
+    request_id: 'request-id',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('authorizationUrl', () => {
+    it('should build the authorization URL with a random state', () => {
+      const first = oauthAPI.authorizationUrl({
+        client_id: 'client-id',
+        redirect_uri: 'https://example.com/callback',
+      });
+      const second = oauthAPI.authorizationUrl({ client_id: 'client-id' });
+
+      const url = new URL(first.url);
+      expect(url.origin + url.pathname).toBe('https://api.notion.com/v1/oauth/authorize');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        client_id: 'client-id',
+        response_type: 'code',
+        owner: 'user',
+        redirect_uri: 'https://example.com/callback',
+        state: first.state,
+      });
+      expect(first.state).toMatch(/^[0-9a-f]{32}$/);
+      expect(second.state).not.toBe(first.state);
+    });
+
+    it('should use the given state', () => {
+      const result = oauthAPI.authorizationUrl({ client_id: 'client-id', state: 'my-state' });
+
+      expect(result.state).toBe('my-state');
+      expect(new URL(result.url).searchParams.get('state')).toBe('my-state');
+    });
+  });
+
+  describe('parseCallback', () => {
+    it('should return the code when the state matches', () => {
+      const code = oauthAPI.parseCallback(
+        'https://example.com/callback?code=auth-code&state=abc',
+        'abc',
+      );
+
+      expect(code).toBe('auth-code');
+    });
+
+    it('should reject a mismatched or missing state', () => {
+      expect(() =>
+        oauthAPI.parseCallback('https://example.com/callback?code=auth-code&state=abd', 'abc'),
+      ).toThrow(expect.objectContaining({ code: 'state_mismatch' }) as Error);
+      expect(() =>
+        oauthAPI.parseCallback('https://example.com/callback?code=auth-code', ''),
+      ).toThrow(NotionOAuthError);
+    });
+
+    it('should surface errors returned by Notion', () => {
+      expect(() =>
+        oauthAPI.parseCallback('https://example.com/callback?error=access_denied&state=abc', 'abc'),
+      ).toThrow(expect.objectContaining({ code: 'access_denied' }) as Error);
+    });
+  });
+
+  describe('token', () => {
+    it('should exchange a code using Basic auth', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockTokenResponse);
+
+      const result = await oauthAPI.token({
+        ...credentials,
+        code: 'auth-code',
+        redirect_uri: 'https://example.com/callback',
+      });
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'POST',
+        path: '/oauth/token',
+        body: {
+          grant_type: 'authorization_code',
+          code: 'auth-code',
+          redirect_uri: 'https://example.com/callback',
+        },
+        headers: { Authorization: basicAuth },
+        signal: undefined,
+      });
+      expect(result.access_token).toBe('secret_access');
+      expect(result.workspace_id).toBe('workspace-id');
+      expect(result.duplicated_template_id).toBe('423e4567-e89b-12d3-a456-426614174000');
+      expect(result.owner.type).toBe('user');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should exchange a refresh token', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue({
+        ...mockTokenResponse,
+        owner: { type: 'workspace', workspace: true },
+      });
+
+      const result = await oauthAPI.refresh({ ...credentials, refresh_token: 'secret_refresh' });
+
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: '/oauth/token',
+          body: { grant_type: 'refresh_token', refresh_token: 'secret_refresh' },
+          headers: { Authorization: basicAuth },
+        }),
+      );
+      expect(result.owner).toEqual({ type: 'workspace', workspace: true });
+    });
+  });
+
+  describe('introspect', () => {
+    it('should return the token status', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue({
+        active: true,
+        scope: 'read_content',
+        iat: 1727554061,
+      });
+
+      const result = await oauthAPI.introspect({ ...credentials, token: 'secret_access' });
+
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: '/oauth/introspect',
+          body: { token: 'secret_access' },
+          headers: { Authorization: basicAuth },
+        }),
+      );
+      expect(result).toEqual({ active: true, scope: 'read_content', iat: 1727554061 });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke the token', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue({});
+
+      await oauthAPI.revoke({ ...credentials, token: 'secret_access' });
+
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: '/oauth/revoke',
+          body: { token: 'secret_access' },
+          headers: { Authorization: basicAuth },
+        }),
+      );
+    });
+  });
+
+  describe('NotionOAuth', () => {
+    it('should exchange a code without an access token', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(new Response(JSON.stringify(mockTokenResponse), { status: 200 }));
+      const oauth = new NotionOAuth({ fetch: fetchMock, rateLimit: false });
+
+      const result = await oauth.token({ ...credentials, code: 'auth-code' });
+
+      expect(result.access_token).toBe('secret_access');
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.notion.com/v1/oauth/token',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: basicAuth }),
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import type { CallOptions, NotionClient } from '../client';
+import { NotionOAuthError } from '../errors';
+import {
+  type NotionOAuthIntrospection,
+  type NotionOAuthToken,
+  oauthIntrospectionSchema,
+  oauthTokenSchema,
+} from '../schemas';
+
+/**
+ * Client credentials of a public integration, sent with HTTP Basic auth.
+ */
+export interface OAuthClientCredentials {
+  /** OAuth client ID of the integration */
+  client_id: string;
+
+  /** OAuth client secret of the integration */
+  client_secret: string;
+}
+
+/**
+ * Options for building the authorization URL users are sent to.
+ */
+export interface AuthorizationUrlOptions {
+  /** OAuth client ID of the integration */
+  client_id: string;
+
+  /** Redirect URI registered for the integration (required if more than one is registered) */
+  redirect_uri?: string;
+
+  /** State to round-trip through the callback (default: 32 random hex characters) */
+  state?: string;
+}
+
+/**
+ * Authorization URL and the state it carries.
+ */
+export interface AuthorizationUrl {
+  /** URL to redirect the user to */
+  url: string;
+
+  /** State to store (e.g. in the session) and check in the callback with `parseCallback` */
+  state: string;
+}
+
+/**
+ * Options for exchanging an authorization code for an access token.
+ */
+export interface ExchangeOAuthCodeOptions extends OAuthClientCredentials {
+  /** Authorization code from the callback URL */
+  code: string;
+
+  /** Redirect URI used in the authorization URL */
+  redirect_uri?: string;
+}
+
+/**
+ * Options for refreshing an access token.
+ */
+export interface RefreshOAuthTokenOptions extends OAuthClientCredentials {
+  /** Refresh token returned with the previous access token */
+  refresh_token: string;
+}
+
+/**
+ * Options for introspecting or revoking an access token.
+ */
+export interface OAuthTokenOptions extends OAuthClientCredentials {
+  /** The access token */
+  token: string;
+}
+
+/** Page users are sent to for authorizing a public integration. */
+const AUTHORIZE_URL = 'https://api.notion.com/v1/oauth/authorize';
+
+/**
+ * OAuth API client for public integrations.
+ *
+ * The token endpoints authenticate with the integration's client ID and secret
+ * (HTTP Basic auth) instead of the client's bearer token, so before any
+ * workspace is installed they are called through `NotionOAuth`, which needs no `auth`.
+ *
+ * @example
+ * ```typescript
+ * const oauth = new NotionOAuth();
+ *
+ * // 1. Redirect the user
+ * const { url, state } = oauth.authorizationUrl({ client_id, redirect_uri });
+ * session.oauthState = state;
+ *
+ * // 2. Handle the callback
+ * const code = oauth.parseCallback(request.url, session.oauthState);
+ * const token = await oauth.token({ client_id, client_secret, code, redirect_uri });
+ *
+ * // 3. Call the API as the installing workspace
+ * const workspace = new Notion({ auth: () => tokenStore.get(token.bot_id) });
+ * ```
+ */
+export class OAuthAPI {
+  constructor(private readonly client: NotionClient) {}
+
+  /**
+   * Build the URL that starts the authorization flow, with a state value to
+   * protect the callback against cross-site request forgery.
+   *
+   * @param options - Client ID, redirect URI and optional state
+   * @returns The authorization URL and its state
+   *
+   * @see https://developers.notion.com/docs/authorization#public-integration-auth-flow-set-up
+   */
+  authorizationUrl(options: AuthorizationUrlOptions): AuthorizationUrl {
+    const state = options.state ?? randomBytes(16).toString('hex');
+    const url = new URL(AUTHORIZE_URL);
+
+    url.searchParams.set('client_id', options.client_id);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('owner', 'user');
+    if (options.redirect_uri) {
+      url.searchParams.set('redirect_uri', options.redirect_uri);
+    }
+    url.searchParams.set('state', state);
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Validate the callback URL Notion redirected the user to and return the authorization code.
+   *
+   * @param callbackUrl - The full callback URL, including its query string
+   * @param expectedState - The state returned by `authorizationUrl`
+   * @returns The authorization code to pass to `token`
+   *
+   * @throws {NotionOAuthError} If the user denied access, the state does not match, or the code is missing
+   */
+  parseCallback(callbackUrl: string | URL, expectedState: string): string {
+    const params = new URL(callbackUrl).searchParams;
+
+    const error = params.get('error');
+    if (error) {
+      throw new NotionOAuthError(error, `Authorization failed: ${error}`);
+    }
+
+    if (!statesMatch(params.get('state') ?? '', expectedState)) {
+      throw new NotionOAuthError('state_mismatch', 'OAuth state does not match');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new NotionOAuthError('missing_code', 'Callback URL has no authorization code');
+    }
+
+    return code;
+  }
+
+  /**
+   * Exchange an authorization code for an access token.
+   *
+   * @param options - Client credentials, code and redirect URI
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The access token with the bot, workspace and owner it belongs to
+   *
+   * @see https://developers.notion.com/reference/create-a-token
+   */
+  async token(
+    options: ExchangeOAuthCodeOptions,
+    callOptions?: CallOptions,
+  ): Promise<NotionOAuthToken> {
+    const response = await this.requestWithCredentials(
+      '/oauth/token',
+      options,
+      {
+        grant_type: 'authorization_code',
+        code: options.code,
+        ...(options.redirect_uri ? { redirect_uri: options.redirect_uri } : {}),
+      },
+      callOptions,
+    );
+
+    return oauthTokenSchema.parse(response);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token.
+   *
+   * @param options - Client credentials and refresh token
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The new access token
+   *
+   * @see https://developers.notion.com/reference/refresh-a-token
+   */
+  async refresh(
+    options: RefreshOAuthTokenOptions,
+    callOptions?: CallOptions,
+  ): Promise<NotionOAuthToken> {
+    const response = await this.requestWithCredentials(
+      '/oauth/token',
+      options,
+      { grant_type: 'refresh_token', refresh_token: options.refresh_token },
+      callOptions,
+    );
+
+    return oauthTokenSchema.parse(response);
+  }
+
+  /**
+   * Check whether an access token is still active.
+   *
+   * @param options - Client credentials and the token to check
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns Whether the token is active, with its scope and issue time
+   *
+   * @see https://developers.notion.com/reference/introspect-token
+   */
+  async introspect(
+    options: OAuthTokenOptions,
+    callOptions?: CallOptions,
+  ): Promise<NotionOAuthIntrospection> {
+    const response = await this.requestWithCredentials(
+      '/oauth/introspect',
+      options,
+      { token: options.token },
+      callOptions,
+    );
+
+    return oauthIntrospectionSchema.parse(response);
+  }
+
+  /**
+   * Revoke an access token.
+   *
+   * @param options - Client credentials and the token to revoke
+   * @param callOptions - Per-call options such as an abort signal
+   *
+   * @see https://developers.notion.com/reference/revoke-token
+   */
+  async revoke(options: OAuthTokenOptions, callOptions?: CallOptions): Promise<void> {
+    await this.requestWithCredentials(
+      '/oauth/revoke',
+      options,
+      { token: options.token },
+      callOptions,
+    );
+  }
+
+  private requestWithCredentials(
+    path: string,
+    credentials: OAuthClientCredentials,
+    body: Record<string, unknown>,
+    callOptions?: CallOptions,
+  ): Promise<unknown> {
+    const basic = Buffer.from(`${credentials.client_id}:${credentials.client_secret}`).toString(
+      'base64',
+    );
+
+    return this.client.request<unknown>({
+      method: 'POST',
+      path,
+      body,
+      headers: { Authorization: `Basic ${basic}` },
+      signal: callOptions?.signal,
+    });
+  }
+}
+
+/**
+ * Compares two state values in constant time.
+ */
+function statesMatch(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+}
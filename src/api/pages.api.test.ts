@@ -2,6 +2,10 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { PagesAPI } from './pages.api';
 import type { NotionClient } from '../client';
 import { Page } from '../models';
+import { NotionAPIError, NotionAbortError } from '../errors';
+import { FakeNotion } from '../fake';
+import { block, parent } from '../helpers';
+import { Notion } from '../notion';
 import { NotionValidationError } from '../validation';
 
 describe('PagesAPI', () => {
@@ -82,6 +86,19 @@ describe('PagesAPI', () => {
       });
     });
 
+    it('should pass the abort signal to the client', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockPageResponse);
+      const controller = new AbortController();
+
+      await pagesAPI.retrieve('123e4567-e89b-12d3-a456-426614174000', undefined, {
+        signal: controller.signal,
+      });
+
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal }),
+      );
+    });
+
     it('should throw validation error when filter_properties exceeds limit', async () => {
       const tooManyProperties = new Array(101).fill('prop');
 
@@ -241,6 +258,101 @@ describe('PagesAPI', () => {
     });
   });
 
+  describe('createWithChildren', () => {
+    it('should create the page with the first batch and append the rest', async () => {
+      const appendedBlock = {
+        object: 'block',
+        id: '423e4567-e89b-12d3-a456-426614174000',
+        parent: { type: 'page_id', page_id: mockPageResponse.id },
+        type: 'divider',
+        created_time: '2023-01-01T00:00:00.000Z',
+        created_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+        last_edited_time: '2023-01-02T00:00:00.000Z',
+        last_edited_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+        archived: false,
+        in_trash: false,
+        has_children: false,
+        divider: {},
+      };
+      vi.mocked(mockClient.request).mockImplementation(({ method, body }) => {
+        if (method === 'POST') {
+          return Promise.resolve(mockPageResponse);
+        }
+        const { children } = body as { children: unknown[] };
+        return Promise.resolve({
+          object: 'list',
+          results: children.map(() => appendedBlock),
+          next_cursor: null,
+          has_more: false,
+          type: 'block',
+        });
+      });
+      const children = new Array(150).fill({ type: 'divider', divider: {} });
+      const onProgress = vi.fn();
+
+      const result = await pagesAPI.createWithChildren({
+        parent: { page_id: 'parent-page-id' },
+        properties: {},
+        children,
+        onProgress,
+      });
+
+      expect(result).toBeInstanceOf(Page);
+      expect(mockClient.request).toHaveBeenNthCalledWith(1, {
+        method: 'POST',
+        path: '/pages',
+        body: {
+          parent: { page_id: 'parent-page-id' },
+          properties: {},
+          children: children.slice(0, 100),
+        },
+      });
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(mockClient.request).mock.calls[1][0]).toMatchObject({
+        method: 'PATCH',
+        path: `/blocks/${mockPageResponse.id}/children`,
+        body: { children: children.slice(100) },
+      });
+      expect(onProgress.mock.calls).toEqual([
+        [{ appended: 100, total: 150 }],
+        [{ appended: 150, total: 150 }],
+      ]);
+    });
+
+    it('should append deeply nested children of the first batch to the created blocks', async () => {
+      const fake = new FakeNotion();
+      const notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+      const deep = block.toggle('Level 0', {
+        children: [
+          block.toggle('Level 1', {
+            children: [
+              block.toggle('Level 2', {
+                children: [block.paragraph('Level 3')],
+              }),
+            ],
+          }),
+        ],
+      });
+
+      const page = await notion.pages.createWithChildren({
+        parent: { type: 'workspace', workspace: true },
+        children: [deep],
+      });
+
+      const [levelZero] = await notion.blocks.tree(page.id);
+      const levelTwo = levelZero.children[0].children[0];
+      expect(levelTwo.children.map((child) => child.type)).toEqual(['paragraph']);
+    });
+
+    it('should not append when there are no children', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockPageResponse);
+
+      await pagesAPI.createWithChildren({ parent: { workspace: true } });
+
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('update', () => {
     it('should update page properties', async () => {
       vi.mocked(mockClient.request).mockResolvedValue(mockPageResponse);
@@ -359,4 +471,296 @@ describe('PagesAPI', () => {
       expect(result.archived).toBe(false);
     });
   });
+
+  describe('properties.retrieve', () => {
+    const pageId = '123e4567-e89b-12d3-a456-426614174000';
+    const relatedId = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+    const relationItems = (from: number, to: number) =>
+      Array.from({ length: to - from }, (_, i) => ({
+        object: 'property_item',
+        id: 'rel',
+        type: 'relation',
+        relation: { id: relatedId(from + i) },
+      }));
+
+    const relationList = (results: unknown[], nextCursor: string | null) => ({
+      object: 'list',
+      results,
+      next_cursor: nextCursor,
+      has_more: nextCursor !== null,
+      type: 'property_item',
+      property_item: { id: 'rel', type: 'relation', next_url: null, relation: {} },
+    });
+
+    it('should return a single property item as a page property value', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue({
+        object: 'property_item',
+        id: 'num',
+        type: 'number',
+        number: 42,
+      });
+
+      const result = await pagesAPI.properties.retrieve(pageId, 'num');
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'GET',
+        path: `/pages/${pageId}/properties/num`,
+        query: { page_size: '100' },
+      });
+      expect(result).toEqual({ id: 'num', type: 'number', number: 42 });
+    });
+
+    it('should follow pagination and merge relation items', async () => {
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(relationList(relationItems(0, 100), 'cursor-2'))
+        .mockResolvedValueOnce(relationList(relationItems(100, 130), null));
+
+      const result = await pagesAPI.properties.retrieve(pageId, 'rel');
+
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+      expect(mockClient.request).toHaveBeenLastCalledWith({
+        method: 'GET',
+        path: `/pages/${pageId}/properties/rel`,
+        query: { page_size: '100', start_cursor: 'cursor-2' },
+      });
+      expect(result.type).toBe('relation');
+      if (result.type === 'relation') {
+        expect(result.relation).toHaveLength(130);
+        expect(result.relation[129]).toEqual({ id: relatedId(129) });
+        expect(result.has_more).toBe(false);
+      }
+    });
+
+    it('should merge rich text items into a rich text array', async () => {
+      const textItem = (content: string) => ({
+        object: 'property_item',
+        id: 'txt',
+        type: 'rich_text',
+        rich_text: mockPageResponse.properties.title.title.map((rt) => ({
+          ...rt,
+          text: { content, link: null },
+          plain_text: content,
+        }))[0],
+      });
+      vi.mocked(mockClient.request).mockResolvedValue({
+        object: 'list',
+        results: [textItem('Hello, '), textItem('world')],
+        next_cursor: null,
+        has_more: false,
+        type: 'property_item',
+        property_item: { id: 'txt', type: 'rich_text', next_url: null, rich_text: {} },
+      });
+
+      const result = await pagesAPI.properties.retrieve(pageId, 'txt');
+
+      expect(result.type === 'rich_text' && result.rich_text.map((rt) => rt.plain_text)).toEqual([
+        'Hello, ',
+        'world',
+      ]);
+    });
+
+    it('should keep the rollup summary and collect array rollup items', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue({
+        object: 'list',
+        results: [{ object: 'property_item', id: 'roll', type: 'number', number: 3 }],
+        next_cursor: null,
+        has_more: false,
+        type: 'property_item',
+        property_item: {
+          id: 'roll',
+          type: 'rollup',
+          next_url: null,
+          rollup: { type: 'array', function: 'show_original', array: [] },
+        },
+      });
+
+      const result = await pagesAPI.properties.retrieve(pageId, 'roll');
+
+      expect(result).toEqual({
+        id: 'roll',
+        type: 'rollup',
+        rollup: {
+          type: 'array',
+          function: 'show_original',
+          array: [{ type: 'number', number: 3 }],
+        },
+      });
+    });
+  });
+
+  describe('hydrate', () => {
+    it('should return the page unchanged when nothing is truncated', async () => {
+      const page = new Page(mockPageResponse);
+
+      await expect(pagesAPI.hydrate(page)).resolves.toBe(page);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should replace truncated relation values with their full values', async () => {
+      const related = Array.from({ length: 30 }, (_, i) => ({
+        id: `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`,
+      }));
+      const page = new Page({
+        ...mockPageResponse,
+        properties: {
+          ...mockPageResponse.properties,
+          Contacts: { id: 'rel', type: 'relation', relation: related.slice(0, 25), has_more: true },
+        },
+      });
+      vi.mocked(mockClient.request).mockResolvedValue({
+        object: 'list',
+        results: related.map((relation) => ({
+          object: 'property_item',
+          id: 'rel',
+          type: 'relation',
+          relation,
+        })),
+        next_cursor: null,
+        has_more: false,
+        type: 'property_item',
+        property_item: { id: 'rel', type: 'relation', next_url: null, relation: {} },
+      });
+
+      const result = await pagesAPI.hydrate(page);
+
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+      expect(result.getProperty('Contacts')).toEqual({
+        id: 'rel',
+        type: 'relation',
+        relation: related,
+        has_more: false,
+      });
+      expect(result.getTitle()).toBe('Test Page');
+    });
+  });
+
+  describe('move', () => {
+    const pageId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('should move a page under another page', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockPageResponse);
+
+      const result = await pagesAPI.move(pageId, parent.page('target-page'));
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'POST',
+        path: `/pages/${pageId}/move`,
+        body: { parent: { type: 'page_id', page_id: 'target-page' } },
+      });
+      expect(result).toBeInstanceOf(Page);
+    });
+
+    it('should move a page into a data source', async () => {
+      vi.mocked(mockClient.request).mockResolvedValue(mockPageResponse);
+
+      await pagesAPI.move(pageId, parent.dataSource('ds-id', 'db-id'));
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'POST',
+        path: `/pages/${pageId}/move`,
+        body: { parent: { type: 'data_source_id', data_source_id: 'ds-id' } },
+      });
+    });
+
+    it('should reject parents other than pages and data sources', async () => {
+      await expect(
+        pagesAPI.move(pageId, parent.workspace() as unknown as { page_id: string }),
+      ).rejects.toThrow(NotionValidationError);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveMany', () => {
+    const notFound = new NotionAPIError({
+      object: 'error',
+      status: 404,
+      code: 'object_not_found',
+      message: 'Could not find page',
+    });
+
+    it('should report the outcome of every move in order', async () => {
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(mockPageResponse)
+        .mockRejectedValueOnce(notFound)
+        .mockResolvedValueOnce(mockPageResponse);
+
+      const results = await pagesAPI.moveMany(
+        ['a', 'b', 'c'].map((pageId) => ({ pageId, parent: parent.page('target') })),
+      );
+
+      expect(results.map((result) => [result.pageId, result.status])).toEqual([
+        ['a', 'moved'],
+        ['b', 'failed'],
+        ['c', 'moved'],
+      ]);
+      expect(results[1]).toMatchObject({ error: notFound });
+      expect(results[0]?.status === 'moved' && results[0].page).toBeInstanceOf(Page);
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockClient.request).mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve(mockPageResponse);
+      });
+
+      await expect(
+        pagesAPI.moveMany(
+          ['a', 'b'].map((pageId) => ({ pageId, parent: parent.page('target') })),
+          { signal: controller.signal },
+        ),
+      ).rejects.toThrow(NotionAbortError);
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createFromTemplate', () => {
+    const dataSourceId = '623e4567-e89b-12d3-a456-426614174000';
+    const templateId = '423e4567-e89b-12d3-a456-426614174000';
+    const templates = (names: string[], nextCursor: string | null) => ({
+      templates: names.map((name, i) => ({
+        id: name === 'Bug' ? templateId : `0000000${i}-e89b-12d3-a456-426614174000`,
+        name,
+        is_default: false,
+      })),
+      has_more: nextCursor !== null,
+      next_cursor: nextCursor,
+    });
+
+    it('should resolve the template by exact name across pages', async () => {
+      vi.mocked(mockClient.request)
+        .mockResolvedValueOnce(templates(['Bug triage'], 'cursor-2'))
+        .mockResolvedValueOnce(templates(['Bug'], null))
+        .mockResolvedValueOnce(mockPageResponse);
+
+      const properties = { Name: { title: [{ text: { content: 'Crash on save' } }] } };
+      const result = await pagesAPI.createFromTemplate(dataSourceId, 'Bug', properties);
+
+      expect(mockClient.request).toHaveBeenNthCalledWith(2, {
+        method: 'GET',
+        path: `/data_sources/${dataSourceId}/templates`,
+        query: { name: 'Bug', start_cursor: 'cursor-2' },
+      });
+      expect(mockClient.request).toHaveBeenLastCalledWith({
+        method: 'POST',
+        path: '/pages',
+        body: {
+          parent: { data_source_id: dataSourceId },
+          properties,
+          template: { type: 'template_id', template_id: templateId },
+        },
+      });
+      expect(result).toBeInstanceOf(Page);
+    });
+
+    it('should fail when no template has the name', async () => {
+      vi.mocked(mockClient.request).mockResolvedValueOnce(templates(['Bug triage'], null));
+
+      await expect(pagesAPI.createFromTemplate(dataSourceId, 'Bug')).rejects.toThrow(
+        new NotionValidationError(`Data source ${dataSourceId} has no template named "Bug"`),
+      );
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,9 +1,22 @@
-import type { NotionClient } from '../client';
-import type { NotionPage } from '../schemas';
-import { pageSchema } from '../schemas';
+import { throwIfAborted } from '../abort';
+import type { CallOptions, NotionClient } from '../client';
+import type {
+  NotionPage,
+  NotionPageProperties,
+  NotionPropertyItem,
+  NotionPropertyItemList,
+} from '../schemas';
+import {
+  pagePropertiesSchema,
+  pageSchema,
+  propertyItemListSchema,
+  propertyItemSchema,
+} from '../schemas';
 import { Page } from '../models';
-import { LIMITS, validateArrayLength } from '../validation';
+import { LIMITS, NotionValidationError, validateArrayLength } from '../validation';
 import { BaseAPI } from './base.api';
+import { type AppendProgress, BlocksAPI } from './blocks.api';
+import { DataSourcesAPI } from './dataSources.api';
 
 /**
  * Options for retrieving a page.
@@ -51,6 +64,17 @@ export interface CreatePageOptions {
     | { type: 'page_end' };
 }
 
+/**
+ * Options for creating a page with any number of content blocks.
+ */
+export interface CreatePageWithChildrenOptions extends CreatePageOptions {
+  /** Page content blocks (no limit on count or nesting depth) */
+  children?: unknown[];
+
+  /** Called after every append request with the overall progress */
+  onProgress?: (progress: AppendProgress) => void;
+}
+
 /**
  * Options for updating a page.
  */
@@ -80,6 +104,81 @@ export interface UpdatePageOptions {
   erase_content?: boolean;
 }
 
+/**
+ * Target parent for moving a page: a page, or a data source (as built by
+ * `parent.page()` and `parent.dataSource()`).
+ */
+export type MovePageParent = { page_id: string } | { data_source_id: string; database_id?: string };
+
+/**
+ * A page to move with `moveMany`.
+ */
+export interface PageMove {
+  /** The ID of the page to move */
+  pageId: string;
+
+  /** The new parent of the page */
+  parent: MovePageParent;
+}
+
+/**
+ * Outcome of a single move in `moveMany`.
+ */
+export type PageMoveResult =
+  | { pageId: string; status: 'moved'; page: Page }
+  | { pageId: string; status: 'failed'; error: unknown };
+
+/**
+ * Builds the `parent` body parameter of the move endpoint.
+ */
+function toMoveParent(
+  parent: MovePageParent,
+): { type: 'page_id'; page_id: string } | { type: 'data_source_id'; data_source_id: string } {
+  if ('page_id' in parent && parent.page_id) {
+    return { type: 'page_id', page_id: parent.page_id };
+  }
+  if ('data_source_id' in parent && parent.data_source_id) {
+    return { type: 'data_source_id', data_source_id: parent.data_source_id };
+  }
+  throw new NotionValidationError('Pages can only be moved to a page or a data source parent');
+}
+
+/**
+ * Merges the items of a paginated property value into the value shape used in page objects.
+ */
+function mergePropertyItems(
+  property: NotionPropertyItemList['property_item'],
+  items: NotionPropertyItem[],
+): NotionPageProperties {
+  const values = items.map((item) => item[item.type]);
+
+  switch (property.type) {
+    case 'relation':
+      return pagePropertiesSchema.parse({
+        id: property.id,
+        type: 'relation',
+        relation: values,
+        has_more: false,
+      });
+    case 'rollup': {
+      // Only array rollups are paginated; their items are the rolled-up property values
+      const rollup = property.rollup as Record<string, unknown>;
+      const array = items.map(({ object: _object, id: _id, ...value }) => value);
+      return pagePropertiesSchema.parse({
+        id: property.id,
+        type: 'rollup',
+        rollup: rollup.type === 'array' ? { ...rollup, array } : rollup,
+      });
+    }
+    default:
+      return pagePropertiesSchema.parse({
+        id: property.id,
+        type: property.type,
+        [property.type]: values,
+      });
+  }
+}
+
 /**
  * Pages API client for working with Notion pages.
  */
@@ -90,41 +189,196 @@ export class PagesAPI extends BaseAPI<NotionPage, Page> {
     listType: 'page' as const,
   };
 
+  private readonly blocks: BlocksAPI;
+  private readonly dataSources: DataSourcesAPI;
+
   constructor(protected readonly client: NotionClient) {
     super(client);
+    this.blocks = new BlocksAPI(client);
+    this.dataSources = new DataSourcesAPI(client);
   }
 
+  /**
+   * Page property operations.
+   */
+  readonly properties = {
+    /**
+     * Retrieve the full value of a page property.
+     *
+     * Title, rich text, relation, people and rollup values are truncated to 25
+     * entries in page objects. This follows the paginated `property_item`
+     * responses to the end and merges them back into the value shape used in
+     * page objects.
+     *
+     * @param pageId - The ID of the page
+     * @param propertyId - The ID of the property (as found in `page.properties[name].id`)
+     * @param callOptions - Per-call options such as an abort signal
+     * @returns The complete property value
+     *
+     * @see https://developers.notion.com/reference/retrieve-a-page-property
+     */
+    retrieve: async (
+      pageId: string,
+      propertyId: string,
+      callOptions?: CallOptions,
+    ): Promise<NotionPageProperties> => {
+      const path = `/pages/${pageId}/properties/${propertyId}`;
+      const items: NotionPropertyItem[] = [];
+      let cursor: string | undefined;
+      let list: NotionPropertyItemList;
+
+      do {
+        const response = await this.client.request<unknown>({
+          method: 'GET',
+          path,
+          query: {
+            page_size: String(LIMITS.ARRAY_ELEMENTS),
+            ...(cursor && { start_cursor: cursor }),
+          },
+          signal: callOptions?.signal,
+        });
+
+        const item = propertyItemSchema.safeParse(response);
+        if (item.success) {
+          return pagePropertiesSchema.parse(item.data);
+        }
+
+        list = propertyItemListSchema.parse(response);
+        items.push(...list.results);
+        cursor = list.next_cursor ?? undefined;
+      } while (list.has_more && cursor);
+
+      return mergePropertyItems(list.property_item, items);
+    },
+  };
+
   /**
    * Retrieve a page by ID.
    *
    * @param pageId - The ID of the page to retrieve (with or without dashes)
    * @param options - Options for filtering properties
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The page wrapped in a Page model
    *
    * @see https://developers.notion.com/reference/retrieve-a-page
    */
-  async retrieve(pageId: string, options?: RetrievePageOptions): Promise<Page> {
+  async retrieve(
+    pageId: string,
+    options?: RetrievePageOptions,
+    callOptions?: CallOptions,
+  ): Promise<Page> {
     const query: Record<string, string> = {
       ...this.buildFilterPropertiesQuery(options?.filter_properties),
     };
 
-    return this.retrieveResource(`/pages/${pageId}`, query);
+    return this.retrieveResource(`/pages/${pageId}`, query, callOptions);
   }
 
   /**
    * Create a new page.
    *
    * @param options - Options for creating the page
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The created page wrapped in a Page model
    *
    * @see https://developers.notion.com/reference/post-page
    */
-  async create(options: CreatePageOptions): Promise<Page> {
+  async create(options: CreatePageOptions, callOptions?: CallOptions): Promise<Page> {
     if (options.children) {
       validateArrayLength(options.children, LIMITS.ARRAY_ELEMENTS, 'children');
     }
 
-    return this.createResource('/pages', options);
+    return this.createResource('/pages', options, callOptions);
+  }
+
+  /**
+   * Create a new page with any number of content blocks.
+   *
+   * `children` are split into request-sized batches as in
+   * `blocks.children.appendAll`: the page is created with the first batch and
+   * the rest, including children nested deeper than two levels, are appended
+   * in follow-up requests.
+   *
+   * @param options - Options for creating the page, and a progress callback
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The created page wrapped in a Page model
+   *
+   * @see https://developers.notion.com/reference/post-page
+   */
+  async createWithChildren(
+    options: CreatePageWithChildrenOptions,
+    callOptions?: CallOptions,
+  ): Promise<Page> {
+    const { children, onProgress, ...pageOptions } = options;
+    if (!children || children.length === 0) {
+      return this.createResource('/pages', pageOptions, callOptions);
+    }
+
+    return this.blocks.createWithChildren(
+      (batch) => this.createResource('/pages', { ...pageOptions, children: batch }, callOptions),
+      children as Record<string, unknown>[],
+      onProgress,
+      callOptions?.signal,
+    );
+  }
+
+  /**
+   * Create a page in a data source from one of its templates, chosen by name.
+   *
+   * The template is looked up with `dataSources.templates.list`; its name must
+   * match `templateName` exactly. Notion applies the template's content and
+   * property defaults after the page is created, so the returned page may not
+   * show them yet.
+   *
+   * @param dataSourceId - The ID of the data source to create the page in
+   * @param templateName - The name of the template to apply
+   * @param properties - Page properties, which take precedence over the template's
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The created page wrapped in a Page model
+   *
+   * @throws {NotionValidationError} If the data source has no template with that name
+   *
+   * @example
+   * ```typescript
+   * const page = await notion.pages.createFromTemplate('data-source-id', 'Bug report', {
+   *   Name: prop.title('Login button does nothing'),
+   * });
+   * ```
+   */
+  async createFromTemplate(
+    dataSourceId: string,
+    templateName: string,
+    properties?: Record<string, unknown>,
+    callOptions?: CallOptions,
+  ): Promise<Page> {
+    const templates = this.dataSources.templates;
+    let cursor: string | undefined;
+
+    do {
+      const response = await templates.list(
+        dataSourceId,
+        { name: templateName, start_cursor: cursor },
+        callOptions,
+      );
+      const template = response.templates.find((candidate) => candidate.name === templateName);
+
+      if (template) {
+        return this.create(
+          {
+            parent: { data_source_id: dataSourceId },
+            properties,
+            template: { type: 'template_id', template_id: template.id },
+          },
+          callOptions,
+        );
+      }
+
+      cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
+    } while (cursor);
+
+    throw new NotionValidationError(
+      `Data source ${dataSourceId} has no template named "${templateName}"`,
+    );
   }
 
   /**
@@ -132,31 +386,134 @@ export class PagesAPI extends BaseAPI<NotionPage, Page> {
    *
    * @param pageId - The ID of the page to update
    * @param options - Options for updating the page
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The updated page wrapped in a Page model
    *
    * @see https://developers.notion.com/reference/patch-page
    */
-  async update(pageId: string, options: UpdatePageOptions): Promise<Page> {
-    return this.updateResource(`/pages/${pageId}`, options);
+  async update(
+    pageId: string,
+    options: UpdatePageOptions,
+    callOptions?: CallOptions,
+  ): Promise<Page> {
+    return this.updateResource(`/pages/${pageId}`, options, callOptions);
+  }
+
+  /**
+   * Move a page to a new parent page or data source.
+   *
+   * The page keeps its content and children. When it moves into a data source,
+   * properties that are not in the data source's schema are dropped.
+   *
+   * @param pageId - The ID of the page to move
+   * @param parent - The new parent, e.g. `parent.page(id)` or `parent.dataSource(id, databaseId)`
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The moved page wrapped in a Page model
+   *
+   * @example
+   * ```typescript
+   * const page = await notion.pages.move('page-id', parent.page('archive-page-id'));
+   * ```
+   *
+   * @see https://developers.notion.com/reference/move-page
+   */
+  async move(pageId: string, parent: MovePageParent, callOptions?: CallOptions): Promise<Page> {
+    return this.createResource(
+      `/pages/${pageId}/move`,
+      { parent: toMoveParent(parent) },
+      callOptions,
+    );
+  }
+
+  /**
+   * Move several pages, one after another.
+   *
+   * A failed move does not stop the others: every page gets a result, in input
+   * order, holding either the moved page or the error. Moves run sequentially so
+   * pages arrive under a shared parent in the given order. Aborting the signal
+   * stops before the next move and rejects.
+   *
+   * @param moves - The pages to move and their new parents
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns One result per move
+   *
+   * @example
+   * ```typescript
+   * const results = await notion.pages.moveMany(
+   *   childIds.map((pageId) => ({ pageId, parent: parent.page('new-section-id') })),
+   * );
+   * const failed = results.filter((result) => result.status === 'failed');
+   * ```
+   */
+  async moveMany(moves: PageMove[], callOptions?: CallOptions): Promise<PageMoveResult[]> {
+    const results: PageMoveResult[] = [];
+
+    for (const { pageId, parent } of moves) {
+      throwIfAborted(callOptions?.signal);
+      try {
+        const page = await this.move(pageId, parent, callOptions);
+        results.push({ pageId, status: 'moved', page });
+      } catch (error) {
+        throwIfAborted(callOptions?.signal);
+        results.push({ pageId, status: 'failed', error });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Fill in property values that page objects truncate at 25 entries.
+   *
+   * Properties reported by `page.getTruncatedProperties()` are fetched in full
+   * with `properties.retrieve`. Returns the page itself when nothing is truncated.
+   *
+   * @param page - The page to hydrate
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns A Page model with complete property values
+   *
+   * @example
+   * ```typescript
+   * const { results } = await notion.dataSources.query(dataSourceId);
+   * const pages = await Promise.all(results.map((page) => notion.pages.hydrate(page)));
+   * ```
+   */
+  async hydrate(page: Page, callOptions?: CallOptions): Promise<Page> {
+    const names = page.getTruncatedProperties();
+    if (names.length === 0) {
+      return page;
+    }
+
+    const data = page.toJSON();
+    await Promise.all(
+      names.map(async (name) => {
+        const { id } = data.properties[name];
+        data.properties[name] = await this.properties.retrieve(page.id, id, callOptions);
+      }),
+    );
+
+    return new Page(data);
   }
 
   /**
    * Archive a page (convenience method).
    *
    * @param pageId - The ID of the page to archive
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The archived page wrapped in a Page model
    */
-  async archive(pageId: string): Promise<Page> {
-    return this.update(pageId, { archived: true });
+  async archive(pageId: string, callOptions?: CallOptions): Promise<Page> {
+    return this.update(pageId, { archived: true }, callOptions);
   }
 
   /**
    * Restore an archived page (convenience method).
    *
    * @param pageId - The ID of the page to restore
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The restored page wrapped in a Page model
    */
-  async restore(pageId: string): Promise<Page> {
-    return this.update(pageId, { archived: false });
+  async restore(pageId: string, callOptions?: CallOptions): Promise<Page> {
+    return this.update(pageId, { archived: false }, callOptions);
   }
 }
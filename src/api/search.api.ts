@@ -1,4 +1,4 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
 import {
   dataSourceSchema,
   type NotionDataSource,
@@ -68,11 +68,15 @@ export class SearchAPI {
    * As of API version 2025-09-03, search returns data sources instead of databases.
    *
    * @param options - Search options (query, filter, sort, pagination)
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Paginated list of pages and/or data sources matching the search
    *
    * @see https://developers.notion.com/reference/post-search
    */
-  async query(options?: SearchOptions): Promise<PaginatedList<SearchResult>> {
+  async query(
+    options?: SearchOptions,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedList<SearchResult>> {
     const body: Record<string, unknown> = {
       ...(options?.query ? { query: options.query } : {}),
       ...(options?.filter ? { filter: options.filter } : {}),
@@ -91,6 +95,7 @@ export class SearchAPI {
       method: 'POST',
       path: '/search',
       body: Object.keys(body).length > 0 ? body : undefined,
+      signal: callOptions?.signal,
     });
 
     // The API returns mixed results (pages and data sources)
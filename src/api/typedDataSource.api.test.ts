@@ -0,0 +1,224 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TypedDataSourceAPI } from './typedDataSource.api';
+import type { NotionClient } from '../client';
+import { NotionPropertyError } from '../errors';
+import { FakeNotion } from '../fake';
+import { Notion } from '../notion';
+import { NotionValidationError } from '../validation';
+
+interface Task {
+  Name: string;
+  Points: number | null;
+  Done: boolean;
+  Priority: 'High' | 'Low' | null;
+  Tags: string[];
+}
+
+const taskSchema = {
+  Name: 'title',
+  Points: 'number',
+  Done: 'checkbox',
+  Priority: 'select',
+  Tags: 'multi_select',
+} as const;
+
+describe('TypedDataSourceAPI', () => {
+  describe('query compilation', () => {
+    const mockClient = { request: vi.fn() } as unknown as NotionClient;
+    const tasks = new TypedDataSourceAPI<Task>(mockClient, 'ds-id', taskSchema);
+
+    beforeEach(() => {
+      vi.mocked(mockClient.request).mockReset();
+      vi.mocked(mockClient.request).mockResolvedValue({
+        object: 'list',
+        results: [],
+        next_cursor: null,
+        has_more: false,
+        type: 'page_or_data_source',
+        page_or_data_source: {},
+      });
+    });
+
+    it('should compile filters and sorts to the filter and sort helpers', async () => {
+      await tasks.findFirst(
+        {
+          Done: false,
+          Points: { greaterThan: 2, lessThanOrEqualTo: 8 },
+          or: [{ Priority: 'High' }, { Tags: { contains: 'urgent' } }, { Priority: null }],
+        },
+        { Points: 'descending', Name: 'ascending' },
+      );
+
+      expect(mockClient.request).toHaveBeenCalledWith({
+        method: 'POST',
+        path: '/data_sources/ds-id/query',
+        body: {
+          filter: {
+            and: [
+              { property: 'Done', checkbox: { equals: false } },
+              { property: 'Points', number: { greater_than: 2 } },
+              { property: 'Points', number: { less_than_or_equal_to: 8 } },
+              {
+                or: [
+                  { property: 'Priority', select: { equals: 'High' } },
+                  { property: 'Tags', multi_select: { contains: 'urgent' } },
+                  { property: 'Priority', select: { is_empty: true } },
+                ],
+              },
+            ],
+          },
+          sorts: [
+            { property: 'Points', direction: 'descending' },
+            { property: 'Name', direction: 'ascending' },
+          ],
+          page_size: 1,
+        },
+        signal: undefined,
+      });
+    });
+
+    it('should send a single condition without an and wrapper', async () => {
+      await tasks.findFirst({ Name: { startsWith: 'Write' } });
+
+      expect(mockClient.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: {
+            filter: { property: 'Name', title: { starts_with: 'Write' } },
+            page_size: 1,
+          },
+        }),
+      );
+    });
+
+    it('should keep false values of comparison operators', async () => {
+      await tasks.findFirst({ Done: { equals: false } });
+      await tasks.findFirst({ Done: { doesNotEqual: false } });
+
+      const filters = vi
+        .mocked(mockClient.request)
+        .mock.calls.map(([options]) => (options.body as { filter: unknown }).filter);
+      expect(filters).toEqual([
+        { property: 'Done', checkbox: { equals: false } },
+        { property: 'Done', checkbox: { does_not_equal: false } },
+      ]);
+    });
+
+    it('should reject conditions without clauses', async () => {
+      await expect(tasks.findMany({ Priority: { isEmpty: false } } as never)).rejects.toThrow(
+        'Condition for field "Priority" has no clauses',
+      );
+      await expect(tasks.findFirst({ Points: {} })).rejects.toThrow(NotionValidationError);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should reject an upsert without conditions', async () => {
+      await expect(tasks.upsert({}, { Name: 'Review' })).rejects.toThrow(
+        'upsert needs at least one condition to identify the row',
+      );
+      await expect(tasks.upsert({ Name: undefined }, { Name: 'Review' })).rejects.toThrow(
+        NotionValidationError,
+      );
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should reject conditions the property type does not support', async () => {
+      await expect(tasks.findFirst({ Tags: { greaterThan: 1 } } as never)).rejects.toThrow(
+        '"greaterThan" is not a valid condition for multi_select property "Tags"',
+      );
+      await expect(tasks.findFirst({ Missing: 1 } as never)).rejects.toThrow(NotionValidationError);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('repository', () => {
+    let notion: Notion;
+    let dataSourceId: string;
+
+    beforeEach(async () => {
+      const fake = new FakeNotion();
+      notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+      const database = await notion.databases.create({
+        parent: { type: 'workspace', workspace: true },
+        title: [{ type: 'text', text: { content: 'Tasks' } }],
+        initial_data_source: {
+          properties: {
+            Name: { title: {} },
+            Points: { number: {} },
+            Done: { checkbox: {} },
+            Priority: {
+              select: {
+                options: [
+                  { name: 'High', color: 'red' },
+                  { name: 'Low', color: 'gray' },
+                ],
+              },
+            },
+            Tags: { multi_select: { options: [] } },
+          },
+        },
+      });
+      dataSourceId = database.dataSources[0]!.id;
+    });
+
+    it('should create, find and update plain rows', async () => {
+      const tasks = notion.dataSources.typed<Task>(dataSourceId, taskSchema);
+
+      const created = await tasks.create({ Name: 'Write docs', Points: 3, Tags: ['docs'] });
+      expect(created).toEqual({
+        id: created.id,
+        Name: 'Write docs',
+        Points: 3,
+        Done: false,
+        Priority: null,
+        Tags: ['docs'],
+      });
+
+      await tasks.create({ Name: 'Fix bug', Points: 5, Priority: 'High' });
+      await tasks.create({ Name: 'Ship', Points: 1, Done: true });
+
+      const open = await tasks.findMany({ Done: false }, { Points: 'descending' });
+      expect(open.map((task) => task.Name)).toEqual(['Fix bug', 'Write docs']);
+
+      const updated = await tasks.update(created.id, { ...created, Done: true });
+      expect(updated.Done).toBe(true);
+      await expect(tasks.findById(created.id)).resolves.toMatchObject({ Done: true });
+    });
+
+    it('should upsert rows matching a filter', async () => {
+      const tasks = notion.dataSources.typed<Task>(dataSourceId, taskSchema);
+
+      const first = await tasks.upsert({ Name: 'Review' }, { Name: 'Review', Points: 1 });
+      const second = await tasks.upsert(
+        { Name: 'Review' },
+        { Name: 'Review', Points: 1 },
+        { Points: 2 },
+      );
+
+      expect(second.id).toBe(first.id);
+      expect(second.Points).toBe(2);
+      await expect(tasks.findMany()).resolves.toHaveLength(1);
+    });
+
+    it('should archive rows and return null for unknown IDs', async () => {
+      const tasks = notion.dataSources.typed<Task>(dataSourceId, taskSchema);
+      const task = await tasks.create({ Name: 'Old' });
+
+      await tasks.archive(task.id);
+
+      await expect(tasks.findMany()).resolves.toEqual([]);
+      await expect(tasks.findById('00000000-0000-0000-0000-000000000000')).resolves.toBeNull();
+    });
+
+    it('should throw a NotionPropertyError when the schema does not match', async () => {
+      const tasks = notion.dataSources.typed<{ Name: string; Points: string }>(dataSourceId, {
+        Name: 'title',
+        Points: 'rich_text',
+      });
+      await notion.dataSources
+        .typed<Task>(dataSourceId, taskSchema)
+        .create({ Name: 'Write docs', Points: 3 });
+
+      await expect(tasks.findFirst()).rejects.toThrow(NotionPropertyError);
+    });
+  });
+});
@@ -0,0 +1,477 @@
+import type { CallOptions, NotionClient } from '../client';
+import { NotionAPIError, NotionPropertyError } from '../errors';
+import { filter } from '../helpers/filter.helpers';
+import { paginate } from '../helpers/pagination.helpers';
+import { fromPlainObject } from '../helpers/plainObject.helpers';
+import { sort } from '../helpers/sort.helpers';
+import type { Page, PagePlainValue } from '../models';
+import type { NotionPageProperties } from '../schemas';
+import { NotionValidationError } from '../validation';
+import {
+  type DataSourceFilter,
+  DataSourcesAPI,
+  type DataSourceSort,
+  type SortDirection,
+} from './dataSources.api';
+import { PagesAPI } from './pages.api';
+
+/**
+ * Page property types a row field can be bound to.
+ */
+export type TypedPropertyType = NotionPageProperties['type'];
+
+/**
+ * Maps every field of a row type to the type of the data source property it is
+ * stored in. Field names are property names.
+ */
+export type TypedDataSourceSchema<Row> = {
+  readonly [K in keyof Row & string]-?: TypedPropertyType;
+};
+
+/**
+ * A row read from a typed data source: its plain property values plus the page ID.
+ */
+export type TypedRow<Row> = Row & { id: string };
+
+/** Conditions accepted by every filterable property type except checkboxes. */
+interface EmptinessCondition {
+  isEmpty?: true;
+  isNotEmpty?: true;
+}
+
+/** Conditions for title, rich text, select, status, URL, email and phone number fields. */
+export interface TextCondition<V extends string = string> extends EmptinessCondition {
+  equals?: V;
+  doesNotEqual?: V;
+  contains?: string;
+  doesNotContain?: string;
+  startsWith?: string;
+  endsWith?: string;
+}
+
+/** Conditions for number fields. */
+export interface NumberCondition extends EmptinessCondition {
+  equals?: number;
+  doesNotEqual?: number;
+  greaterThan?: number;
+  greaterThanOrEqualTo?: number;
+  lessThan?: number;
+  lessThanOrEqualTo?: number;
+}
+
+/** Conditions for checkbox fields. */
+export interface CheckboxCondition {
+  equals?: boolean;
+  doesNotEqual?: boolean;
+}
+
+/** Conditions for multi-select, people, relation and files fields. */
+export interface ListCondition<V> extends EmptinessCondition {
+  contains?: V;
+  doesNotContain?: V;
+}
+
+/** Conditions for date fields; dates are ISO 8601 strings. */
+export interface DateCondition extends EmptinessCondition {
+  equals?: string;
+  before?: string;
+  after?: string;
+  onOrBefore?: string;
+  onOrAfter?: string;
+  pastWeek?: true;
+  pastMonth?: true;
+  pastYear?: true;
+  nextWeek?: true;
+  nextMonth?: true;
+  nextYear?: true;
+}
+
+/**
+ * The conditions available for a field, derived from its value type.
+ */
+export type TypedCondition<V> = [NonNullable<V>] extends [boolean]
+  ? CheckboxCondition
+  : [NonNullable<V>] extends [number]
+    ? NumberCondition
+    : [NonNullable<V>] extends [ReadonlyArray<infer Item>]
+      ? ListCondition<Item>
+      : [NonNullable<V>] extends [string]
+        ? TextCondition<NonNullable<V>>
+        : DateCondition;
+
+/**
+ * Filter for a typed data source. Each field takes a condition object or a
+ * value to compare with `equals` (`null` matches empty values). Fields are
+ * combined with AND; `or` takes alternative filters.
+ *
+ * @example
+ * ```ts
+ * { Done: false, Points: { greaterThan: 3 }, or: [{ Owner: { isEmpty: true } }, { Priority: 'High' }] }
+ * ```
+ */
+export type TypedWhere<Row> = {
+  [K in keyof Row & string]?:
+    | Extract<Row[K], string | number | boolean | null>
+    | TypedCondition<Row[K]>;
+} & { or?: Array<TypedWhere<Row>> };
+
+/**
+ * Sort order for a typed data source. Fields are sorted by in key order.
+ */
+export type TypedOrderBy<Row> = { [K in keyof Row & string]?: SortDirection };
+
+/** Creates a property filter builder for a property name. */
+type FilterFactory = (property: string) => object;
+
+const FILTER_FACTORIES: Partial<Record<TypedPropertyType, FilterFactory>> = {
+  title: filter.title,
+  rich_text: filter.text,
+  url: filter.url,
+  email: filter.email,
+  phone_number: filter.phoneNumber,
+  number: filter.number,
+  checkbox: filter.checkbox,
+  select: filter.select,
+  multi_select: filter.multiSelect,
+  status: filter.status,
+  date: filter.date,
+  people: filter.people,
+  relation: filter.relation,
+  files: filter.files,
+};
+
+/** Filter builder methods a condition key may call. */
+const OPERATORS = new Set([
+  'equals',
+  'doesNotEqual',
+  'contains',
+  'doesNotContain',
+  'startsWith',
+  'endsWith',
+  'greaterThan',
+  'greaterThanOrEqualTo',
+  'lessThan',
+  'lessThanOrEqualTo',
+  'before',
+  'after',
+  'onOrBefore',
+  'onOrAfter',
+  'pastWeek',
+  'pastMonth',
+  'pastYear',
+  'nextWeek',
+  'nextMonth',
+  'nextYear',
+  'isEmpty',
+  'isNotEmpty',
+]);
+
+/** Operators that take no value; `false` turns them off instead of being compared. */
+const FLAG_OPERATORS = new Set([
+  'pastWeek',
+  'pastMonth',
+  'pastYear',
+  'nextWeek',
+  'nextMonth',
+  'nextYear',
+  'isEmpty',
+  'isNotEmpty',
+]);
+
+/**
+ * A data source bound to a row type. Reads and writes plain rows (see
+ * `Page.toPlainObject()`) instead of `Page` models, and compiles typed filters
+ * and sort orders to the `filter` and `sort` helpers.
+ *
+ * Create instances with `notion.dataSources.typed<Row>(dataSourceId, schema)`.
+ */
+export class TypedDataSourceAPI<Row extends object> {
+  private readonly dataSources: DataSourcesAPI;
+  private readonly pages: PagesAPI;
+  private readonly propertyTypes: Record<string, { type: TypedPropertyType }>;
+
+  constructor(
+    client: NotionClient,
+    readonly dataSourceId: string,
+    schema: TypedDataSourceSchema<Row>,
+  ) {
+    this.dataSources = new DataSourcesAPI(client);
+    this.pages = new PagesAPI(client);
+    this.propertyTypes = Object.fromEntries(
+      Object.entries<TypedPropertyType>(schema).map(([name, type]) => [name, { type }]),
+    );
+  }
+
+  /**
+   * Find all rows matching a filter, following pagination to the end.
+   *
+   * @param where - Filter conditions (all rows when omitted)
+   * @param orderBy - Sort order
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The matching rows
+   */
+  async findMany(
+    where?: TypedWhere<Row>,
+    orderBy?: TypedOrderBy<Row>,
+    callOptions?: CallOptions,
+  ): Promise<Array<TypedRow<Row>>> {
+    const filter = where && this.compileWhere(where);
+    const sorts = orderBy && this.compileOrderBy(orderBy);
+    const pages = await paginate(
+      (cursor) =>
+        this.dataSources.query(
+          this.dataSourceId,
+          { filter, sorts, start_cursor: cursor, page_size: 100 },
+          callOptions,
+        ),
+      callOptions,
+    );
+
+    const rows: Array<TypedRow<Row>> = [];
+    for (const page of pages) {
+      rows.push(await this.toRow(page, callOptions));
+    }
+    return rows;
+  }
+
+  /**
+   * Find the first row matching a filter.
+   *
+   * @param where - Filter conditions (any row when omitted)
+   * @param orderBy - Sort order
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The first matching row, or null if none match
+   */
+  async findFirst(
+    where?: TypedWhere<Row>,
+    orderBy?: TypedOrderBy<Row>,
+    callOptions?: CallOptions,
+  ): Promise<TypedRow<Row> | null> {
+    const response = await this.dataSources.query(
+      this.dataSourceId,
+      {
+        filter: where && this.compileWhere(where),
+        sorts: orderBy && this.compileOrderBy(orderBy),
+        page_size: 1,
+      },
+      callOptions,
+    );
+
+    return response.results.length > 0 ? this.toRow(response.results[0], callOptions) : null;
+  }
+
+  /**
+   * Find a row by page ID.
+   *
+   * @param pageId - The ID of the page
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The row, or null if the page does not exist or is not shared with the integration
+   * @throws {NotionPropertyError} If the page does not have the schema's properties
+   */
+  async findById(pageId: string, callOptions?: CallOptions): Promise<TypedRow<Row> | null> {
+    try {
+      const page = await this.pages.retrieve(pageId, undefined, callOptions);
+      return await this.toRow(page, callOptions);
+    } catch (error) {
+      if (error instanceof NotionAPIError && error.isNotFound()) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a row. Computed fields such as formulas and rollups are ignored.
+   *
+   * @param row - The field values of the new row
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The created row
+   */
+  async create(row: Partial<Row>, callOptions?: CallOptions): Promise<TypedRow<Row>> {
+    const page = await this.pages.create(
+      {
+        parent: { data_source_id: this.dataSourceId },
+        properties: this.toProperties(row),
+      },
+      callOptions,
+    );
+    return this.toRow(page, callOptions);
+  }
+
+  /**
+   * Update some fields of a row. Computed fields such as formulas and rollups are ignored.
+   *
+   * @param pageId - The ID of the row's page
+   * @param row - The field values to change
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The updated row
+   */
+  async update(
+    pageId: string,
+    row: Partial<Row>,
+    callOptions?: CallOptions,
+  ): Promise<TypedRow<Row>> {
+    const page = await this.pages.update(
+      pageId,
+      { properties: this.toProperties(row) },
+      callOptions,
+    );
+    return this.toRow(page, callOptions);
+  }
+
+  /**
+   * Update the first row matching a filter, or create a row if none match.
+   *
+   * @param where - Filter identifying the row
+   * @param create - Field values for a new row
+   * @param update - Field values to change on an existing row (default: `create`)
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The updated or created row
+   *
+   * @throws {NotionValidationError} If `where` has no conditions
+   */
+  async upsert(
+    where: TypedWhere<Row>,
+    create: Partial<Row>,
+    update: Partial<Row> = create,
+    callOptions?: CallOptions,
+  ): Promise<TypedRow<Row>> {
+    if (!this.compileWhere(where)) {
+      throw new NotionValidationError('upsert needs at least one condition to identify the row');
+    }
+    const existing = await this.findFirst(where, undefined, callOptions);
+    return existing
+      ? this.update(existing.id, update, callOptions)
+      : this.create(create, callOptions);
+  }
+
+  /**
+   * Archive a row.
+   *
+   * @param pageId - The ID of the row's page
+   * @param callOptions - Per-call options such as an abort signal
+   * @returns The archived row
+   */
+  async archive(pageId: string, callOptions?: CallOptions): Promise<TypedRow<Row>> {
+    const page = await this.pages.archive(pageId, callOptions);
+    return this.toRow(page, callOptions);
+  }
+
+  private typeOf(name: string): TypedPropertyType {
+    const property = this.propertyTypes[name];
+    if (!property) {
+      throw new NotionValidationError(`Field "${name}" is not in the typed data source schema`);
+    }
+    return property.type;
+  }
+
+  private compileWhere(where: TypedWhere<Row>): DataSourceFilter | undefined {
+    const conditions: DataSourceFilter[] = [];
+
+    for (const [name, condition] of Object.entries<unknown>(where)) {
+      if (condition === undefined) {
+        continue;
+      }
+      if (name === 'or' && !(name in this.propertyTypes)) {
+        const alternatives = (condition as Array<TypedWhere<Row>>).map((alternative) =>
+          this.compileWhere(alternative),
+        );
+        conditions.push(filter.or(...alternatives.filter((alternative) => !!alternative)));
+        continue;
+      }
+      conditions.push(...this.compileCondition(name, condition));
+    }
+
+    if (conditions.length <= 1) {
+      return conditions[0];
+    }
+    return filter.and(...conditions);
+  }
+
+  private compileCondition(name: string, condition: unknown): DataSourceFilter[] {
+    const type = this.typeOf(name);
+    const factory = FILTER_FACTORIES[type];
+    if (!factory) {
+      throw new NotionValidationError(
+        `Field "${name}" is a ${type} property and cannot be filtered`,
+      );
+    }
+
+    const builder = factory(name) as Record<string, unknown>;
+    const call = (operator: string, value: unknown): DataSourceFilter => {
+      const method = OPERATORS.has(operator) ? builder[operator] : undefined;
+      if (typeof method !== 'function') {
+        throw new NotionValidationError(
+          `"${operator}" is not a valid condition for ${type} property "${name}"`,
+        );
+      }
+      const operation = method as (this: unknown, value?: unknown) => DataSourceFilter;
+      return operation.length === 0 ? operation.call(builder) : operation.call(builder, value);
+    };
+
+    if (condition === null) {
+      return [call('isEmpty', true)];
+    }
+    if (typeof condition !== 'object') {
+      return [call('equals', condition)];
+    }
+    const clauses = Object.entries<unknown>(condition as Record<string, unknown>)
+      .filter(
+        ([operator, value]) =>
+          value !== undefined && !(value === false && FLAG_OPERATORS.has(operator)),
+      )
+      .map(([operator, value]) => call(operator, value));
+    if (clauses.length === 0) {
+      throw new NotionValidationError(`Condition for field "${name}" has no clauses`);
+    }
+    return clauses;
+  }
+
+  private compileOrderBy(orderBy: TypedOrderBy<Row>): DataSourceSort[] {
+    return Object.entries<SortDirection | undefined>(orderBy)
+      .filter((entry): entry is [string, SortDirection] => entry[1] !== undefined)
+      .map(([name, direction]) => {
+        this.typeOf(name);
+        return sort.property(name)[direction]();
+      });
+  }
+
+  private toProperties(row: Partial<Row>): Record<string, unknown> {
+    const values: Record<string, PagePlainValue | undefined> = {};
+    for (const [name, value] of Object.entries(row as Record<string, PagePlainValue | undefined>)) {
+      if (name !== 'id' || name in this.propertyTypes) {
+        values[name] = value;
+      }
+    }
+    return fromPlainObject(values, this.propertyTypes);
+  }
+
+  private async toRow(page: Page, callOptions?: CallOptions): Promise<TypedRow<Row>> {
+    const truncated = page.getTruncatedProperties().some((name) => name in this.propertyTypes);
+    const full = truncated ? await this.pages.hydrate(page, callOptions) : page;
+    const values = full.toPlainObject();
+    const row: Record<string, unknown> = { id: full.id };
+
+    for (const [name, { type }] of Object.entries(this.propertyTypes)) {
+      const property = full.getProperty(name);
+      if (!property) {
+        throw new NotionPropertyError(
+          `Page ${full.id} has no property "${name}" (expected a ${type} property)`,
+          name,
+          [type],
+        );
+      }
+      if (property.type !== type) {
+        throw new NotionPropertyError(
+          `Property "${name}" of page ${full.id} is a ${property.type} property, expected ${type}`,
+          name,
+          [type],
+          property.type,
+        );
+      }
+      row[name] = values[name];
+    }
+
+    return row as TypedRow<Row>;
+  }
+}
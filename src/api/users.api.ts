@@ -1,4 +1,4 @@
-import type { NotionClient } from '../client';
+import type { CallOptions, NotionClient } from '../client';
 import {
   type NotionUser,
   type PaginatedList,
@@ -26,36 +26,42 @@ export class UsersAPI extends BaseAPI<NotionUser, User> {
    * Retrieve a user by ID.
    *
    * @param userId - The ID of the user to retrieve
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The user wrapped in a User model
    *
    * @see https://developers.notion.com/reference/get-user
    */
-  async retrieve(userId: string): Promise<User> {
-    return this.retrieveResource(`/users/${userId}`);
+  async retrieve(userId: string, callOptions?: CallOptions): Promise<User> {
+    return this.retrieveResource(`/users/${userId}`, undefined, callOptions);
   }
 
   /**
    * List all users in the workspace (paginated).
    *
    * @param params - Pagination parameters
+   * @param callOptions - Per-call options such as an abort signal
    * @returns Paginated list of users
    *
    * @see https://developers.notion.com/reference/get-users
    */
-  async list(params?: PaginationParameters): Promise<PaginatedList<User>> {
+  async list(
+    params?: PaginationParameters,
+    callOptions?: CallOptions,
+  ): Promise<PaginatedList<User>> {
     const query = this.buildPaginationQuery(params);
 
-    return this.listResources('/users', query);
+    return this.listResources('/users', query, callOptions);
   }
 
   /**
    * Retrieve the bot user associated with the API token.
    *
+   * @param callOptions - Per-call options such as an abort signal
    * @returns The bot user wrapped in a User model
    *
    * @see https://developers.notion.com/reference/get-self
    */
-  async me(): Promise<User> {
-    return this.retrieveResource('/users/me');
+  async me(callOptions?: CallOptions): Promise<User> {
+    return this.retrieveResource('/users/me', undefined, callOptions);
   }
 }
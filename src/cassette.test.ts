@@ -0,0 +1,209 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Cassette, type CassetteFile } from './cassette';
+import { NotionClient } from './client';
+import { NotionAPIError, NotionCassetteError } from './errors';
+
+describe('Cassette', () => {
+  let dir: string;
+  let path: string;
+
+  const jsonResponse = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const createClient = (cassette: Cassette) =>
+    new NotionClient({
+      auth: 'secret_token',
+      fetch: cassette.fetch,
+      rateLimit: false,
+      maxRetries: 0,
+    });
+
+  const record = async (
+    calls: (client: NotionClient) => Promise<unknown>,
+    responses: Response[],
+  ): Promise<void> => {
+    const fetchMock = vi.fn();
+    responses.forEach((response) => fetchMock.mockResolvedValueOnce(response));
+
+    const cassette = new Cassette({ path, mode: 'record', fetch: fetchMock });
+    await calls(createClient(cassette));
+    await cassette.save();
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'notion-cassette-'));
+    path = join(dir, 'cassettes', 'test.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('record mode', () => {
+    it('should pass requests through and save them with the token redacted', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { object: 'user', id: 'me' }));
+      const cassette = new Cassette({ path, mode: 'record', fetch: fetchMock });
+      const client = createClient(cassette);
+
+      const result = await client.request({
+        method: 'POST',
+        path: '/search',
+        query: { page_size: 10 },
+        body: { query: 'roadmap' },
+      });
+      await cassette.save();
+
+      expect(result).toEqual({ object: 'user', id: 'me' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      const file = JSON.parse(await readFile(path, 'utf8')) as CassetteFile;
+      expect(file.version).toBe(1);
+      expect(file.interactions).toHaveLength(1);
+
+      const [interaction] = file.interactions;
+      expect(interaction?.request).toMatchObject({
+        method: 'POST',
+        url: 'https://api.notion.com/v1/search?page_size=10',
+        body: { query: 'roadmap' },
+      });
+      expect(interaction?.request.headers.authorization).toBe('[REDACTED]');
+      expect(interaction?.response).toMatchObject({
+        status: 200,
+        body: { object: 'user', id: 'me' },
+      });
+      expect(JSON.stringify(file)).not.toContain('secret_token');
+    });
+
+    it('should redact OAuth codes and tokens from bodies and still replay them', async () => {
+      const tokenExchange = (client: NotionClient) =>
+        client.request({
+          method: 'POST',
+          path: '/oauth/token',
+          body: { grant_type: 'authorization_code', code: 'secret_code' },
+        });
+      await record(tokenExchange, [
+        jsonResponse(200, {
+          access_token: 'secret_access',
+          refresh_token: 'secret_refresh',
+          bot_id: 'secret_bot',
+          token_type: 'bearer',
+        }),
+      ]);
+
+      const text = await readFile(path, 'utf8');
+      expect(text).not.toMatch(/secret_(code|access|refresh|bot)/);
+      expect(text).toContain('authorization_code');
+
+      const client = createClient(new Cassette({ path, mode: 'replay' }));
+      await expect(tokenExchange(client)).resolves.toEqual({
+        access_token: '[REDACTED]',
+        refresh_token: '[REDACTED]',
+        bot_id: '[REDACTED]',
+        token_type: 'bearer',
+      });
+    });
+  });
+
+  describe('replay mode', () => {
+    it('should serve recorded responses in order without calling fetch', async () => {
+      await record(
+        async (client) => {
+          await client.request({ method: 'GET', path: '/pages/abc' });
+          await client.request({ method: 'GET', path: '/pages/abc' });
+        },
+        [
+          jsonResponse(200, { object: 'page', id: 'abc', in_trash: false }),
+          jsonResponse(200, { object: 'page', id: 'abc', in_trash: true }),
+        ],
+      );
+
+      const cassette = new Cassette({ path, mode: 'replay' });
+      const client = createClient(cassette);
+
+      await expect(client.request({ method: 'GET', path: '/pages/abc' })).resolves.toMatchObject({
+        in_trash: false,
+      });
+      await expect(client.request({ method: 'GET', path: '/pages/abc' })).resolves.toMatchObject({
+        in_trash: true,
+      });
+    });
+
+    it('should replay error responses', async () => {
+      const notFound = {
+        object: 'error',
+        status: 404,
+        code: 'object_not_found',
+        message: 'Could not find page',
+      };
+      await record(
+        (client) => client.request({ method: 'GET', path: '/pages/missing' }).catch(() => {}),
+        [jsonResponse(404, notFound)],
+      );
+
+      const client = createClient(new Cassette({ path, mode: 'replay' }));
+
+      await expect(client.request({ method: 'GET', path: '/pages/missing' })).rejects.toThrow(
+        NotionAPIError,
+      );
+    });
+
+    it('should fail clearly on unmatched requests', async () => {
+      await record(
+        (client) => client.request({ method: 'POST', path: '/search', body: { query: 'a' } }),
+        [jsonResponse(200, { object: 'list', results: [] })],
+      );
+
+      const client = createClient(new Cassette({ path, mode: 'replay' }));
+      const request = client.request({ method: 'POST', path: '/search', body: { query: 'b' } });
+
+      await expect(request).rejects.toThrow(NotionCassetteError);
+      await expect(request).rejects.toThrow(
+        'No recorded interaction matches POST /v1/search (matching on method, path, query, body)',
+      );
+    });
+
+    it('should only compare the configured fields', async () => {
+      await record(
+        (client) =>
+          client.request({
+            method: 'POST',
+            path: '/search',
+            query: { a: 1, b: 2 },
+            body: { query: 'a', page_size: 10 },
+          }),
+        [jsonResponse(200, { object: 'list', results: [] })],
+      );
+
+      const strict = createClient(new Cassette({ path, mode: 'replay' }));
+      const loose = createClient(
+        new Cassette({ path, mode: 'replay', matchOn: ['method', 'path'] }),
+      );
+
+      await expect(
+        strict.request({
+          method: 'POST',
+          path: '/search',
+          query: { b: 2, a: 1 },
+          body: { page_size: 10, query: 'a' },
+        }),
+      ).resolves.toEqual({ object: 'list', results: [] });
+      await expect(
+        loose.request({ method: 'POST', path: '/search', body: { query: 'other' } }),
+      ).resolves.toEqual({ object: 'list', results: [] });
+    });
+
+    it('should fail when the cassette file is missing', async () => {
+      const client = createClient(new Cassette({ path, mode: 'replay' }));
+
+      await expect(client.request({ method: 'GET', path: '/users/me' })).rejects.toThrow(
+        /Cannot read cassette/,
+      );
+    });
+  });
+});
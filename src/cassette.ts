@@ -0,0 +1,317 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { NotionCassetteError } from './errors';
+
+/**
+ * Whether a cassette records live traffic or serves recorded traffic back.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Request fields compared when looking up a recorded interaction.
+ */
+export type CassetteMatchField = 'method' | 'path' | 'query' | 'body';
+
+/**
+ * A recorded request and the response it received.
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+/**
+ * Contents of a cassette file.
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Configuration options for a cassette.
+ */
+export interface CassetteOptions {
+  /** Path of the JSON cassette file */
+  path: string;
+
+  /** `record` to call the API and save the traffic, `replay` to serve it from the file */
+  mode: CassetteMode;
+
+  /** Request fields a recorded interaction must match (default: method, path, query and body) */
+  matchOn?: CassetteMatchField[];
+
+  /** Request headers whose values are replaced before saving (default: `authorization`) */
+  redactHeaders?: string[];
+
+  /**
+   * JSON request body keys whose string values are replaced before saving, at
+   * any depth (default: the OAuth `code`, `refresh_token`, `token` and `client_secret`)
+   */
+  redactRequestBodyKeys?: string[];
+
+  /**
+   * JSON response body keys whose string values are replaced before saving, at
+   * any depth (default: `access_token`, `refresh_token` and `bot_id`)
+   */
+  redactResponseBodyKeys?: string[];
+
+  /** Fetch implementation used in record mode (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_MATCH_ON: CassetteMatchField[] = ['method', 'path', 'query', 'body'];
+
+const DEFAULT_REDACT_REQUEST_BODY_KEYS = ['code', 'refresh_token', 'token', 'client_secret'];
+
+const DEFAULT_REDACT_RESPONSE_BODY_KEYS = ['access_token', 'refresh_token', 'bot_id'];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * HTTP record/replay for deterministic tests, plugged in through the client's
+ * `fetch` option.
+ *
+ * In record mode every request goes to the API and is kept, with credentials
+ * and tokens redacted from headers and bodies, until `save` writes the cassette
+ * file. In replay mode requests are
+ * answered from the file: each recorded interaction is used once, in recording
+ * order, so repeated requests (e.g. polling) get their successive responses.
+ * A request without a matching interaction fails with a `NotionCassetteError`.
+ *
+ * @example
+ * ```typescript
+ * import { Cassette } from '@visus-io/notion-sdk-ts/testing';
+ *
+ * const cassette = new Cassette({
+ *   path: 'test/cassettes/create-page.json',
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ * });
+ * const notion = new Notion({ auth: process.env.NOTION_TOKEN ?? 'test', fetch: cassette.fetch });
+ *
+ * const page = await notion.pages.create({ ... });
+ *
+ * await cassette.save(); // no-op in replay mode
+ * ```
+ */
+export class Cassette {
+  private readonly matchOn: CassetteMatchField[];
+  private readonly redactHeaders: Set<string>;
+  private readonly redactRequestBodyKeys: Set<string>;
+  private readonly redactResponseBodyKeys: Set<string>;
+  private readonly fetchImpl: typeof fetch;
+  private readonly recorded: CassetteInteraction[] = [];
+  private loaded?: Promise<CassetteInteraction[]>;
+  private readonly played = new Set<CassetteInteraction>();
+
+  constructor(private readonly options: CassetteOptions) {
+    this.matchOn = options.matchOn ?? DEFAULT_MATCH_ON;
+    this.redactHeaders = new Set(
+      (options.redactHeaders ?? ['authorization']).map((name) => name.toLowerCase()),
+    );
+    this.redactRequestBodyKeys = new Set(
+      options.redactRequestBodyKeys ?? DEFAULT_REDACT_REQUEST_BODY_KEYS,
+    );
+    this.redactResponseBodyKeys = new Set(
+      options.redactResponseBodyKeys ?? DEFAULT_REDACT_RESPONSE_BODY_KEYS,
+    );
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Fetch implementation to pass to `NotionClientOptions.fetch`.
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = await toRecordedRequest(input, init);
+
+    if (this.options.mode === 'replay') {
+      // Recorded bodies are redacted, so match against the redacted request
+      return this.replay(this.redact(request));
+    }
+
+    const response = await this.fetchImpl(input, init);
+    const recordedResponse = await toRecordedResponse(response.clone());
+    this.recorded.push({
+      request: this.redact(request),
+      response: {
+        ...recordedResponse,
+        body: redactBody(recordedResponse.body, this.redactResponseBodyKeys),
+      },
+    });
+    return response;
+  };
+
+  /**
+   * Interactions recorded so far (record mode).
+   */
+  get interactions(): readonly CassetteInteraction[] {
+    return this.recorded;
+  }
+
+  /**
+   * Write the recorded interactions to the cassette file. Does nothing in replay mode.
+   */
+  async save(): Promise<void> {
+    if (this.options.mode !== 'record') {
+      return;
+    }
+
+    const file: CassetteFile = { version: 1, interactions: this.recorded };
+    await mkdir(dirname(this.options.path), { recursive: true });
+    await writeFile(this.options.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  private async replay(request: CassetteInteraction['request']): Promise<Response> {
+    this.loaded ??= loadCassette(this.options.path);
+    const interactions = await this.loaded;
+
+    const match = interactions.find(
+      (interaction) => !this.played.has(interaction) && this.matches(interaction.request, request),
+    );
+
+    if (!match) {
+      const url = new URL(request.url);
+      throw new NotionCassetteError(
+        `No recorded interaction matches ${request.method} ${url.pathname}${url.search} ` +
+          `(matching on ${this.matchOn.join(', ')}) in ${this.options.path}`,
+      );
+    }
+
+    this.played.add(match);
+    const { status, headers, body } = match.response;
+    const text = body === null || typeof body === 'string' ? body : JSON.stringify(body);
+    return new Response(text, { status, headers });
+  }
+
+  private matches(
+    recorded: CassetteInteraction['request'],
+    actual: CassetteInteraction['request'],
+  ): boolean {
+    const recordedUrl = new URL(recorded.url);
+    const actualUrl = new URL(actual.url);
+
+    return this.matchOn.every((field) => {
+      switch (field) {
+        case 'method':
+          return recorded.method === actual.method;
+        case 'path':
+          return recordedUrl.pathname === actualUrl.pathname;
+        case 'query':
+          return sortedQuery(recordedUrl) === sortedQuery(actualUrl);
+        case 'body':
+          return canonicalJson(recorded.body) === canonicalJson(actual.body);
+      }
+    });
+  }
+
+  private redact(request: CassetteInteraction['request']): CassetteInteraction['request'] {
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).map(([name, value]) => [
+        name,
+        this.redactHeaders.has(name) ? REDACTED : value,
+      ]),
+    );
+    return {
+      ...request,
+      headers,
+      ...(request.body !== undefined && {
+        body: redactBody(request.body, this.redactRequestBodyKeys),
+      }),
+    };
+  }
+}
+
+async function loadCassette(path: string): Promise<CassetteInteraction[]> {
+  let file: CassetteFile;
+  try {
+    file = JSON.parse(await readFile(path, 'utf8')) as CassetteFile;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new NotionCassetteError(`Cannot read cassette ${path}: ${reason}`);
+  }
+
+  if (!Array.isArray(file.interactions)) {
+    throw new NotionCassetteError(`Cassette ${path} has no interactions`);
+  }
+
+  return file.interactions;
+}
+
+async function toRecordedRequest(
+  input: Parameters<typeof fetch>[0],
+  init?: RequestInit,
+): Promise<CassetteInteraction['request']> {
+  const request = new Request(input, init);
+  const text = await request.text();
+
+  return {
+    method: request.method,
+    url: request.url,
+    headers: Object.fromEntries(request.headers),
+    ...(text ? { body: parseBody(text) } : {}),
+  };
+}
+
+async function toRecordedResponse(response: Response): Promise<CassetteInteraction['response']> {
+  const text = await response.text();
+
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers),
+    body: text ? parseBody(text) : null,
+  };
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Replaces the string values of the given keys, at any depth of a JSON body.
+ */
+function redactBody(body: unknown, keys: Set<string>): unknown {
+  if (Array.isArray(body)) {
+    return body.map((item) => redactBody(item, keys));
+  }
+  if (body && typeof body === 'object') {
+    return Object.fromEntries(
+      Object.entries(body as Record<string, unknown>).map(([key, value]) => [
+        key,
+        keys.has(key) && typeof value === 'string' ? REDACTED : redactBody(value, keys),
+      ]),
+    );
+  }
+  return body;
+}
+
+function sortedQuery(url: URL): string {
+  const params = new URLSearchParams(url.searchParams);
+  params.sort();
+  return params.toString();
+}
+
+/**
+ * Serializes a JSON value with object keys sorted, so key order does not affect matching.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+}
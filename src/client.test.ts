@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { NotionClient } from './client';
-import { NotionAPIError } from './errors';
+import { type MiddlewareResponse, NotionClient } from './client';
+import { NotionAbortError, NotionAPIError, NotionClientError } from './errors';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -185,7 +185,7 @@ describe('NotionClient', () => {
 
       const promise = client.request({ method: 'GET', path: '/pages/abc' });
 
-      // Exponential backoff attempt 0: 2^0 * 1000 = 1000ms
+      // Jittered backoff attempt 0: at most 2^0 * 1000 = 1000ms
       await vi.advanceTimersByTimeAsync(1000);
 
       const result = await promise;
@@ -247,4 +247,445 @@ describe('NotionClient', () => {
       expect(fetchMock).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('retry policy', () => {
+    const unavailableBody = {
+      object: 'error' as const,
+      status: 503,
+      code: 'service_unavailable' as const,
+      message: 'Service unavailable',
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should retry server errors on GET requests with jittered backoff', async () => {
+      const onRetry = vi.fn();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(mockResponse(503, unavailableBody))
+        .mockResolvedValueOnce(mockResponse(503, unavailableBody))
+        .mockResolvedValueOnce(mockResponse(200, successBody));
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock, retry: { onRetry } });
+
+      const promise = client.request({ method: 'GET', path: '/pages/abc' });
+      await vi.advanceTimersByTimeAsync(1500);
+
+      expect(await promise).toEqual(successBody);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(
+        onRetry.mock.calls.map(([context]) => (context as { delayMs: number }).delayMs),
+      ).toEqual([500, 1000]);
+      expect(onRetry).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          attempt: 2,
+          error: expect.any(NotionAPIError) as unknown,
+          request: { method: 'GET', path: '/pages/abc' },
+        }),
+      );
+    });
+
+    it('should not retry server errors on POST requests by default', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(503, unavailableBody));
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock });
+
+      await expect(client.request({ method: 'POST', path: '/pages' })).rejects.toThrow(
+        NotionAPIError,
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry POST requests when the method is opted in', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(mockResponse(503, unavailableBody))
+        .mockResolvedValueOnce(mockResponse(200, successBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        retry: { methods: ['GET', 'POST'] },
+      });
+
+      const promise = client.request({ method: 'POST', path: '/pages' });
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(await promise).toEqual(successBody);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry idempotent requests whatever the retry methods', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(mockResponse(503, unavailableBody))
+        .mockResolvedValueOnce(mockResponse(200, successBody));
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock });
+
+      const promise = client.request({ method: 'POST', path: '/pages', idempotent: true });
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(await promise).toEqual(successBody);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry network failures but not codes outside the policy', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(mockResponse(503, unavailableBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        retry: { codes: ['gateway_timeout'] },
+      });
+
+      const promise = client.request({ method: 'GET', path: '/pages/abc' });
+      const assertion = expect(promise).rejects.toMatchObject({ code: 'service_unavailable' });
+      await vi.advanceTimersByTimeAsync(500);
+
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass client errors from fetch through without retrying them', async () => {
+      const error = new NotionClientError('No recorded interaction');
+      const fetchMock = vi.fn().mockRejectedValue(error);
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock });
+
+      await expect(client.request({ method: 'GET', path: '/pages/abc' })).rejects.toBe(error);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying once the next attempt would exceed maxElapsedMs', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(503, unavailableBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        maxRetries: 5,
+        retry: { maxElapsedMs: 1200 },
+      });
+
+      const promise = client.request({ method: 'GET', path: '/pages/abc' });
+      const assertion = expect(promise).rejects.toThrow(NotionAPIError);
+      await vi.advanceTimersByTimeAsync(500);
+
+      await assertion;
+      // 500ms + 1000ms would exceed the 1200ms budget after the first retry
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('form data bodies', () => {
+    it('should send FormData as is and let fetch set the multipart content type', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock });
+      const form = new FormData();
+      form.append('part_number', '1');
+
+      await client.request({ method: 'POST', path: '/file_uploads/abc/send', body: form });
+
+      const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(init.body).toBe(form);
+      expect(headers).not.toHaveProperty('Content-Type');
+      expect(headers).toMatchObject({
+        Authorization: 'Bearer test-token',
+        'Notion-Version': expect.any(String) as unknown,
+      });
+    });
+  });
+
+  describe('abort signals', () => {
+    it('should not send a request when the signal is already aborted', async () => {
+      const fetchMock = vi.fn();
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock });
+
+      await expect(
+        client.request({ method: 'GET', path: '/pages/abc', signal: AbortSignal.abort() }),
+      ).rejects.toThrow(NotionAbortError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should cancel an in-flight request with a NotionAbortError', async () => {
+      const controller = new AbortController();
+      const fetchMock = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('The operation was aborted', 'AbortError')),
+            );
+          }),
+      );
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock, rateLimit: false });
+
+      const promise = client.request({
+        method: 'GET',
+        path: '/pages/abc',
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      controller.abort('client disconnected');
+
+      await expect(promise).rejects.toMatchObject({
+        name: 'NotionAbortError',
+        reason: 'client disconnected',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for a retry when the signal is aborted', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(mockResponse(429, rateLimitedBody, { 'Retry-After': '30' }));
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock });
+
+      const promise = client.request({
+        method: 'GET',
+        path: '/pages/abc',
+        signal: controller.signal,
+      });
+      const assertion = expect(promise).rejects.toThrow(NotionAbortError);
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('middleware', () => {
+    it('should let before hooks change the request and add headers', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        middleware: [
+          {
+            before: (request) => ({
+              ...request,
+              path: '/pages/rewritten',
+              headers: { ...request.headers, 'X-Request-Id': 'req-1' },
+            }),
+          },
+        ],
+      });
+
+      await client.request({ method: 'GET', path: '/pages/abc' });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.notion.com/v1/pages/rewritten',
+        expect.objectContaining({
+          headers: {
+            Authorization: 'Bearer test-token',
+            'Content-Type': 'application/json',
+            'Notion-Version': '2025-09-03',
+            'X-Request-Id': 'req-1',
+          },
+        }),
+      );
+    });
+
+    it('should run before hooks in order and after hooks in reverse order', async () => {
+      const calls: string[] = [];
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        middleware: [
+          { before: () => void calls.push('before 1'), after: () => void calls.push('after 1') },
+          { before: () => void calls.push('before 2'), after: () => void calls.push('after 2') },
+        ],
+      });
+
+      await client.request({ method: 'GET', path: '/pages/abc' });
+
+      expect(calls).toEqual(['before 1', 'before 2', 'after 2', 'after 1']);
+    });
+
+    it('should pass the response to after hooks and return replaced data', async () => {
+      const after = vi.fn((_request, response: MiddlewareResponse) => ({
+        ...response,
+        data: { replaced: true },
+      }));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: vi.fn().mockResolvedValue(mockResponse(200, successBody)),
+        middleware: [{ after }],
+      });
+
+      const result = await client.request({ method: 'GET', path: '/pages/abc' });
+
+      expect(result).toEqual({ replaced: true });
+      expect(after).toHaveBeenCalledWith(
+        expect.objectContaining({ path: '/pages/abc' }),
+        expect.objectContaining({ status: 200, data: successBody }),
+      );
+      expect(after.mock.calls[0][1].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should pass errors to onError hooks and throw the returned error', async () => {
+      const replacement = new Error('wrapped');
+      const onError = vi.fn(() => replacement);
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: vi.fn().mockResolvedValue(mockResponse(429, rateLimitedBody)),
+        retryOnRateLimit: false,
+        middleware: [{ onError }],
+      });
+
+      await expect(client.request({ method: 'GET', path: '/pages/abc' })).rejects.toBe(replacement);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ path: '/pages/abc' }),
+        expect.any(NotionAPIError),
+      );
+    });
+
+    it('should run middleware for every retry attempt', async () => {
+      vi.useFakeTimers();
+      const before = vi.fn();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(mockResponse(429, rateLimitedBody, { 'Retry-After': '1' }))
+        .mockResolvedValueOnce(mockResponse(200, successBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        middleware: [{ before }],
+      });
+
+      const promise = client.request({ method: 'GET', path: '/pages/abc' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await promise;
+
+      expect(before).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('authentication', () => {
+    /** Authorization header sent with the nth fetch call. */
+    function sentAuthorization(fetchMock: ReturnType<typeof vi.fn>, call: number) {
+      const init = fetchMock.mock.calls[call][1] as RequestInit;
+      return (init.headers as Record<string, string>).Authorization;
+    }
+
+    it('should resolve a token provider before every request', async () => {
+      const tokens = ['token-1', 'token-2'];
+      const auth = vi.fn(() => Promise.resolve(tokens.shift() ?? ''));
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({ auth, fetch: fetchMock, rateLimit: false });
+
+      await client.request({ method: 'GET', path: '/users/me' });
+      await client.request({ method: 'GET', path: '/users/me' });
+
+      expect(sentAuthorization(fetchMock, 0)).toBe('Bearer token-1');
+      expect(sentAuthorization(fetchMock, 1)).toBe('Bearer token-2');
+    });
+
+    it('should not call the token provider when the request sets its own Authorization', async () => {
+      const auth = vi.fn(() => 'token');
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({ auth, fetch: fetchMock, rateLimit: false });
+
+      await client.request({
+        method: 'POST',
+        path: '/oauth/token',
+        headers: { Authorization: 'Basic abc' },
+      });
+
+      expect(auth).not.toHaveBeenCalled();
+      expect(sentAuthorization(fetchMock, 0)).toBe('Basic abc');
+    });
+
+    it('should only send requests with their own Authorization header without auth', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({ fetch: fetchMock, rateLimit: false });
+
+      await expect(client.request({ method: 'GET', path: '/users/me' })).rejects.toThrow(
+        'This client has no auth',
+      );
+      await client.request({
+        method: 'POST',
+        path: '/oauth/token',
+        headers: { Authorization: 'Basic abc' },
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(sentAuthorization(fetchMock, 0)).toBe('Basic abc');
+    });
+  });
+
+  describe('rate limiting', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should queue requests beyond the burst and expose the queue depth', async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        rateLimit: { requestsPerSecond: 1, burst: 2 },
+      });
+
+      const requests = [1, 2, 3].map((n) => client.request({ method: 'GET', path: `/pages/${n}` }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(client.queueDepth).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await Promise.all(requests);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(client.queueDepth).toBe(0);
+    });
+
+    it('should send requests from the high priority lane first', async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({
+        auth: 'test-token',
+        fetch: fetchMock,
+        rateLimit: { requestsPerSecond: 10, burst: 1 },
+      });
+
+      const requests = [
+        client.request({ method: 'GET', path: '/pages/first' }),
+        client.request({ method: 'PATCH', path: '/pages/write', priority: 'low' }),
+        client.request({ method: 'GET', path: '/pages/read', priority: 'high' }),
+      ];
+      await vi.advanceTimersByTimeAsync(500);
+      await Promise.all(requests);
+
+      expect(fetchMock.mock.calls.map(([url]) => url as string)).toEqual([
+        'https://api.notion.com/v1/pages/first',
+        'https://api.notion.com/v1/pages/read',
+        'https://api.notion.com/v1/pages/write',
+      ]);
+    });
+
+    it('should not queue requests when rate limiting is disabled', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, successBody));
+      const client = new NotionClient({ auth: 'test-token', fetch: fetchMock, rateLimit: false });
+
+      await Promise.all(
+        [1, 2, 3, 4, 5].map((n) => client.request({ method: 'GET', path: `/pages/${n}` })),
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(client.queueDepth).toBe(0);
+    });
+  });
 });
@@ -1,16 +1,27 @@
+import { sleep, throwIfAborted } from './abort';
 import {
+  NotionAbortError,
   NotionAPIError,
+  NotionClientError,
+  type NotionErrorCode,
   type NotionErrorResponse,
   NotionNetworkError,
   NotionRequestTimeoutError,
 } from './errors';
+import { RateLimiter, type RateLimiterOptions, type RequestPriority } from './rateLimiter';
+
+/**
+ * Returns the current access token. Called before every request attempt, so a
+ * provider that refreshes OAuth tokens is picked up without rebuilding the client.
+ */
+export type NotionTokenProvider = () => string | Promise<string>;
 
 /**
  * Configuration options for the Notion client.
  */
 export interface NotionClientOptions {
-  /** Notion integration token (Bearer token) */
-  auth: string;
+  /** Notion integration token (Bearer token) or a function returning the current token */
+  auth: string | NotionTokenProvider;
 
   /** Base URL for API requests (default: https://api.notion.com) */
   baseUrl?: string;
@@ -24,11 +35,130 @@ export interface NotionClientOptions {
   /** Custom fetch implementation (defaults to global fetch) */
   fetch?: typeof fetch;
 
-  /** Maximum number of retries for rate-limited requests (default: 3) */
+  /** Maximum number of retries for a failed request (default: 3) */
   maxRetries?: number;
 
   /** Whether to retry rate-limited requests (default: true) */
   retryOnRateLimit?: boolean;
+
+  /** Which failures to retry and how long to back off between attempts */
+  retry?: RetryOptions;
+
+  /** Middleware run around every request attempt, in order */
+  middleware?: NotionMiddleware[];
+
+  /**
+   * Proactive client-side rate limiting shared by all API namespaces
+   * (default: 3 requests per second with a burst of 3; `false` to disable)
+   */
+  rateLimit?: RateLimiterOptions | false;
+}
+
+/**
+ * Configuration options for `NotionOAuth`. The OAuth token endpoints authenticate
+ * with the integration's client ID and secret, so no `auth` is needed.
+ */
+export type NotionOAuthClientOptions = Omit<NotionClientOptions, 'auth'>;
+
+/**
+ * Details of a retry, passed to {@link RetryOptions.onRetry}.
+ */
+export interface RetryContext {
+  /** Number of the retry about to be made, starting at 1 */
+  attempt: number;
+
+  /** Time to wait before the retry in milliseconds */
+  delayMs: number;
+
+  /** Error that caused the retry */
+  error: Error;
+
+  /** Request being retried */
+  request: RequestOptions;
+}
+
+/**
+ * Retry policy for failed requests.
+ *
+ * Rate-limited requests are governed by `retryOnRateLimit` and are retried for
+ * every method, honouring the `Retry-After` header. Other failures are only
+ * retried for the configured `methods`, since repeating a non-idempotent
+ * request such as a page creation may apply it twice. Delays use exponential
+ * backoff with full jitter: a random value between 0 and
+ * `min(maxDelayMs, baseDelayMs * 2^attempt)`.
+ *
+ * @example
+ * ```typescript
+ * const notion = new Notion({
+ *   auth: process.env.NOTION_TOKEN,
+ *   maxRetries: 5,
+ *   retry: {
+ *     methods: ['GET', 'DELETE', 'PATCH'],
+ *     maxElapsedMs: 30000,
+ *     onRetry: ({ attempt, delayMs, error }) => console.warn(attempt, delayMs, error.message),
+ *   },
+ * });
+ * ```
+ */
+export interface RetryOptions {
+  /**
+   * API error codes to retry
+   * (default: internal_server_error, service_unavailable, database_connection_unavailable, gateway_timeout)
+   */
+  codes?: NotionErrorCode[];
+
+  /**
+   * Non-API error classes to retry (default: NotionRequestTimeoutError, NotionNetworkError)
+   */
+  errorClasses?: (abstract new (...args: never[]) => Error)[];
+
+  /** HTTP methods whose requests may be retried (default: GET, DELETE) */
+  methods?: RequestOptions['method'][];
+
+  /** Backoff delay cap for the first retry in milliseconds (default: 1000) */
+  baseDelayMs?: number;
+
+  /** Maximum backoff delay cap in milliseconds (default: 60000) */
+  maxDelayMs?: number;
+
+  /** Stop retrying once the next attempt would start after this many milliseconds (default: no limit) */
+  maxElapsedMs?: number;
+
+  /** Called before each retry */
+  onRetry?: (context: RetryContext) => void;
+}
+
+/** Retry options with defaults applied. */
+type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry' | 'maxElapsedMs'>> &
+  Pick<RetryOptions, 'onRetry' | 'maxElapsedMs'>;
+
+/**
+ * Applies the default retry policy to the given options.
+ */
+function resolveRetryOptions(options: RetryOptions = {}): ResolvedRetryOptions {
+  return {
+    codes: options.codes ?? [
+      'internal_server_error',
+      'service_unavailable',
+      'database_connection_unavailable',
+      'gateway_timeout',
+    ],
+    errorClasses: options.errorClasses ?? [NotionRequestTimeoutError, NotionNetworkError],
+    methods: options.methods ?? ['GET', 'DELETE'],
+    baseDelayMs: options.baseDelayMs ?? 1000,
+    maxDelayMs: options.maxDelayMs ?? 60000,
+    maxElapsedMs: options.maxElapsedMs,
+    onRetry: options.onRetry,
+  };
+}
+
+/**
+ * Returns the headers without `Content-Type`, in any letter case.
+ */
+function withoutContentType(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'content-type'),
+  );
 }
 
 /**
@@ -38,129 +168,314 @@ export interface RequestOptions {
   method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
   path: string;
   query?: Record<string, string | number | boolean | undefined>;
+
+  /** JSON-serialisable body, or `FormData` sent as multipart/form-data */
   body?: unknown;
+
+  /** Extra headers, merged over the client's default headers */
+  headers?: Record<string, string>;
+
+  /** Rate limiter lane for the request (default: normal) */
+  priority?: RequestPriority;
+
+  /** Cancels the request, including rate limiter and retry waits */
+  signal?: AbortSignal;
+
+  /**
+   * Whether repeating the request is safe, so failures are retried whatever
+   * `retry.methods` allows (default: false)
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Per-call options accepted by every API method.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * request.on('close', () => controller.abort());
+ *
+ * const page = await notion.pages.retrieve('page-id', undefined, { signal: controller.signal });
+ * ```
+ */
+export interface CallOptions {
+  /**
+   * Cancels the call: in-flight requests, retry waits and follow-up requests
+   * (such as later pages) stop and a NotionAbortError is thrown
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A successful response as seen by middleware.
+ */
+export interface MiddlewareResponse {
+  /** HTTP status code */
+  status: number;
+
+  /** Response headers */
+  headers: Headers;
+
+  /** Parsed response body, returned to the caller */
+  data: unknown;
+
+  /** Time taken by the HTTP request in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Hooks that run around every request attempt (including retries).
+ *
+ * `before` hooks run in the order they were configured and receive the
+ * request with the complete headers, including `Authorization`. `after` and
+ * `onError` hooks run in reverse order. Each hook may return a replacement
+ * request, response or error, or nothing to keep the current one.
+ *
+ * @example
+ * ```typescript
+ * const logging: NotionMiddleware = {
+ *   before: (request) => {
+ *     const headers = { ...request.headers, Authorization: '[REDACTED]' };
+ *     console.log(request.method, request.path, headers);
+ *   },
+ *   after: (request, response) => {
+ *     console.log(request.path, response.status, `${response.durationMs}ms`);
+ *   },
+ * };
+ *
+ * const notion = new Notion({ auth: process.env.NOTION_TOKEN, middleware: [logging] });
+ * ```
+ */
+export interface NotionMiddleware {
+  /** Runs before the request is sent */
+  before?: (request: RequestOptions) => RequestOptions | void | Promise<RequestOptions | void>;
+
+  /** Runs after a successful response */
+  after?: (
+    request: RequestOptions,
+    response: MiddlewareResponse,
+  ) => MiddlewareResponse | void | Promise<MiddlewareResponse | void>;
+
+  /** Runs when the request fails; the returned error is thrown (and retried if retryable) */
+  onError?: (request: RequestOptions, error: Error) => Error | void | Promise<Error | void>;
 }
 
 /**
  * Base HTTP client for Notion API requests.
  */
 export class NotionClient {
-  private readonly auth: string;
+  private readonly auth: string | NotionTokenProvider | undefined;
   private readonly baseUrl: string;
   private readonly notionVersion: string;
   private readonly timeoutMs: number;
   private readonly fetchImpl: typeof fetch;
   private readonly maxRetries: number;
   private readonly retryOnRateLimit: boolean;
+  private readonly retry: ResolvedRetryOptions;
+  private readonly middleware: NotionMiddleware[];
+  private readonly rateLimiter: RateLimiter | undefined;
 
-  constructor(options: NotionClientOptions) {
-    this.auth = options.auth;
+  constructor(options: NotionClientOptions | NotionOAuthClientOptions) {
+    this.auth = 'auth' in options ? options.auth : undefined;
     this.baseUrl = options.baseUrl ?? 'https://api.notion.com';
     this.notionVersion = options.notionVersion ?? '2025-09-03';
     this.timeoutMs = options.timeoutMs ?? 60000;
     this.fetchImpl = options.fetch ?? fetch;
     this.maxRetries = options.maxRetries ?? 3;
     this.retryOnRateLimit = options.retryOnRateLimit ?? true;
+    this.retry = resolveRetryOptions(options.retry);
+    this.middleware = [...(options.middleware ?? [])];
+    this.rateLimiter =
+      options.rateLimit === false ? undefined : new RateLimiter(options.rateLimit ?? {});
+  }
+
+  /**
+   * Number of requests waiting for the rate limiter (always 0 when rate limiting is disabled).
+   */
+  get queueDepth(): number {
+    return this.rateLimiter?.queueDepth ?? 0;
   }
 
   /**
-   * Makes an HTTP request to the Notion API with retry logic for rate limits.
+   * Makes an HTTP request to the Notion API, retrying failures allowed by the retry policy.
    */
   async request<T>(options: RequestOptions): Promise<T> {
-    let lastError: Error | undefined;
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(options.signal);
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
-        return await this.makeRequest<T>(options);
+        return await this.runWithMiddleware<T>(options);
       } catch (error) {
-        // Only retry on rate limit errors if retry is enabled
-        if (
-          error instanceof NotionAPIError &&
-          error.isRateLimited() &&
-          this.retryOnRateLimit &&
-          attempt < this.maxRetries
-        ) {
-          // Prefer the server-supplied Retry-After value; fall back to
-          // exponential backoff when the header is absent.
-          const retryAfter = error.retryAfterMs ?? this.getRetryAfter(attempt);
-          await this.sleep(retryAfter);
-          lastError = error;
-          continue;
+        const delayMs = this.getRetryDelay(error, options, attempt, startedAt);
+        if (delayMs === undefined) {
+          throw error;
         }
 
-        // Don't retry other errors
-        throw error;
+        this.retry.onRetry?.({
+          attempt: attempt + 1,
+          delayMs,
+          error: error as Error,
+          request: options,
+        });
+        await sleep(delayMs, options.signal);
       }
     }
+  }
+
+  /**
+   * Returns how long to wait before retrying a failed attempt, or undefined
+   * when the error should be thrown instead.
+   */
+  private getRetryDelay(
+    error: unknown,
+    options: RequestOptions,
+    attempt: number,
+    startedAt: number,
+  ): number | undefined {
+    if (
+      !(error instanceof Error) ||
+      error instanceof NotionAbortError ||
+      attempt >= this.maxRetries ||
+      !this.isRetryable(error, options)
+    ) {
+      return undefined;
+    }
+
+    // Prefer the server-supplied Retry-After value; fall back to
+    // exponential backoff when the header is absent.
+    const delayMs =
+      (error instanceof NotionAPIError ? error.retryAfterMs : undefined) ??
+      this.getRetryAfter(attempt);
+
+    if (
+      this.retry.maxElapsedMs !== undefined &&
+      Date.now() - startedAt + delayMs > this.retry.maxElapsedMs
+    ) {
+      return undefined;
+    }
+
+    return delayMs;
+  }
+
+  /**
+   * Checks whether the retry policy covers an error for the given request.
+   */
+  private isRetryable(error: Error, options: RequestOptions): boolean {
+    if (error instanceof NotionAPIError && error.isRateLimited()) {
+      return this.retryOnRateLimit;
+    }
+
+    if (!options.idempotent && !this.retry.methods.includes(options.method)) {
+      return false;
+    }
+
+    if (error instanceof NotionAPIError) {
+      return this.retry.codes.includes(error.code);
+    }
+
+    return this.retry.errorClasses.some((errorClass) => error instanceof errorClass);
+  }
+
+  /**
+   * Makes a single request attempt, running the configured middleware around it.
+   */
+  private async runWithMiddleware<T>(options: RequestOptions): Promise<T> {
+    let request: RequestOptions = {
+      ...options,
+      headers: await this.buildHeaders(options.headers),
+    };
+
+    try {
+      for (const middleware of this.middleware) {
+        request = (await middleware.before?.(request)) ?? request;
+      }
+
+      await this.rateLimiter?.acquire(request.priority, request.signal);
+
+      const startedAt = Date.now();
+      let response = await this.makeRequest(request);
+      response = { ...response, durationMs: Date.now() - startedAt };
 
-    // If we exhausted all retries, throw the last error
-    throw lastError ?? new Error('Request failed after all retries');
+      for (const middleware of [...this.middleware].reverse()) {
+        response = (await middleware.after?.(request, response)) ?? response;
+      }
+
+      return response.data as T;
+    } catch (error) {
+      if (!(error instanceof Error)) {
+        throw error;
+      }
+
+      let finalError = error;
+      for (const middleware of [...this.middleware].reverse()) {
+        finalError = (await middleware.onError?.(request, finalError)) ?? finalError;
+      }
+      throw finalError;
+    }
   }
 
   /**
    * Makes a single HTTP request to the Notion API.
    */
-  private async makeRequest<T>(options: RequestOptions): Promise<T> {
+  private async makeRequest(options: RequestOptions): Promise<MiddlewareResponse> {
     const url = this.buildUrl(options.path, options.query);
-    const headers = this.buildHeaders();
+    const form = options.body instanceof FormData ? options.body : undefined;
+    const headers = options.headers ?? (await this.buildHeaders());
+    throwIfAborted(options.signal);
 
+    // One controller for both the timeout and the caller's signal
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const onAbort = (): void => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       const response = await this.fetchImpl(url, {
         method: options.method,
-        headers,
-        body: options.body ? JSON.stringify(options.body) : undefined,
+        // fetch sets the multipart Content-Type, including its boundary
+        headers: form ? withoutContentType(headers) : headers,
+        body: form ?? (options.body ? JSON.stringify(options.body) : undefined),
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         await this.handleErrorResponse(response);
       }
 
       // Handle 204 No Content responses
-      if (response.status === 204) {
-        return {} as T;
-      }
-
-      const data = await response.json();
-      return data as T;
+      const data: unknown = response.status === 204 ? {} : await response.json();
+      return { status: response.status, headers: response.headers, data, durationMs: 0 };
     } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof NotionAPIError) {
+      if (error instanceof NotionAPIError || error instanceof NotionClientError) {
         throw error;
       }
 
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
+          throwIfAborted(options.signal);
           throw new NotionRequestTimeoutError(`Request timed out after ${this.timeoutMs}ms`);
         }
         throw new NotionNetworkError('Network request failed', error);
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Computes a fallback retry delay using exponential backoff.
+   * Computes a fallback retry delay using exponential backoff with full jitter.
    * Used when the `Retry-After` response header is absent.
-   * Formula: 2^attempt * 1000 ms, capped at 60 seconds.
+   * Formula: random(0, min(maxDelayMs, baseDelayMs * 2^attempt)).
    */
   private getRetryAfter(attempt: number): number {
-    const backoffMs = Math.pow(2, attempt) * 1000;
-    return Math.min(backoffMs, 60000); // Cap at 60 seconds
-  }
-
-  /**
-   * Sleeps for the specified duration in milliseconds.
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    const capMs = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * Math.pow(2, attempt));
+    return Math.floor(Math.random() * capMs);
   }
 
   /**
@@ -184,14 +499,25 @@ export class NotionClient {
   }
 
   /**
-   * Builds request headers.
+   * Builds request headers, merging `extra` over the defaults.
+   * The token provider is skipped when `extra` supplies its own `Authorization` header;
+   * without one, a client created without `auth` (by `NotionOAuth`) throws.
    */
-  private buildHeaders(): Record<string, string> {
-    return {
-      Authorization: `Bearer ${this.auth}`,
+  private async buildHeaders(extra: Record<string, string> = {}): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'Notion-Version': this.notionVersion,
     };
+
+    if (!('Authorization' in extra)) {
+      if (this.auth === undefined) {
+        throw new Error('This client has no auth; create a Notion instance to call the API');
+      }
+      const token = typeof this.auth === 'function' ? await this.auth() : this.auth;
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    return { ...headers, ...extra };
   }
 
   /**
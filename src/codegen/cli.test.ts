@@ -0,0 +1,75 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type CodegenCliContext, runCodegenCli } from './cli';
+import { FakeNotion } from '../fake';
+import { Notion } from '../notion';
+
+describe('runCodegenCli', () => {
+  let fake: FakeNotion;
+  let context: CodegenCliContext & { output: string; errors: string };
+  let dataSourceId: string;
+
+  beforeEach(async () => {
+    fake = new FakeNotion();
+    const notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+    const database = await notion.databases.create({
+      parent: { type: 'workspace', workspace: true },
+      title: [{ type: 'text', text: { content: 'Tasks' } }],
+      initial_data_source: { properties: { Name: { title: {} } } },
+    });
+    dataSourceId = database.dataSources[0]!.id;
+
+    context = {
+      env: { NOTION_TOKEN: 'secret' },
+      fetch: fake.fetch,
+      output: '',
+      errors: '',
+      stdout: (text) => (context.output += text),
+      stderr: (text) => (context.errors += text),
+    };
+  });
+
+  it('should print the generated module', async () => {
+    const code = await runCodegenCli([dataSourceId, '--type-name', 'Task'], context);
+
+    expect(code).toBe(0);
+    expect(context.output).toContain('export interface TaskRow {');
+    expect(fake.requests).toContainEqual(
+      expect.objectContaining({ method: 'GET', path: `/data_sources/${dataSourceId}` }),
+    );
+  });
+
+  it('should write the module to a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'notion-codegen-'));
+    const out = join(dir, 'generated', 'tasks.ts');
+
+    try {
+      expect(await runCodegenCli([dataSourceId, '--out', out], context)).toBe(0);
+      expect(await readFile(out, 'utf8')).toContain('export interface TasksRow {');
+      expect(context.output).toBe('');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require a token', async () => {
+    context.env = {};
+
+    expect(await runCodegenCli([dataSourceId], context)).toBe(1);
+    expect(context.errors).toContain('NOTION_TOKEN');
+  });
+
+  it('should print usage for missing or unknown arguments', async () => {
+    expect(await runCodegenCli([], context)).toBe(1);
+    expect(await runCodegenCli([dataSourceId, '--bogus'], context)).toBe(1);
+    expect(context.errors).toContain('Unknown option --bogus');
+    expect(context.errors).toContain('Usage: notion-codegen');
+  });
+
+  it('should report API errors', async () => {
+    expect(await runCodegenCli(['00000000-0000-0000-0000-000000000000'], context)).toBe(1);
+    expect(context.errors).not.toBe('');
+  });
+});
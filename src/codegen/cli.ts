@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { generateDataSourceTypesById, type GenerateTypesOptions } from './generate';
+import { Notion } from '../notion';
+
+const USAGE = `Usage: notion-codegen <data-source-id> [options]
+
+Generates TypeScript types, a zod schema and typed property builders for a data source.
+The integration token is read from the NOTION_TOKEN environment variable.
+
+Options:
+  --out <file>            Write the module to a file instead of stdout
+  --type-name <name>      Base name of the generated types (default: data source title)
+  --sdk-import <module>   Module to import the SDK from (default: @visus-io/notion-sdk-ts)
+  --help                  Show this message
+`;
+
+/**
+ * Environment the CLI runs in; overridable for tests.
+ */
+export interface CodegenCliContext {
+  env: Record<string, string | undefined>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  fetch?: typeof fetch;
+}
+
+interface CodegenArguments extends GenerateTypesOptions {
+  dataSourceId?: string;
+  out?: string;
+  help: boolean;
+}
+
+const FLAGS: Record<string, 'out' | 'typeName' | 'sdkImport'> = {
+  '--out': 'out',
+  '--type-name': 'typeName',
+  '--sdk-import': 'sdkImport',
+};
+
+function parseArguments(argv: string[]): CodegenArguments {
+  const args: CodegenArguments = { help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      args.help = true;
+    } else if (arg in FLAGS) {
+      const value = argv[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      args[FLAGS[arg]] = value;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (args.dataSourceId === undefined) {
+      args.dataSourceId = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Run the `notion-codegen` command.
+ *
+ * @param argv - Command-line arguments, without the node and script paths
+ * @param context - Environment, output streams and an optional fetch implementation
+ * @returns The process exit code
+ */
+export async function runCodegenCli(
+  argv: string[],
+  context: CodegenCliContext = {
+    env: process.env,
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  },
+): Promise<number> {
+  let args: CodegenArguments;
+  try {
+    args = parseArguments(argv);
+  } catch (error) {
+    context.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (args.help) {
+    context.stdout(USAGE);
+    return 0;
+  }
+  if (args.dataSourceId === undefined) {
+    context.stderr(USAGE);
+    return 1;
+  }
+
+  const auth = context.env.NOTION_TOKEN;
+  if (!auth) {
+    context.stderr('The NOTION_TOKEN environment variable is not set\n');
+    return 1;
+  }
+
+  try {
+    const notion = new Notion({ auth, fetch: context.fetch });
+    const source = await generateDataSourceTypesById(notion, args.dataSourceId, {
+      typeName: args.typeName,
+      sdkImport: args.sdkImport,
+    });
+
+    if (args.out === undefined) {
+      context.stdout(source);
+    } else {
+      await mkdir(dirname(args.out), { recursive: true });
+      await writeFile(args.out, source);
+      context.stderr(`Wrote ${args.out}\n`);
+    }
+    return 0;
+  } catch (error) {
+    context.stderr(`${error instanceof Error ? error.message : 'Code generation failed'}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  void runCodegenCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
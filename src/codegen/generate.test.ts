@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { DataSource } from '../models';
+import { FakeNotion } from '../fake';
+import { Notion } from '../notion';
+import type { NotionPropertiesObject } from '../schemas';
+import { generateDataSourceTypes, generateDataSourceTypesById } from './generate';
+
+describe('generateDataSourceTypes', () => {
+  const user = { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' };
+
+  const properties = {
+    Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+    Points: { id: 'pts', name: 'Points', type: 'number', number: { format: 'number' } },
+    Priority: {
+      id: 'pri',
+      name: 'Priority',
+      type: 'select',
+      select: {
+        options: [
+          { id: 'h', name: 'High', color: 'red' },
+          { id: 'l', name: "Won't do", color: 'gray' },
+        ],
+      },
+    },
+    Tags: { id: 'tags', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+    'Due Date': { id: 'due', name: 'Due Date', type: 'date', date: {} },
+    Ticket: { id: 'uid', name: 'Ticket', type: 'unique_id', unique_id: { prefix: 'TASK' } },
+    Created: { id: 'ct', name: 'Created', type: 'created_time', created_time: {} },
+  } as NotionPropertiesObject;
+
+  const dataSourceData = (props: NotionPropertiesObject) => ({
+    object: 'data_source',
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    properties: props,
+    parent: { type: 'database_id', database_id: '223e4567-e89b-12d3-a456-426614174000' },
+    database_parent: { type: 'workspace', workspace: true },
+    created_time: '2023-01-01T00:00:00.000Z',
+    created_by: user,
+    last_edited_time: '2023-01-02T00:00:00.000Z',
+    last_edited_by: user,
+    title: [
+      {
+        type: 'text',
+        text: { content: 'Sprint tasks', link: null },
+        annotations: {
+          bold: false,
+          italic: false,
+          strikethrough: false,
+          underline: false,
+          code: false,
+          color: 'default',
+        },
+        plain_text: 'Sprint tasks',
+        href: null,
+      },
+    ],
+    description: [],
+    icon: null,
+    cover: null,
+    url: 'https://notion.so/data-source',
+    public_url: null,
+    is_inline: false,
+    archived: false,
+    in_trash: false,
+  });
+
+  const dataSource = new DataSource(dataSourceData(properties));
+
+  it('should generate option unions, a row interface and a zod schema', () => {
+    const source = generateDataSourceTypes(dataSource);
+
+    expect(source).toContain("import { type PagePlainDate, prop } from '@visus-io/notion-sdk-ts';");
+    expect(source).toContain("export type SprintTasksPriority = 'High' | 'Won\\'t do';");
+    expect(source).toContain(
+      [
+        'export interface SprintTasksRow {',
+        '  Created: string;',
+        "  'Due Date': PagePlainDate | null;",
+        '  Name: string;',
+        '  Points: number | null;',
+        '  Priority: SprintTasksPriority | null;',
+        '  Tags: string[];',
+        '  Ticket: string;',
+        '}',
+      ].join('\n'),
+    );
+    expect(source).toContain(
+      "  Priority: z.enum(['High', 'Won\\'t do']).nullable(),\n  Tags: z.array(z.string()),",
+    );
+  });
+
+  it('should generate typed builders for writable properties only', () => {
+    const source = generateDataSourceTypes(dataSource, { typeName: 'Task' });
+
+    expect(source).toContain(
+      'export interface TaskCreate extends TaskUpdate {\n  Name: string;\n}',
+    );
+    expect(source).toContain("    properties['Due Date'] = toDateValue(values['Due Date']);");
+    expect(source).toContain('    properties.Points = prop.number(values.Points);');
+    expect(source).not.toContain('properties.Created');
+    expect(source).not.toContain('properties.Ticket');
+    expect(source).toContain('export const taskProperties = {');
+  });
+
+  it('should produce identical output regardless of property order', () => {
+    const reversed = Object.fromEntries(Object.entries(properties).reverse());
+
+    expect(generateDataSourceTypes(new DataSource(dataSourceData(reversed)))).toBe(
+      generateDataSourceTypes(dataSource),
+    );
+  });
+
+  it('should retrieve the data source by ID', async () => {
+    const fake = new FakeNotion();
+    const notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+    const database = await notion.databases.create({
+      parent: { type: 'workspace', workspace: true },
+      title: [{ type: 'text', text: { content: 'Reading list' } }],
+      initial_data_source: { properties: { Title: { title: {} }, Read: { checkbox: {} } } },
+    });
+
+    const source = await generateDataSourceTypesById(notion, database.dataSources[0]!.id, {
+      sdkImport: '../sdk',
+    });
+
+    expect(source).toContain("import { prop } from '../sdk';");
+    expect(source).toContain(
+      'export interface ReadingListRow {\n  Read: boolean;\n  Title: string;\n}',
+    );
+  });
+});
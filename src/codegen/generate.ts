@@ -0,0 +1,354 @@
+import type { CallOptions } from '../client';
+import type { DataSource } from '../models';
+import type { Notion } from '../notion';
+import type { NotionPropertyObject } from '../schemas';
+
+/**
+ * Options for generating a TypeScript module from a data source.
+ */
+export interface GenerateTypesOptions {
+  /** Base name of the generated types (default: the data source title in PascalCase) */
+  typeName?: string;
+
+  /** Module the generated file imports the SDK from (default: `@visus-io/notion-sdk-ts`) */
+  sdkImport?: string;
+}
+
+/** How one property is typed, validated and written in the generated module. */
+interface GeneratedField {
+  /** TypeScript type of the plain value, as read by `Page.toPlainObject()` */
+  readType: string;
+  /** zod schema expression for the plain value */
+  zod: string;
+  /** TypeScript type accepted by the property builders; omitted for computed properties */
+  writeType?: string;
+  /** Builds the `prop.*` call for a value expression */
+  write?: (value: string) => string;
+}
+
+const DEFAULT_SDK_IMPORT = '@visus-io/notion-sdk-ts';
+
+const PLAIN_DATE_TYPE = 'PagePlainDate';
+
+const PLAIN_DATE_ZOD = 'z.union([z.string(), z.object({ start: z.string(), end: z.string() })])';
+
+const DATE_VALUE_FUNCTION = [
+  'function toDateValue(value: PagePlainDate | null): ReturnType<typeof prop.date> {',
+  "  if (typeof value === 'string' || value === null) {",
+  '    return prop.date(value);',
+  '  }',
+  '  return prop.date(value.start, { end: value.end });',
+  '}',
+];
+
+const DATE_ROLLUP_FUNCTIONS = new Set(['date_range', 'earliest_date', 'latest_date']);
+
+const ARRAY_ROLLUP_FUNCTIONS = new Set(['show_original', 'show_unique']);
+
+function quote(value: string): string {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function memberAccess(object: string, name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${object}.${name}` : `${object}[${quote(name)}]`;
+}
+
+function pascalCase(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function camelCase(value: string): string {
+  return value[0].toLowerCase() + value.slice(1);
+}
+
+function byCodeUnits(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+function optionNames(property: NotionPropertyObject): string[] {
+  let options: Array<{ name: string }> = [];
+  if (property.type === 'select') {
+    options = property.select.options;
+  } else if (property.type === 'multi_select') {
+    options = property.multi_select.options;
+  } else if (property.type === 'status') {
+    options = property.status.options;
+  }
+  return [...new Set(options.map((option) => option.name))];
+}
+
+function optionZod(options: string[]): string {
+  return options.length > 0 ? `z.enum([${options.map(quote).join(', ')}])` : 'z.string()';
+}
+
+function writable(type: string, zod: string, build: string): GeneratedField {
+  return { readType: type, zod, writeType: type, write: (value) => `prop.${build}(${value})` };
+}
+
+function rollupField(property: Extract<NotionPropertyObject, { type: 'rollup' }>): GeneratedField {
+  if (DATE_ROLLUP_FUNCTIONS.has(property.rollup.function)) {
+    return { readType: `${PLAIN_DATE_TYPE} | null`, zod: `${PLAIN_DATE_ZOD}.nullable()` };
+  }
+  if (ARRAY_ROLLUP_FUNCTIONS.has(property.rollup.function)) {
+    return { readType: 'PagePlainValue[]', zod: 'z.array(z.unknown())' };
+  }
+  return { readType: 'number | null', zod: 'z.number().nullable()' };
+}
+
+/**
+ * Describe how a property is typed in the generated module. `optionType` names
+ * the string literal union generated for select, multi-select and status options.
+ */
+// eslint-disable-next-line complexity
+function describeField(property: NotionPropertyObject, optionType: string | null): GeneratedField {
+  const options = optionNames(property);
+  const option = optionType ?? 'string';
+
+  switch (property.type) {
+    case 'title':
+      return writable('string', 'z.string()', 'title');
+    case 'rich_text':
+      return writable('string', 'z.string()', 'richText');
+    case 'number':
+      return writable('number | null', 'z.number().nullable()', 'number');
+    case 'checkbox':
+      return writable('boolean', 'z.boolean()', 'checkbox');
+    case 'select':
+      return writable(`${option} | null`, `${optionZod(options)}.nullable()`, 'select');
+    case 'status':
+      return writable(`${option} | null`, `${optionZod(options)}.nullable()`, 'status');
+    case 'multi_select':
+      return writable(`${option}[]`, `z.array(${optionZod(options)})`, 'multiSelect');
+    case 'date':
+      return {
+        readType: `${PLAIN_DATE_TYPE} | null`,
+        zod: `${PLAIN_DATE_ZOD}.nullable()`,
+        writeType: `${PLAIN_DATE_TYPE} | null`,
+        write: (value) => `toDateValue(${value})`,
+      };
+    case 'url':
+      return writable('string | null', 'z.string().nullable()', 'url');
+    case 'email':
+      return writable('string | null', 'z.string().nullable()', 'email');
+    case 'phone_number':
+      return writable('string | null', 'z.string().nullable()', 'phoneNumber');
+    case 'people':
+      return writable('string[]', 'z.array(z.string())', 'people');
+    case 'relation':
+      return writable('string[]', 'z.array(z.string())', 'relation');
+    case 'files':
+      return {
+        readType: 'PagePlainFile[]',
+        zod: "z.array(z.object({ name: z.string(), url: z.string().nullable(), type: z.enum(['external', 'file', 'file_upload']).optional() }))",
+        writeType: 'Array<{ name: string; url: string }>',
+        write: (value) => `prop.files(${value})`,
+      };
+    case 'formula':
+      return {
+        readType: `string | number | boolean | ${PLAIN_DATE_TYPE} | null`,
+        zod: `z.union([z.string(), z.number(), z.boolean(), ${PLAIN_DATE_ZOD}]).nullable()`,
+      };
+    case 'rollup':
+      return rollupField(property);
+    case 'unique_id':
+      return property.unique_id.prefix
+        ? { readType: 'string', zod: 'z.string()' }
+        : { readType: 'number', zod: 'z.number()' };
+    case 'created_time':
+    case 'last_edited_time':
+    case 'created_by':
+    case 'last_edited_by':
+      return { readType: 'string', zod: 'z.string()' };
+    case 'place':
+      return { readType: 'unknown', zod: 'z.unknown()' };
+  }
+}
+
+interface NamedField extends GeneratedField {
+  name: string;
+  optionType: string | null;
+  options: string[];
+  isTitle: boolean;
+}
+
+function collectFields(dataSource: DataSource, baseName: string): NamedField[] {
+  const usedTypeNames = new Set<string>();
+  const properties = Object.values(dataSource.properties).sort((a, b) =>
+    byCodeUnits(a.name, b.name),
+  );
+
+  return properties.map((property) => {
+    const options = optionNames(property);
+    let optionType: string | null = null;
+
+    if (options.length > 0) {
+      const base = `${baseName}${pascalCase(property.name) || 'Option'}`;
+      optionType = base;
+      for (let suffix = 2; usedTypeNames.has(optionType); suffix++) {
+        optionType = `${base}${suffix}`;
+      }
+      usedTypeNames.add(optionType);
+    }
+
+    return {
+      ...describeField(property, optionType),
+      name: property.name,
+      optionType,
+      options,
+      isTitle: property.type === 'title',
+    };
+  });
+}
+
+function renderBuilders(fields: NamedField[], baseName: string): string[] {
+  const writableFields = fields.filter((field) => field.write && field.writeType);
+  const titleFields = writableFields.filter((field) => field.isTitle);
+  const convert = `to${baseName}Properties`;
+  const lines: string[] = [];
+
+  lines.push(`/** Writable property values of a ${baseName} page, all optional. */`);
+  lines.push(`export interface ${baseName}Update {`);
+  for (const field of writableFields) {
+    lines.push(`  ${propertyKey(field.name)}?: ${field.writeType};`);
+  }
+  lines.push('}', '');
+
+  lines.push(`/** Property values for creating a ${baseName} page. */`);
+  if (titleFields.length === 0) {
+    lines.push(`export type ${baseName}Create = ${baseName}Update;`, '');
+  } else {
+    lines.push(`export interface ${baseName}Create extends ${baseName}Update {`);
+    for (const field of titleFields) {
+      lines.push(`  ${propertyKey(field.name)}: ${field.writeType};`);
+    }
+    lines.push('}', '');
+  }
+
+  if (writableFields.some((field) => field.writeType?.includes(PLAIN_DATE_TYPE))) {
+    lines.push(...DATE_VALUE_FUNCTION, '');
+  }
+
+  lines.push(`function ${convert}(values: ${baseName}Update): Record<string, unknown> {`);
+  lines.push('  const properties: Record<string, unknown> = {};');
+  for (const field of writableFields) {
+    const value = memberAccess('values', field.name);
+    lines.push(`  if (${value} !== undefined) {`);
+    lines.push(`    ${memberAccess('properties', field.name)} = ${field.write?.(value)};`);
+    lines.push('  }');
+  }
+  lines.push('  return properties;', '}', '');
+
+  lines.push(`/** Typed property builders for \`pages.create\` and \`pages.update\`. */`);
+  lines.push(`export const ${camelCase(baseName)}Properties = {`);
+  lines.push(
+    `  create: (values: ${baseName}Create): Record<string, unknown> => ${convert}(values),`,
+  );
+  lines.push(
+    `  update: (values: ${baseName}Update): Record<string, unknown> => ${convert}(values),`,
+  );
+  lines.push('};');
+  return lines;
+}
+
+function sdkTypeImports(fields: NamedField[]): string[] {
+  const types = new Set<string>();
+  for (const field of fields) {
+    for (const type of ['PagePlainDate', 'PagePlainFile', 'PagePlainValue']) {
+      if (field.readType.includes(type) || field.writeType?.includes(type)) {
+        types.add(type);
+      }
+    }
+  }
+  return [...types].sort(byCodeUnits).map((type) => `type ${type}`);
+}
+
+/**
+ * Generate the source of a TypeScript module describing a data source's rows.
+ *
+ * The module contains a `<Name>Row` interface and a `<name>RowSchema` zod
+ * schema matching `Page.toPlainObject()`, string literal unions for select,
+ * multi-select and status options, and typed `<name>Properties.create` /
+ * `<name>Properties.update` builders that produce `properties` for
+ * `pages.create` and `pages.update`.
+ *
+ * Properties are emitted in name order and the output contains no timestamps,
+ * so regenerating an unchanged data source produces an identical file.
+ *
+ * @param dataSource - The data source to generate types for
+ * @param options - Naming and import options
+ * @returns The generated TypeScript source
+ */
+export function generateDataSourceTypes(
+  dataSource: DataSource,
+  options?: GenerateTypesOptions,
+): string {
+  const title = dataSource.getTitle();
+  const baseName = options?.typeName ?? (pascalCase(title) || 'DataSource');
+  const fields = collectFields(dataSource, baseName);
+  const sdkImports = [...sdkTypeImports(fields), 'prop'].join(', ');
+  const lines: string[] = [
+    `// Generated by notion-codegen from data source ${dataSource.id}${title ? ` (${quote(title)})` : ''}.`,
+    '// Do not edit this file by hand; regenerate it instead.',
+    '',
+    `import { ${sdkImports} } from ${quote(options?.sdkImport ?? DEFAULT_SDK_IMPORT)};`,
+    "import { z } from 'zod';",
+    '',
+  ];
+
+  for (const field of fields) {
+    if (field.optionType) {
+      lines.push(`export type ${field.optionType} = ${field.options.map(quote).join(' | ')};`, '');
+    }
+  }
+
+  lines.push(
+    `/** A ${baseName} page's property values, as returned by \`Page.toPlainObject()\`. */`,
+  );
+  lines.push(`export interface ${baseName}Row {`);
+  for (const field of fields) {
+    lines.push(`  ${propertyKey(field.name)}: ${field.readType};`);
+  }
+  lines.push('}', '');
+
+  lines.push(`/** Validates the plain property values of a ${baseName} page. */`);
+  lines.push(`export const ${camelCase(baseName)}RowSchema = z.object({`);
+  for (const field of fields) {
+    lines.push(`  ${propertyKey(field.name)}: ${field.zod},`);
+  }
+  lines.push('});', '');
+
+  lines.push(...renderBuilders(fields, baseName), '');
+  return lines.join('\n');
+}
+
+/**
+ * Retrieve a data source and generate a TypeScript module for its rows.
+ *
+ * @param notion - The client used to retrieve the data source
+ * @param dataSourceId - The ID of the data source
+ * @param options - Naming and import options
+ * @param callOptions - Per-call options such as an abort signal
+ * @returns The generated TypeScript source
+ * @see generateDataSourceTypes
+ */
+export async function generateDataSourceTypesById(
+  notion: Notion,
+  dataSourceId: string,
+  options?: GenerateTypesOptions,
+  callOptions?: CallOptions,
+): Promise<string> {
+  const dataSource = await notion.dataSources.retrieve(dataSourceId, undefined, callOptions);
+  return generateDataSourceTypes(dataSource, options);
+}
@@ -0,0 +1,2 @@
+export { generateDataSourceTypes, generateDataSourceTypesById } from './generate';
+export type { GenerateTypesOptions } from './generate';
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createLimiter } from './concurrency';
+
+describe('createLimiter', () => {
+  /** Resolves after the given number of microtask ticks. */
+  async function ticks(count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  it('should never run more tasks than the concurrency', async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+    const task = async (duration: number): Promise<void> => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await ticks(duration);
+      running--;
+    };
+
+    await Promise.all([1, 3, 2, 5, 1, 4].map((duration) => limit(() => task(duration))));
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it.each([0, 1, 2, 3, 4, 5])(
+    'should hand a finished slot to a queued task before a new caller (new call after %i ticks)',
+    async (delay) => {
+      const limit = createLimiter(1);
+      let running = 0;
+      let maxRunning = 0;
+      const task = async (): Promise<void> => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await ticks(3);
+        running--;
+      };
+
+      const first = limit(task);
+      const queued = limit(task);
+      await ticks(delay);
+      const late = limit(task);
+      await Promise.all([first, queued, late]);
+
+      expect(maxRunning).toBe(1);
+    },
+  );
+
+  it('should release the slot when a task fails', async () => {
+    const limit = createLimiter(1);
+
+    await expect(limit(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limit(() => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Creates a function that runs async tasks with at most `concurrency` running at once.
+ * A finished task hands its slot straight to the next queued task, so a new
+ * caller can never take it in between.
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = (): void => {
+    const waiter = queue.shift();
+    if (waiter) {
+      waiter();
+    } else {
+      active--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      next();
+    }
+  };
+}
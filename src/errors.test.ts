@@ -3,6 +3,12 @@ import {
   NotionAPIError,
   NotionRequestTimeoutError,
   NotionNetworkError,
+  NotionFileImportError,
+  NotionAbortError,
+  NotionOAuthError,
+  NotionClientError,
+  NotionCassetteError,
+  NotionPropertyError,
   type NotionErrorResponse,
 } from './errors';
 
@@ -249,6 +255,76 @@ describe('NotionRequestTimeoutError', () => {
   });
 });
 
+describe('NotionAbortError', () => {
+  describe('constructor', () => {
+    it('should create an error with default message', () => {
+      const error = new NotionAbortError();
+
+      expect(error.name).toBe('NotionAbortError');
+      expect(error.message).toBe('Request was aborted');
+      expect(error.reason).toBeUndefined();
+    });
+
+    it('should keep the abort reason', () => {
+      const reason = new Error('Client disconnected');
+      const error = new NotionAbortError('Aborted', reason);
+
+      expect(error.message).toBe('Aborted');
+      expect(error.reason).toBe(reason);
+      expect(error).toBeInstanceOf(Error);
+    });
+  });
+});
+
+describe('NotionOAuthError', () => {
+  it('should create an error with a code and message', () => {
+    const error = new NotionOAuthError('access_denied', 'The user denied access');
+
+    expect(error.name).toBe('NotionOAuthError');
+    expect(error.code).toBe('access_denied');
+    expect(error.message).toBe('The user denied access');
+    expect(error).toBeInstanceOf(Error);
+  });
+});
+
+describe('NotionClientError', () => {
+  it('should create an error with a message', () => {
+    const error = new NotionClientError('Fetch is not configured');
+
+    expect(error.name).toBe('NotionClientError');
+    expect(error.message).toBe('Fetch is not configured');
+    expect(error).toBeInstanceOf(Error);
+  });
+});
+
+describe('NotionCassetteError', () => {
+  it('should create an error with a message', () => {
+    const error = new NotionCassetteError('No recorded interaction matches GET /v1/users/me');
+
+    expect(error.name).toBe('NotionCassetteError');
+    expect(error.message).toBe('No recorded interaction matches GET /v1/users/me');
+    expect(error).toBeInstanceOf(NotionClientError);
+    expect(error).not.toBeInstanceOf(NotionAPIError);
+  });
+});
+
+describe('NotionPropertyError', () => {
+  it('should create an error with the property and types', () => {
+    const error = new NotionPropertyError(
+      'Property "Points" is a rich_text property, expected number',
+      'Points',
+      ['number'],
+      'rich_text',
+    );
+
+    expect(error.name).toBe('NotionPropertyError');
+    expect(error.property).toBe('Points');
+    expect(error.expectedTypes).toEqual(['number']);
+    expect(error.actualType).toBe('rich_text');
+    expect(error).toBeInstanceOf(Error);
+  });
+});
+
 describe('NotionNetworkError', () => {
   describe('constructor', () => {
     it('should create an error with message only', () => {
@@ -283,3 +359,39 @@ describe('NotionNetworkError', () => {
     });
   });
 });
+
+describe('NotionFileImportError', () => {
+  describe('constructor', () => {
+    it('should create an error with import error details', () => {
+      const error = new NotionFileImportError('upload-id', 'Download failed', {
+        type: 'validation_error',
+        code: 'file_download_failed',
+        message: 'Download failed',
+        parameter: 'external_url',
+        status_code: 404,
+      });
+
+      expect(error.name).toBe('NotionFileImportError');
+      expect(error.message).toBe('Download failed');
+      expect(error.fileUploadId).toBe('upload-id');
+      expect(error.type).toBe('validation_error');
+      expect(error.code).toBe('file_download_failed');
+      expect(error.parameter).toBe('external_url');
+      expect(error.statusCode).toBe(404);
+    });
+
+    it('should create an error without details', () => {
+      const error = new NotionFileImportError('upload-id', 'File import expired');
+
+      expect(error.code).toBeUndefined();
+      expect(error.statusCode).toBeUndefined();
+    });
+
+    it('should be an instance of Error', () => {
+      const error = new NotionFileImportError('upload-id', 'File import failed');
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(NotionFileImportError);
+    });
+  });
+});
@@ -135,3 +135,154 @@ export class NotionNetworkError extends Error {
     }
   }
 }
+
+/**
+ * Abort error (the caller cancelled the request with an `AbortSignal`).
+ */
+export class NotionAbortError extends Error {
+  /** The `reason` of the aborted signal */
+  readonly reason?: unknown;
+
+  constructor(message: string = 'Request was aborted', reason?: unknown) {
+    super(message);
+    this.name = 'NotionAbortError';
+    this.reason = reason;
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionAbortError);
+    }
+  }
+}
+
+/**
+ * OAuth authorization error (the user denied access or the callback failed validation).
+ */
+export class NotionOAuthError extends Error {
+  /** The `error` parameter of the callback URL, `state_mismatch` or `missing_code` */
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'NotionOAuthError';
+    this.code = code;
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionOAuthError);
+    }
+  }
+}
+
+/**
+ * Local setup error raised while making a request, such as from a test `fetch`.
+ * The client passes it through unchanged and does not retry it.
+ */
+export class NotionClientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotionClientError';
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionClientError);
+    }
+  }
+}
+
+/**
+ * Cassette error (a replayed request has no recorded interaction, or the cassette file is unusable).
+ */
+export class NotionCassetteError extends NotionClientError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotionCassetteError';
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionCassetteError);
+    }
+  }
+}
+
+/**
+ * Page property error (a typed getter found no such property, or a property of another type).
+ */
+export class NotionPropertyError extends Error {
+  /** The property name or ID that was looked up */
+  readonly property: string;
+
+  /** The property types the getter accepts */
+  readonly expectedTypes: string[];
+
+  /** The type of the property found, or `undefined` if the page has no such property */
+  readonly actualType?: string;
+
+  constructor(message: string, property: string, expectedTypes: string[], actualType?: string) {
+    super(message);
+    this.name = 'NotionPropertyError';
+    this.property = property;
+    this.expectedTypes = expectedTypes;
+    this.actualType = actualType;
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionPropertyError);
+    }
+  }
+}
+
+/**
+ * Details of a failed external URL file import, as reported by the API.
+ */
+export interface FileImportErrorDetails {
+  type: string;
+  code: string;
+  message: string;
+  parameter?: string | null;
+  status_code?: number | null;
+}
+
+/**
+ * File import error (an external URL import that failed or expired).
+ */
+export class NotionFileImportError extends Error {
+  readonly fileUploadId: string;
+  readonly type?: string;
+  readonly code?: string;
+  readonly parameter?: string | null;
+  readonly statusCode?: number | null;
+
+  constructor(fileUploadId: string, message: string, details?: FileImportErrorDetails) {
+    super(message);
+    this.name = 'NotionFileImportError';
+    this.fileUploadId = fileUploadId;
+    this.type = details?.type;
+    this.code = details?.code;
+    this.parameter = details?.parameter;
+    this.statusCode = details?.status_code;
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionFileImportError);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotionAPIError } from '../errors';
+import { filter, paginate, parent, prop, sort } from '../helpers';
+import { Notion } from '../notion';
+import { FakeNotion } from './fakeNotion';
+
+describe('FakeNotion', () => {
+  let fake: FakeNotion;
+  let notion: Notion;
+
+  const text = (content: string) => [{ type: 'text' as const, text: { content } }];
+
+  const createTasks = async () => {
+    const database = await notion.databases.create({
+      parent: { type: 'workspace', workspace: true },
+      title: text('Tasks'),
+      initial_data_source: {
+        properties: {
+          Name: { title: {} },
+          Points: { number: {} },
+          Done: { checkbox: {} },
+          Priority: {
+            select: {
+              options: [
+                { name: 'High', color: 'red' },
+                { name: 'Low', color: 'gray' },
+              ],
+            },
+          },
+        },
+      },
+    });
+    return database.dataSources[0]!.id;
+  };
+
+  const createTask = (dataSourceId: string, name: string, points: number, done = false) =>
+    notion.pages.create({
+      parent: { type: 'data_source_id', data_source_id: dataSourceId },
+      properties: {
+        Name: prop.title(name),
+        Points: prop.number(points),
+        Done: prop.checkbox(done),
+      },
+    });
+
+  beforeEach(() => {
+    fake = new FakeNotion();
+    notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('pages and data sources', () => {
+    it('should create, query and update pages', async () => {
+      const dataSourceId = await createTasks();
+      const page = await createTask(dataSourceId, 'Write docs', 3);
+
+      expect(page.getTitle()).toBe('Write docs');
+      expect(page.getProperty('Points')).toMatchObject({ type: 'number', number: 3 });
+
+      await notion.pages.update(page.id, {
+        properties: { Done: prop.checkbox(true), Priority: prop.select('High') },
+      });
+
+      const { results } = await notion.dataSources.query(dataSourceId);
+      expect(results).toHaveLength(1);
+      expect(results[0]?.getProperty('Done')).toMatchObject({ checkbox: true });
+      expect(results[0]?.getProperty('Priority')).toMatchObject({
+        select: { name: 'High', color: 'red' },
+      });
+    });
+
+    it('should apply filters and sorts', async () => {
+      const dataSourceId = await createTasks();
+      await createTask(dataSourceId, 'Alpha', 5);
+      await createTask(dataSourceId, 'Beta', 1, true);
+      await createTask(dataSourceId, 'Gamma', 8);
+
+      const { results } = await notion.dataSources.query(dataSourceId, {
+        filter: filter.and(
+          filter.checkbox('Done').equals(false),
+          filter.number('Points').greaterThan(2),
+        ),
+        sorts: [sort.property('Points').descending()],
+      });
+
+      expect(results.map((page) => page.getTitle())).toEqual(['Gamma', 'Alpha']);
+    });
+
+    it('should paginate with cursors', async () => {
+      const dataSourceId = await createTasks();
+      for (let i = 1; i <= 5; i++) {
+        await createTask(dataSourceId, `Task ${i}`, i);
+      }
+
+      const first = await notion.dataSources.query(dataSourceId, { page_size: 2 });
+      expect(first.results).toHaveLength(2);
+      expect(first.has_more).toBe(true);
+
+      const all = await paginate((cursor) =>
+        notion.dataSources.query(dataSourceId, { page_size: 2, start_cursor: cursor }),
+      );
+      expect(all.map((page) => page.getTitle())).toEqual([
+        'Task 1',
+        'Task 2',
+        'Task 3',
+        'Task 4',
+        'Task 5',
+      ]);
+    });
+
+    it('should reject properties missing from the schema', async () => {
+      const dataSourceId = await createTasks();
+
+      await expect(
+        notion.pages.create({
+          parent: { type: 'data_source_id', data_source_id: dataSourceId },
+          properties: { Missing: prop.checkbox(true) },
+        }),
+      ).rejects.toMatchObject({ status: 400, code: 'validation_error' });
+    });
+
+    it('should answer unknown IDs with object_not_found', async () => {
+      await expect(
+        notion.pages.retrieve('00000000-0000-0000-0000-000000000000'),
+      ).rejects.toMatchObject({ status: 404, code: 'object_not_found' });
+    });
+    it('should truncate long relations and serve them in full as property items', async () => {
+      const contactsId = await createTasks();
+      const contacts = [];
+      for (let i = 0; i < 30; i++) {
+        contacts.push(await createTask(contactsId, `Contact ${i}`, i));
+      }
+
+      const database = await notion.databases.create({
+        parent: { type: 'workspace', workspace: true },
+        title: text('Companies'),
+        initial_data_source: {
+          properties: {
+            Name: { title: {} },
+            Contacts: { relation: { data_source_id: contactsId, single_property: {} } },
+          },
+        },
+      });
+      const company = await notion.pages.create({
+        parent: { type: 'data_source_id', data_source_id: database.dataSources[0]!.id },
+        properties: { Contacts: prop.relation(contacts.map((contact) => contact.id)) },
+      });
+
+      expect(company.getTruncatedProperties()).toEqual(['Contacts']);
+
+      const hydrated = await notion.pages.hydrate(company);
+      const relation = hydrated.getProperty('Contacts');
+      expect(relation?.type === 'relation' && relation.relation).toHaveLength(30);
+      expect(hydrated.getTruncatedProperties()).toEqual([]);
+    });
+    it('should move pages between parents', async () => {
+      const root = await notion.pages.create({
+        parent: { workspace: true },
+        properties: { title: prop.title('Wiki') },
+      });
+      const [guides, archive] = await Promise.all(
+        ['Guides', 'Archive'].map((name) =>
+          notion.pages.create({
+            parent: { page_id: root.id },
+            properties: { title: prop.title(name) },
+          }),
+        ),
+      );
+
+      const moved = await notion.pages.move(guides!.id, parent.page(archive!.id));
+
+      expect(moved.isSubpage()).toBe(true);
+      const children = await notion.blocks.children.list(archive!.id);
+      expect(children.results.map((block) => block.id)).toEqual([guides!.id]);
+      await expect(notion.pages.move(archive!.id, parent.page(guides!.id))).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+  });
+
+  describe('blocks', () => {
+    it('should append and list children', async () => {
+      const dataSourceId = await createTasks();
+      const page = await createTask(dataSourceId, 'Notes', 1);
+
+      await notion.blocks.children.append(page.id, {
+        children: [
+          { type: 'paragraph', paragraph: { rich_text: text('First') } },
+          {
+            type: 'toggle',
+            toggle: {
+              rich_text: text('More'),
+              children: [{ type: 'paragraph', paragraph: { rich_text: text('Nested') } }],
+            },
+          },
+        ],
+      });
+
+      const { results } = await notion.blocks.children.list(page.id);
+      expect(results.map((block) => block.type)).toEqual(['paragraph', 'toggle']);
+      expect(results[1]?.hasChildren).toBe(true);
+
+      await notion.blocks.delete(results[0]!.id);
+      const remaining = await notion.blocks.children.list(page.id);
+      expect(remaining.results).toHaveLength(1);
+    });
+  });
+
+  describe('comments, search and users', () => {
+    it('should store comments on a page', async () => {
+      const dataSourceId = await createTasks();
+      const page = await createTask(dataSourceId, 'Review', 2);
+
+      await notion.comments.create({
+        parent: { page_id: page.id },
+        rich_text: text('Looks good'),
+      });
+
+      const { results } = await notion.comments.list(page.id);
+      expect(results).toHaveLength(1);
+      expect(results[0]?.getPlainText()).toBe('Looks good');
+    });
+
+    it('should search pages and data sources by title', async () => {
+      const dataSourceId = await createTasks();
+      await createTask(dataSourceId, 'Quarterly report', 2);
+      await createTask(dataSourceId, 'Groceries', 1);
+
+      const response = await notion.search.query({ query: 'report' });
+      expect(response.results).toHaveLength(1);
+
+      const dataSources = await notion.search.query({
+        filter: { property: 'object', value: 'data_source' },
+      });
+      expect(dataSources.results).toHaveLength(1);
+    });
+
+    it('should return the bot user', async () => {
+      const me = await notion.users.me();
+
+      expect(me.name).toBe('Fake Integration');
+      expect(me.isBot()).toBe(true);
+    });
+  });
+
+  describe('file uploads', () => {
+    it('should upload a file through the upload and complete URLs', async () => {
+      vi.stubGlobal('fetch', fake.fetch);
+
+      const upload = await notion.fileUploads.uploadFile(
+        'notes.txt',
+        new TextEncoder().encode('hello'),
+        'text/plain',
+      );
+
+      expect(upload.status).toBe('uploaded');
+      const retrieved = await notion.fileUploads.retrieve(upload.id);
+      expect(retrieved.status).toBe('uploaded');
+    });
+
+    it('should upload numbered parts as multipart form data', async () => {
+      const partSize = 5 * 1_024 * 1_024;
+
+      const upload = await notion.fileUploads.uploadMultiPart(
+        'video.mp4',
+        new Uint8Array(partSize + 1),
+        'video/mp4',
+        { partSize },
+      );
+
+      expect(upload.status).toBe('uploaded');
+      expect(upload.numberOfParts).toEqual({ total: 2, sent: 2 });
+    });
+
+    it('should reject multi-part uploads without a valid part number', async () => {
+      const upload = await notion.fileUploads.initiate({
+        filename: 'video.mp4',
+        mode: 'multi_part',
+        number_of_parts: 2,
+      });
+      const send = (partNumber?: string): Promise<Response> => {
+        const form = new FormData();
+        form.append('file', new Blob(['part']));
+        if (partNumber !== undefined) {
+          form.append('part_number', partNumber);
+        }
+        return fake.fetch(upload.uploadUrl, { method: 'POST', body: form });
+      };
+
+      expect((await send()).status).toBe(400);
+      expect((await send('3')).status).toBe(400);
+      expect((await send('1')).status).toBe(200);
+      expect((await send('1')).status).toBe(200);
+      await expect(notion.fileUploads.complete(upload.completeUrl)).rejects.toThrow(
+        'Expected 2 parts but received 1.',
+      );
+    });
+  });
+
+  describe('error injection', () => {
+    it('should fail matching requests and let the client retry', async () => {
+      fake.injectError({ status: 429, retryAfterSeconds: 0, path: '/users/me', times: 2 });
+
+      await expect(notion.users.me()).resolves.toBeDefined();
+      expect(fake.requests.filter((request) => request.path === '/users/me')).toHaveLength(3);
+    });
+
+    it('should surface errors once retries are exhausted', async () => {
+      const client = new Notion({
+        auth: 'test',
+        fetch: fake.fetch,
+        rateLimit: false,
+        maxRetries: 0,
+      });
+      fake.injectError({ status: 503, method: 'GET' });
+
+      await expect(client.users.me()).rejects.toThrow(NotionAPIError);
+      await expect(client.users.me()).resolves.toBeDefined();
+    });
+  });
+});
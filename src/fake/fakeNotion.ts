@@ -0,0 +1,508 @@
+import type { NotionErrorCode } from '../errors';
+import type { BotUser, PaginatedListType, PersonUser } from '../schemas';
+import { FakeStore } from './store';
+import { asRecord, FakeError, newId } from './values';
+
+/**
+ * Configuration options for the fake backend.
+ */
+export interface FakeNotionOptions {
+  /** Name of the integration's bot user (default: "Fake Integration") */
+  botName?: string;
+
+  /** People in the workspace, returned by the users endpoints and usable in people properties */
+  users?: PersonUser[];
+
+  /** Clock used for timestamps and relative date filters (default: `() => new Date()`) */
+  now?: () => Date;
+}
+
+/**
+ * An error response to return instead of handling matching requests.
+ */
+export interface FakeErrorInjection {
+  /** HTTP status of the error response */
+  status: number;
+
+  /** Error code (defaults from the status, e.g. `rate_limited` for 429) */
+  code?: NotionErrorCode;
+
+  /** Error message */
+  message?: string;
+
+  /** Only fail requests with this HTTP method */
+  method?: string;
+
+  /** Only fail requests whose path (without `/v1`) equals this string or matches this pattern */
+  path?: string | RegExp;
+
+  /** Value of the `Retry-After` header, in seconds */
+  retryAfterSeconds?: number;
+
+  /** Number of matching requests to fail (default: 1) */
+  times?: number;
+}
+
+/**
+ * A request received by the fake backend.
+ */
+export interface FakeRequest {
+  method: string;
+
+  /** Path without the `/v1` prefix, e.g. `/pages/abc` */
+  path: string;
+
+  query: Record<string, string>;
+
+  body?: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (params: string[], request: FakeRequest, raw: Request) => unknown;
+}
+
+/** A list endpoint's results, before pagination. */
+interface ListResult {
+  list: PaginatedListType;
+  results: unknown[];
+  extra?: Record<string, unknown>;
+}
+
+const DEFAULT_ERROR_CODES: Record<number, NotionErrorCode> = {
+  400: 'validation_error',
+  401: 'unauthorized',
+  403: 'restricted_resource',
+  404: 'object_not_found',
+  409: 'conflict_error',
+  429: 'rate_limited',
+  500: 'internal_server_error',
+  502: 'internal_server_error',
+  503: 'service_unavailable',
+  504: 'gateway_timeout',
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * In-memory Notion backend for offline tests, plugged in through the client's
+ * `fetch` option.
+ *
+ * The fake keeps pages, blocks, databases, data sources, comments, users and
+ * file uploads in memory and answers API requests with responses that pass the
+ * SDK's schemas. Data source queries apply `filter` and `sorts`, list endpoints
+ * paginate with cursors, and `injectError` makes chosen requests fail with
+ * rate-limit or server errors to exercise retries.
+ *
+ * `notion.fileUploads.upload` sends single-part file contents with the global
+ * `fetch`, so tests that use it should also stub it, e.g.
+ * `vi.stubGlobal('fetch', fake.fetch)`.
+ *
+ * @example
+ * ```typescript
+ * import { FakeNotion } from '@visus-io/notion-sdk-ts/testing';
+ *
+ * const fake = new FakeNotion();
+ * const notion = new Notion({ auth: 'test', fetch: fake.fetch });
+ *
+ * const database = await notion.databases.create({
+ *   parent: { type: 'workspace', workspace: true },
+ *   title: [{ text: { content: 'Tasks' } }],
+ *   initial_data_source: { properties: { Name: { title: {} }, Done: { checkbox: {} } } },
+ * });
+ * ```
+ */
+export class FakeNotion {
+  /** Requests received so far, in order */
+  readonly requests: FakeRequest[] = [];
+
+  private readonly store: FakeStore;
+  private readonly injections: (FakeErrorInjection & { times: number })[] = [];
+  private readonly routes: Route[];
+
+  constructor(options: FakeNotionOptions = {}) {
+    const bot: BotUser = {
+      object: 'user',
+      id: newId(),
+      type: 'bot',
+      name: options.botName ?? 'Fake Integration',
+      avatar_url: null,
+      bot: { owner: { type: 'workspace', workspace: true }, workspace_name: 'Fake Workspace' },
+    };
+
+    this.store = new FakeStore({
+      bot,
+      users: options.users ?? [],
+      now: options.now ?? (() => new Date()),
+    });
+    this.routes = this.buildRoutes();
+  }
+
+  /**
+   * Fetch implementation to pass to `NotionClientOptions.fetch`.
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const raw = new Request(input, init);
+    const url = new URL(raw.url);
+    const path = url.pathname.replace(/^\/v1/, '');
+    const text = raw.headers.get('Content-Type')?.includes('json') ? await raw.text() : '';
+
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      return errorResponse(400, 'invalid_json', 'Error parsing JSON body.');
+    }
+
+    const request: FakeRequest = {
+      method: raw.method,
+      path,
+      query: Object.fromEntries(url.searchParams),
+      ...(body !== undefined ? { body } : {}),
+    };
+    this.requests.push(request);
+
+    const injected = this.takeInjection(request);
+    if (injected) {
+      return injected;
+    }
+
+    try {
+      const data = await this.dispatch(request, raw);
+      return jsonResponse(200, data);
+    } catch (error) {
+      if (error instanceof FakeError) {
+        return errorResponse(error.status, error.code, error.message);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return errorResponse(500, 'internal_server_error', message);
+    }
+  };
+
+  /**
+   * Make matching requests fail with an error response.
+   *
+   * @example
+   * ```typescript
+   * fake.injectError({ status: 429, retryAfterSeconds: 0, times: 2 });
+   * fake.injectError({ status: 503, method: 'POST', path: /^\/data_sources\/.+\/query$/ });
+   * ```
+   */
+  injectError(injection: FakeErrorInjection): this {
+    this.injections.push({ ...injection, times: injection.times ?? 1 });
+    return this;
+  }
+
+  private takeInjection(request: FakeRequest): Response | undefined {
+    const injection = this.injections.find(
+      (candidate) =>
+        candidate.times > 0 &&
+        (!candidate.method || candidate.method.toUpperCase() === request.method) &&
+        (candidate.path === undefined ||
+          (typeof candidate.path === 'string'
+            ? candidate.path === request.path
+            : candidate.path.test(request.path))),
+    );
+
+    if (!injection) {
+      return undefined;
+    }
+
+    injection.times--;
+    const code = injection.code ?? DEFAULT_ERROR_CODES[injection.status] ?? 'internal_server_error';
+    const headers: Record<string, string> =
+      injection.retryAfterSeconds !== undefined
+        ? { 'Retry-After': String(injection.retryAfterSeconds) }
+        : {};
+    return errorResponse(
+      injection.status,
+      code,
+      injection.message ?? `Injected ${code} error.`,
+      headers,
+    );
+  }
+
+  private async dispatch(request: FakeRequest, raw: Request): Promise<unknown> {
+    const isUpload = /^\/file_uploads\/[^/]+\/send$/.test(request.path);
+    if (!isUpload && !raw.headers.get('Authorization')) {
+      throw new FakeError(401, 'unauthorized', 'API token is invalid.');
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (match) {
+        const result = await route.handle(match.slice(1), request, raw);
+        return isListResult(result) ? paginate(result, request) : result;
+      }
+    }
+
+    throw new FakeError(
+      400,
+      'invalid_request_url',
+      `Invalid request URL: ${request.method} ${request.path}`,
+    );
+  }
+
+  private buildRoutes(): Route[] {
+    const store = this.store;
+    const filterProperties = (request: FakeRequest): string[] | undefined =>
+      request.query.filter_properties?.split(',');
+
+    return [
+      // Users
+      { method: 'GET', pattern: /^\/users\/me$/, handle: () => store.me() },
+      { method: 'GET', pattern: /^\/users\/([^/]+)$/, handle: ([id]) => store.retrieveUser(id) },
+      {
+        method: 'GET',
+        pattern: /^\/users$/,
+        handle: () => list('user', store.listUsers()),
+      },
+
+      // Pages
+      { method: 'POST', pattern: /^\/pages$/, handle: (_, r) => store.createPage(body(r)) },
+      {
+        method: 'GET',
+        pattern: /^\/pages\/([^/]+)$/,
+        handle: ([id], r) => store.retrievePage(id, filterProperties(r)),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/pages\/([^/]+)\/move$/,
+        handle: ([id], r) => store.movePage(id, body(r)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/pages\/([^/]+)\/properties\/([^/]+)$/,
+        handle: ([id, propertyId]) => {
+          const items = store.retrievePropertyItems(id, propertyId);
+          return 'item' in items
+            ? items.item
+            : list('property_item', items.results, { property_item: items.propertyItem });
+        },
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/pages\/([^/]+)$/,
+        handle: ([id], r) => store.updatePage(id, body(r)),
+      },
+
+      // Blocks
+      {
+        method: 'GET',
+        pattern: /^\/blocks\/([^/]+)\/children$/,
+        handle: ([id]) => list('block', store.listChildren(id), { block: {} }),
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/blocks\/([^/]+)\/children$/,
+        handle: ([id], r) => ({
+          object: 'list',
+          results: store.appendChildren(id, body(r)),
+          next_cursor: null,
+          has_more: false,
+          type: 'block',
+          block: {},
+        }),
+      },
+      { method: 'GET', pattern: /^\/blocks\/([^/]+)$/, handle: ([id]) => store.retrieveBlock(id) },
+      {
+        method: 'PATCH',
+        pattern: /^\/blocks\/([^/]+)$/,
+        handle: ([id], r) => store.updateBlock(id, body(r)),
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/blocks\/([^/]+)$/,
+        handle: ([id]) => store.deleteBlock(id),
+      },
+
+      // Databases
+      { method: 'POST', pattern: /^\/databases$/, handle: (_, r) => store.createDatabase(body(r)) },
+      {
+        method: 'POST',
+        pattern: /^\/databases\/([^/]+)\/query$/,
+        handle: ([id], r) => list('page', store.queryDatabase(id, body(r)), { page: {} }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/databases\/([^/]+)$/,
+        handle: ([id]) => store.retrieveDatabase(id),
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/databases\/([^/]+)$/,
+        handle: ([id], r) => store.updateDatabase(id, body(r)),
+      },
+
+      // Data sources
+      {
+        method: 'POST',
+        pattern: /^\/data_sources$/,
+        handle: (_, r) => store.createDataSource(body(r)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/data_sources\/([^/]+)\/templates$/,
+        // Templates are not modelled: every data source has none
+        handle: ([id]) => {
+          store.retrieveDataSource(id);
+          return { templates: [], has_more: false, next_cursor: null };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/data_sources\/([^/]+)\/query$/,
+        handle: ([id], r) => list('page', store.queryDataSource(id, body(r)), { page: {} }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/data_sources\/([^/]+)$/,
+        handle: ([id]) => store.retrieveDataSource(id),
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/data_sources\/([^/]+)$/,
+        handle: ([id], r) => store.updateDataSource(id, body(r)),
+      },
+
+      // Comments
+      {
+        method: 'GET',
+        pattern: /^\/comments$/,
+        handle: (_, r) =>
+          list('comment', store.listComments(r.query.block_id ?? ''), { comment: {} }),
+      },
+      { method: 'POST', pattern: /^\/comments$/, handle: (_, r) => store.createComment(body(r)) },
+
+      // Search
+      {
+        method: 'POST',
+        pattern: /^\/search$/,
+        handle: (_, r) =>
+          list('page_or_data_source', store.search(body(r)), { page_or_data_source: {} }),
+      },
+
+      ...this.buildFileUploadRoutes(),
+    ];
+  }
+
+  private buildFileUploadRoutes(): Route[] {
+    const store = this.store;
+
+    return [
+      {
+        method: 'POST',
+        pattern: /^\/file_uploads$/,
+        handle: (_, r) => store.createFileUpload(body(r)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/file_uploads$/,
+        handle: (_, r) => list('file_upload', store.listFileUploads(r.query.status)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/file_uploads\/([^/]+)$/,
+        handle: ([id]) => store.retrieveFileUpload(id),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/file_uploads\/([^/]+)\/complete$/,
+        handle: ([id]) => store.completeFileUpload(id),
+      },
+      ...['PUT', 'POST'].map(
+        (method): Route => ({
+          method,
+          pattern: /^\/file_uploads\/([^/]+)\/send$/,
+          handle: async ([id], _, raw) => {
+            if (!raw.headers.get('Content-Type')?.startsWith('multipart/form-data')) {
+              return store.sendFileUpload(id, (await raw.arrayBuffer()).byteLength);
+            }
+            const form = await raw.formData();
+            const file = form.get('file');
+            const partNumber = form.get('part_number');
+            return store.sendFileUpload(
+              id,
+              typeof file === 'string' ? file.length : (file?.size ?? 0),
+              typeof partNumber === 'string' ? Number(partNumber) : undefined,
+            );
+          },
+        }),
+      ),
+    ];
+  }
+}
+
+function body(request: FakeRequest): Record<string, unknown> {
+  return request.body === undefined ? {} : asRecord(request.body, 'body');
+}
+
+function list(
+  type: PaginatedListType,
+  results: unknown[],
+  extra?: Record<string, unknown>,
+): ListResult {
+  return { list: type, results, extra };
+}
+
+function isListResult(value: unknown): value is ListResult {
+  return typeof value === 'object' && value !== null && 'list' in value && 'results' in value;
+}
+
+/**
+ * Slices a list with the request's `start_cursor` and `page_size` (query or body).
+ */
+function paginate({ list: type, results, extra }: ListResult, request: FakeRequest): unknown {
+  const params = { ...request.query, ...(request.body as Record<string, unknown> | undefined) };
+  const pageSize = params.page_size === undefined ? DEFAULT_PAGE_SIZE : Number(params.page_size);
+
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > DEFAULT_PAGE_SIZE) {
+    throw new FakeError(400, 'validation_error', 'page_size should be between 1 and 100.');
+  }
+
+  const start = params.start_cursor === undefined ? 0 : decodeCursor(params.start_cursor);
+  const end = start + pageSize;
+  const hasMore = end < results.length;
+  return {
+    object: 'list',
+    results: results.slice(start, end),
+    next_cursor: hasMore ? encodeCursor(end) : null,
+    has_more: hasMore,
+    type,
+    ...extra,
+  };
+}
+
+/** Cursors are opaque to clients; the fake encodes the offset of the next result. */
+function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: unknown): number {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(String(cursor), 'base64url').toString());
+  if (!match) {
+    throw new FakeError(400, 'validation_error', 'start_cursor is invalid.');
+  }
+  return Number(match[1]);
+}
+
+function jsonResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function errorResponse(
+  status: number,
+  code: NotionErrorCode,
+  message: string,
+  headers?: Record<string, string>,
+): Response {
+  return jsonResponse(status, { object: 'error', status, code, message }, headers);
+}
@@ -0,0 +1,2 @@
+export { FakeNotion } from './fakeNotion';
+export type { FakeErrorInjection, FakeNotionOptions, FakeRequest } from './fakeNotion';
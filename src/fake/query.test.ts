@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { NotionPage, NotionPropertiesObject } from '../schemas';
+import { compareBySorts, matchesFilter } from './query';
+
+describe('query', () => {
+  const now = new Date('2025-06-15T12:00:00.000Z');
+
+  const page = (properties: Record<string, unknown>, createdTime = now.toISOString()) =>
+    ({
+      object: 'page',
+      id: crypto.randomUUID(),
+      created_time: createdTime,
+      last_edited_time: createdTime,
+      properties,
+    }) as unknown as NotionPage;
+
+  const title = (content: string) => ({
+    id: 'title',
+    type: 'title',
+    title: [{ type: 'text', text: { content, link: null }, plain_text: content }],
+  });
+
+  describe('matchesFilter', () => {
+    it('should match text conditions case-insensitively', () => {
+      const task = page({ Name: title('Write Docs') });
+
+      expect(matchesFilter(task, { property: 'Name', title: { contains: 'docs' } }, now)).toBe(
+        true,
+      );
+      expect(matchesFilter(task, { property: 'Name', title: { equals: 'write docs' } }, now)).toBe(
+        false,
+      );
+    });
+
+    it('should combine compound filters', () => {
+      const task = page({
+        Points: { id: 'p', type: 'number', number: 3 },
+        Done: { id: 'd', type: 'checkbox', checkbox: false },
+      });
+
+      const filter = {
+        or: [
+          { property: 'Done', checkbox: { equals: true } },
+          {
+            and: [
+              { property: 'Points', number: { greater_than_or_equal_to: 3 } },
+              { property: 'Points', number: { less_than: 5 } },
+            ],
+          },
+        ],
+      };
+
+      expect(matchesFilter(task, filter, now)).toBe(true);
+    });
+
+    it('should evaluate relative date conditions against the clock', () => {
+      const due = (start: string) =>
+        page({ Due: { id: 'u', type: 'date', date: { start, end: null, time_zone: null } } });
+      const condition = { property: 'Due', date: { past_week: {} } };
+
+      expect(matchesFilter(due('2025-06-10'), condition, now)).toBe(true);
+      expect(matchesFilter(due('2025-06-01'), condition, now)).toBe(false);
+    });
+
+    it('should reject conditions that do not apply to the property type', () => {
+      const task = page({ Name: title('Write Docs') });
+
+      expect(() =>
+        matchesFilter(task, { property: 'Name', title: { greater_than: 1 } }, now),
+      ).toThrow(/not a valid filter condition/);
+    });
+  });
+
+  describe('compareBySorts', () => {
+    it('should sort select options in schema order with empty values last', () => {
+      const schema = {
+        Priority: {
+          id: 'pr',
+          name: 'Priority',
+          type: 'select',
+          select: {
+            options: [
+              { id: 'h', name: 'High', color: 'red' },
+              { id: 'l', name: 'Low', color: 'gray' },
+            ],
+          },
+        },
+      } as NotionPropertiesObject;
+      const priority = (name: string | null) =>
+        page({
+          Name: title(name ?? 'None'),
+          Priority: {
+            id: 'pr',
+            type: 'select',
+            select: name ? { id: name[0]?.toLowerCase(), name, color: 'default' } : null,
+          },
+        });
+
+      const pages = [priority(null), priority('Low'), priority('High')];
+      pages.sort(compareBySorts([{ property: 'Priority', direction: 'ascending' }], schema));
+
+      expect(
+        pages.map((p) => (p.properties.Name as ReturnType<typeof title>).title[0]?.plain_text),
+      ).toEqual(['High', 'Low', 'None']);
+    });
+
+    it('should sort by timestamps', () => {
+      const older = page({}, '2025-01-01T00:00:00.000Z');
+      const newer = page({}, '2025-02-01T00:00:00.000Z');
+
+      const pages = [older, newer];
+      pages.sort(compareBySorts([{ timestamp: 'created_time', direction: 'descending' }]));
+
+      expect(pages).toEqual([newer, older]);
+    });
+  });
+});
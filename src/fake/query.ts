@@ -0,0 +1,451 @@
+import type { NotionPage, NotionPageProperties, NotionPropertiesObject } from '../schemas';
+import { asArray, asRecord, invalid, plainText } from './values';
+
+/**
+ * Filter and sort evaluation for data source queries, applied to rendered pages.
+ *
+ * Supports the filter conditions documented for each property type, compound
+ * `and`/`or` filters and timestamp filters; rollup filters are not supported.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1_000;
+
+type Condition = Record<string, unknown>;
+
+/** Returns the single operator and operand of a filter condition. */
+function operatorOf(condition: unknown, field: string): [string, unknown] {
+  const entries = Object.entries(asRecord(condition, field));
+  if (entries.length !== 1) {
+    throw invalid(`${field} should have exactly one condition.`);
+  }
+  return entries[0];
+}
+
+function unsupported(operator: string, type: string): never {
+  throw invalid(`${operator} is not a valid filter condition for a ${type} property.`);
+}
+
+function evaluateText(value: string, condition: Condition, type: string): boolean {
+  const [operator, operand] = operatorOf(condition, type);
+  const haystack = value.toLowerCase();
+  const needle = String(operand).toLowerCase();
+
+  switch (operator) {
+    case 'equals':
+      return value === operand;
+    case 'does_not_equal':
+      return value !== operand;
+    case 'contains':
+      return haystack.includes(needle);
+    case 'does_not_contain':
+      return !haystack.includes(needle);
+    case 'starts_with':
+      return haystack.startsWith(needle);
+    case 'ends_with':
+      return haystack.endsWith(needle);
+    case 'is_empty':
+      return value === '';
+    case 'is_not_empty':
+      return value !== '';
+    default:
+      return unsupported(operator, type);
+  }
+}
+
+function evaluateNumber(value: number | null, condition: Condition, type: string): boolean {
+  const [operator, operand] = operatorOf(condition, type);
+
+  if (operator === 'is_empty') {
+    return value === null;
+  }
+  if (operator === 'is_not_empty') {
+    return value !== null;
+  }
+  if (operator === 'does_not_equal') {
+    return value !== operand;
+  }
+  if (value === null) {
+    return false;
+  }
+
+  const target = Number(operand);
+  switch (operator) {
+    case 'equals':
+      return value === target;
+    case 'greater_than':
+      return value > target;
+    case 'greater_than_or_equal_to':
+      return value >= target;
+    case 'less_than':
+      return value < target;
+    case 'less_than_or_equal_to':
+      return value <= target;
+    default:
+      return unsupported(operator, type);
+  }
+}
+
+function evaluateCheckbox(value: boolean, condition: Condition): boolean {
+  const [operator, operand] = operatorOf(condition, 'checkbox');
+
+  switch (operator) {
+    case 'equals':
+      return value === operand;
+    case 'does_not_equal':
+      return value !== operand;
+    default:
+      return unsupported(operator, 'checkbox');
+  }
+}
+
+function evaluateOption(value: string | null, condition: Condition, type: string): boolean {
+  const [operator, operand] = operatorOf(condition, type);
+
+  switch (operator) {
+    case 'equals':
+      return value === operand;
+    case 'does_not_equal':
+      return value !== operand;
+    case 'is_empty':
+      return value === null;
+    case 'is_not_empty':
+      return value !== null;
+    default:
+      return unsupported(operator, type);
+  }
+}
+
+function evaluateList(values: string[], condition: Condition, type: string): boolean {
+  const [operator, operand] = operatorOf(condition, type);
+  const normalize = (value: unknown): string => String(value).replace(/-/g, '').toLowerCase();
+  const includes = values.some((value) => normalize(value) === normalize(operand));
+
+  switch (operator) {
+    case 'contains':
+      return includes;
+    case 'does_not_contain':
+      return !includes;
+    case 'is_empty':
+      return values.length === 0;
+    case 'is_not_empty':
+      return values.length > 0;
+    default:
+      return unsupported(operator, type);
+  }
+}
+
+/** Start of the current week (Monday, UTC). */
+function startOfWeek(now: Date): number {
+  const day = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return day - ((now.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+function shiftMonths(now: Date, months: number): number {
+  const date = new Date(now);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.getTime();
+}
+
+/** Time window of a relative date condition such as `past_week`. */
+function relativeRange(operator: string, now: Date): [number, number] | undefined {
+  const time = now.getTime();
+  const ranges: Record<string, [number, number]> = {
+    past_week: [time - 7 * DAY_MS, time],
+    past_month: [shiftMonths(now, -1), time],
+    past_year: [shiftMonths(now, -12), time],
+    next_week: [time, time + 7 * DAY_MS],
+    next_month: [time, shiftMonths(now, 1)],
+    next_year: [time, shiftMonths(now, 12)],
+    this_week: [startOfWeek(now), startOfWeek(now) + 7 * DAY_MS],
+  };
+  return ranges[operator];
+}
+
+/**
+ * Compares a date value with a condition operand. Date-only operands compare
+ * calendar days, so `equals: '2025-01-31'` matches any time on that day.
+ */
+function compareDates(value: string, operand: unknown): number {
+  const target = String(operand);
+  if (target.length === 10) {
+    const day = value.slice(0, 10);
+    return day === target ? 0 : day < target ? -1 : 1;
+  }
+  return Date.parse(value) - Date.parse(target);
+}
+
+function evaluateDate(value: string | null, condition: Condition, now: Date): boolean {
+  const [operator, operand] = operatorOf(condition, 'date');
+
+  if (operator === 'is_empty') {
+    return value === null;
+  }
+  if (operator === 'is_not_empty') {
+    return value !== null;
+  }
+  if (value === null) {
+    return false;
+  }
+
+  const range = relativeRange(operator, now);
+  if (range) {
+    const time = Date.parse(value);
+    return time >= range[0] && time <= range[1];
+  }
+
+  const comparison = compareDates(value, operand);
+  switch (operator) {
+    case 'equals':
+      return comparison === 0;
+    case 'before':
+      return comparison < 0;
+    case 'after':
+      return comparison > 0;
+    case 'on_or_before':
+      return comparison <= 0;
+    case 'on_or_after':
+      return comparison >= 0;
+    default:
+      return unsupported(operator, 'date');
+  }
+}
+
+function evaluateFormula(
+  value: Extract<NotionPageProperties, { type: 'formula' }>['formula'],
+  condition: Condition,
+  now: Date,
+): boolean {
+  const [type, inner] = operatorOf(condition, 'formula');
+  const nested = asRecord(inner, `formula.${type}`);
+
+  switch (type) {
+    case 'string':
+      return evaluateText(value.type === 'string' ? (value.string ?? '') : '', nested, 'formula');
+    case 'number':
+      return evaluateNumber(value.type === 'number' ? value.number : null, nested, 'formula');
+    case 'checkbox':
+      return evaluateCheckbox(value.type === 'boolean' && value.boolean, nested);
+    case 'date':
+      return evaluateDate(value.type === 'date' ? value.date.start : null, nested, now);
+    default:
+      return unsupported(type, 'formula');
+  }
+}
+
+// eslint-disable-next-line complexity
+function evaluateProperty(
+  property: NotionPageProperties,
+  condition: Condition,
+  now: Date,
+): boolean {
+  switch (property.type) {
+    case 'title':
+      return evaluateText(plainText(property.title), condition, property.type);
+    case 'rich_text':
+      return evaluateText(plainText(property.rich_text), condition, property.type);
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return evaluateText(
+        ((property as Record<string, unknown>)[property.type] as string | null) ?? '',
+        condition,
+        property.type,
+      );
+    case 'number':
+      return evaluateNumber(property.number, condition, property.type);
+    case 'unique_id':
+      return evaluateNumber(property.unique_id.number, condition, property.type);
+    case 'checkbox':
+      return evaluateCheckbox(property.checkbox, condition);
+    case 'select':
+      return evaluateOption(property.select?.name ?? null, condition, property.type);
+    case 'status':
+      return evaluateOption(property.status?.name ?? null, condition, property.type);
+    case 'multi_select':
+      return evaluateList(
+        property.multi_select.map((o) => o.name),
+        condition,
+        property.type,
+      );
+    case 'people':
+      return evaluateList(
+        property.people.map((u) => u.id),
+        condition,
+        property.type,
+      );
+    case 'relation':
+      return evaluateList(
+        property.relation.map((r) => r.id),
+        condition,
+        property.type,
+      );
+    case 'files':
+      return evaluateList(
+        property.files.map((f) => f.name),
+        condition,
+        property.type,
+      );
+    case 'created_by':
+      return evaluateList([property.created_by.id], condition, property.type);
+    case 'last_edited_by':
+      return evaluateList([property.last_edited_by.id], condition, property.type);
+    case 'date':
+      return evaluateDate(property.date?.start ?? null, condition, now);
+    case 'created_time':
+      return evaluateDate(property.created_time, condition, now);
+    case 'last_edited_time':
+      return evaluateDate(property.last_edited_time, condition, now);
+    case 'formula':
+      return evaluateFormula(property.formula, condition, now);
+    default:
+      throw invalid(`Filtering on ${property.type} properties is not supported.`);
+  }
+}
+
+function findProperty(page: NotionPage, key: unknown): NotionPageProperties {
+  const property =
+    page.properties[String(key)] ??
+    Object.values(page.properties).find((candidate) => candidate.id === key);
+
+  if (!property) {
+    throw invalid(`Could not find property with name or id: ${String(key)}`);
+  }
+  return property;
+}
+
+/**
+ * Whether a page matches a data source query filter.
+ */
+export function matchesFilter(page: NotionPage, input: unknown, now: Date): boolean {
+  const filter = asRecord(input, 'filter');
+
+  if ('and' in filter) {
+    return asArray(filter.and, 'filter.and').every((nested) => matchesFilter(page, nested, now));
+  }
+  if ('or' in filter) {
+    return asArray(filter.or, 'filter.or').some((nested) => matchesFilter(page, nested, now));
+  }
+  if ('timestamp' in filter) {
+    const timestamp = filter.timestamp;
+    if (timestamp !== 'created_time' && timestamp !== 'last_edited_time') {
+      throw invalid('filter.timestamp should be `created_time` or `last_edited_time`.');
+    }
+    return evaluateDate(page[timestamp], asRecord(filter[timestamp], timestamp), now);
+  }
+  if ('property' in filter) {
+    const property = findProperty(page, filter.property);
+    const key = Object.keys(filter).find((candidate) => candidate !== 'property');
+    if (!key) {
+      throw invalid(`filter for ${String(filter.property)} should have a condition.`);
+    }
+    return evaluateProperty(property, asRecord(filter[key], key), now);
+  }
+
+  throw invalid('filter should be a property, timestamp, `and` or `or` filter.');
+}
+
+// ---------------------------------------------------------------------------
+// Sorts
+// ---------------------------------------------------------------------------
+
+type SortKey = string | number | null;
+
+function optionIndex(
+  schema: NotionPropertiesObject | undefined,
+  propertyId: string,
+  optionId: string,
+): number {
+  const definition = Object.values(schema ?? {}).find((property) => property.id === propertyId);
+  const options =
+    definition?.type === 'select'
+      ? definition.select.options
+      : definition?.type === 'status'
+        ? definition.status.options
+        : [];
+  return options.findIndex((option) => option.id === optionId);
+}
+
+// eslint-disable-next-line complexity
+function sortKey(property: NotionPageProperties, schema?: NotionPropertiesObject): SortKey {
+  switch (property.type) {
+    case 'title':
+      return plainText(property.title) || null;
+    case 'rich_text':
+      return plainText(property.rich_text) || null;
+    case 'number':
+      return property.number;
+    case 'unique_id':
+      return property.unique_id.number;
+    case 'checkbox':
+      return property.checkbox ? 1 : 0;
+    case 'select':
+      return property.select ? optionIndex(schema, property.id, property.select.id) : null;
+    case 'status':
+      return property.status ? optionIndex(schema, property.id, property.status.id) : null;
+    case 'multi_select':
+      return property.multi_select[0]?.name ?? null;
+    case 'date':
+      return property.date ? Date.parse(property.date.start) : null;
+    case 'created_time':
+      return property.created_time;
+    case 'last_edited_time':
+      return property.last_edited_time;
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return ((property as Record<string, unknown>)[property.type] as string | null) || null;
+    default:
+      return null;
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Builds a comparator from data source query sorts. Empty values always sort last.
+ */
+export function compareBySorts(
+  sorts: unknown,
+  schema?: NotionPropertiesObject,
+): (a: NotionPage, b: NotionPage) => number {
+  const criteria = asArray(sorts, 'sorts').map((input) => {
+    const sort = asRecord(input, 'sorts[]');
+    const direction = sort.direction === 'descending' ? -1 : 1;
+
+    if (sort.timestamp === 'created_time' || sort.timestamp === 'last_edited_time') {
+      const timestamp = sort.timestamp;
+      return { direction, key: (page: NotionPage): SortKey => page[timestamp] };
+    }
+    if (typeof sort.property !== 'string') {
+      throw invalid('sorts[] should have a `property` or `timestamp`.');
+    }
+    const name = sort.property;
+    return {
+      direction,
+      key: (page: NotionPage): SortKey => sortKey(findProperty(page, name), schema),
+    };
+  });
+
+  return (a, b) => {
+    for (const { direction, key } of criteria) {
+      const left = key(a);
+      const right = key(b);
+      if (left === right) {
+        continue;
+      }
+      if (left === null || right === null) {
+        return left === null ? 1 : -1;
+      }
+      const result = compareKeys(left, right) * direction;
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,1379 @@
+import {
+  blockSchema,
+  type BotUser,
+  commentSchema,
+  type NotionBlock,
+  type NotionComment,
+  type NotionDatabase,
+  type NotionDataSource,
+  type NotionFileUpload,
+  type NotionPage,
+  type NotionPageProperties,
+  type NotionParent,
+  type NotionPropertiesObject,
+  type NotionPropertyObject,
+  type NotionRichText,
+  type NotionUser,
+  type PartialUser,
+} from '../schemas';
+import { compareBySorts, matchesFilter } from './query';
+import {
+  asArray,
+  asRecord,
+  blockType,
+  buildPropertyObject,
+  invalid,
+  newId,
+  normalizeBlockContent,
+  normalizeFile,
+  normalizeId,
+  normalizeRichText,
+  notFound,
+  parseWith,
+  plainText,
+  stringOr,
+} from './values';
+
+/** A stored property value: the response shape without its `id`. */
+type PropertyValue = { type: string } & Record<string, unknown>;
+
+interface Timestamps {
+  created_time: string;
+  last_edited_time: string;
+  created_by: PartialUser;
+  last_edited_by: PartialUser;
+}
+
+interface PageRecord extends Timestamps {
+  id: string;
+  parent: NotionParent;
+  in_trash: boolean;
+  icon: NotionPage['icon'];
+  cover: NotionPage['cover'];
+  /** Property values keyed by property ID */
+  values: Map<string, PropertyValue>;
+  uniqueId: number;
+}
+
+interface DataSourceRecord extends Timestamps {
+  id: string;
+  databaseId: string;
+  properties: NotionPropertiesObject;
+  title: NotionRichText;
+  description: NotionRichText;
+  icon: NotionDataSource['icon'];
+  in_trash: boolean;
+  nextUniqueId: number;
+}
+
+interface DatabaseRecord extends Timestamps {
+  id: string;
+  parent: NotionParent;
+  title: NotionRichText;
+  description: NotionRichText;
+  icon: NotionDatabase['icon'];
+  cover: NotionDatabase['cover'];
+  is_inline: boolean;
+  in_trash: boolean;
+  dataSourceIds: string[];
+}
+
+/** Schema of pages that are not in a data source: a single title property. */
+const PAGE_SCHEMA: NotionPropertiesObject = {
+  title: { id: 'title', name: 'title', type: 'title', title: {} },
+};
+
+/** Base URL of upload and complete URLs handed out by the fake. */
+const API_URL = 'https://api.notion.com/v1';
+
+/** Lifetime of a pending file upload. */
+const UPLOAD_EXPIRY_MS = 60 * 60 * 1_000;
+
+/** Number of entries page objects include for list-like property values. */
+const PROPERTY_VALUE_LIMIT = 25;
+
+function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, '')}`;
+}
+
+function truncate(value: NotionPageProperties): NotionPageProperties {
+  switch (value.type) {
+    case 'title':
+      return { ...value, title: value.title.slice(0, PROPERTY_VALUE_LIMIT) };
+    case 'rich_text':
+      return { ...value, rich_text: value.rich_text.slice(0, PROPERTY_VALUE_LIMIT) };
+    case 'people':
+      return { ...value, people: value.people.slice(0, PROPERTY_VALUE_LIMIT) };
+    case 'relation':
+      return {
+        ...value,
+        relation: value.relation.slice(0, PROPERTY_VALUE_LIMIT),
+        has_more: value.relation.length > PROPERTY_VALUE_LIMIT,
+      };
+    default:
+      return value;
+  }
+}
+
+/**
+ * A page property value as returned by the property item endpoint: a single
+ * item, or the items of a paginated value and the summary of the property.
+ */
+export type PropertyItems =
+  | { item: Record<string, unknown> }
+  | { results: unknown[]; propertyItem: Record<string, unknown> };
+
+/**
+ * Configuration of the in-memory workspace.
+ */
+export interface FakeStoreOptions {
+  bot: BotUser;
+  users: NotionUser[];
+  now: () => Date;
+}
+
+/**
+ * In-memory state of a fake Notion workspace and the operations behind each endpoint.
+ */
+export class FakeStore {
+  private readonly pages = new Map<string, PageRecord>();
+  private readonly blocks = new Map<string, NotionBlock>();
+  private readonly databases = new Map<string, DatabaseRecord>();
+  private readonly dataSources = new Map<string, DataSourceRecord>();
+  private readonly comments = new Map<string, NotionComment>();
+  private readonly fileUploads = new Map<string, NotionFileUpload>();
+  /** Part numbers received for each multi-part upload */
+  private readonly uploadedParts = new Map<string, Set<number>>();
+  private readonly users = new Map<string, NotionUser>();
+  /** Ordered child IDs (blocks, child pages and child databases) by parent ID */
+  private readonly children = new Map<string, string[]>();
+
+  constructor(private readonly options: FakeStoreOptions) {
+    for (const user of [options.bot, ...options.users]) {
+      this.users.set(user.id, user);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Users
+  // -------------------------------------------------------------------------
+
+  me(): NotionUser {
+    return this.options.bot;
+  }
+
+  retrieveUser(id: string): NotionUser {
+    const user = this.users.get(normalizeId(id, 'user_id'));
+    if (!user) {
+      throw notFound('user', id);
+    }
+    return user;
+  }
+
+  listUsers(): NotionUser[] {
+    return [...this.users.values()];
+  }
+
+  // -------------------------------------------------------------------------
+  // Pages
+  // -------------------------------------------------------------------------
+
+  createPage(body: Record<string, unknown>): NotionPage {
+    const { parent, dataSource } = this.resolvePageParent(body.parent);
+    const page: PageRecord = {
+      id: newId(),
+      parent,
+      ...this.timestamps(),
+      in_trash: false,
+      icon: null,
+      cover: null,
+      values: new Map(),
+      uniqueId: dataSource ? dataSource.nextUniqueId++ : 0,
+    };
+
+    if (dataSource) {
+      this.applyStatusDefaults(page, dataSource.properties);
+    }
+    this.setProperties(page, body.properties ?? {});
+    this.setAppearance(page, body);
+
+    this.pages.set(page.id, page);
+    if (parent.type === 'page_id') {
+      this.insertChildren(parent.page_id, [page.id], body.position);
+    }
+    if (body.children !== undefined) {
+      this.appendChildren(page.id, { children: body.children });
+    }
+
+    return this.renderPage(page);
+  }
+
+  retrievePage(id: string, filterProperties?: string[]): NotionPage {
+    return this.renderPage(this.getPage(id), filterProperties);
+  }
+
+  retrievePropertyItems(pageId: string, propertyId: string): PropertyItems {
+    const page = this.getPage(pageId);
+    const key = decodeURIComponent(propertyId);
+    const property = Object.values(this.schemaOf(page)).find((candidate) => candidate.id === key);
+    const value = property && this.renderValue(page, property);
+    if (!property || !value) {
+      throw notFound('property', propertyId);
+    }
+
+    const item = (entry: unknown): unknown => ({
+      object: 'property_item',
+      id: property.id,
+      type: value.type,
+      [value.type]: entry,
+    });
+
+    switch (value.type) {
+      case 'title':
+        return { results: value.title.map(item), propertyItem: this.listSummary(property) };
+      case 'rich_text':
+        return { results: value.rich_text.map(item), propertyItem: this.listSummary(property) };
+      case 'people':
+        return { results: value.people.map(item), propertyItem: this.listSummary(property) };
+      case 'relation':
+        return { results: value.relation.map(item), propertyItem: this.listSummary(property) };
+      case 'rollup':
+        return {
+          results: (value.rollup.array ?? []).map((entry: object) => ({
+            object: 'property_item',
+            id: property.id,
+            ...entry,
+          })),
+          propertyItem: { ...this.listSummary(property), rollup: value.rollup },
+        };
+      default:
+        return { item: { object: 'property_item', ...value } };
+    }
+  }
+
+  private listSummary(property: NotionPropertyObject): Record<string, unknown> {
+    return { id: property.id, type: property.type, next_url: null, [property.type]: {} };
+  }
+
+  updatePage(id: string, body: Record<string, unknown>): NotionPage {
+    const page = this.getPage(id);
+    const trash = (body.in_trash ?? body.archived) as boolean | undefined;
+
+    if (page.in_trash && trash !== false) {
+      throw invalid(
+        "Can't edit page that is archived. You must unarchive the page before editing.",
+      );
+    }
+
+    if (body.properties !== undefined) {
+      this.setProperties(page, body.properties);
+    }
+    this.setAppearance(page, body);
+    if (trash !== undefined) {
+      page.in_trash = trash;
+    }
+    if (body.erase_content === true) {
+      this.children.set(page.id, []);
+    }
+
+    this.touch(page);
+    return this.renderPage(page);
+  }
+
+  movePage(id: string, body: Record<string, unknown>): NotionPage {
+    const page = this.getPage(id);
+    const { parent, dataSource } = this.resolvePageParent(body.parent);
+
+    if (parent.type === 'workspace') {
+      throw invalid('Pages can only be moved to a page or a data source.');
+    }
+    if (parent.type === 'page_id' && this.isWithin(parent.page_id, page.id)) {
+      throw invalid('A page cannot be moved into itself or one of its descendants.');
+    }
+
+    this.detach(page.id, page.parent);
+    page.parent = parent;
+    if (parent.type === 'page_id') {
+      this.insertChildren(parent.page_id, [page.id]);
+    }
+    if (dataSource) {
+      page.uniqueId = dataSource.nextUniqueId++;
+    }
+
+    this.touch(page);
+    return this.renderPage(page);
+  }
+
+  /** Whether `id` is `ancestorId` or nested below it. */
+  private isWithin(id: string, ancestorId: string): boolean {
+    for (let current: string | undefined = id; current; ) {
+      if (current === ancestorId) {
+        return true;
+      }
+      const parent: NotionParent | undefined = (
+        this.pages.get(current) ??
+        this.blocks.get(current) ??
+        this.databases.get(current)
+      )?.parent;
+      current =
+        parent?.type === 'page_id'
+          ? parent.page_id
+          : parent?.type === 'block_id'
+            ? parent.block_id
+            : undefined;
+    }
+    return false;
+  }
+
+  /** Removes a page or database from its parent page's children. */
+  private detach(id: string, parent: NotionParent): void {
+    if (parent.type === 'page_id') {
+      const siblings = this.children.get(parent.page_id) ?? [];
+      this.children.set(
+        parent.page_id,
+        siblings.filter((childId) => childId !== id),
+      );
+    }
+  }
+
+  private getPage(id: unknown): PageRecord {
+    const pageId = normalizeId(id, 'page_id');
+    const page = this.pages.get(pageId);
+    if (!page) {
+      throw notFound('page', pageId);
+    }
+    return page;
+  }
+
+  private resolvePageParent(input: unknown): {
+    parent: NotionParent;
+    dataSource?: DataSourceRecord;
+  } {
+    const parent = asRecord(input, 'parent');
+
+    if (parent.page_id !== undefined) {
+      return { parent: { type: 'page_id', page_id: this.getPage(parent.page_id).id } };
+    }
+    if (parent.workspace === true) {
+      return { parent: { type: 'workspace', workspace: true } };
+    }
+
+    const dataSource =
+      parent.data_source_id !== undefined
+        ? this.getDataSource(parent.data_source_id)
+        : this.firstDataSource(this.getDatabase(parent.database_id));
+
+    return {
+      parent: {
+        type: 'data_source_id',
+        data_source_id: dataSource.id,
+        database_id: dataSource.databaseId,
+      },
+      dataSource,
+    };
+  }
+
+  private schemaOf(page: PageRecord): NotionPropertiesObject {
+    return page.parent.type === 'data_source_id'
+      ? this.getDataSource(page.parent.data_source_id).properties
+      : PAGE_SCHEMA;
+  }
+
+  private setAppearance(
+    record: { icon: unknown; cover?: unknown },
+    body: Record<string, unknown>,
+  ): void {
+    if (body.icon !== undefined) {
+      record.icon = normalizeFile(body.icon, 'icon');
+    }
+    if (body.cover !== undefined && 'cover' in record) {
+      record.cover = normalizeFile(body.cover, 'cover', false);
+    }
+  }
+
+  private applyStatusDefaults(page: PageRecord, schema: NotionPropertiesObject): void {
+    for (const property of Object.values(schema)) {
+      const option = property.type === 'status' ? property.status.options[0] : undefined;
+      if (option) {
+        page.values.set(property.id, { type: 'status', status: { id: option.id } });
+      }
+    }
+  }
+
+  private setProperties(page: PageRecord, input: unknown): void {
+    const schema = this.schemaOf(page);
+
+    for (const [key, value] of Object.entries(asRecord(input, 'properties'))) {
+      const property =
+        schema[key] ?? Object.values(schema).find((candidate) => candidate.id === key);
+      if (!property) {
+        throw invalid(`${key} is not a property that exists.`);
+      }
+      page.values.set(property.id, this.toPropertyValue(property, value));
+    }
+  }
+
+  // eslint-disable-next-line complexity
+  private toPropertyValue(property: NotionPropertyObject, input: unknown): PropertyValue {
+    const { type, name } = property;
+    const value = asRecord(input, `properties.${name}`)[type];
+    const field = `properties.${name}.${type}`;
+
+    switch (type) {
+      case 'title':
+      case 'rich_text':
+        return { type, [type]: normalizeRichText(value, field) };
+      case 'number':
+        return { type, number: this.expect(value, 'number', field) };
+      case 'checkbox':
+        return { type, checkbox: value === true };
+      case 'url':
+      case 'email':
+      case 'phone_number':
+        return { type, [type]: this.expect(value, 'string', field) };
+      case 'select':
+        return { type, select: value === null ? null : { id: this.option(property, value).id } };
+      case 'status':
+        return { type, status: value === null ? null : { id: this.option(property, value).id } };
+      case 'multi_select':
+        return {
+          type,
+          multi_select: asArray(value, field).map((o) => ({ id: this.option(property, o).id })),
+        };
+      case 'date':
+        return { type, date: value === null ? null : this.toDate(value, field) };
+      case 'people':
+        return { type, people: asArray(value, field).map((u) => this.toUser(u, field)) };
+      case 'relation':
+        return {
+          type,
+          relation: asArray(value, field).map((r) => ({ id: normalizeId(asRecord(r, field).id) })),
+        };
+      case 'files':
+        return { type, files: asArray(value, field).map((f) => this.toFile(f, field)) };
+      default:
+        throw invalid(`${name} is a ${type} property, which cannot be set.`);
+    }
+  }
+
+  private expect(value: unknown, type: 'number' | 'string', field: string): unknown {
+    if (value !== null && typeof value !== type) {
+      throw invalid(`${field} should be a ${type} or \`null\`.`);
+    }
+    return value;
+  }
+
+  /** Finds a select, multi-select or status option, creating missing select options. */
+  private option(property: NotionPropertyObject, input: unknown): { id: string } {
+    const request = asRecord(input, `properties.${property.name}`);
+    const config =
+      property.type === 'select'
+        ? property.select
+        : property.type === 'multi_select'
+          ? property.multi_select
+          : property.type === 'status'
+            ? property.status
+            : undefined;
+    const existing = config?.options.find(
+      (option) => option.id === request.id || option.name === request.name,
+    );
+
+    if (existing) {
+      return existing;
+    }
+    if (property.type === 'status' || !config || typeof request.name !== 'string') {
+      throw invalid(
+        `Invalid ${property.type} option for ${property.name}: ${JSON.stringify(input)}`,
+      );
+    }
+
+    const option = { id: newId(), name: request.name, color: 'default' as const };
+    config.options.push(option);
+    return option;
+  }
+
+  private toDate(input: unknown, field: string): unknown {
+    const date = asRecord(input, field);
+    if (typeof date.start !== 'string') {
+      throw invalid(`${field}.start should be a string.`);
+    }
+    return { start: date.start, end: date.end ?? null, time_zone: date.time_zone ?? null };
+  }
+
+  private toUser(input: unknown, field: string): NotionUser {
+    const id = normalizeId(asRecord(input, field).id, `${field}[].id`);
+    return this.users.get(id) ?? { object: 'user', id };
+  }
+
+  private toFile(input: unknown, field: string): unknown {
+    const file = { ...asRecord(input, field) };
+    file.type ??= Object.keys(file).find((key) => key !== 'name');
+    return { name: stringOr(file.name), ...file };
+  }
+
+  /**
+   * Renders a page object. List-like values are truncated like the API does,
+   * unless `full` is set (for filtering and the property item endpoint).
+   */
+  private renderPage(page: PageRecord, filterProperties?: string[], full = false): NotionPage {
+    const properties: Record<string, NotionPageProperties> = {};
+
+    for (const [name, property] of Object.entries(this.schemaOf(page))) {
+      if (
+        filterProperties &&
+        !filterProperties.some((key) => key === property.id || key === name)
+      ) {
+        continue;
+      }
+      const value = this.renderValue(page, property);
+      if (value) {
+        properties[name] = full ? value : truncate(value);
+      }
+    }
+
+    return {
+      object: 'page',
+      id: page.id,
+      created_time: page.created_time,
+      created_by: page.created_by,
+      last_edited_time: page.last_edited_time,
+      last_edited_by: page.last_edited_by,
+      archived: page.in_trash,
+      in_trash: page.in_trash,
+      icon: page.icon,
+      cover: page.cover,
+      properties,
+      parent: page.parent,
+      url: notionUrl(page.id),
+      public_url: null,
+    };
+  }
+
+  private renderValue(
+    page: PageRecord,
+    property: NotionPropertyObject,
+  ): NotionPageProperties | undefined {
+    const stored = page.values.get(property.id);
+    const value = stored?.type === property.type ? stored : this.defaultValue(page, property);
+
+    switch (value?.type) {
+      case undefined:
+        return undefined;
+      case 'select':
+      case 'status': {
+        const selected = value[value.type] as { id: string } | null;
+        return {
+          id: property.id,
+          type: value.type,
+          [value.type]: selected && this.resolveOption(property, selected.id),
+        } as NotionPageProperties;
+      }
+      case 'multi_select':
+        return {
+          id: property.id,
+          type: 'multi_select',
+          multi_select: (value.multi_select as { id: string }[])
+            .map((option) => this.resolveOption(property, option.id))
+            .filter((option) => option !== null),
+        } as NotionPageProperties;
+      default:
+        return { id: property.id, ...value } as NotionPageProperties;
+    }
+  }
+
+  private resolveOption(
+    property: NotionPropertyObject,
+    id: string,
+  ): { id: string; name: string; color: string } | null {
+    const options =
+      property.type === 'select'
+        ? property.select.options
+        : property.type === 'multi_select'
+          ? property.multi_select.options
+          : property.type === 'status'
+            ? property.status.options
+            : [];
+    return options.find((option) => option.id === id) ?? null;
+  }
+
+  // eslint-disable-next-line complexity
+  private defaultValue(
+    page: PageRecord,
+    property: NotionPropertyObject,
+  ): PropertyValue | undefined {
+    const { type } = property;
+
+    switch (property.type) {
+      case 'title':
+      case 'rich_text':
+      case 'people':
+      case 'files':
+      case 'multi_select':
+        return { type, [type]: [] };
+      case 'number':
+      case 'select':
+      case 'status':
+      case 'date':
+      case 'url':
+      case 'email':
+      case 'phone_number':
+        return { type, [type]: null };
+      case 'checkbox':
+        return { type, checkbox: false };
+      case 'relation':
+        return { type, relation: [], has_more: false };
+      case 'created_time':
+      case 'last_edited_time':
+      case 'created_by':
+      case 'last_edited_by':
+        return { type, [type]: page[property.type] };
+      case 'formula':
+        return { type, formula: { type: 'string', string: null } };
+      case 'rollup':
+        return { type, rollup: { type: 'array', function: property.rollup.function, array: [] } };
+      case 'unique_id':
+        return {
+          type,
+          unique_id: { number: page.uniqueId, prefix: property.unique_id.prefix ?? null },
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Blocks
+  // -------------------------------------------------------------------------
+
+  retrieveBlock(id: string): NotionBlock {
+    const blockId = normalizeId(id, 'block_id');
+    if (!this.blocks.has(blockId) && !this.pages.has(blockId) && !this.databases.has(blockId)) {
+      throw notFound('block', id);
+    }
+    return this.renderBlock(blockId);
+  }
+
+  updateBlock(id: string, body: Record<string, unknown>): NotionBlock {
+    const block = this.getBlock(id);
+    const trash = (body.in_trash ?? body.archived) as boolean | undefined;
+
+    if (block.in_trash && trash !== false) {
+      throw invalid(
+        "Can't edit block that is archived. You must unarchive the block before editing.",
+      );
+    }
+
+    if (body[block.type] !== undefined) {
+      const current = (block as Record<string, unknown>)[block.type] as Record<string, unknown>;
+      const content = normalizeBlockContent(block.type, {
+        ...current,
+        ...asRecord(body[block.type], block.type),
+      });
+      parseWith(blockSchema, { ...block, [block.type]: content }, block.type);
+      Object.assign(block, { [block.type]: content });
+    }
+    if (trash !== undefined) {
+      block.in_trash = trash;
+      block.archived = trash;
+    }
+
+    this.touch(block);
+    return this.renderBlock(block.id);
+  }
+
+  deleteBlock(id: string): NotionBlock {
+    const blockId = normalizeId(id, 'block_id');
+    const record = this.pages.get(blockId) ?? this.databases.get(blockId) ?? this.getBlock(id);
+
+    record.in_trash = true;
+    if ('archived' in record) {
+      record.archived = true;
+    }
+    this.touch(record);
+    return this.renderBlock(blockId);
+  }
+
+  listChildren(id: string): NotionBlock[] {
+    const parentId = this.getContainer(id);
+    return (this.children.get(parentId) ?? [])
+      .filter((childId) => !this.isTrashed(childId))
+      .map((childId) => this.renderBlock(childId));
+  }
+
+  appendChildren(id: string, body: Record<string, unknown>): NotionBlock[] {
+    const parentId = this.getContainer(id);
+    const parent: NotionParent = this.pages.has(parentId)
+      ? { type: 'page_id', page_id: parentId }
+      : { type: 'block_id', block_id: parentId };
+
+    const ids = asArray(body.children, 'children').map((child) => this.createBlock(child, parent));
+    const position =
+      body.after !== undefined
+        ? { type: 'after_block', after_block: { id: body.after } }
+        : body.position;
+    this.insertChildren(parentId, ids, position);
+
+    return ids.map((childId) => this.renderBlock(childId));
+  }
+
+  private createBlock(input: unknown, parent: NotionParent): string {
+    const request = asRecord(input, 'children[]');
+    const type = blockType(request);
+    const content = normalizeBlockContent(type, request[type]);
+    const block = parseWith(
+      blockSchema,
+      {
+        object: 'block',
+        id: newId(),
+        parent,
+        type,
+        ...this.timestamps(),
+        archived: false,
+        in_trash: false,
+        has_children: false,
+        [type]: content,
+      },
+      type,
+    );
+
+    this.blocks.set(block.id, block);
+
+    const nested = (request[type] as { children?: unknown } | undefined)?.children;
+    if (nested !== undefined) {
+      const parentRef: NotionParent = { type: 'block_id', block_id: block.id };
+      const ids = asArray(nested, `${type}.children`).map((child) =>
+        this.createBlock(child, parentRef),
+      );
+      this.insertChildren(block.id, ids);
+    }
+
+    return block.id;
+  }
+
+  private getBlock(id: unknown): NotionBlock {
+    const blockId = normalizeId(id, 'block_id');
+    const block = this.blocks.get(blockId);
+    if (!block) {
+      throw notFound('block', blockId);
+    }
+    return block;
+  }
+
+  /** Resolves the ID of a page or block that can hold children. */
+  private getContainer(id: string): string {
+    const containerId = normalizeId(id, 'block_id');
+    if (!this.pages.has(containerId) && !this.blocks.has(containerId)) {
+      throw notFound('block', id);
+    }
+    return containerId;
+  }
+
+  private insertChildren(parentId: string, ids: string[], position?: unknown): void {
+    const siblings = this.children.get(parentId) ?? [];
+    const request = (position ?? {}) as { type?: string; after_block?: { id?: unknown } };
+
+    let index = siblings.length;
+    if (request.type === 'page_start') {
+      index = 0;
+    } else if (request.type === 'after_block') {
+      const afterId = normalizeId(request.after_block?.id, 'after');
+      index = siblings.indexOf(afterId) + 1;
+      if (index === 0) {
+        throw invalid(`Block ${afterId} is not a child of ${parentId}.`);
+      }
+    }
+
+    siblings.splice(index, 0, ...ids);
+    this.children.set(parentId, siblings);
+  }
+
+  private isTrashed(id: string): boolean {
+    return (this.pages.get(id) ?? this.databases.get(id) ?? this.blocks.get(id))?.in_trash ?? true;
+  }
+
+  private renderBlock(id: string): NotionBlock {
+    const hasChildren = (this.children.get(id) ?? []).some((childId) => !this.isTrashed(childId));
+    const page = this.pages.get(id);
+    const database = this.databases.get(id);
+
+    if (page || database) {
+      const record = (page ?? database) as PageRecord | DatabaseRecord;
+      const title = page
+        ? plainText(
+            (
+              Object.values(this.renderPage(page).properties).find((p) => p.type === 'title') as
+                | { title: NotionRichText }
+                | undefined
+            )?.title ?? [],
+          )
+        : plainText((database as DatabaseRecord).title);
+      const type = page ? 'child_page' : 'child_database';
+
+      return {
+        object: 'block',
+        id,
+        parent: record.parent,
+        type,
+        created_time: record.created_time,
+        created_by: record.created_by,
+        last_edited_time: record.last_edited_time,
+        last_edited_by: record.last_edited_by,
+        archived: record.in_trash,
+        in_trash: record.in_trash,
+        has_children: hasChildren,
+        [type]: { title },
+      };
+    }
+
+    return { ...(this.blocks.get(id) as NotionBlock), has_children: hasChildren };
+  }
+
+  // -------------------------------------------------------------------------
+  // Databases
+  // -------------------------------------------------------------------------
+
+  createDatabase(body: Record<string, unknown>): NotionDatabase {
+    const parentRequest = asRecord(body.parent, 'parent');
+    const parent: NotionParent =
+      parentRequest.workspace === true
+        ? { type: 'workspace', workspace: true }
+        : { type: 'page_id', page_id: this.getPage(parentRequest.page_id).id };
+
+    const initial = asRecord(body.initial_data_source ?? {}, 'initial_data_source');
+    const database: DatabaseRecord = {
+      id: newId(),
+      parent,
+      ...this.timestamps(),
+      title: normalizeRichText(body.title, 'title'),
+      description: normalizeRichText(body.description, 'description'),
+      icon: null,
+      cover: null,
+      is_inline: body.is_inline === true,
+      in_trash: false,
+      dataSourceIds: [],
+    };
+    this.setAppearance(database, body);
+
+    const dataSource = this.buildDataSource(database.id, {
+      properties: initial.properties ?? { Name: { title: {} } },
+      title: initial.title ?? body.title,
+    });
+
+    this.databases.set(database.id, database);
+    this.dataSources.set(dataSource.id, dataSource);
+    database.dataSourceIds.push(dataSource.id);
+    if (parent.type === 'page_id') {
+      this.insertChildren(parent.page_id, [database.id]);
+    }
+
+    return this.renderDatabase(database);
+  }
+
+  retrieveDatabase(id: string): NotionDatabase {
+    return this.renderDatabase(this.getDatabase(id));
+  }
+
+  updateDatabase(id: string, body: Record<string, unknown>): NotionDatabase {
+    const database = this.getDatabase(id);
+
+    if (body.title !== undefined) {
+      database.title = normalizeRichText(body.title, 'title');
+    }
+    if (body.description !== undefined) {
+      database.description = normalizeRichText(body.description, 'description');
+    }
+    this.setAppearance(database, body);
+    if (typeof body.is_inline === 'boolean') {
+      database.is_inline = body.is_inline;
+    }
+    const trash = (body.in_trash ?? body.archived) as boolean | undefined;
+    if (trash !== undefined) {
+      database.in_trash = trash;
+    }
+    if (body.parent !== undefined) {
+      this.moveDatabase(database, asRecord(body.parent, 'parent'));
+    }
+
+    this.touch(database);
+    return this.renderDatabase(database);
+  }
+
+  queryDatabase(id: string, body: Record<string, unknown>): NotionPage[] {
+    return this.queryDataSource(this.firstDataSource(this.getDatabase(id)).id, body);
+  }
+
+  private moveDatabase(database: DatabaseRecord, parent: Record<string, unknown>): void {
+    this.detach(database.id, database.parent);
+
+    if (parent.workspace === true) {
+      database.parent = { type: 'workspace', workspace: true };
+    } else {
+      const pageId = this.getPage(parent.page_id).id;
+      database.parent = { type: 'page_id', page_id: pageId };
+      this.insertChildren(pageId, [database.id]);
+    }
+  }
+
+  private getDatabase(id: unknown): DatabaseRecord {
+    const databaseId = normalizeId(id, 'database_id');
+    const database = this.databases.get(databaseId);
+    if (!database) {
+      throw notFound('database', databaseId);
+    }
+    return database;
+  }
+
+  private firstDataSource(database: DatabaseRecord): DataSourceRecord {
+    const id = database.dataSourceIds.find(
+      (candidate) => !this.dataSources.get(candidate)?.in_trash,
+    );
+    if (!id) {
+      throw invalid(`Database ${database.id} has no data sources.`);
+    }
+    return this.getDataSource(id);
+  }
+
+  private renderDatabase(database: DatabaseRecord): NotionDatabase {
+    return {
+      object: 'database',
+      id: database.id,
+      data_sources: database.dataSourceIds
+        .map((id) => this.getDataSource(id))
+        .filter((dataSource) => !dataSource.in_trash)
+        .map((dataSource) => ({ id: dataSource.id, name: plainText(dataSource.title) })),
+      created_time: database.created_time,
+      created_by: database.created_by,
+      last_edited_time: database.last_edited_time,
+      last_edited_by: database.last_edited_by,
+      title: database.title,
+      description: database.description,
+      icon: database.icon,
+      cover: database.cover,
+      parent: database.parent,
+      url: notionUrl(database.id),
+      archived: database.in_trash,
+      in_trash: database.in_trash,
+      is_inline: database.is_inline,
+      public_url: null,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Data sources
+  // -------------------------------------------------------------------------
+
+  createDataSource(body: Record<string, unknown>): NotionDataSource {
+    const parent = asRecord(body.parent, 'parent');
+    const database = this.getDatabase(parent.database_id);
+    const dataSource = this.buildDataSource(database.id, body);
+    this.setAppearance(dataSource, body);
+
+    this.dataSources.set(dataSource.id, dataSource);
+    database.dataSourceIds.push(dataSource.id);
+    return this.renderDataSource(dataSource);
+  }
+
+  retrieveDataSource(id: string): NotionDataSource {
+    return this.renderDataSource(this.getDataSource(id));
+  }
+
+  updateDataSource(id: string, body: Record<string, unknown>): NotionDataSource {
+    const dataSource = this.getDataSource(id);
+
+    if (body.title !== undefined) {
+      dataSource.title = normalizeRichText(body.title, 'title');
+    }
+    if (body.description !== undefined) {
+      dataSource.description = normalizeRichText(body.description, 'description');
+    }
+    this.setAppearance(dataSource, body);
+    if (body.properties !== undefined) {
+      dataSource.properties = this.updateSchema(dataSource.properties, body.properties);
+    }
+    const trash = (body.in_trash ?? body.archived) as boolean | undefined;
+    if (trash !== undefined) {
+      dataSource.in_trash = trash;
+    }
+    if (body.parent !== undefined) {
+      const database = this.getDatabase(asRecord(body.parent, 'parent').database_id);
+      const previous = this.getDatabase(dataSource.databaseId);
+      previous.dataSourceIds = previous.dataSourceIds.filter((candidate) => candidate !== id);
+      database.dataSourceIds.push(dataSource.id);
+      dataSource.databaseId = database.id;
+    }
+
+    this.touch(dataSource);
+    return this.renderDataSource(dataSource);
+  }
+
+  queryDataSource(id: string, body: Record<string, unknown>): NotionPage[] {
+    const dataSource = this.getDataSource(id);
+    const inTrash = body.in_trash === true || body.archived === true;
+    const filterProperties = body.filter_properties as string[] | undefined;
+    const now = this.options.now();
+
+    let pages = [...this.pages.values()]
+      .filter(
+        (page) =>
+          page.parent.type === 'data_source_id' &&
+          page.parent.data_source_id === dataSource.id &&
+          page.in_trash === inTrash,
+      )
+      .map((page) => this.renderPage(page, undefined, true));
+
+    if (body.filter !== undefined) {
+      pages = pages.filter((page) => matchesFilter(page, body.filter, now));
+    }
+    if (body.sorts !== undefined) {
+      pages.sort(compareBySorts(body.sorts, dataSource.properties));
+    }
+    return pages.map((page) => this.retrievePage(page.id, filterProperties));
+  }
+
+  private buildDataSource(databaseId: string, body: Record<string, unknown>): DataSourceRecord {
+    return {
+      id: newId(),
+      databaseId,
+      ...this.timestamps(),
+      properties: this.updateSchema({}, body.properties ?? {}),
+      title: normalizeRichText(body.title, 'title'),
+      description: normalizeRichText(body.description, 'description'),
+      icon: null,
+      in_trash: false,
+      nextUniqueId: 1,
+    };
+  }
+
+  /**
+   * Applies a schema update: adds, changes, renames (`name`) and removes (`null`) properties.
+   */
+  private updateSchema(current: NotionPropertiesObject, input: unknown): NotionPropertiesObject {
+    const schema = { ...current };
+
+    for (const [key, config] of Object.entries(asRecord(input, 'properties'))) {
+      const name =
+        key in schema
+          ? key
+          : Object.keys(schema).find((candidate) => schema[candidate]?.id === key);
+      const existing = name !== undefined ? schema[name] : undefined;
+
+      if (name !== undefined) {
+        delete schema[name];
+      }
+      if (config === null) {
+        continue;
+      }
+
+      const newName =
+        (asRecord(config, `properties.${key}`).name as string | undefined) ?? name ?? key;
+      const property = buildPropertyObject(newName, config, existing);
+      if (property.type === 'relation') {
+        this.getDataSource(property.relation.data_source_id);
+      }
+      schema[newName] = property;
+    }
+
+    const titles = Object.values(schema).filter((property) => property.type === 'title');
+    if (titles.length !== 1) {
+      throw invalid('A data source must have exactly one title property.');
+    }
+    return schema;
+  }
+
+  private getDataSource(id: unknown): DataSourceRecord {
+    const dataSourceId = normalizeId(id, 'data_source_id');
+    const dataSource = this.dataSources.get(dataSourceId);
+    if (!dataSource) {
+      throw notFound('data source', dataSourceId);
+    }
+    return dataSource;
+  }
+
+  private renderDataSource(dataSource: DataSourceRecord): NotionDataSource {
+    const database = this.getDatabase(dataSource.databaseId);
+
+    return {
+      object: 'data_source',
+      id: dataSource.id,
+      properties: dataSource.properties,
+      parent: { type: 'database_id', database_id: database.id },
+      database_parent: database.parent,
+      created_time: dataSource.created_time,
+      created_by: dataSource.created_by,
+      last_edited_time: dataSource.last_edited_time,
+      last_edited_by: dataSource.last_edited_by,
+      title: dataSource.title,
+      description: dataSource.description,
+      icon: dataSource.icon,
+      cover: null,
+      url: notionUrl(dataSource.id),
+      public_url: null,
+      is_inline: database.is_inline,
+      archived: dataSource.in_trash,
+      in_trash: dataSource.in_trash,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  createComment(body: Record<string, unknown>): NotionComment {
+    const { parent, discussionId } = this.resolveCommentParent(body);
+    const timestamps = this.timestamps();
+
+    const comment = parseWith(
+      commentSchema,
+      {
+        object: 'comment',
+        id: newId(),
+        parent,
+        discussion_id: discussionId,
+        created_time: timestamps.created_time,
+        created_by: timestamps.created_by,
+        last_edited_time: timestamps.last_edited_time,
+        rich_text: normalizeRichText(body.rich_text, 'rich_text'),
+        attachments: asArray(body.attachments ?? [], 'attachments').map((attachment) =>
+          this.toAttachment(attachment),
+        ),
+        display_name: this.toDisplayName(body.display_name),
+      },
+      'comment',
+    );
+
+    this.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  listComments(blockId: string): NotionComment[] {
+    const id = normalizeId(blockId, 'block_id');
+    return [...this.comments.values()].filter(
+      (comment) =>
+        (comment.parent.type === 'page_id' && comment.parent.page_id === id) ||
+        (comment.parent.type === 'block_id' && comment.parent.block_id === id),
+    );
+  }
+
+  private resolveCommentParent(body: Record<string, unknown>): {
+    parent: NotionParent;
+    discussionId: string;
+  } {
+    if (body.discussion_id !== undefined) {
+      const discussionId = normalizeId(body.discussion_id, 'discussion_id');
+      const thread = [...this.comments.values()].find((c) => c.discussion_id === discussionId);
+      if (!thread) {
+        throw notFound('discussion', discussionId);
+      }
+      return { parent: thread.parent, discussionId };
+    }
+
+    const parent = asRecord(body.parent, 'parent');
+    if (parent.page_id !== undefined) {
+      return {
+        parent: { type: 'page_id', page_id: this.getPage(parent.page_id).id },
+        discussionId: newId(),
+      };
+    }
+    return {
+      parent: { type: 'block_id', block_id: this.getBlock(parent.block_id).id },
+      discussionId: newId(),
+    };
+  }
+
+  private toAttachment(input: unknown): unknown {
+    const upload = this.getFileUpload(asRecord(input, 'attachments[]').file_upload_id);
+    if (upload.status !== 'uploaded') {
+      throw invalid(`File upload ${upload.id} has not been uploaded.`);
+    }
+
+    const mime = upload.content_type ?? '';
+    const category =
+      ['image', 'video', 'audio'].find((prefix) => mime.startsWith(`${prefix}/`)) ??
+      (mime === 'application/pdf' ? 'pdf' : 'file');
+    const expiry = new Date(this.options.now().getTime() + UPLOAD_EXPIRY_MS).toISOString();
+
+    return {
+      category,
+      file: { url: `https://files.notion.so/${upload.id}/${upload.filename}`, expiry_time: expiry },
+    };
+  }
+
+  private toDisplayName(input: unknown): unknown {
+    if (input === undefined) {
+      return undefined;
+    }
+
+    const displayName = asRecord(input, 'display_name');
+    if (displayName.type === 'custom') {
+      const custom = asRecord(displayName.custom, 'display_name.custom');
+      return { type: 'custom', resolved_name: stringOr(custom.name) };
+    }
+    return { type: 'user', resolved_name: this.options.bot.name ?? '' };
+  }
+
+  // -------------------------------------------------------------------------
+  // Search
+  // -------------------------------------------------------------------------
+
+  search(body: Record<string, unknown>): (NotionPage | NotionDataSource)[] {
+    const query = typeof body.query === 'string' ? body.query.toLowerCase() : '';
+    const filter = body.filter as { value?: string } | undefined;
+    const sort = body.sort as { direction?: string } | undefined;
+
+    const pages =
+      filter?.value === 'data_source'
+        ? []
+        : [...this.pages.values()].filter((p) => !p.in_trash).map((p) => this.renderPage(p));
+    const dataSources =
+      filter?.value === 'page'
+        ? []
+        : [...this.dataSources.values()]
+            .filter((d) => !d.in_trash)
+            .map((d) => this.renderDataSource(d));
+
+    const results = [...pages, ...dataSources].filter((result) =>
+      this.titleOf(result).toLowerCase().includes(query),
+    );
+
+    if (sort) {
+      const direction = sort.direction === 'ascending' ? 1 : -1;
+      results.sort((a, b) => a.last_edited_time.localeCompare(b.last_edited_time) * direction);
+    }
+    return results;
+  }
+
+  private titleOf(result: NotionPage | NotionDataSource): string {
+    if (result.object === 'data_source') {
+      return plainText(result.title);
+    }
+    const title = Object.values(result.properties).find((property) => property.type === 'title');
+    return title?.type === 'title' ? plainText(title.title) : '';
+  }
+
+  // -------------------------------------------------------------------------
+  // File uploads
+  // -------------------------------------------------------------------------
+
+  createFileUpload(body: Record<string, unknown>): NotionFileUpload {
+    const mode = (body.mode ?? 'single_part') as NonNullable<NotionFileUpload['mode']>;
+    const id = newId();
+    const now = this.options.now();
+
+    if (mode === 'multi_part' && typeof body.number_of_parts !== 'number') {
+      throw invalid('number_of_parts is required for multi_part uploads.');
+    }
+    if (mode === 'external_url' && typeof body.external_url !== 'string') {
+      throw invalid('external_url is required for external_url uploads.');
+    }
+
+    const upload: NotionFileUpload = {
+      object: 'file_upload',
+      id,
+      created_time: now.toISOString(),
+      expiry_time: new Date(now.getTime() + UPLOAD_EXPIRY_MS).toISOString(),
+      status: mode === 'external_url' ? 'uploaded' : 'pending',
+      filename: stringOr(body.filename),
+      content_type: (body.content_type as string | undefined) ?? null,
+      content_length: (body.content_length as number | undefined) ?? null,
+      upload_url: `${API_URL}/file_uploads/${id}/send`,
+      complete_url: `${API_URL}/file_uploads/${id}/complete`,
+      file_import_result:
+        mode === 'external_url'
+          ? { imported_time: now.toISOString(), type: 'success', success: {} }
+          : '',
+      mode,
+      external_url: (body.external_url as string | undefined) ?? null,
+      ...(mode === 'multi_part'
+        ? { number_of_parts: { total: body.number_of_parts as number, sent: 0 } }
+        : {}),
+    };
+
+    this.fileUploads.set(id, upload);
+    return upload;
+  }
+
+  retrieveFileUpload(id: string): NotionFileUpload {
+    return this.getFileUpload(id);
+  }
+
+  listFileUploads(status?: string): NotionFileUpload[] {
+    return [...this.fileUploads.values()].filter((upload) => !status || upload.status === status);
+  }
+
+  /**
+   * Receives file contents sent to an upload URL (single part, or one part of a
+   * multi-part upload). Parts of a multi-part upload must carry their 1-based
+   * `part_number`; resending a part replaces it.
+   */
+  sendFileUpload(id: string, size: number, partNumber?: number): NotionFileUpload {
+    const upload = this.getFileUpload(id);
+    if (upload.status !== 'pending') {
+      throw invalid(`File upload ${upload.id} is ${upload.status}, not pending.`);
+    }
+
+    if (upload.mode === 'multi_part' && upload.number_of_parts) {
+      const { total } = upload.number_of_parts;
+      if (
+        partNumber === undefined ||
+        !Number.isInteger(partNumber) ||
+        partNumber < 1 ||
+        partNumber > total
+      ) {
+        throw invalid(`part_number must be an integer between 1 and ${total}.`);
+      }
+      const parts = this.uploadedParts.get(upload.id) ?? new Set<number>();
+      this.uploadedParts.set(upload.id, parts.add(partNumber));
+      upload.number_of_parts.sent = parts.size;
+      upload.content_length = (upload.content_length ?? 0) + (upload.content_length ? 0 : size);
+    } else {
+      upload.status = 'uploaded';
+      upload.content_length ??= size;
+      upload.expiry_time = null;
+    }
+    return upload;
+  }
+
+  completeFileUpload(id: string): NotionFileUpload {
+    const upload = this.getFileUpload(id);
+    const parts = upload.number_of_parts;
+
+    // Single-part uploads are complete once their contents have been sent
+    if (upload.mode !== 'multi_part' || !parts) {
+      if (upload.status !== 'uploaded') {
+        throw invalid(`File upload ${upload.id} has not been sent.`);
+      }
+      return upload;
+    }
+    if (parts.sent !== parts.total) {
+      throw invalid(`Expected ${parts.total} parts but received ${parts.sent}.`);
+    }
+
+    upload.status = 'uploaded';
+    upload.expiry_time = null;
+    return upload;
+  }
+
+  private getFileUpload(id: unknown): NotionFileUpload {
+    const uploadId = normalizeId(id, 'file_upload_id');
+    const upload = this.fileUploads.get(uploadId);
+    if (!upload) {
+      throw notFound('file upload', uploadId);
+    }
+    return upload;
+  }
+
+  // -------------------------------------------------------------------------
+  // Shared
+  // -------------------------------------------------------------------------
+
+  private timestamps(): Timestamps {
+    const now = this.options.now().toISOString();
+    const bot: PartialUser = { object: 'user', id: this.options.bot.id };
+    return { created_time: now, last_edited_time: now, created_by: bot, last_edited_by: bot };
+  }
+
+  private touch(record: { last_edited_time: string; last_edited_by: unknown }): void {
+    record.last_edited_time = this.options.now().toISOString();
+    record.last_edited_by = { object: 'user', id: this.options.bot.id };
+  }
+}
@@ -0,0 +1,410 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import type { NotionErrorCode } from '../errors';
+import {
+  blockSchema,
+  emojiSchema,
+  fileSchema,
+  type NotionBlock,
+  type NotionPropertyObject,
+  type NotionRichText,
+  propertyObjectSchema,
+  richTextSchema,
+} from '../schemas';
+
+/**
+ * Error response the fake backend answers a request with.
+ */
+export class FakeError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: NotionErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'FakeError';
+  }
+}
+
+export function invalid(message: string): FakeError {
+  return new FakeError(400, 'validation_error', message);
+}
+
+export function notFound(kind: string, id: string): FakeError {
+  return new FakeError(
+    404,
+    'object_not_found',
+    `Could not find ${kind} with ID: ${id}. Make sure the relevant pages and databases are shared with your integration.`,
+  );
+}
+
+/**
+ * Formats an ID given with or without dashes as a dashed lowercase UUID.
+ */
+export function normalizeId(id: unknown, field = 'id'): string {
+  const hex = typeof id === 'string' ? id.replace(/-/g, '').toLowerCase() : '';
+  if (!/^[0-9a-f]{32}$/.test(hex)) {
+    throw invalid(`${field} should be a valid uuid, instead was \`${JSON.stringify(id)}\`.`);
+  }
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function newId(): string {
+  return randomUUID();
+}
+
+/** Short property ID, like the ones Notion generates. */
+export function newPropertyId(): string {
+  return encodeURIComponent(randomUUID().slice(0, 4));
+}
+
+export function asRecord(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(`${field} should be an object.`);
+  }
+  return value as Record<string, unknown>;
+}
+
+export function stringOr(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+export function asArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw invalid(`${field} should be an array.`);
+  }
+  return value;
+}
+
+/**
+ * Parses a value with a schema, turning the first issue into a validation error.
+ */
+export function parseWith<T>(schema: z.ZodType<T>, value: unknown, field: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = [field, ...(issue?.path ?? [])].join('.');
+    throw invalid(`${path} is invalid: ${issue?.message ?? 'unknown error'}`);
+  }
+  return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// Rich text
+// ---------------------------------------------------------------------------
+
+const DEFAULT_ANNOTATIONS = {
+  bold: false,
+  italic: false,
+  strikethrough: false,
+  underline: false,
+  code: false,
+  color: 'default',
+};
+
+function mentionPlainText(mention: Record<string, unknown>): string {
+  switch (mention.type) {
+    case 'user':
+      return '@Anonymous';
+    case 'date':
+      return stringOr((mention.date as { start?: unknown }).start);
+    case 'link_preview':
+      return stringOr((mention.link_preview as { url?: unknown }).url);
+    default:
+      return 'Untitled';
+  }
+}
+
+function normalizeMention(input: unknown): Record<string, unknown> {
+  const mention = { ...asRecord(input, 'mention') };
+  mention.type ??= Object.keys(mention)[0];
+
+  if (mention.type === 'user') {
+    mention.user = { object: 'user', ...asRecord(mention.user, 'mention.user') };
+  }
+  if (mention.type === 'date') {
+    mention.date = { end: null, ...asRecord(mention.date, 'mention.date') };
+  }
+  return mention;
+}
+
+function normalizeRichTextItem(input: unknown): unknown {
+  const item = asRecord(input, 'rich_text[]');
+  const annotations = { ...DEFAULT_ANNOTATIONS, ...(item.annotations as object | undefined) };
+  const type = item.type ?? (item.mention ? 'mention' : item.equation ? 'equation' : 'text');
+
+  if (type === 'mention') {
+    const mention = normalizeMention(item.mention);
+    return {
+      type,
+      mention,
+      annotations,
+      plain_text: item.plain_text ?? mentionPlainText(mention),
+      href: item.href ?? null,
+    };
+  }
+
+  if (type === 'equation') {
+    const { expression } = asRecord(item.equation, 'equation') as { expression?: string };
+    return { type, equation: { expression }, annotations, plain_text: expression, href: null };
+  }
+
+  const text = asRecord(item.text ?? {}, 'text') as {
+    content?: string;
+    link?: { url: string } | null;
+  };
+  const link = text.link ?? null;
+  return {
+    type,
+    text: { content: text.content, link },
+    annotations,
+    plain_text: text.content,
+    href: link?.url ?? null,
+  };
+}
+
+/**
+ * Fills in the annotations, plain text and href Notion adds to rich text in responses.
+ */
+export function normalizeRichText(input: unknown, field: string): NotionRichText {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  return parseWith(richTextSchema, asArray(input, field).map(normalizeRichTextItem), field);
+}
+
+export function plainText(richText: NotionRichText): string {
+  return richText.map((item) => item.plain_text).join('');
+}
+
+const iconSchema = z.union([fileSchema, emojiSchema]).nullable();
+
+/**
+ * Normalizes an icon or cover, accepting objects without their `type`.
+ */
+export function normalizeFile(input: unknown, field: string, allowEmoji = true): unknown {
+  if (input === null) {
+    return null;
+  }
+
+  const file = { ...asRecord(input, field) };
+  file.type ??= Object.keys(file)[0];
+  return parseWith(allowEmoji ? iconSchema : fileSchema.nullable(), file, field);
+}
+
+// ---------------------------------------------------------------------------
+// Property objects (data source schema)
+// ---------------------------------------------------------------------------
+
+export const PROPERTY_TYPES = new Set<string>(
+  propertyObjectSchema.options.map((option) => option.shape.type.value),
+);
+
+type SelectOption = { id: string; name: string; color: string };
+
+function normalizeOptions(input: unknown, existing: SelectOption[] = []): SelectOption[] {
+  if (input === undefined) {
+    return existing;
+  }
+
+  return asArray(input, 'options').map((value) => {
+    const option = asRecord(value, 'options[]') as Partial<SelectOption>;
+    const current = existing.find((o) => o.id === option.id || o.name === option.name);
+    return {
+      id: option.id ?? current?.id ?? newId(),
+      name: option.name ?? current?.name ?? '',
+      color: option.color ?? current?.color ?? 'default',
+    };
+  });
+}
+
+const DEFAULT_STATUS_OPTIONS = ['Not started', 'In progress', 'Done'];
+
+function normalizeStatus(
+  config: Record<string, unknown>,
+  existing?: { options: SelectOption[]; groups: unknown[] },
+): unknown {
+  if (config.options === undefined && existing) {
+    return existing;
+  }
+
+  const options =
+    config.options === undefined
+      ? DEFAULT_STATUS_OPTIONS.map((name) => ({ id: newId(), name, color: 'default' }))
+      : normalizeOptions(config.options, existing?.options);
+
+  const groups = config.groups ?? [
+    { id: newId(), name: 'To-do', color: 'gray', option_ids: options.slice(0, 1).map((o) => o.id) },
+    {
+      id: newId(),
+      name: 'In progress',
+      color: 'blue',
+      option_ids: options.slice(1, -1).map((o) => o.id),
+    },
+    {
+      id: newId(),
+      name: 'Complete',
+      color: 'green',
+      option_ids: options.slice(-1).map((o) => o.id),
+    },
+  ];
+
+  return { options, groups };
+}
+
+// eslint-disable-next-line complexity
+function normalizePropertyConfig(
+  type: string,
+  config: Record<string, unknown>,
+  existing?: Record<string, unknown>,
+): unknown {
+  switch (type) {
+    case 'select':
+    case 'multi_select':
+      return {
+        options: normalizeOptions(config.options, existing?.options as SelectOption[] | undefined),
+      };
+    case 'status':
+      return normalizeStatus(config, existing as { options: SelectOption[]; groups: unknown[] });
+    case 'number':
+      return { format: config.format ?? existing?.format ?? 'number' };
+    case 'formula':
+      return { expression: config.expression ?? existing?.expression ?? '' };
+    case 'relation':
+      return {
+        synced_property_id: '',
+        synced_property_name: '',
+        ...existing,
+        ...config,
+        data_source_id: normalizeId(
+          config.data_source_id ?? existing?.data_source_id,
+          'relation.data_source_id',
+        ),
+      };
+    case 'rollup':
+      return { rollup_property_id: '', relation_property_id: '', ...existing, ...config };
+    case 'unique_id':
+      return typeof config.prefix === 'string' ? { prefix: config.prefix } : {};
+    default:
+      return {};
+  }
+}
+
+/**
+ * Builds a data source property object from a create or update request.
+ */
+// eslint-disable-next-line complexity
+export function buildPropertyObject(
+  name: string,
+  input: unknown,
+  existing?: NotionPropertyObject,
+): NotionPropertyObject {
+  const request = asRecord(input, `properties.${name}`);
+  const type =
+    (request.type as string | undefined) ??
+    Object.keys(request).find((key) => PROPERTY_TYPES.has(key)) ??
+    existing?.type;
+
+  if (!type || !PROPERTY_TYPES.has(type)) {
+    throw invalid(`properties.${name} should define a property type.`);
+  }
+
+  const sameType = existing?.type === type ? existing : undefined;
+  const config = (request[type] ?? {}) as Record<string, unknown>;
+  const current = sameType
+    ? ((sameType as Record<string, unknown>)[type] as Record<string, unknown>)
+    : undefined;
+  const description = (request.description as string | undefined) ?? existing?.description;
+
+  return parseWith(
+    propertyObjectSchema,
+    {
+      id: existing?.id ?? (type === 'title' ? 'title' : newPropertyId()),
+      name,
+      type,
+      ...(description !== undefined ? { description } : {}),
+      [type]: normalizePropertyConfig(type, config, current),
+    },
+    `properties.${name}`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+export const BLOCK_TYPES = new Set<string>(blockSchema.shape.type.options);
+
+/** Block types with a `color` that defaults to "default". */
+const COLORED_TYPES = new Set([
+  'paragraph',
+  'heading_1',
+  'heading_2',
+  'heading_3',
+  'bulleted_list_item',
+  'numbered_list_item',
+  'to_do',
+  'toggle',
+  'quote',
+  'callout',
+  'table_of_contents',
+]);
+
+/** Block types whose `rich_text` defaults to empty. */
+const TEXT_TYPES = new Set(
+  [...COLORED_TYPES, 'code', 'template'].filter((t) => t !== 'table_of_contents'),
+);
+
+const CONTENT_DEFAULTS: Record<string, Record<string, unknown>> = {
+  heading_1: { is_toggleable: false },
+  heading_2: { is_toggleable: false },
+  heading_3: { is_toggleable: false },
+  to_do: { checked: false },
+  code: { caption: [], language: 'plain text' },
+  bookmark: { caption: [] },
+  callout: { icon: { type: 'emoji', emoji: '💡' } },
+  synced_block: { synced_from: null },
+  table: { has_column_header: false, has_row_header: false },
+};
+
+/**
+ * Returns the type of a block request, from its `type` or its content key.
+ */
+export function blockType(request: Record<string, unknown>): NotionBlock['type'] {
+  const type =
+    (request.type as string | undefined) ??
+    Object.keys(request).find((key) => BLOCK_TYPES.has(key));
+
+  if (!type || !BLOCK_TYPES.has(type)) {
+    throw invalid('Block should define a block type.');
+  }
+  if (type === 'child_page' || type === 'child_database' || type === 'unsupported') {
+    throw invalid(`Blocks of type ${type} cannot be created by appending children.`);
+  }
+  return type as NotionBlock['type'];
+}
+
+/**
+ * Fills in the defaults Notion applies to block content and normalizes its rich text.
+ * Nested `children` are left out; they are stored as separate blocks.
+ */
+export function normalizeBlockContent(type: string, input: unknown): Record<string, unknown> {
+  const { children: _children, ...content } = asRecord(input ?? {}, type);
+  const result: Record<string, unknown> = { ...CONTENT_DEFAULTS[type], ...content };
+
+  if (COLORED_TYPES.has(type)) {
+    result.color ??= 'default';
+  }
+  if (TEXT_TYPES.has(type)) {
+    result.rich_text = normalizeRichText(result.rich_text, `${type}.rich_text`);
+  }
+  if (result.caption !== undefined) {
+    result.caption = normalizeRichText(result.caption, `${type}.caption`);
+  }
+  if (type === 'table_row') {
+    result.cells = asArray(result.cells ?? [], 'table_row.cells').map((cell) =>
+      normalizeRichText(cell, 'table_row.cells[]'),
+    );
+  }
+  return result;
+}
@@ -50,7 +50,7 @@ interface TextBlockOptions {
 // ---------------------------------------------------------------------------
 
 /** The minimal block object accepted by the Notion API for creation. */
-interface BlockObject {
+export interface BlockObject {
   object: 'block';
   type: string;
   [key: string]: unknown;
@@ -241,7 +241,11 @@ interface CodeOptions {
   caption?: RichTextInput;
 }
 
-function code(content: string, language: CodeBlockLanguage, options?: CodeOptions): BlockObject {
+function code(
+  content: RichTextInput,
+  language: CodeBlockLanguage,
+  options?: CodeOptions,
+): BlockObject {
   return {
     object: 'block',
     type: 'code',
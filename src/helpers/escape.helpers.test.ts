@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHTML, escapeLinkText, htmlUrl, markdownUrl, safeUrl } from './escape.helpers';
+
+describe('escape helpers', () => {
+  describe('escapeHTML', () => {
+    it('should escape markup and quote characters', () => {
+      expect(escapeHTML(`<a href="x">Tom & Jerry's</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#039;s&lt;/a&gt;',
+      );
+    });
+  });
+
+  describe('escapeLinkText', () => {
+    it('should backslash-escape brackets, parentheses and backslashes', () => {
+      expect(escapeLinkText('a](b) \\')).toBe('a\\]\\(b\\) \\\\');
+    });
+  });
+
+  describe('safeUrl', () => {
+    it('should allow http, https, mailto and relative URLs', () => {
+      expect(safeUrl('https://example.com')).toBe('https://example.com');
+      expect(safeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+      expect(safeUrl('/pages/abc')).toBe('/pages/abc');
+    });
+
+    it.each(['javascript:alert(1)', ' JavaScript:alert(1)', 'java\tscript:alert(1)', 'data:x'])(
+      'should reject unsafe schemes (%j)',
+      (url) => {
+        expect(safeUrl(url)).toBeNull();
+      },
+    );
+
+    it('should reject empty URLs', () => {
+      expect(safeUrl(undefined)).toBeNull();
+      expect(safeUrl(' \n')).toBeNull();
+    });
+  });
+
+  describe('markdownUrl', () => {
+    it('should percent-encode characters that end a link destination', () => {
+      expect(markdownUrl('https://example.com/a (1)<2>.png')).toBe(
+        'https://example.com/a%20%281%29%3C2%3E.png',
+      );
+      expect(markdownUrl('javascript:alert(1)')).toBeNull();
+    });
+  });
+
+  describe('htmlUrl', () => {
+    it('should escape the URL for an attribute', () => {
+      expect(htmlUrl('https://example.com/?a=1&b="2"')).toBe(
+        'https://example.com/?a=1&amp;b=&quot;2&quot;',
+      );
+      expect(htmlUrl('javascript:alert(1)')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/** URL schemes that the Markdown and HTML renderers may emit in links and media. */
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/** Escape text for HTML element content and quoted attribute values. */
+export function escapeHTML(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#039;');
+}
+
+/** Backslash-escape characters that would end or nest the text of a Markdown link. */
+export function escapeLinkText(text: string): string {
+  return text.replace(/[\\[\]()]/g, '\\$&');
+}
+
+/**
+ * Strip what browsers ignore when parsing a URL: leading and trailing C0
+ * controls and spaces, and tabs and newlines anywhere (`java\tscript:`).
+ */
+function normalizeUrl(url: string): string {
+  return url.replace(/[\t\n\r]/g, '').replace(/^[\u0000-\u0020]+|[\u0000-\u0020]+$/g, '');
+}
+
+/** Returns the normalized URL, or null when it is empty or uses a scheme such as `javascript:`. */
+export function safeUrl(url: string | null | undefined): string | null {
+  const normalized = url ? normalizeUrl(url) : '';
+  if (!normalized) {
+    return null;
+  }
+  const scheme = /^([a-z][a-z0-9+.-]*:)/i.exec(normalized)?.[1].toLowerCase();
+  return scheme && !SAFE_URL_SCHEMES.includes(scheme) ? null : normalized;
+}
+
+/**
+ * Returns the URL as a Markdown link destination, with characters that would
+ * end it early percent-encoded, or null when `safeUrl` rejects it.
+ */
+export function markdownUrl(url: string | null | undefined): string | null {
+  const safe = safeUrl(url);
+  return (
+    safe && safe.replace(/[ ()<>]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  );
+}
+
+/** Returns the URL escaped for an HTML attribute, or null when `safeUrl` rejects it. */
+export function htmlUrl(url: string | null | undefined): string | null {
+  const safe = safeUrl(url);
+  return safe && escapeHTML(safe);
+}
@@ -0,0 +1,290 @@
+import { describe, expect, it, vi } from 'vitest';
+import { blocksToHTML, pageToHTML } from './html.helpers';
+import { block as blockHelper } from './block.helpers';
+import { richText } from './richText.helpers';
+import type { BlocksAPI } from '../api';
+import { Block } from '../models';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let idCounter = 0;
+
+/** Turn a block helper object into a full API block response wrapped in a Block model. */
+function makeBlock(
+  request: Record<string, unknown>,
+  children: Block[] = [],
+  overrides: Record<string, unknown> = {},
+): Block {
+  idCounter++;
+  const id = `123e4567-e89b-12d3-a456-${String(idCounter).padStart(12, '0')}`;
+  const type = request.type as string;
+  const content = { ...(request[type] as Record<string, unknown>) };
+  delete content.children;
+
+  return new Block(
+    {
+      object: 'block',
+      id,
+      parent: { type: 'page_id', page_id: '223e4567-e89b-12d3-a456-426614174000' },
+      type,
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      archived: false,
+      in_trash: false,
+      has_children: children.length > 0,
+      [type]: content,
+      ...overrides,
+    },
+    children,
+  );
+}
+
+describe('html helpers', () => {
+  // -----------------------------------------------------------------------
+  // Text blocks
+  // -----------------------------------------------------------------------
+
+  describe('text blocks', () => {
+    it('should render paragraphs and headings', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.heading1('Title')),
+        makeBlock(blockHelper.heading3('Sub')),
+        makeBlock(blockHelper.paragraph(richText.join(richText('Hi '), richText('you').bold()))),
+      ]);
+
+      expect(result).toBe('<h1>Title</h1>\n<h3>Sub</h3>\n<p>Hi <strong>you</strong></p>');
+    });
+
+    it('should escape text content', () => {
+      const result = blocksToHTML([makeBlock(blockHelper.paragraph('<script>&"\'</script>'))]);
+
+      expect(result).toBe('<p>&lt;script&gt;&amp;&quot;&#039;&lt;/script&gt;</p>');
+    });
+
+    it('should render toggles and toggleable headings as details elements', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.toggle('Summary'), [makeBlock(blockHelper.paragraph('Hidden'))]),
+        makeBlock(blockHelper.heading2('Section', { isToggleable: true }), [
+          makeBlock(blockHelper.paragraph('Body')),
+        ]),
+      ]);
+
+      expect(result).toBe(
+        '<details>\n<summary>Summary</summary>\n<p>Hidden</p>\n</details>\n' +
+          '<details>\n<summary><h2>Section</h2></summary>\n<p>Body</p>\n</details>',
+      );
+    });
+
+    it('should render quotes and callouts with their children', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.quote('Quoted'), [makeBlock(blockHelper.paragraph('Nested'))]),
+        makeBlock(blockHelper.callout('Note', { icon: { type: 'emoji', emoji: '⚠️' } })),
+      ]);
+
+      expect(result).toBe(
+        '<blockquote>\n<p>Quoted</p>\n<p>Nested</p>\n</blockquote>\n' +
+          '<aside class="callout">\n<p><span class="callout-icon">⚠️</span> Note</p>\n</aside>',
+      );
+    });
+
+    it('should wrap nested paragraph children in an indented container', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.paragraph('Parent'), [makeBlock(blockHelper.paragraph('Child'))]),
+      ]);
+
+      expect(result).toBe('<p>Parent</p>\n<div class="indent">\n<p>Child</p>\n</div>');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Lists
+  // -----------------------------------------------------------------------
+
+  describe('lists', () => {
+    it('should group consecutive list items into list elements', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.bulletedListItem('A')),
+        makeBlock(blockHelper.bulletedListItem('B')),
+        makeBlock(blockHelper.numberedListItem('One', { listStartIndex: 3 })),
+        makeBlock(blockHelper.paragraph('After')),
+      ]);
+
+      expect(result).toBe(
+        '<ul>\n<li>A</li>\n<li>B</li>\n</ul>\n<ol start="3">\n<li>One</li>\n</ol>\n<p>After</p>',
+      );
+    });
+
+    it('should nest child lists inside their list item', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.bulletedListItem('Parent'), [
+          makeBlock(blockHelper.numberedListItem('Child')),
+        ]),
+      ]);
+
+      expect(result).toBe('<ul>\n<li>Parent\n<ol>\n<li>Child</li>\n</ol>\n</li>\n</ul>');
+    });
+
+    it('should render to-dos as disabled checkboxes', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.toDo('Done', { checked: true })),
+        makeBlock(blockHelper.toDo('Open')),
+      ]);
+
+      expect(result).toBe(
+        '<ul class="to-do-list">\n' +
+          '<li><input type="checkbox" disabled checked> Done</li>\n' +
+          '<li><input type="checkbox" disabled> Open</li>\n</ul>',
+      );
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Code, equations and tables
+  // -----------------------------------------------------------------------
+
+  describe('code and tables', () => {
+    it('should render code with a language class and escaped source', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.code('a < b && c', 'typescript')),
+        makeBlock(blockHelper.code('x', 'c++')),
+      ]);
+
+      expect(result).toBe(
+        '<pre><code class="language-typescript">a &lt; b &amp;&amp; c</code></pre>\n' +
+          '<pre><code class="language-cpp">x</code></pre>',
+      );
+    });
+
+    it('should render equations', () => {
+      const result = blocksToHTML([makeBlock(blockHelper.equation('a<b'))]);
+
+      expect(result).toBe('<div class="equation">a&lt;b</div>');
+    });
+
+    it('should render tables with header rows and columns', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.table(2, { hasColumnHeader: true, hasRowHeader: true }), [
+          makeBlock(blockHelper.tableRow(['Name', 'Value'])),
+          makeBlock(blockHelper.tableRow(['a', '1'])),
+        ]),
+      ]);
+
+      expect(result).toBe(
+        '<table>\n' +
+          '<thead>\n<tr><th scope="col">Name</th><th scope="col">Value</th></tr>\n</thead>\n' +
+          '<tbody>\n<tr><th scope="row">a</th><td>1</td></tr>\n</tbody>\n' +
+          '</table>',
+      );
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Media, links and child pages
+  // -----------------------------------------------------------------------
+
+  describe('media and links', () => {
+    it('should render images and videos as figures with captions', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.image('https://example.com/a.png', { caption: 'A "cat"' })),
+        makeBlock(blockHelper.video('https://example.com/v.mp4')),
+      ]);
+
+      expect(result).toBe(
+        '<figure><img src="https://example.com/a.png" alt="A &quot;cat&quot;">' +
+          '<figcaption>A &quot;cat&quot;</figcaption></figure>\n' +
+          '<figure><video src="https://example.com/v.mp4" controls></video></figure>',
+      );
+    });
+
+    it('should drop URLs with unsafe schemes', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.bookmark('javascript:alert(1)')),
+        makeBlock(blockHelper.image('data:text/html,<b>x</b>', { caption: 'Pic' })),
+      ]);
+
+      expect(result).toBe('<p>javascript:alert(1)</p>\n<p>Pic</p>');
+    });
+
+    it('should drop unsafe schemes hidden behind control characters and whitespace', () => {
+      for (const url of ['\x01javascript:alert(1)', 'java\tscript:alert(1)', 'java\nscript:x']) {
+        const result = blocksToHTML([makeBlock(blockHelper.image(url, { caption: 'Pic' }))]);
+
+        expect(result).toBe('<p>Pic</p>');
+      }
+    });
+
+    it('should strip ignored characters from safe URLs', () => {
+      const result = blocksToHTML([
+        makeBlock(blockHelper.image(' \x00https://exa\tmple.com/a.png')),
+      ]);
+
+      expect(result).toBe('<figure><img src="https://example.com/a.png" alt=""></figure>');
+    });
+
+    it('should link child pages with a configurable URL builder', () => {
+      const child = makeBlock({ type: 'child_page', child_page: { title: 'Sub & more' } });
+
+      expect(blocksToHTML([child], { pageUrl: (id) => `/pages/${id}` })).toBe(
+        `<p><a href="/pages/${child.id}">Sub &amp; more</a></p>`,
+      );
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Options
+  // -----------------------------------------------------------------------
+
+  describe('options', () => {
+    it('should omit unsupported blocks unless a handler is given', () => {
+      const blocks = [makeBlock(blockHelper.breadcrumb()), makeBlock(blockHelper.divider())];
+
+      expect(blocksToHTML(blocks)).toBe('<hr>');
+      expect(blocksToHTML(blocks, { unsupported: (b) => `<!-- ${b.type} -->` })).toBe(
+        '<!-- breadcrumb -->\n<hr>',
+      );
+    });
+
+    it('should let handlers override built-in rendering', () => {
+      const result = blocksToHTML([makeBlock(blockHelper.bulletedListItem('Item'))], {
+        handlers: {
+          bulleted_list_item: (b, context) =>
+            `<li class="item">${context.escape(b.type)}${context.renderChildren()}</li>`,
+        },
+      });
+
+      expect(result).toBe('<ul>\n<li class="item">bulleted_list_item</li>\n</ul>');
+    });
+
+    it('should stop rendering children beyond maxDepth', () => {
+      const tree = [
+        makeBlock(blockHelper.toggle('Level 0'), [makeBlock(blockHelper.paragraph('Level 1'))]),
+      ];
+
+      expect(blocksToHTML(tree, { maxDepth: 0 })).toBe(
+        '<details>\n<summary>Level 0</summary>\n</details>',
+      );
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // pageToHTML
+  // -----------------------------------------------------------------------
+
+  describe('pageToHTML', () => {
+    it('should fetch the block tree and render the page', async () => {
+      const tree = [
+        makeBlock(blockHelper.toggle('Parent'), [makeBlock(blockHelper.paragraph('Child'))]),
+      ];
+      const blocks = { tree: vi.fn().mockResolvedValue(tree) } as unknown as BlocksAPI;
+
+      const result = await pageToHTML(blocks, 'page-id');
+
+      expect(result).toBe('<details>\n<summary>Parent</summary>\n<p>Child</p>\n</details>');
+      expect(blocks.tree).toHaveBeenCalledWith('page-id', { maxDepth: undefined }, undefined);
+    });
+  });
+});
@@ -0,0 +1,426 @@
+import type { BlocksAPI } from '../api';
+import type { CallOptions } from '../client';
+import { type Block, RichText } from '../models';
+import type { CodeBlockLanguage, NotionBlock, NotionFile, NotionRichText } from '../schemas';
+import { escapeHTML, htmlUrl } from './escape.helpers';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Any block type supported by the Notion API. */
+type BlockType = NotionBlock['type'];
+
+/**
+ * Context passed to every HTML block handler.
+ */
+export interface HTMLRenderContext {
+  /** Nesting depth of the block (0 for top-level blocks) */
+  depth: number;
+
+  /** Renders the block's children to HTML with the same options */
+  renderChildren: () => string;
+
+  /** Builds the link target for a child page or child database */
+  pageUrl: (pageId: string) => string;
+
+  /** Escapes text for use in HTML content or attribute values */
+  escape: (text: string) => string;
+}
+
+/**
+ * Renders a single block to HTML. Return an empty string to omit the block.
+ *
+ * Handlers for list item types render a single `<li>` element; consecutive
+ * items are wrapped in the surrounding `<ul>` or `<ol>` by the renderer.
+ */
+export type HTMLBlockHandler = (block: Block, context: HTMLRenderContext) => string;
+
+/**
+ * Options for exporting blocks to HTML.
+ */
+export interface HTMLExportOptions {
+  /** Maximum nesting depth to render (default: unlimited; 0 renders top-level blocks only) */
+  maxDepth?: number;
+
+  /** Per-block-type handlers that replace the built-in rendering */
+  handlers?: Partial<Record<BlockType, HTMLBlockHandler>>;
+
+  /** Handler for blocks with no HTML equivalent (default: omit the block) */
+  unsupported?: HTMLBlockHandler;
+
+  /** Builds the link target for child pages and databases (default: notion.so URL) */
+  pageUrl?: (pageId: string) => string;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting utilities
+// ---------------------------------------------------------------------------
+
+/** List block types and the element their consecutive siblings are grouped into. */
+const LIST_ELEMENTS: Partial<Record<BlockType, 'ul' | 'ol'>> = {
+  bulleted_list_item: 'ul',
+  numbered_list_item: 'ol',
+  to_do: 'ul',
+};
+
+/** Notion code languages whose names are not usable as a `language-*` class. */
+const CODE_CLASSES: Partial<Record<CodeBlockLanguage, string>> = {
+  'plain text': 'plaintext',
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'f#': 'fsharp',
+  'objective-c': 'objectivec',
+  'vb.net': 'vbnet',
+  'visual basic': 'vb',
+  'java/c/c++/c#': 'java',
+};
+
+function defaultPageUrl(pageId: string): string {
+  return `https://www.notion.so/${pageId.replaceAll('-', '')}`;
+}
+
+function richTextToHTML(text: NotionRichText | undefined): string {
+  return text && text.length > 0 ? new RichText(text).toHTML().replaceAll('\n', '<br>') : '';
+}
+
+function plainText(text: NotionRichText | undefined): string {
+  return text ? text.map((segment) => segment.plain_text).join('') : '';
+}
+
+/** Append rendered children after a block's own markup, if there are any. */
+function withChildren(html: string, children: string): string {
+  return children ? `${html}\n${children}` : html;
+}
+
+/** Wrap children that Notion renders indented under a block. */
+function indented(children: string): string {
+  return children ? `<div class="indent">\n${children}\n</div>` : '';
+}
+
+/** Extract a URL from a Notion file object (uploaded files have none). */
+function fileUrl(file: NotionFile): string | null {
+  if (file.type === 'external') {
+    return file.external.url;
+  }
+  if (file.type === 'file') {
+    return file.file.url;
+  }
+  return null;
+}
+
+function link(url: string | null, label: string): string {
+  const href = htmlUrl(url);
+  return href ? `<a href="${href}">${label}</a>` : label;
+}
+
+function figure(content: string, caption: NotionRichText | undefined): string {
+  const figcaption =
+    caption && caption.length > 0 ? `<figcaption>${richTextToHTML(caption)}</figcaption>` : '';
+  return `<figure>${content}${figcaption}</figure>`;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in block handlers
+// ---------------------------------------------------------------------------
+
+function heading(level: 1 | 2 | 3): HTMLBlockHandler {
+  return (block, context) => {
+    const content = block.toJSON()[`heading_${level}`];
+    const html = `<h${level}>${richTextToHTML(content?.rich_text)}</h${level}>`;
+    const children = context.renderChildren();
+    if (content?.is_toggleable) {
+      return `<details>\n<summary>${html}</summary>\n${children ? `${children}\n` : ''}</details>`;
+    }
+    return withChildren(html, indented(children));
+  };
+}
+
+function listItem(type: 'bulleted_list_item' | 'numbered_list_item'): HTMLBlockHandler {
+  return (block, context) => {
+    const text = richTextToHTML(block.toJSON()[type]?.rich_text);
+    const children = context.renderChildren();
+    return `<li>${text}${children ? `\n${children}\n` : ''}</li>`;
+  };
+}
+
+function media(type: 'audio' | 'file' | 'image' | 'pdf' | 'video'): HTMLBlockHandler {
+  return (block) => {
+    const content = block.toJSON()[type];
+    if (!content) {
+      return '';
+    }
+
+    const url = fileUrl(content);
+    const src = htmlUrl(url);
+    const caption = plainText(content.caption);
+
+    if (type === 'image' && src) {
+      return figure(`<img src="${src}" alt="${escapeHTML(caption)}">`, content.caption);
+    }
+    if (type === 'video' && src) {
+      return figure(`<video src="${src}" controls></video>`, content.caption);
+    }
+    if (type === 'audio' && src) {
+      return figure(`<audio src="${src}" controls></audio>`, content.caption);
+    }
+
+    const label = escapeHTML(caption || content.name || url || '');
+    return label ? `<p>${link(url, label)}</p>` : '';
+  };
+}
+
+function bookmark(type: 'bookmark' | 'embed' | 'link_preview'): HTMLBlockHandler {
+  return (block) => {
+    const data = block.toJSON();
+    const content = data[type];
+    if (!content) {
+      return '';
+    }
+    const caption = type === 'bookmark' ? plainText(data.bookmark?.caption) : '';
+    return `<p>${link(content.url, escapeHTML(caption || content.url))}</p>`;
+  };
+}
+
+function childLink(type: 'child_page' | 'child_database'): HTMLBlockHandler {
+  return (block, context) => {
+    const title = escapeHTML(block.toJSON()[type]?.title ?? '');
+    return `<p>${link(context.pageUrl(block.id), title)}</p>`;
+  };
+}
+
+function code(block: Block): string {
+  const content = block.toJSON().code;
+  if (!content) {
+    return '';
+  }
+
+  const language = CODE_CLASSES[content.language] ?? content.language.replaceAll(' ', '-');
+  const source = escapeHTML(plainText(content.rich_text));
+  const pre = `<pre><code class="language-${escapeHTML(language)}">${source}</code></pre>`;
+
+  return content.caption && content.caption.length > 0 ? figure(pre, content.caption) : pre;
+}
+
+function table(block: Block): string {
+  const content = block.toJSON().table;
+  if (!content) {
+    return '';
+  }
+
+  const rows = block.children
+    .map((row) => row.toJSON().table_row?.cells)
+    .filter((cells): cells is NotionRichText[] => cells !== undefined);
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const renderRow = (cells: NotionRichText[], header: boolean): string => {
+    const rendered = Array.from({ length: content.table_width }, (_, index) => {
+      const cell = richTextToHTML(cells[index]);
+      if (header) {
+        return `<th scope="col">${cell}</th>`;
+      }
+      return index === 0 && content.has_row_header
+        ? `<th scope="row">${cell}</th>`
+        : `<td>${cell}</td>`;
+    });
+    return `<tr>${rendered.join('')}</tr>`;
+  };
+
+  const head = content.has_column_header ? rows.shift() : undefined;
+  const parts = ['<table>'];
+  if (head) {
+    parts.push(`<thead>\n${renderRow(head, true)}\n</thead>`);
+  }
+  if (rows.length > 0) {
+    parts.push(`<tbody>\n${rows.map((cells) => renderRow(cells, false)).join('\n')}\n</tbody>`);
+  }
+  parts.push('</table>');
+  return parts.join('\n');
+}
+
+const DEFAULT_HANDLERS: Partial<Record<BlockType, HTMLBlockHandler>> = {
+  paragraph: (block, context) =>
+    withChildren(
+      `<p>${richTextToHTML(block.toJSON().paragraph?.rich_text)}</p>`,
+      indented(context.renderChildren()),
+    ),
+  heading_1: heading(1),
+  heading_2: heading(2),
+  heading_3: heading(3),
+  bulleted_list_item: listItem('bulleted_list_item'),
+  numbered_list_item: listItem('numbered_list_item'),
+  to_do: (block, context) => {
+    const content = block.toJSON().to_do;
+    const checkbox = `<input type="checkbox" disabled${content?.checked ? ' checked' : ''}>`;
+    const children = context.renderChildren();
+    return `<li>${checkbox} ${richTextToHTML(content?.rich_text)}${children ? `\n${children}\n` : ''}</li>`;
+  },
+  toggle: (block, context) => {
+    const summary = richTextToHTML(block.toJSON().toggle?.rich_text);
+    const children = context.renderChildren();
+    return `<details>\n<summary>${summary}</summary>\n${children ? `${children}\n` : ''}</details>`;
+  },
+  quote: (block, context) => {
+    const text = `<p>${richTextToHTML(block.toJSON().quote?.rich_text)}</p>`;
+    return `<blockquote>\n${withChildren(text, context.renderChildren())}\n</blockquote>`;
+  },
+  callout: (block, context) => {
+    const content = block.toJSON().callout;
+    const icon =
+      content?.icon.type === 'emoji'
+        ? `<span class="callout-icon">${escapeHTML(content.icon.emoji)}</span> `
+        : '';
+    const text = `<p>${icon}${richTextToHTML(content?.rich_text)}</p>`;
+    return `<aside class="callout">\n${withChildren(text, context.renderChildren())}\n</aside>`;
+  },
+  template: (block, context) =>
+    withChildren(
+      `<p>${richTextToHTML(block.toJSON().template?.rich_text)}</p>`,
+      indented(context.renderChildren()),
+    ),
+  code,
+  equation: (block) =>
+    `<div class="equation">${escapeHTML(block.toJSON().equation?.expression ?? '')}</div>`,
+  divider: () => '<hr>',
+  image: media('image'),
+  video: media('video'),
+  audio: media('audio'),
+  file: media('file'),
+  pdf: media('pdf'),
+  bookmark: bookmark('bookmark'),
+  embed: bookmark('embed'),
+  link_preview: bookmark('link_preview'),
+  child_page: childLink('child_page'),
+  child_database: childLink('child_database'),
+  table,
+  table_row: (block) =>
+    `<tr>${(block.toJSON().table_row?.cells ?? []).map((cell) => `<td>${richTextToHTML(cell)}</td>`).join('')}</tr>`,
+  column_list: (_block, context) =>
+    `<div class="column-list">\n${context.renderChildren()}\n</div>`,
+  column: (_block, context) => `<div class="column">\n${context.renderChildren()}\n</div>`,
+  synced_block: (_block, context) => context.renderChildren(),
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** Opening tag for a run of consecutive list items starting with `block`. */
+function listOpenTag(block: Block): string {
+  const element = LIST_ELEMENTS[block.type] ?? 'ul';
+  if (block.type === 'to_do') {
+    return `<${element} class="to-do-list">`;
+  }
+  const start = block.toJSON().numbered_list_item?.list_start_index;
+  return start !== undefined && start !== 1 ? `<${element} start="${start}">` : `<${element}>`;
+}
+
+function renderBlocks(blocks: Block[], options: HTMLExportOptions, depth: number): string {
+  const output: string[] = [];
+  let listType: BlockType | undefined;
+  let listItems: string[] = [];
+
+  const closeList = (): void => {
+    if (listType && listItems.length > 0) {
+      output.push(`${listItems.join('\n')}\n</${LIST_ELEMENTS[listType] ?? 'ul'}>`);
+    }
+    listType = undefined;
+    listItems = [];
+  };
+
+  for (const block of blocks) {
+    const rendered = renderBlock(block, options, depth);
+    if (rendered === '') {
+      continue;
+    }
+
+    if (!LIST_ELEMENTS[block.type]) {
+      closeList();
+      output.push(rendered);
+      continue;
+    }
+
+    if (listType !== block.type) {
+      closeList();
+      listType = block.type;
+      listItems.push(listOpenTag(block));
+    }
+    listItems.push(rendered);
+  }
+  closeList();
+
+  return output.join('\n');
+}
+
+function renderBlock(block: Block, options: HTMLExportOptions, depth: number): string {
+  const context: HTMLRenderContext = {
+    depth,
+    renderChildren: () =>
+      depth < (options.maxDepth ?? Infinity)
+        ? renderBlocks(block.children, options, depth + 1)
+        : '',
+    pageUrl: options.pageUrl ?? defaultPageUrl,
+    escape: escapeHTML,
+  };
+
+  const handler =
+    options.handlers?.[block.type] ?? DEFAULT_HANDLERS[block.type] ?? options.unsupported;
+
+  return handler ? handler(block, context) : '';
+}
+
+/**
+ * Render a list of blocks (with populated children) to semantic HTML.
+ *
+ * Consecutive list items are grouped into `<ul>`/`<ol>` elements, toggles
+ * become `<details>`, images and videos are wrapped in `<figure>` with their
+ * caption, and code blocks render as `<pre><code class="language-x">`. All
+ * text is escaped, and links or media using schemes other than `http:`,
+ * `https:` and `mailto:` are dropped. Blocks without an HTML equivalent
+ * (`breadcrumb`, `table_of_contents`, `unsupported`) are passed to
+ * `options.unsupported` and omitted by default.
+ *
+ * @param blocks - Blocks to render, typically the top-level children of a page
+ * @param options - Export options
+ * @returns The HTML fragment
+ *
+ * @example
+ * ```ts
+ * const html = blocksToHTML(blocks, {
+ *   handlers: { divider: () => '<hr class="separator">' },
+ * });
+ * ```
+ */
+export function blocksToHTML(blocks: Block[], options: HTMLExportOptions = {}): string {
+  return renderBlocks(blocks, options, 0);
+}
+
+/**
+ * Fetch a page (or any block) with all of its nested children and render it to HTML.
+ *
+ * @param blocks - Blocks API used to fetch the block tree (e.g. `notion.blocks`)
+ * @param blockId - The ID of the page or block to export
+ * @param options - Export options; `maxDepth` also limits how deep children are fetched
+ * @param callOptions - Per-call options such as an abort signal
+ * @returns The HTML fragment
+ *
+ * @example
+ * ```ts
+ * import { Notion, pageToHTML } from '@visus-io/notion-sdk-ts';
+ *
+ * const notion = new Notion({ auth: process.env.NOTION_TOKEN });
+ * const html = await pageToHTML(notion.blocks, 'page-id');
+ * ```
+ */
+export async function pageToHTML(
+  blocks: BlocksAPI,
+  blockId: string,
+  options: HTMLExportOptions = {},
+  callOptions?: CallOptions,
+): Promise<string> {
+  const tree = await blocks.tree(blockId, { maxDepth: options.maxDepth }, callOptions);
+  return blocksToHTML(tree, options);
+}
@@ -1,10 +1,22 @@
 export { block } from './block.helpers';
-export type { RichTextInput } from './block.helpers';
+export type { BlockObject, RichTextInput } from './block.helpers';
 export { cover, icon, notionFile } from './file.helpers';
 export { filter } from './filter.helpers';
+export { blocksToHTML, pageToHTML } from './html.helpers';
+export type { HTMLBlockHandler, HTMLExportOptions, HTMLRenderContext } from './html.helpers';
+export { blocksToMarkdown, pageToMarkdown } from './markdown.helpers';
+export type {
+  MarkdownBlockHandler,
+  MarkdownExportOptions,
+  MarkdownRenderContext,
+} from './markdown.helpers';
+export { markdownToBlocks } from './markdownParser.helpers';
+export type { MarkdownImportOptions } from './markdownParser.helpers';
 export { paginate, paginateIterator, paginateWithMetadata } from './pagination.helpers';
 export type { PaginatedFetchFunction } from './pagination.helpers';
 export { parent } from './parent.helpers';
+export { fromPlainObject } from './plainObject.helpers';
 export { prop } from './property.helpers';
 export { RichTextBuilder, richText } from './richText.helpers';
+export { schema } from './schema.helpers';
 export { sort } from './sort.helpers';
@@ -0,0 +1,341 @@
+import { describe, expect, it, vi } from 'vitest';
+import { blocksToMarkdown, pageToMarkdown } from './markdown.helpers';
+import { block as blockHelper } from './block.helpers';
+import { richText } from './richText.helpers';
+import type { BlocksAPI } from '../api';
+import { Block } from '../models';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let idCounter = 0;
+
+/** Turn a block helper object into a full API block response wrapped in a Block model. */
+function makeBlock(
+  request: Record<string, unknown>,
+  children: Block[] = [],
+  overrides: Record<string, unknown> = {},
+): Block {
+  idCounter++;
+  const id = `123e4567-e89b-12d3-a456-${String(idCounter).padStart(12, '0')}`;
+  const type = request.type as string;
+  const content = { ...(request[type] as Record<string, unknown>) };
+  delete content.children;
+
+  return new Block(
+    {
+      object: 'block',
+      id,
+      parent: { type: 'page_id', page_id: '223e4567-e89b-12d3-a456-426614174000' },
+      type,
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      archived: false,
+      in_trash: false,
+      has_children: children.length > 0,
+      [type]: content,
+      ...overrides,
+    },
+    children,
+  );
+}
+
+describe('markdown helpers', () => {
+  // -----------------------------------------------------------------------
+  // Text blocks
+  // -----------------------------------------------------------------------
+
+  describe('text blocks', () => {
+    it('should render paragraphs separated by blank lines', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.paragraph('First')),
+        makeBlock(blockHelper.paragraph('Second')),
+      ]);
+
+      expect(result).toBe('First\n\nSecond');
+    });
+
+    it('should render rich text annotations', () => {
+      const result = blocksToMarkdown([
+        makeBlock(
+          blockHelper.paragraph(
+            richText.join(richText('Hello '), richText('world').bold(), richText('!')),
+          ),
+        ),
+      ]);
+
+      expect(result).toBe('Hello **world**!');
+    });
+
+    it('should render headings', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.heading1('One')),
+        makeBlock(blockHelper.heading2('Two')),
+        makeBlock(blockHelper.heading3('Three')),
+      ]);
+
+      expect(result).toBe('# One\n\n## Two\n\n### Three');
+    });
+
+    it('should render quotes and callouts as blockquotes', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.quote('Quoted'), [makeBlock(blockHelper.paragraph('Nested'))]),
+        makeBlock(blockHelper.callout('Note', { icon: { type: 'emoji', emoji: '⚠️' } })),
+      ]);
+
+      expect(result).toBe('> Quoted\n>\n> Nested\n\n> ⚠️ Note');
+    });
+
+    it('should render toggles as details elements', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.toggle('Summary'), [makeBlock(blockHelper.paragraph('Hidden'))]),
+      ]);
+
+      expect(result).toBe('<details>\n<summary>Summary</summary>\n\nHidden\n\n</details>');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Lists
+  // -----------------------------------------------------------------------
+
+  describe('lists', () => {
+    it('should render consecutive bulleted items as a tight list', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.bulletedListItem('A')),
+        makeBlock(blockHelper.bulletedListItem('B')),
+        makeBlock(blockHelper.paragraph('After')),
+      ]);
+
+      expect(result).toBe('- A\n- B\n\nAfter');
+    });
+
+    it('should number consecutive numbered items and restart after a break', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.numberedListItem('One')),
+        makeBlock(blockHelper.numberedListItem('Two')),
+        makeBlock(blockHelper.paragraph('Break')),
+        makeBlock(blockHelper.numberedListItem('Five', { listStartIndex: 5 })),
+      ]);
+
+      expect(result).toBe('1. One\n2. Two\n\nBreak\n\n5. Five');
+    });
+
+    it('should indent nested list items under their parent', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.bulletedListItem('Parent'), [
+          makeBlock(blockHelper.numberedListItem('Child'), [
+            makeBlock(blockHelper.bulletedListItem('Grandchild')),
+          ]),
+        ]),
+      ]);
+
+      expect(result).toBe('- Parent\n  1. Child\n     - Grandchild');
+    });
+
+    it('should render to-do checkboxes', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.toDo('Done', { checked: true })),
+        makeBlock(blockHelper.toDo('Open')),
+      ]);
+
+      expect(result).toBe('- [x] Done\n- [ ] Open');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Code, equations and tables
+  // -----------------------------------------------------------------------
+
+  describe('code and equations', () => {
+    it('should render code fences with the language', () => {
+      const result = blocksToMarkdown([makeBlock(blockHelper.code('const a = 1;', 'typescript'))]);
+
+      expect(result).toBe('```typescript\nconst a = 1;\n```');
+    });
+
+    it('should omit the language for plain text and lengthen fences around backticks', () => {
+      const result = blocksToMarkdown([makeBlock(blockHelper.code('```nested```', 'plain text'))]);
+
+      expect(result).toBe('````\n```nested```\n````');
+    });
+
+    it('should render equations as display math', () => {
+      const result = blocksToMarkdown([makeBlock(blockHelper.equation('E=mc^2'))]);
+
+      expect(result).toBe('$$\nE=mc^2\n$$');
+    });
+  });
+
+  describe('tables', () => {
+    it('should render a table with a column header', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.table(2, { hasColumnHeader: true }), [
+          makeBlock(blockHelper.tableRow(['Name', 'Value'])),
+          makeBlock(blockHelper.tableRow(['a|b', '1'])),
+        ]),
+      ]);
+
+      expect(result).toBe('| Name | Value |\n| --- | --- |\n| a\\|b | 1 |');
+    });
+
+    it('should render an empty header row when the table has no column header', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.table(2), [makeBlock(blockHelper.tableRow(['a', 'b']))]),
+      ]);
+
+      expect(result).toBe('|  |  |\n| --- | --- |\n| a | b |');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Media, links and child pages
+  // -----------------------------------------------------------------------
+
+  describe('media and links', () => {
+    it('should render images with their caption as alt text', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.image('https://example.com/a.png', { caption: 'A cat' })),
+      ]);
+
+      expect(result).toBe('![A cat](https://example.com/a.png)');
+    });
+
+    it('should render files and bookmarks as links', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.pdf('https://example.com/doc.pdf')),
+        makeBlock(blockHelper.bookmark('https://example.com', { caption: 'Example' })),
+      ]);
+
+      expect(result).toBe(
+        '[https://example.com/doc.pdf](https://example.com/doc.pdf)\n\n[Example](https://example.com)',
+      );
+    });
+
+    it('should escape brackets and parentheses in captions and titles', () => {
+      const child = makeBlock({ type: 'child_page', child_page: { title: 'Notes [draft]' } });
+      const result = blocksToMarkdown(
+        [
+          makeBlock(
+            blockHelper.image('https://example.com/a.png', { caption: 'a](javascript:x)' }),
+          ),
+          makeBlock(
+            blockHelper.pdf('https://example.com/doc.pdf', { caption: 'Doc [v2] (final)' }),
+          ),
+          makeBlock(blockHelper.bookmark('https://example.com', { caption: '\\]' })),
+          child,
+        ],
+        { pageUrl: (id) => `/pages/${id}` },
+      );
+
+      expect(result).toBe(
+        [
+          '![a\\]\\(javascript:x\\)](https://example.com/a.png)',
+          '[Doc \\[v2\\] \\(final\\)](https://example.com/doc.pdf)',
+          '[\\\\\\]](https://example.com)',
+          `[Notes \\[draft\\]](/pages/${child.id})`,
+        ].join('\n\n'),
+      );
+    });
+
+    it('should percent-encode URLs and drop links with unsafe schemes', () => {
+      const child = makeBlock({ type: 'child_page', child_page: { title: 'Sub' } });
+      const result = blocksToMarkdown(
+        [
+          makeBlock(blockHelper.image('https://example.com/a (1).png', { caption: 'A cat' })),
+          makeBlock(blockHelper.bookmark('javascript:alert(1)', { caption: 'Click' })),
+          makeBlock(blockHelper.pdf(' JavaScript:alert(1)')),
+          child,
+        ],
+        { pageUrl: () => 'data:text/html,x' },
+      );
+
+      expect(result).toBe(
+        [
+          '![A cat](https://example.com/a%20%281%29.png)',
+          'Click',
+          'JavaScript:alert(1)',
+          'Sub',
+        ].join('\n\n'),
+      );
+    });
+
+    it('should link child pages with a configurable URL builder', () => {
+      const child = makeBlock({ type: 'child_page', child_page: { title: 'Sub' } });
+
+      expect(blocksToMarkdown([child], { pageUrl: (id) => `/pages/${id}` })).toBe(
+        `[Sub](/pages/${child.id})`,
+      );
+      expect(blocksToMarkdown([child])).toBe(
+        `[Sub](https://www.notion.so/${child.id.replaceAll('-', '')})`,
+      );
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Options
+  // -----------------------------------------------------------------------
+
+  describe('options', () => {
+    it('should omit unsupported blocks by default', () => {
+      const result = blocksToMarkdown([
+        makeBlock(blockHelper.breadcrumb()),
+        makeBlock(blockHelper.paragraph('Text')),
+      ]);
+
+      expect(result).toBe('Text');
+    });
+
+    it('should pass unsupported blocks to the unsupported handler', () => {
+      const result = blocksToMarkdown([makeBlock(blockHelper.tableOfContents())], {
+        unsupported: (block) => `<!-- ${block.type} -->`,
+      });
+
+      expect(result).toBe('<!-- table_of_contents -->');
+    });
+
+    it('should let handlers override built-in rendering', () => {
+      const result = blocksToMarkdown([makeBlock(blockHelper.divider())], {
+        handlers: { divider: () => '***' },
+      });
+
+      expect(result).toBe('***');
+    });
+
+    it('should stop rendering children beyond maxDepth', () => {
+      const tree = [
+        makeBlock(blockHelper.bulletedListItem('Level 0'), [
+          makeBlock(blockHelper.bulletedListItem('Level 1'), [
+            makeBlock(blockHelper.bulletedListItem('Level 2')),
+          ]),
+        ]),
+      ];
+
+      expect(blocksToMarkdown(tree, { maxDepth: 1 })).toBe('- Level 0\n  - Level 1');
+      expect(blocksToMarkdown(tree, { maxDepth: 0 })).toBe('- Level 0');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // pageToMarkdown
+  // -----------------------------------------------------------------------
+
+  describe('pageToMarkdown', () => {
+    it('should fetch the block tree and render the page', async () => {
+      const tree = [
+        makeBlock(blockHelper.bulletedListItem('Parent'), [
+          makeBlock(blockHelper.bulletedListItem('Child')),
+        ]),
+      ];
+      const blocks = { tree: vi.fn().mockResolvedValue(tree) } as unknown as BlocksAPI;
+
+      const result = await pageToMarkdown(blocks, 'page-id', { maxDepth: 2 });
+
+      expect(result).toBe('- Parent\n  - Child');
+      expect(blocks.tree).toHaveBeenCalledWith('page-id', { maxDepth: 2 }, undefined);
+    });
+  });
+});
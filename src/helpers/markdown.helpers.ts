@@ -0,0 +1,402 @@
+import type { BlocksAPI } from '../api';
+import type { CallOptions } from '../client';
+import { type Block, RichText } from '../models';
+import type { CodeBlockLanguage, NotionBlock, NotionFile, NotionRichText } from '../schemas';
+import { escapeLinkText, markdownUrl } from './escape.helpers';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Any block type supported by the Notion API. */
+type BlockType = NotionBlock['type'];
+
+/**
+ * Context passed to every Markdown block handler.
+ */
+export interface MarkdownRenderContext {
+  /** Nesting depth of the block (0 for top-level blocks) */
+  depth: number;
+
+  /** 1-based position of the block within a run of consecutive numbered list items */
+  listNumber: number;
+
+  /** Renders the block's children to Markdown with the same options */
+  renderChildren: () => string;
+
+  /** Builds the link target for a child page or child database */
+  pageUrl: (pageId: string) => string;
+}
+
+/**
+ * Renders a single block to Markdown. Return an empty string to omit the block.
+ */
+export type MarkdownBlockHandler = (block: Block, context: MarkdownRenderContext) => string;
+
+/**
+ * Options for exporting blocks to Markdown.
+ */
+export interface MarkdownExportOptions {
+  /** Maximum nesting depth to render (default: unlimited; 0 renders top-level blocks only) */
+  maxDepth?: number;
+
+  /** Per-block-type handlers that replace the built-in rendering */
+  handlers?: Partial<Record<BlockType, MarkdownBlockHandler>>;
+
+  /** Handler for blocks with no Markdown equivalent (default: omit the block) */
+  unsupported?: MarkdownBlockHandler;
+
+  /** Builds the link target for child pages and databases (default: notion.so URL) */
+  pageUrl?: (pageId: string) => string;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting utilities
+// ---------------------------------------------------------------------------
+
+/** List block types rendered without blank lines between consecutive siblings. */
+const LIST_TYPES: BlockType[] = ['bulleted_list_item', 'numbered_list_item', 'to_do'];
+
+/** Notion code languages whose names are not usable as a fence info string. */
+const FENCE_LANGUAGES: Partial<Record<CodeBlockLanguage, string>> = {
+  'plain text': '',
+  'visual basic': 'vb',
+  'java/c/c++/c#': '',
+};
+
+function defaultPageUrl(pageId: string): string {
+  return `https://www.notion.so/${pageId.replaceAll('-', '')}`;
+}
+
+function richTextToMarkdown(text: NotionRichText | undefined): string {
+  return text && text.length > 0 ? new RichText(text).toMarkdown() : '';
+}
+
+function plainText(text: NotionRichText | undefined): string {
+  return text ? text.map((segment) => segment.plain_text).join('') : '';
+}
+
+/** A Markdown link, or just its text when the URL uses a scheme such as `javascript:`. */
+function markdownLink(text: string, url: string): string {
+  const destination = markdownUrl(url);
+  return destination ? `[${escapeLinkText(text)}](${destination})` : text;
+}
+
+/** Prefix every non-empty line of `text`. */
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line === '' ? line : `${prefix}${line}`))
+    .join('\n');
+}
+
+/** Prefix every line of `text` with a blockquote marker. */
+function blockquote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line === '' ? '>' : `> ${line}`))
+    .join('\n');
+}
+
+/** Join a block's own text with its rendered children, separated by a blank line. */
+function withChildren(text: string, children: string): string {
+  if (!children) {
+    return text;
+  }
+  return text ? `${text}\n\n${children}` : children;
+}
+
+/** Render a list item with a hanging indent for continuation lines and children. */
+function listItem(marker: string, text: string, children: string): string {
+  const padding = ' '.repeat(marker.length + 1);
+  const body = children ? `${text}\n${children}` : text;
+  const [first, ...rest] = body.split('\n');
+  const continuation = rest.length > 0 ? `\n${indent(rest.join('\n'), padding)}` : '';
+  return `${marker} ${first}${continuation}`;
+}
+
+/** Extract a URL from a Notion file object (uploaded files have none). */
+function fileUrl(file: NotionFile): string | null {
+  if (file.type === 'external') {
+    return file.external.url;
+  }
+  if (file.type === 'file') {
+    return file.file.url;
+  }
+  return null;
+}
+
+/** Escape a table cell so pipes and line breaks don't break the row. */
+function tableCell(text: NotionRichText): string {
+  return richTextToMarkdown(text).replaceAll('|', '\\|').replaceAll('\n', '<br>');
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in block handlers
+// ---------------------------------------------------------------------------
+
+function heading(level: number): MarkdownBlockHandler {
+  return (block, context) => {
+    const data = block.toJSON();
+    const content = data[`heading_${level}` as 'heading_1' | 'heading_2' | 'heading_3'];
+    const text = `${'#'.repeat(level)} ${richTextToMarkdown(content?.rich_text)}`;
+    return withChildren(text, context.renderChildren());
+  };
+}
+
+function media(
+  type: 'audio' | 'file' | 'image' | 'pdf' | 'video',
+  embedImage: boolean,
+): MarkdownBlockHandler {
+  return (block) => {
+    const content = block.toJSON()[type];
+    if (!content) {
+      return '';
+    }
+
+    const url = fileUrl(content);
+    const caption = plainText(content.caption);
+    const label = caption || content.name || url || '';
+    const destination = markdownUrl(url);
+    if (!destination) {
+      return label;
+    }
+    return embedImage
+      ? `![${escapeLinkText(caption)}](${destination})`
+      : `[${escapeLinkText(label)}](${destination})`;
+  };
+}
+
+function link(type: 'bookmark' | 'embed' | 'link_preview'): MarkdownBlockHandler {
+  return (block) => {
+    const data = block.toJSON();
+    const content = data[type];
+    if (!content) {
+      return '';
+    }
+    const caption = type === 'bookmark' ? plainText(data.bookmark?.caption) : '';
+    return markdownLink(caption || content.url, content.url);
+  };
+}
+
+function code(block: Block): string {
+  const content = block.toJSON().code;
+  if (!content) {
+    return '';
+  }
+
+  const source = plainText(content.rich_text);
+  const longestRun = Math.max(0, ...(source.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const language = FENCE_LANGUAGES[content.language] ?? content.language;
+  const caption = plainText(content.caption);
+
+  const fenced = `${fence}${language}\n${source}\n${fence}`;
+  return caption ? `${fenced}\n\n${caption}` : fenced;
+}
+
+function table(block: Block): string {
+  const content = block.toJSON().table;
+  if (!content) {
+    return '';
+  }
+
+  const rows = block.children
+    .map((row) => row.toJSON().table_row?.cells)
+    .filter((cells): cells is NotionRichText[] => cells !== undefined)
+    .map((cells) => cells.map(tableCell));
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = content.table_width;
+  const pad = (cells: string[]): string[] =>
+    Array.from({ length: width }, (_, index) => cells[index] ?? '');
+
+  const header = content.has_column_header ? (rows.shift() ?? []) : [];
+  const lines = [
+    tableRow(pad(header)),
+    tableRow(Array.from({ length: width }, () => '---')),
+    ...rows.map((cells) => tableRow(pad(cells))),
+  ];
+  return lines.join('\n');
+}
+
+const DEFAULT_HANDLERS: Partial<Record<BlockType, MarkdownBlockHandler>> = {
+  paragraph: (block, context) =>
+    withChildren(richTextToMarkdown(block.toJSON().paragraph?.rich_text), context.renderChildren()),
+  heading_1: heading(1),
+  heading_2: heading(2),
+  heading_3: heading(3),
+  bulleted_list_item: (block, context) =>
+    listItem(
+      '-',
+      richTextToMarkdown(block.toJSON().bulleted_list_item?.rich_text),
+      context.renderChildren(),
+    ),
+  numbered_list_item: (block, context) =>
+    listItem(
+      `${context.listNumber}.`,
+      richTextToMarkdown(block.toJSON().numbered_list_item?.rich_text),
+      context.renderChildren(),
+    ),
+  to_do: (block, context) => {
+    const content = block.toJSON().to_do;
+    return listItem(
+      content?.checked ? '- [x]' : '- [ ]',
+      richTextToMarkdown(content?.rich_text),
+      context.renderChildren(),
+    );
+  },
+  toggle: (block, context) => {
+    const summary = richTextToMarkdown(block.toJSON().toggle?.rich_text);
+    const children = context.renderChildren();
+    return `<details>\n<summary>${summary}</summary>\n\n${children ? `${children}\n\n` : ''}</details>`;
+  },
+  quote: (block, context) =>
+    blockquote(
+      withChildren(richTextToMarkdown(block.toJSON().quote?.rich_text), context.renderChildren()),
+    ),
+  callout: (block, context) => {
+    const content = block.toJSON().callout;
+    const icon = content?.icon.type === 'emoji' ? `${content.icon.emoji} ` : '';
+    const text = `${icon}${richTextToMarkdown(content?.rich_text)}`;
+    return blockquote(withChildren(text, context.renderChildren()));
+  },
+  template: (block, context) =>
+    withChildren(richTextToMarkdown(block.toJSON().template?.rich_text), context.renderChildren()),
+  code,
+  equation: (block) => `$$\n${block.toJSON().equation?.expression ?? ''}\n$$`,
+  divider: () => '---',
+  image: media('image', true),
+  video: media('video', false),
+  audio: media('audio', false),
+  file: media('file', false),
+  pdf: media('pdf', false),
+  bookmark: link('bookmark'),
+  embed: link('embed'),
+  link_preview: link('link_preview'),
+  child_page: (block, context) =>
+    markdownLink(block.toJSON().child_page?.title ?? '', context.pageUrl(block.id)),
+  child_database: (block, context) =>
+    markdownLink(block.toJSON().child_database?.title ?? '', context.pageUrl(block.id)),
+  table,
+  table_row: (block) => tableRow((block.toJSON().table_row?.cells ?? []).map(tableCell)),
+  column_list: (_block, context) => context.renderChildren(),
+  column: (_block, context) => context.renderChildren(),
+  synced_block: (_block, context) => context.renderChildren(),
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function renderBlocks(blocks: Block[], options: MarkdownExportOptions, depth: number): string {
+  let output = '';
+  let previousType: BlockType | undefined;
+  let listNumber = 0;
+
+  for (const block of blocks) {
+    if (block.type === 'numbered_list_item') {
+      listNumber =
+        previousType === 'numbered_list_item'
+          ? listNumber + 1
+          : (block.toJSON().numbered_list_item?.list_start_index ?? 1);
+    }
+
+    const rendered = renderBlock(block, options, depth, listNumber);
+    if (rendered === '') {
+      continue;
+    }
+
+    const tight = previousType === block.type && LIST_TYPES.includes(block.type);
+    output += output === '' ? rendered : `${tight ? '\n' : '\n\n'}${rendered}`;
+    previousType = block.type;
+  }
+
+  return output;
+}
+
+function renderBlock(
+  block: Block,
+  options: MarkdownExportOptions,
+  depth: number,
+  listNumber: number,
+): string {
+  const context: MarkdownRenderContext = {
+    depth,
+    listNumber,
+    renderChildren: () =>
+      depth < (options.maxDepth ?? Infinity)
+        ? renderBlocks(block.children, options, depth + 1)
+        : '',
+    pageUrl: options.pageUrl ?? defaultPageUrl,
+  };
+
+  const handler =
+    options.handlers?.[block.type] ?? DEFAULT_HANDLERS[block.type] ?? options.unsupported;
+
+  return handler ? handler(block, context) : '';
+}
+
+/**
+ * Render a list of blocks (with populated children) to Markdown.
+ *
+ * Consecutive list items form tight lists, nested children are indented under
+ * their parent, toggles become `<details>` elements, and tables use GitHub
+ * Flavored Markdown syntax. Link URLs are percent-encoded where they would end
+ * the link early, and links or media using schemes other than `http:`,
+ * `https:` and `mailto:` are rendered as plain text. Blocks without a Markdown
+ * equivalent (`breadcrumb`, `table_of_contents`, `unsupported`) are passed to
+ * `options.unsupported` and omitted by default.
+ *
+ * Formatting without a Markdown equivalent is dropped: underline, text and
+ * background colors, and block colors. Mentions render as their plain text, so
+ * `markdownToBlocks(blocksToMarkdown(blocks))` does not restore them.
+ *
+ * @param blocks - Blocks to render, typically the top-level children of a page
+ * @param options - Export options
+ * @returns The Markdown document
+ *
+ * @example
+ * ```ts
+ * const markdown = blocksToMarkdown(blocks, {
+ *   unsupported: (block) => `<!-- ${block.type} -->`,
+ * });
+ * ```
+ */
+export function blocksToMarkdown(blocks: Block[], options: MarkdownExportOptions = {}): string {
+  return renderBlocks(blocks, options, 0);
+}
+
+/**
+ * Fetch a page (or any block) with all of its nested children and render it to Markdown.
+ *
+ * @param blocks - Blocks API used to fetch the block tree (e.g. `notion.blocks`)
+ * @param blockId - The ID of the page or block to export
+ * @param options - Export options; `maxDepth` also limits how deep children are fetched
+ * @param callOptions - Per-call options such as an abort signal
+ * @returns The Markdown document
+ *
+ * @example
+ * ```ts
+ * import { Notion, pageToMarkdown } from '@visus-io/notion-sdk-ts';
+ *
+ * const notion = new Notion({ auth: process.env.NOTION_TOKEN });
+ * const markdown = await pageToMarkdown(notion.blocks, 'page-id', { maxDepth: 3 });
+ * ```
+ */
+export async function pageToMarkdown(
+  blocks: BlocksAPI,
+  blockId: string,
+  options: MarkdownExportOptions = {},
+  callOptions?: CallOptions,
+): Promise<string> {
+  const tree = await blocks.tree(blockId, { maxDepth: options.maxDepth }, callOptions);
+  return blocksToMarkdown(tree, options);
+}
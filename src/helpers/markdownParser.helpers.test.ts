@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToBlocks } from './markdownParser.helpers';
+import { LIMITS } from '../validation';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface TextItem {
+  text: { content: string; link?: { url: string } | null };
+  annotations: Record<string, unknown>;
+}
+
+/** Returns the rich text array of a block object produced by the importer. */
+function textOf(blockObj: Record<string, unknown>): TextItem[] {
+  const content = blockObj[blockObj.type as string] as { rich_text: TextItem[] };
+  return content.rich_text;
+}
+
+function plainOf(blockObj: Record<string, unknown>): string {
+  return textOf(blockObj)
+    .map((item) => item.text.content)
+    .join('');
+}
+
+function childrenOf(blockObj: Record<string, unknown>): Record<string, unknown>[] {
+  const content = blockObj[blockObj.type as string] as { children?: Record<string, unknown>[] };
+  return content.children ?? [];
+}
+
+describe('markdownToBlocks', () => {
+  // -----------------------------------------------------------------------
+  // Text blocks
+  // -----------------------------------------------------------------------
+
+  describe('text blocks', () => {
+    it('should parse ATX and setext headings', () => {
+      const result = markdownToBlocks('# One\n\n## Two\n\n#### Four\n\nSetext\n---');
+
+      expect(result.map((b) => b.type)).toEqual([
+        'heading_1',
+        'heading_2',
+        'heading_3',
+        'heading_2',
+      ]);
+      expect(plainOf(result[0])).toBe('One');
+      expect(plainOf(result[3])).toBe('Setext');
+    });
+
+    it('should join soft-wrapped lines and keep hard breaks', () => {
+      const result = markdownToBlocks('First\nsecond  \nthird\\\nfourth');
+
+      expect(result).toHaveLength(1);
+      expect(plainOf(result[0])).toBe('First second\nthird\nfourth');
+    });
+
+    it('should parse inline annotations and links', () => {
+      const [paragraph] = markdownToBlocks(
+        'a **bold** _italic_ ~~gone~~ `code` [site](https://example.com)',
+      );
+      const items = textOf(paragraph);
+
+      expect(items.map((i) => i.text.content)).toEqual([
+        'a ',
+        'bold',
+        ' ',
+        'italic',
+        ' ',
+        'gone',
+        ' ',
+        'code',
+        ' ',
+        'site',
+      ]);
+      expect(items[1].annotations.bold).toBe(true);
+      expect(items[3].annotations.italic).toBe(true);
+      expect(items[5].annotations.strikethrough).toBe(true);
+      expect(items[7].annotations.code).toBe(true);
+      expect(items[9].text.link).toEqual({ url: 'https://example.com' });
+    });
+
+    it('should leave intraword underscores and escapes literal', () => {
+      const [paragraph] = markdownToBlocks('snake_case_name and \\*not italic\\*');
+
+      expect(textOf(paragraph)).toHaveLength(1);
+      expect(plainOf(paragraph)).toBe('snake_case_name and *not italic*');
+    });
+
+    it('should not link relative URLs', () => {
+      const [paragraph] = markdownToBlocks('[docs](./readme.md)');
+
+      expect(textOf(paragraph)[0].text.link).toBeFalsy();
+      expect(plainOf(paragraph)).toBe('docs');
+    });
+
+    it('should split text longer than the rich text content limit', () => {
+      const long = 'x'.repeat(LIMITS.RICH_TEXT_CONTENT + 10);
+      const [paragraph] = markdownToBlocks(long);
+      const items = textOf(paragraph);
+
+      expect(items).toHaveLength(2);
+      expect(items[0].text.content).toHaveLength(LIMITS.RICH_TEXT_CONTENT);
+      expect(items[1].text.content).toHaveLength(10);
+    });
+
+    it('should parse blockquotes with nested content as children', () => {
+      const [quote] = markdownToBlocks('> Quoted\n> text\n>\n> - item');
+
+      expect(quote.type).toBe('quote');
+      expect(plainOf(quote)).toBe('Quoted text');
+      expect(childrenOf(quote).map((b) => b.type)).toEqual(['bulleted_list_item']);
+    });
+
+    it('should parse details elements as toggles', () => {
+      const [toggle] = markdownToBlocks(
+        '<details>\n<summary>Summary</summary>\n\nHidden\n\n</details>',
+      );
+
+      expect(toggle.type).toBe('toggle');
+      expect(plainOf(toggle)).toBe('Summary');
+      expect(plainOf(childrenOf(toggle)[0])).toBe('Hidden');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Lists
+  // -----------------------------------------------------------------------
+
+  describe('lists', () => {
+    it('should parse nested lists into children', () => {
+      const result = markdownToBlocks('- Parent\n  1. Child\n     - Grandchild\n- Sibling');
+
+      expect(result.map((b) => b.type)).toEqual(['bulleted_list_item', 'bulleted_list_item']);
+      const [child] = childrenOf(result[0]);
+      expect(child.type).toBe('numbered_list_item');
+      expect(plainOf(childrenOf(child)[0])).toBe('Grandchild');
+    });
+
+    it('should parse task list items as to-dos', () => {
+      const result = markdownToBlocks('- [x] Done\n- [ ] Open');
+
+      expect(result.map((b) => b.type)).toEqual(['to_do', 'to_do']);
+      expect((result[0].to_do as { checked: boolean }).checked).toBe(true);
+      expect((result[1].to_do as { checked: boolean }).checked).toBe(false);
+    });
+
+    it('should keep a custom start index on ordered lists', () => {
+      const result = markdownToBlocks('5. Five\n6. Six');
+
+      expect(result).toHaveLength(2);
+      expect(result[0].numbered_list_item).toMatchObject({ list_start_index: 5 });
+      expect(result[1].numbered_list_item).not.toHaveProperty('list_start_index');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Code, equations and tables
+  // -----------------------------------------------------------------------
+
+  describe('code and equations', () => {
+    it('should parse fenced code with language aliases', () => {
+      const [code] = markdownToBlocks('```ts\nconst a = 1;\n\nconst b = 2;\n```');
+
+      expect(code.type).toBe('code');
+      expect(code.code).toMatchObject({ language: 'typescript' });
+      expect(plainOf(code)).toBe('const a = 1;\n\nconst b = 2;');
+    });
+
+    it('should fall back to the default code language', () => {
+      expect(markdownToBlocks('```\nx\n```')[0].code).toMatchObject({ language: 'plain text' });
+      expect(
+        markdownToBlocks('    indented', { defaultCodeLanguage: 'shell' })[0].code,
+      ).toMatchObject({ language: 'shell' });
+      expect(markdownToBlocks('```brainfuck\n+\n```')[0].code).toMatchObject({
+        language: 'plain text',
+      });
+    });
+
+    it('should continue long code in further code blocks', () => {
+      const segments = LIMITS.ARRAY_ELEMENTS + 5;
+      const content = 'x'.repeat(LIMITS.RICH_TEXT_CONTENT * segments);
+      const blocks = markdownToBlocks(`\`\`\`ts\n${content}\n\`\`\``);
+
+      expect(blocks.map((b) => b.type)).toEqual(['code', 'code']);
+      expect(blocks.map((b) => textOf(b).length)).toEqual([LIMITS.ARRAY_ELEMENTS, 5]);
+      expect(blocks[1].code).toMatchObject({ language: 'typescript' });
+      expect(blocks.map(plainOf).join('')).toBe(content);
+    });
+
+    it('should parse display math as equations', () => {
+      const [equation] = markdownToBlocks('$$\nE=mc^2\n$$');
+
+      expect(equation).toMatchObject({ type: 'equation', equation: { expression: 'E=mc^2' } });
+    });
+  });
+
+  describe('tables', () => {
+    it('should parse GFM tables with a column header', () => {
+      const [table] = markdownToBlocks('| Name | Value |\n| --- | :-: |\n| a\\|b | 1 |');
+      const content = table.table as {
+        table_width: number;
+        has_column_header: boolean;
+        children: { table_row: { cells: TextItem[][] } }[];
+      };
+
+      expect(content.table_width).toBe(2);
+      expect(content.has_column_header).toBe(true);
+      expect(content.children).toHaveLength(2);
+      expect(content.children[1].table_row.cells[0][0].text.content).toBe('a|b');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Media and breaks
+  // -----------------------------------------------------------------------
+
+  describe('media and breaks', () => {
+    it('should parse standalone images as image blocks', () => {
+      const [image] = markdownToBlocks('![A cat](https://example.com/a.png)');
+
+      expect(image).toMatchObject({
+        type: 'image',
+        image: { type: 'external', external: { url: 'https://example.com/a.png' } },
+      });
+      expect((image.image as { caption: TextItem[] }).caption[0].text.content).toBe('A cat');
+    });
+
+    it('should parse thematic breaks as dividers', () => {
+      const result = markdownToBlocks('Above\n\n***\n\nBelow');
+
+      expect(result.map((b) => b.type)).toEqual(['paragraph', 'divider', 'paragraph']);
+    });
+
+    it('should return an empty array for blank input', () => {
+      expect(markdownToBlocks('  \n\n')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,911 @@
+import { CODE_BLOCK_LANGUAGES, type CodeBlockLanguage, type NotionRichText } from '../schemas';
+import { LIMITS } from '../validation';
+import { block, type BlockObject } from './block.helpers';
+import { richText, type RichTextBuilder } from './richText.helpers';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Options for converting Markdown to blocks.
+ */
+export interface MarkdownImportOptions {
+  /** Language for code blocks without a recognised info string (default: 'plain text') */
+  defaultCodeLanguage?: CodeBlockLanguage;
+}
+
+/** Inline formatting state applied to a run of text. */
+interface InlineStyle {
+  bold: boolean;
+  italic: boolean;
+  strikethrough: boolean;
+  code: boolean;
+  link: string | null;
+}
+
+/** A run of text sharing the same formatting. */
+interface InlineSegment {
+  text: string;
+  style: InlineStyle;
+}
+
+/** Result of a block-level matcher: the produced blocks and the next line to parse. */
+interface BlockMatch {
+  blocks: BlockObject[];
+  next: number;
+}
+
+type BlockMatcher = (
+  lines: string[],
+  start: number,
+  options: MarkdownImportOptions,
+) => BlockMatch | null;
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+const BLANK = /^\s*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`]*?)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TASK_MARKER = /^\[([ xX])\][ \t]+(.*)$/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(?:\| *:?-+:? *)*\|? *$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const IMAGE_ONLY = /^!\[([^\]]*)\]\(\s*<?([^\s>)]+)>?(?:\s+"[^"]*")?\s*\)$/;
+const AUTOLINK = /^<((?:https?|mailto):[^\s<>]+)>/;
+const LINE_BREAK = /<br\s*\/?>/gi;
+
+/** Common fence info strings that differ from Notion's language names. */
+const LANGUAGE_ALIASES: Record<string, CodeBlockLanguage> = {
+  cpp: 'c++',
+  cs: 'c#',
+  csharp: 'c#',
+  dockerfile: 'docker',
+  fsharp: 'f#',
+  golang: 'go',
+  js: 'javascript',
+  jsx: 'javascript',
+  kt: 'kotlin',
+  md: 'markdown',
+  objc: 'objective-c',
+  plaintext: 'plain text',
+  proto: 'protobuf',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  sh: 'shell',
+  tex: 'latex',
+  text: 'plain text',
+  ts: 'typescript',
+  tsx: 'typescript',
+  txt: 'plain text',
+  vb: 'visual basic',
+  yml: 'yaml',
+  zsh: 'shell',
+};
+
+const PLAIN_STYLE: InlineStyle = {
+  bold: false,
+  italic: false,
+  strikethrough: false,
+  code: false,
+  link: null,
+};
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isWordCharacter(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+/** Find the index of the `]` closing the bracket opened at `start`. */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Parse `[label](destination "title")` starting at `start`. */
+function matchLink(
+  text: string,
+  start: number,
+): { label: string; url: string; end: number } | null {
+  const close = findClosingBracket(text, start);
+  if (close === -1 || text[close + 1] !== '(') {
+    return null;
+  }
+
+  const destination = /^\(\s*<?([^\s<>()]*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/.exec(
+    text.slice(close + 1),
+  );
+  if (!destination) {
+    return null;
+  }
+
+  return {
+    label: text.slice(start + 1, close),
+    url: destination[1],
+    end: close + 1 + destination[0].length,
+  };
+}
+
+/** Find a closing emphasis delimiter that is not preceded by whitespace. */
+function findClosingDelimiter(text: string, delimiter: string, from: number): number {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const flanking = !isWhitespace(before) && before !== '\\' && before !== delimiter[0];
+    const wordBoundary = delimiter[0] !== '_' || !isWordCharacter(after);
+    if (index > from && flanking && wordBoundary && after !== delimiter[0]) {
+      return index;
+    }
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+function emphasisStyle(delimiter: string, style: InlineStyle): InlineStyle {
+  if (delimiter[0] === '~') {
+    return { ...style, strikethrough: true };
+  }
+  return {
+    ...style,
+    bold: style.bold || delimiter.length >= 2,
+    italic: style.italic || delimiter.length !== 2,
+  };
+}
+
+/** Try to parse an emphasis span (`*`, `_`, `**`, `__`, `***`, `~~`) at `start`. */
+function matchEmphasis(
+  text: string,
+  start: number,
+  style: InlineStyle,
+): { segments: InlineSegment[]; end: number } | null {
+  const char = text[start];
+  let run = 0;
+  while (text[start + run] === char) {
+    run++;
+  }
+
+  if (char === '_' && isWordCharacter(text[start - 1])) {
+    return null;
+  }
+
+  const lengths = char === '~' ? [Math.min(run, 2)] : [Math.min(run, 3), 2, 1];
+  for (const length of lengths.filter((value) => value <= run)) {
+    const delimiter = char.repeat(length);
+    if (isWhitespace(text[start + length])) {
+      continue;
+    }
+    const close = findClosingDelimiter(text, delimiter, start + length);
+    if (close !== -1) {
+      const inner = text.slice(start + length, close);
+      return {
+        segments: parseInline(inner, emphasisStyle(delimiter, style)),
+        end: close + length,
+      };
+    }
+  }
+  return null;
+}
+
+/** Parse a code span whose opening backtick run starts at `start`. */
+function matchCodeSpan(
+  text: string,
+  start: number,
+  style: InlineStyle,
+): { segments: InlineSegment[]; end: number } | null {
+  const opening = /^`+/.exec(text.slice(start))?.[0] ?? '`';
+  const closing = new RegExp(`(?<!\`)${opening}(?!\`)`, 'g');
+  closing.lastIndex = start + opening.length;
+  const match = closing.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  let content = text.slice(start + opening.length, match.index);
+  if (content.length > 2 && content.startsWith(' ') && content.endsWith(' ')) {
+    content = content.slice(1, -1);
+  }
+  return {
+    segments: [{ text: content, style: { ...style, code: true } }],
+    end: match.index + opening.length,
+  };
+}
+
+/** Parse a link, image or autolink at `start`. */
+function matchInlineLink(
+  text: string,
+  start: number,
+  style: InlineStyle,
+): { segments: InlineSegment[]; end: number } | null {
+  if (text[start] === '<') {
+    const autolink = AUTOLINK.exec(text.slice(start));
+    return autolink
+      ? {
+          segments: [{ text: autolink[1], style: { ...style, link: autolink[1] } }],
+          end: start + autolink[0].length,
+        }
+      : null;
+  }
+
+  const isImage = text[start] === '!';
+  const link = matchLink(text, isImage ? start + 1 : start);
+  if (!link) {
+    return null;
+  }
+
+  const linkStyle = isAbsoluteUrl(link.url) ? { ...style, link: link.url } : style;
+  return {
+    segments: parseInline(link.label || link.url, linkStyle),
+    end: link.end,
+  };
+}
+
+function matchInline(
+  text: string,
+  start: number,
+  style: InlineStyle,
+): { segments: InlineSegment[]; end: number } | null {
+  switch (text[start]) {
+    case '`':
+      return matchCodeSpan(text, start, style);
+    case '*':
+    case '_':
+    case '~':
+      return matchEmphasis(text, start, style);
+    case '[':
+    case '<':
+      return matchInlineLink(text, start, style);
+    case '!':
+      return text[start + 1] === '[' ? matchInlineLink(text, start, style) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse inline Markdown into formatted text runs.
+ *
+ * Supports backslash escapes, code spans, emphasis, strong emphasis,
+ * strikethrough, inline links, images (as links) and autolinks.
+ */
+function parseInline(text: string, style: InlineStyle = PLAIN_STYLE): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  let buffer = '';
+
+  const flush = (): void => {
+    if (buffer) {
+      segments.push({ text: buffer, style });
+      buffer = '';
+    }
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+      buffer += text[++i];
+      continue;
+    }
+
+    const match = matchInline(text, i, style);
+    if (match) {
+      flush();
+      segments.push(...match.segments);
+      i = match.end - 1;
+      continue;
+    }
+
+    // An unmatched delimiter run is literal text as a whole
+    let end = i + 1;
+    while ('*_~'.includes(char) && text[end] === char) {
+      end++;
+    }
+    buffer += text.slice(i, end);
+    i = end - 1;
+  }
+
+  flush();
+  return segments;
+}
+
+function sameStyle(a: InlineStyle, b: InlineStyle): boolean {
+  return (
+    a.bold === b.bold &&
+    a.italic === b.italic &&
+    a.strikethrough === b.strikethrough &&
+    a.code === b.code &&
+    a.link === b.link
+  );
+}
+
+/** Split text into chunks no longer than `size`, never splitting a surrogate pair. */
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    let cut = size;
+    const code = rest.charCodeAt(cut - 1);
+    if (code >= 0xd800 && code <= 0xdbff) {
+      cut--;
+    }
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  chunks.push(rest);
+  return chunks;
+}
+
+function toBuilder(text: string, style: InlineStyle): RichTextBuilder {
+  const builder = richText(text);
+  if (style.bold) builder.bold();
+  if (style.italic) builder.italic();
+  if (style.strikethrough) builder.strikethrough();
+  if (style.code) builder.code();
+  if (style.link) builder.link(style.link);
+  return builder;
+}
+
+/**
+ * Convert formatted runs into a rich text array, merging adjacent runs with
+ * the same formatting and splitting content over {@link LIMITS.RICH_TEXT_CONTENT}.
+ */
+function toRichText(segments: InlineSegment[]): NotionRichText {
+  const merged: InlineSegment[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && sameStyle(previous.style, segment.style)) {
+      previous.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  const builders = merged.flatMap((segment) =>
+    chunkText(segment.text, LIMITS.RICH_TEXT_CONTENT).map((chunk) =>
+      toBuilder(chunk, segment.style),
+    ),
+  );
+  return richText.join(...builders);
+}
+
+function inlineRichText(text: string): NotionRichText {
+  return toRichText(parseInline(text));
+}
+
+/** Rich text for verbatim content such as code blocks. */
+function plainRichText(text: string): NotionRichText {
+  return text ? toRichText([{ text, style: PLAIN_STYLE }]) : [];
+}
+
+/**
+ * Build one or more code blocks for verbatim content, continuing in a new code
+ * block whenever the rich text exceeds the {@link LIMITS.ARRAY_ELEMENTS} segment limit.
+ */
+function codeBlocks(content: string, language: CodeBlockLanguage): BlockObject[] {
+  const text = plainRichText(content);
+  const blocks = [block.code(text.slice(0, LIMITS.ARRAY_ELEMENTS), language)];
+  for (let i = LIMITS.ARRAY_ELEMENTS; i < text.length; i += LIMITS.ARRAY_ELEMENTS) {
+    blocks.push(block.code(text.slice(i, i + LIMITS.ARRAY_ELEMENTS), language));
+  }
+  return blocks;
+}
+
+/**
+ * Build one or more text blocks, starting a new paragraph whenever the rich
+ * text exceeds the {@link LIMITS.ARRAY_ELEMENTS} segment limit.
+ */
+function textBlocks(
+  text: NotionRichText,
+  build: (richText: NotionRichText) => BlockObject,
+): BlockObject[] {
+  const blocks = [build(text.slice(0, LIMITS.ARRAY_ELEMENTS))];
+  for (let i = LIMITS.ARRAY_ELEMENTS; i < text.length; i += LIMITS.ARRAY_ELEMENTS) {
+    blocks.push(block.paragraph(text.slice(i, i + LIMITS.ARRAY_ELEMENTS)));
+  }
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Block-level matchers
+// ---------------------------------------------------------------------------
+
+function resolveLanguage(info: string, options: MarkdownImportOptions): CodeBlockLanguage {
+  const name = info.split(/\s+/)[0].toLowerCase();
+  if ((CODE_BLOCK_LANGUAGES as readonly string[]).includes(name)) {
+    return name as CodeBlockLanguage;
+  }
+  return LANGUAGE_ALIASES[name] ?? options.defaultCodeLanguage ?? 'plain text';
+}
+
+const matchFencedCode: BlockMatcher = (lines, start, options) => {
+  const open = FENCE_OPEN.exec(lines[start]);
+  if (!open) {
+    return null;
+  }
+
+  const [, indent, fence, info] = open;
+  const closing = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}[ \\t]*$`);
+  const content: string[] = [];
+  let i = start + 1;
+  while (i < lines.length && !closing.test(lines[i])) {
+    content.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ''));
+    i++;
+  }
+
+  return {
+    blocks: codeBlocks(content.join('\n'), resolveLanguage(info, options)),
+    next: i + 1,
+  };
+};
+
+const matchEquation: BlockMatcher = (lines, start) => {
+  const line = lines[start].trim();
+  const single = /^\$\$(.+)\$\$$/.exec(line);
+  if (single) {
+    return { blocks: [block.equation(single[1].trim())], next: start + 1 };
+  }
+  if (line !== '$$') {
+    return null;
+  }
+
+  const end = lines.findIndex((candidate, index) => index > start && candidate.trim() === '$$');
+  if (end === -1) {
+    return null;
+  }
+  return {
+    blocks: [block.equation(lines.slice(start + 1, end).join('\n'))],
+    next: end + 1,
+  };
+};
+
+const matchDetails: BlockMatcher = (lines, start, options) => {
+  if (lines[start].trim() !== '<details>') {
+    return null;
+  }
+
+  let depth = 0;
+  let end = -1;
+  for (let i = start; i < lines.length && end === -1; i++) {
+    const line = lines[i].trim();
+    if (line === '<details>') depth++;
+    if (line === '</details>' && --depth === 0) end = i;
+  }
+  if (end === -1) {
+    return null;
+  }
+
+  const inner = lines.slice(start + 1, end);
+  const summary = /^\s*<summary>(.*)<\/summary>\s*$/.exec(inner[0] ?? '');
+  const children = parseBlocks(summary ? inner.slice(1) : inner, options);
+  return {
+    blocks: [
+      block.toggle(inlineRichText(summary?.[1] ?? ''), children.length > 0 ? { children } : {}),
+    ],
+    next: end + 1,
+  };
+};
+
+const matchHeading: BlockMatcher = (lines, start) => {
+  const heading = ATX_HEADING.exec(lines[start]);
+  if (!heading) {
+    return null;
+  }
+  return {
+    blocks: headingBlocks(heading[1].length, heading[2] ?? ''),
+    next: start + 1,
+  };
+};
+
+/** Notion supports three heading levels; deeper Markdown headings become heading 3. */
+function headingBlocks(level: number, text: string): BlockObject[] {
+  const builders = [block.heading1, block.heading2, block.heading3];
+  const build = builders[Math.min(level, 3) - 1];
+  return textBlocks(inlineRichText(text.trim()), (content) => build(content));
+}
+
+const matchThematicBreak: BlockMatcher = (lines, start) =>
+  THEMATIC_BREAK.test(lines[start]) ? { blocks: [block.divider()], next: start + 1 } : null;
+
+const matchBlockquote: BlockMatcher = (lines, start, options) => {
+  if (!BLOCKQUOTE.test(lines[start])) {
+    return null;
+  }
+
+  const inner: string[] = [];
+  let i = start;
+  while (i < lines.length) {
+    const quoted = BLOCKQUOTE.exec(lines[i]);
+    if (quoted) {
+      inner.push(quoted[1]);
+    } else if (
+      !BLANK.test(lines[i]) &&
+      !BLANK.test(inner[inner.length - 1] ?? '') &&
+      !startsBlock(lines[i])
+    ) {
+      // Lazy continuation of a quoted paragraph
+      inner.push(lines[i]);
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  const [first, ...rest] = parseBlocks(inner, options);
+  const { text, children } = splitLeadingParagraph(first, rest);
+  return {
+    blocks: [block.quote(text, children.length > 0 ? { children } : undefined)],
+    next: i,
+  };
+};
+
+/** Use a leading paragraph as the parent block's text and the remaining blocks as children. */
+function splitLeadingParagraph(
+  first: BlockObject | undefined,
+  rest: BlockObject[],
+): { text: NotionRichText; children: BlockObject[] } {
+  if (first?.type === 'paragraph') {
+    const paragraph = first.paragraph as { rich_text: NotionRichText };
+    return { text: paragraph.rich_text, children: rest };
+  }
+  return { text: [], children: first ? [first, ...rest] : rest };
+}
+
+interface ListMarker {
+  indent: number;
+  marker: string;
+  contentOffset: number;
+  content: string;
+}
+
+function parseListMarker(line: string): ListMarker | null {
+  const item = LIST_ITEM.exec(line);
+  if (!item) {
+    return null;
+  }
+  const [, indent, marker, spacing, content] = item;
+  const padding = spacing.length === 0 || spacing.length > 4 ? 1 : spacing.length;
+  return {
+    indent: indent.length,
+    marker,
+    contentOffset: indent.length + marker.length + padding,
+    content,
+  };
+}
+
+/** Bullets of the same character and ordered markers of the same delimiter belong together. */
+function sameListKind(a: string, b: string): boolean {
+  const delimiter = (marker: string): string => marker[marker.length - 1] ?? '';
+  const ordered = (marker: string): boolean => /\d/.test(marker);
+  return ordered(a) === ordered(b) && delimiter(a) === delimiter(b);
+}
+
+/** Collect the lines belonging to the list item starting at `start`. */
+function collectListItem(
+  lines: string[],
+  start: number,
+  marker: ListMarker,
+): { content: string[]; next: number } {
+  const content = [marker.content];
+  let i = start + 1;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const indentation = /^ */.exec(line)?.[0].length ?? 0;
+
+    if (BLANK.test(line)) {
+      const nextContent = lines.slice(i + 1).find((candidate) => !BLANK.test(candidate));
+      if (
+        nextContent === undefined ||
+        (/^ */.exec(nextContent)?.[0].length ?? 0) < marker.contentOffset
+      ) {
+        break;
+      }
+      content.push('');
+    } else if (indentation >= marker.contentOffset) {
+      content.push(line.slice(marker.contentOffset));
+    } else if (
+      !BLANK.test(content[content.length - 1] ?? '') &&
+      !startsBlock(line) &&
+      parseListMarker(line) === null
+    ) {
+      // Lazy continuation of the item's paragraph
+      content.push(line.trim());
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  return { content, next: i };
+}
+
+function listItemBlock(
+  marker: ListMarker,
+  content: string[],
+  options: MarkdownImportOptions,
+  listStartIndex: number | undefined,
+): BlockObject[] {
+  const task = /\d/.test(marker.marker) ? null : TASK_MARKER.exec(content[0]);
+  const lines = task ? [task[2], ...content.slice(1)] : content;
+  const [first, ...rest] = parseBlocks(lines, options);
+  const { text, children } = splitLeadingParagraph(first, rest);
+  const childOptions = children.length > 0 ? { children } : {};
+
+  if (task) {
+    return textBlocks(text, (content) =>
+      block.toDo(content, { checked: task[1] !== ' ', ...childOptions }),
+    );
+  }
+  if (/\d/.test(marker.marker)) {
+    return textBlocks(text, (content) =>
+      block.numberedListItem(content, {
+        ...(listStartIndex === undefined ? {} : { listStartIndex }),
+        ...childOptions,
+      }),
+    );
+  }
+  return textBlocks(text, (content) => block.bulletedListItem(content, childOptions));
+}
+
+const matchList: BlockMatcher = (lines, start, options) => {
+  const first = parseListMarker(lines[start]);
+  if (!first) {
+    return null;
+  }
+
+  const blocks: BlockObject[] = [];
+  let i = start;
+  let marker: ListMarker | null = first;
+  while (marker && sameListKind(first.marker, marker.marker) && marker.indent === first.indent) {
+    const item = collectListItem(lines, i, marker);
+    const startIndex = i === start ? Number.parseInt(first.marker, 10) : NaN;
+    blocks.push(
+      ...listItemBlock(
+        marker,
+        item.content,
+        options,
+        Number.isNaN(startIndex) || startIndex === 1 ? undefined : startIndex,
+      ),
+    );
+
+    i = item.next;
+    while (i < lines.length && BLANK.test(lines[i])) {
+      i++;
+    }
+    marker = i < lines.length ? parseListMarker(lines[i]) : null;
+  }
+
+  return { blocks, next: i };
+};
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '');
+  return trimmed
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replaceAll('\\|', '|').replace(LINE_BREAK, '\n'));
+}
+
+const matchTable: BlockMatcher = (lines, start) => {
+  const delimiter = lines[start + 1];
+  if (!lines[start].includes('|') || delimiter === undefined || !TABLE_DELIMITER.test(delimiter)) {
+    return null;
+  }
+
+  const header = splitTableRow(lines[start]);
+  if (splitTableRow(delimiter).length !== header.length) {
+    return null;
+  }
+
+  const rows = [header];
+  let i = start + 2;
+  while (i < lines.length && !BLANK.test(lines[i]) && lines[i].includes('|')) {
+    rows.push(splitTableRow(lines[i]));
+    i++;
+  }
+
+  const width = header.length;
+  const children = rows.map((cells) =>
+    block.tableRow(Array.from({ length: width }, (_, index) => inlineRichText(cells[index] ?? ''))),
+  );
+  return {
+    blocks: [block.table(width, { hasColumnHeader: true, children })],
+    next: i,
+  };
+};
+
+const matchIndentedCode: BlockMatcher = (lines, start, options) => {
+  if (!INDENTED_CODE.test(lines[start])) {
+    return null;
+  }
+
+  const content: string[] = [];
+  let i = start;
+  while (i < lines.length && (INDENTED_CODE.test(lines[i]) || BLANK.test(lines[i]))) {
+    content.push(lines[i].replace(INDENTED_CODE, ''));
+    i++;
+  }
+  while (content.length > 0 && BLANK.test(content[content.length - 1] ?? '')) {
+    content.pop();
+    i--;
+  }
+
+  return {
+    blocks: codeBlocks(content.join('\n'), options.defaultCodeLanguage ?? 'plain text'),
+    next: i,
+  };
+};
+
+/** Whether a line starts a block that interrupts a paragraph. */
+function startsBlock(line: string): boolean {
+  const marker = parseListMarker(line);
+  const interruptingList =
+    marker !== null && marker.content.trim() !== '' && /^(?:[-+*]|1[.)])$/.test(marker.marker);
+  return (
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    FENCE_OPEN.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    line.trim() === '$$' ||
+    line.trim() === '<details>' ||
+    interruptingList
+  );
+}
+
+/** Join paragraph lines, keeping hard line breaks and collapsing soft ones. */
+function joinParagraphLines(lines: string[]): string {
+  return lines
+    .map((line, index) => {
+      const text = line.trim();
+      if (index === lines.length - 1) {
+        return text;
+      }
+      if (/ {2,}$/.test(line)) {
+        return `${text}\n`;
+      }
+      return text.endsWith('\\') ? `${text.slice(0, -1)}\n` : `${text} `;
+    })
+    .join('');
+}
+
+const matchParagraph: BlockMatcher = (lines, start) => {
+  const content: string[] = [lines[start]];
+  let i = start + 1;
+  while (i < lines.length && !BLANK.test(lines[i])) {
+    const setext = SETEXT_UNDERLINE.exec(lines[i]);
+    if (setext) {
+      return {
+        blocks: headingBlocks(setext[1][0] === '=' ? 1 : 2, joinParagraphLines(content)),
+        next: i + 1,
+      };
+    }
+    if (
+      startsBlock(lines[i]) ||
+      (lines[i].includes('|') && TABLE_DELIMITER.test(lines[i + 1] ?? ''))
+    ) {
+      break;
+    }
+    content.push(lines[i]);
+    i++;
+  }
+
+  const text = joinParagraphLines(content);
+  const image = IMAGE_ONLY.exec(text);
+  if (image && isAbsoluteUrl(image[2])) {
+    return {
+      blocks: [block.image(image[2], image[1] ? { caption: inlineRichText(image[1]) } : undefined)],
+      next: i,
+    };
+  }
+
+  return { blocks: textBlocks(inlineRichText(text), (rt) => block.paragraph(rt)), next: i };
+};
+
+/** Block matchers in precedence order; the paragraph matcher always succeeds. */
+const MATCHERS: BlockMatcher[] = [
+  matchFencedCode,
+  matchEquation,
+  matchDetails,
+  matchHeading,
+  matchThematicBreak,
+  matchBlockquote,
+  matchList,
+  matchTable,
+  matchIndentedCode,
+  matchParagraph,
+];
+
+function parseBlocks(lines: string[], options: MarkdownImportOptions): BlockObject[] {
+  const blocks: BlockObject[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (BLANK.test(lines[i])) {
+      i++;
+      continue;
+    }
+
+    for (const matcher of MATCHERS) {
+      const match = matcher(lines, i, options);
+      if (match) {
+        blocks.push(...match.blocks);
+        i = match.next;
+        break;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Public export
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert CommonMark and GitHub Flavored Markdown into Notion block objects.
+ *
+ * Supports headings (ATX and setext), paragraphs, block quotes, bulleted,
+ * numbered and task lists, fenced and indented code, tables, thematic breaks,
+ * standalone images, `$$` equations and `<details>` toggles. Inline bold,
+ * italic, strikethrough, code and links become rich text annotations.
+ * Text longer than {@link LIMITS.RICH_TEXT_CONTENT} is split across rich text
+ * segments and nested list items become `children`, so the result can be
+ * passed straight to `pages.create()` or `blocks.children.append()`.
+ *
+ * Markdown has no underline or colors, so blocks exported with
+ * `blocksToMarkdown` come back without them.
+ *
+ * @param markdown - The Markdown source
+ * @param options - Import options
+ * @returns Block objects built with the {@link block} helpers
+ *
+ * @example
+ * ```ts
+ * import { markdownToBlocks } from '@visus-io/notion-sdk-ts';
+ *
+ * await notion.blocks.children.append('page-id', {
+ *   children: markdownToBlocks('# Notes\n\n- [x] Ship it\n- [ ] **Celebrate**'),
+ * });
+ * ```
+ */
+export function markdownToBlocks(
+  markdown: string,
+  options: MarkdownImportOptions = {},
+): BlockObject[] {
+  const lines = markdown.replaceAll('\r\n', '\n').replaceAll('\r', '\n').split('\n');
+  return parseBlocks(lines, options);
+}
@@ -5,6 +5,7 @@ import {
   paginateWithMetadata,
   type PaginatedFetchFunction,
 } from './pagination.helpers';
+import { NotionAbortError } from '../errors';
 import type { PaginatedList } from '../schemas';
 
 type MockItem = { id: string };
@@ -24,7 +25,7 @@ describe('pagination helpers', () => {
 
       expect(results).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(mockFetch).toHaveBeenCalledWith(undefined);
+      expect(mockFetch).toHaveBeenCalledWith(undefined, undefined);
     });
 
     it('should collect all results from multiple pages', async () => {
@@ -56,9 +57,9 @@ describe('pagination helpers', () => {
 
       expect(results).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }, { id: '5' }]);
       expect(mockFetch).toHaveBeenCalledTimes(3);
-      expect(mockFetch).toHaveBeenNthCalledWith(1, undefined);
-      expect(mockFetch).toHaveBeenNthCalledWith(2, 'cursor-1');
-      expect(mockFetch).toHaveBeenNthCalledWith(3, 'cursor-2');
+      expect(mockFetch).toHaveBeenNthCalledWith(1, undefined, undefined);
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'cursor-1', undefined);
+      expect(mockFetch).toHaveBeenNthCalledWith(3, 'cursor-2', undefined);
     });
 
     it('should handle empty results', async () => {
@@ -96,8 +97,28 @@ describe('pagination helpers', () => {
 
       await paginate(mockFetch);
 
-      expect(mockFetch).toHaveBeenNthCalledWith(1, undefined);
-      expect(mockFetch).toHaveBeenNthCalledWith(2, 'abc123');
+      expect(mockFetch).toHaveBeenNthCalledWith(1, undefined, undefined);
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'abc123', undefined);
+    });
+
+    it('should pass the signal to each fetch and stop fetching once aborted', async () => {
+      const controller = new AbortController();
+      const mockFetch = vi.fn().mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve({
+          object: 'list',
+          results: [{ id: '1' }],
+          next_cursor: 'cursor-1',
+          has_more: true,
+          type: 'page',
+        } as PaginatedList<MockItem>);
+      });
+
+      await expect(paginate(mockFetch, { signal: controller.signal })).rejects.toThrow(
+        NotionAbortError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(undefined, controller.signal);
     });
   });
 
@@ -145,8 +166,8 @@ describe('pagination helpers', () => {
 
       expect(results).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
       expect(mockFetch).toHaveBeenCalledTimes(2);
-      expect(mockFetch).toHaveBeenNthCalledWith(1, undefined);
-      expect(mockFetch).toHaveBeenNthCalledWith(2, 'cursor-1');
+      expect(mockFetch).toHaveBeenNthCalledWith(1, undefined, undefined);
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'cursor-1', undefined);
     });
 
     it('should handle empty results', async () => {
@@ -1,3 +1,5 @@
+import { throwIfAborted } from '../abort';
+import type { CallOptions } from '../client';
 import type { PaginatedList } from '../schemas';
 
 /**
@@ -32,14 +34,23 @@ import type { PaginatedList } from '../schemas';
  * )) {
  *   console.log(block.type);
  * }
+ *
+ * // Stop fetching pages when the signal is aborted
+ * const users = await paginate(
+ *   (cursor, signal) => notion.users.list({ start_cursor: cursor }, { signal }),
+ *   { signal: controller.signal },
+ * );
  * ```
  */
 
 /**
  * Fetch function that returns a paginated list.
- * Receives an optional cursor and returns the next page of results.
+ * Receives an optional cursor and the caller's abort signal, and returns the next page of results.
  */
-export type PaginatedFetchFunction<T> = (cursor?: string) => Promise<PaginatedList<T>>;
+export type PaginatedFetchFunction<T> = (
+  cursor?: string,
+  signal?: AbortSignal,
+) => Promise<PaginatedList<T>>;
 
 /**
  * Collects all results from a paginated endpoint by automatically following cursors.
@@ -48,8 +59,11 @@ export type PaginatedFetchFunction<T> = (cursor?: string) => Promise<PaginatedLi
  * results into a single array. Use this when you need all results at once.
  *
  * @param fetchPage - Function that fetches a single page of results
+ * @param options - Signal that stops fetching further pages when aborted
  * @returns Array containing all results from all pages
  *
+ * @throws {NotionAbortError} If the signal is aborted
+ *
  * @example
  * ```typescript
  * // Get all blocks from a page
@@ -86,12 +100,16 @@ export type PaginatedFetchFunction<T> = (cursor?: string) => Promise<PaginatedLi
  * );
  * ```
  */
-export async function paginate<T>(fetchPage: PaginatedFetchFunction<T>): Promise<T[]> {
+export async function paginate<T>(
+  fetchPage: PaginatedFetchFunction<T>,
+  options?: CallOptions,
+): Promise<T[]> {
   const all: T[] = [];
   let cursor: string | undefined;
 
   do {
-    const response = await fetchPage(cursor);
+    throwIfAborted(options?.signal);
+    const response = await fetchPage(cursor, options?.signal);
     all.push(...response.results);
     cursor = response.next_cursor ?? undefined;
   } while (cursor);
@@ -107,8 +125,11 @@ export async function paginate<T>(fetchPage: PaginatedFetchFunction<T>): Promise
  * you want to process results one by one without loading everything into memory.
  *
  * @param fetchPage - Function that fetches a single page of results
+ * @param options - Signal that stops fetching further pages when aborted
  * @yields Individual items from each page
  *
+ * @throws {NotionAbortError} If the signal is aborted
+ *
  * @example
  * ```typescript
  * // Process blocks one at a time
@@ -142,11 +163,13 @@ export async function paginate<T>(fetchPage: PaginatedFetchFunction<T>): Promise
  */
 export async function* paginateIterator<T>(
   fetchPage: PaginatedFetchFunction<T>,
+  options?: CallOptions,
 ): AsyncGenerator<T, void, undefined> {
   let cursor: string | undefined;
 
   do {
-    const response = await fetchPage(cursor);
+    throwIfAborted(options?.signal);
+    const response = await fetchPage(cursor, options?.signal);
     for (const item of response.results) {
       yield item;
     }
@@ -161,8 +184,11 @@ export async function* paginateIterator<T>(
  * or want to track the total number of API calls made.
  *
  * @param fetchPage - Function that fetches a single page of results
+ * @param options - Signal that stops fetching further pages when aborted
  * @returns Object containing all results and pagination metadata
  *
+ * @throws {NotionAbortError} If the signal is aborted
+ *
  * @example
  * ```typescript
  * const { items, pageCount, totalCount } = await paginateWithMetadata((cursor) =>
@@ -172,7 +198,10 @@ export async function* paginateIterator<T>(
  * console.log(`Fetched ${totalCount} blocks across ${pageCount} pages`);
  * ```
  */
-export async function paginateWithMetadata<T>(fetchPage: PaginatedFetchFunction<T>): Promise<{
+export async function paginateWithMetadata<T>(
+  fetchPage: PaginatedFetchFunction<T>,
+  options?: CallOptions,
+): Promise<{
   items: T[];
   pageCount: number;
   totalCount: number;
@@ -182,7 +211,8 @@ export async function paginateWithMetadata<T>(fetchPage: PaginatedFetchFunction<
   let pageCount = 0;
 
   do {
-    const response = await fetchPage(cursor);
+    throwIfAborted(options?.signal);
+    const response = await fetchPage(cursor, options?.signal);
     items.push(...response.results);
     cursor = response.next_cursor ?? undefined;
     pageCount++;
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { DataSource, Page } from '../models';
+import type { NotionPropertiesObject } from '../schemas';
+import { NotionValidationError } from '../validation';
+import { fromPlainObject } from './plainObject.helpers';
+import { prop } from './property.helpers';
+
+describe('fromPlainObject', () => {
+  const schema = {
+    Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+    Points: { id: 'pts', name: 'Points', type: 'number', number: { format: 'number' } },
+    Done: { id: 'done', name: 'Done', type: 'checkbox', checkbox: {} },
+    Priority: { id: 'pri', name: 'Priority', type: 'select', select: { options: [] } },
+    Tags: { id: 'tags', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+    Due: { id: 'due', name: 'Due', type: 'date', date: {} },
+    Owners: { id: 'own', name: 'Owners', type: 'people', people: {} },
+    Attachments: { id: 'att', name: 'Attachments', type: 'files', files: {} },
+    Created: { id: 'ct', name: 'Created', type: 'created_time', created_time: {} },
+  } as NotionPropertiesObject;
+
+  it('should pick the property builder from the schema', () => {
+    expect(
+      fromPlainObject(
+        {
+          Name: 'Write docs',
+          Points: 3,
+          Done: false,
+          Priority: null,
+          Tags: ['docs'],
+          Due: { start: '2023-03-01', end: '2023-03-05' },
+          Owners: ['user-1'],
+          Attachments: [{ name: 'spec.pdf', url: 'https://example.com/spec.pdf' }],
+        },
+        schema,
+      ),
+    ).toEqual({
+      Name: prop.title('Write docs'),
+      Points: prop.number(3),
+      Done: prop.checkbox(false),
+      Priority: prop.select(null),
+      Tags: prop.multiSelect(['docs']),
+      Due: prop.date('2023-03-01', { end: '2023-03-05' }),
+      Owners: prop.people(['user-1']),
+      Attachments: prop.files([{ name: 'spec.pdf', url: 'https://example.com/spec.pdf' }]),
+    });
+  });
+
+  it('should skip computed properties and undefined values', () => {
+    expect(
+      fromPlainObject(
+        { Created: '2023-01-01T00:00:00.000Z', Points: undefined, Due: null },
+        schema,
+      ),
+    ).toEqual({ Due: prop.date(null) });
+  });
+
+  it('should accept a DataSource model', () => {
+    const user = { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' };
+    const dataSource = new DataSource({
+      object: 'data_source',
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      properties: schema,
+      parent: { type: 'database_id', database_id: '223e4567-e89b-12d3-a456-426614174000' },
+      database_parent: { type: 'workspace', workspace: true },
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: user,
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: user,
+      title: [],
+      description: [],
+      icon: null,
+      cover: null,
+      url: 'https://notion.so/data-source',
+      public_url: null,
+      is_inline: false,
+      archived: false,
+      in_trash: false,
+    });
+
+    expect(fromPlainObject({ Done: true }, dataSource)).toEqual({
+      Done: prop.checkbox(true),
+    });
+  });
+
+  it('should reject files hosted by Notion', () => {
+    expect(() =>
+      fromPlainObject(
+        {
+          Attachments: [
+            { name: 'spec.pdf', url: 'https://s3.example.com/spec.pdf?sig', type: 'file' },
+          ],
+        },
+        schema,
+      ),
+    ).toThrow(/hosted by Notion/);
+    expect(
+      fromPlainObject(
+        {
+          Attachments: [
+            { name: 'spec.pdf', url: 'https://example.com/spec.pdf', type: 'external' },
+          ],
+        },
+        schema,
+      ),
+    ).toEqual({
+      Attachments: prop.files([{ name: 'spec.pdf', url: 'https://example.com/spec.pdf' }]),
+    });
+  });
+
+  it('should take property types from a page and skip verification', () => {
+    const page = new Page({
+      object: 'page',
+      id: '423e4567-e89b-12d3-a456-426614174000',
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      archived: false,
+      in_trash: false,
+      icon: null,
+      cover: null,
+      properties: {
+        Done: { id: 'done', type: 'checkbox', checkbox: false },
+        Verification: {
+          id: 'ver',
+          type: 'verification',
+          verification: { state: 'unverified', verified_by: null, date: null },
+        },
+      },
+      parent: { type: 'workspace', workspace: true },
+      url: 'https://notion.so/page',
+      public_url: null,
+    });
+
+    expect(fromPlainObject({ ...page.toPlainObject(), Done: true }, page)).toEqual({
+      Done: prop.checkbox(true),
+    });
+  });
+
+  it('should reject properties missing from the schema', () => {
+    expect(() => fromPlainObject({ Missing: 'x' }, schema)).toThrow(NotionValidationError);
+    expect(() => fromPlainObject({ Missing: 'x' }, schema)).toThrow(
+      /not in the data source schema/,
+    );
+  });
+
+  it('should reject values that do not fit the property type', () => {
+    expect(() => fromPlainObject({ Points: 'three' }, schema)).toThrow(
+      'Property "Points" is a number property and expects a number or null',
+    );
+    expect(() => fromPlainObject({ Tags: 'docs' }, schema)).toThrow(/array of strings/);
+  });
+});
@@ -0,0 +1,181 @@
+import { DataSource, Page, type PagePlainFile, type PagePlainValue } from '../models';
+import { NotionValidationError } from '../validation';
+import { prop } from './property.helpers';
+
+/** Property types computed by Notion or set in its UI, which cannot be written. */
+const COMPUTED_PROPERTY_TYPES = new Set<string>([
+  'created_by',
+  'created_time',
+  'formula',
+  'last_edited_by',
+  'last_edited_time',
+  'rollup',
+  'unique_id',
+  'verification',
+]);
+
+function invalidValue(name: string, type: string, expected: string): NotionValidationError {
+  return new NotionValidationError(
+    `Property "${name}" is a ${type} property and expects ${expected}`,
+  );
+}
+
+function expectString(name: string, type: string, value: PagePlainValue): string {
+  if (typeof value !== 'string') {
+    throw invalidValue(name, type, 'a string');
+  }
+  return value;
+}
+
+function expectNullableString(name: string, type: string, value: PagePlainValue): string | null {
+  if (value !== null && typeof value !== 'string') {
+    throw invalidValue(name, type, 'a string or null');
+  }
+  return value;
+}
+
+function expectStrings(name: string, type: string, value: PagePlainValue): string[] {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw invalidValue(name, type, 'an array of strings');
+  }
+  return value;
+}
+
+function isPlainFile(value: PagePlainValue): value is PagePlainFile {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'name' in value;
+}
+
+function toDateValue(name: string, value: PagePlainValue): ReturnType<typeof prop.date> {
+  if (value === null || typeof value === 'string') {
+    return prop.date(value);
+  }
+  if (typeof value === 'object' && !Array.isArray(value) && 'start' in value) {
+    return prop.date(value.start, { end: value.end });
+  }
+  throw invalidValue(name, 'date', 'an ISO 8601 string, a { start, end } range or null');
+}
+
+function toFilesValue(name: string, value: PagePlainValue): ReturnType<typeof prop.files> {
+  if (!Array.isArray(value) || !value.every(isPlainFile)) {
+    throw invalidValue(name, 'files', 'an array of { name, url } objects');
+  }
+  return prop.files(
+    value.map((file) => {
+      if (file.type === 'file') {
+        throw new NotionValidationError(
+          `File "${file.name}" of property "${name}" is hosted by Notion and its URL expires, so it cannot be sent back; upload it again or leave "${name}" out`,
+        );
+      }
+      if (file.url === null) {
+        throw new NotionValidationError(
+          `File "${file.name}" of property "${name}" has no URL and cannot be set from a plain value`,
+        );
+      }
+      return { name: file.name, url: file.url };
+    }),
+  );
+}
+
+// eslint-disable-next-line complexity
+function toPropertyValue(name: string, type: string, value: PagePlainValue): unknown {
+  switch (type) {
+    case 'title':
+      return prop.title(expectString(name, type, value));
+    case 'rich_text':
+      return prop.richText(expectString(name, type, value));
+    case 'number':
+      if (value !== null && typeof value !== 'number') {
+        throw invalidValue(name, type, 'a number or null');
+      }
+      return prop.number(value);
+    case 'checkbox':
+      if (typeof value !== 'boolean') {
+        throw invalidValue(name, type, 'a boolean');
+      }
+      return prop.checkbox(value);
+    case 'select':
+      return prop.select(expectNullableString(name, type, value));
+    case 'multi_select':
+      return prop.multiSelect(expectStrings(name, type, value));
+    case 'status':
+      return prop.status(expectNullableString(name, type, value));
+    case 'date':
+      return toDateValue(name, value);
+    case 'url':
+      return prop.url(expectNullableString(name, type, value));
+    case 'email':
+      return prop.email(expectNullableString(name, type, value));
+    case 'phone_number':
+      return prop.phoneNumber(expectNullableString(name, type, value));
+    case 'people':
+      return prop.people(expectStrings(name, type, value));
+    case 'relation':
+      return prop.relation(expectStrings(name, type, value));
+    case 'files':
+      return toFilesValue(name, value);
+    default:
+      throw new NotionValidationError(
+        `Property "${name}" is a ${type} property, which cannot be set from a plain value`,
+      );
+  }
+}
+
+/**
+ * Convert plain JSON values, as produced by `Page.toPlainObject()`, into page
+ * property values for `pages.create` or `pages.update`.
+ *
+ * The schema decides which `prop.*` builder each value goes through. Values
+ * of read-only properties (formulas, rollups, unique IDs, verification and
+ * created/last edited metadata) and `undefined` values are skipped. Pass the
+ * page itself when updating it: wiki pages have a `verification` property that
+ * is not in the data source schema.
+ *
+ * Files hosted by Notion cannot be sent back, as their URLs expire; leave
+ * those properties out of `values` unless their files were replaced with
+ * external links.
+ *
+ * The round trip through `Page.toPlainObject()` is lossy: title and rich text
+ * values are plain strings, so sending them back drops their annotations
+ * (bold, underline, colors and so on), links and mentions. Only pass the
+ * values you changed when updating a page.
+ *
+ * @param values - Plain values keyed by property name
+ * @param schemaSource - The page, the data source, or a `properties` record
+ * (only each property's `type` is read)
+ * @throws {NotionValidationError} If a property is missing from the schema, a
+ * value does not fit its property type, or a file is hosted by Notion
+ *
+ * @example
+ * ```ts
+ * const { Status } = page.toPlainObject();
+ *
+ * if (Status !== 'Done') {
+ *   await notion.pages.update(page.id, {
+ *     properties: fromPlainObject({ Status: 'Done' }, page),
+ *   });
+ * }
+ * ```
+ */
+export function fromPlainObject(
+  values: Record<string, PagePlainValue | undefined>,
+  schemaSource: Page | DataSource | Record<string, { type: string }>,
+): Record<string, unknown> {
+  const schema =
+    schemaSource instanceof DataSource || schemaSource instanceof Page
+      ? schemaSource.properties
+      : schemaSource;
+  const properties: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const property = schema[name];
+    if (!property) {
+      throw new NotionValidationError(`Property "${name}" is not in the data source schema`);
+    }
+    if (value === undefined || COMPUTED_PROPERTY_TYPES.has(property.type)) {
+      continue;
+    }
+    properties[name] = toPropertyValue(name, property.type, value);
+  }
+
+  return properties;
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { FakeNotion } from '../fake';
+import { Notion } from '../notion';
+import { propertyConfigurationSchema, propertyObjectSchema } from '../schemas';
+import { NotionValidationError } from '../validation';
+import { schema } from './schema.helpers';
+
+describe('schema helpers', () => {
+  describe('property types without settings', () => {
+    it('should create empty configurations', () => {
+      expect(schema.title()).toEqual({ title: {} });
+      expect(schema.richText()).toEqual({ rich_text: {} });
+      expect(schema.status()).toEqual({ status: {} });
+      expect(schema.date()).toEqual({ date: {} });
+      expect(schema.people()).toEqual({ people: {} });
+      expect(schema.files()).toEqual({ files: {} });
+      expect(schema.checkbox()).toEqual({ checkbox: {} });
+      expect(schema.url()).toEqual({ url: {} });
+      expect(schema.email()).toEqual({ email: {} });
+      expect(schema.phoneNumber()).toEqual({ phone_number: {} });
+      expect(schema.place()).toEqual({ place: {} });
+      expect(schema.createdTime()).toEqual({ created_time: {} });
+      expect(schema.createdBy()).toEqual({ created_by: {} });
+      expect(schema.lastEditedTime()).toEqual({ last_edited_time: {} });
+      expect(schema.lastEditedBy()).toEqual({ last_edited_by: {} });
+    });
+
+    it('should add a description', () => {
+      expect(schema.richText({ description: 'Notes' })).toEqual({
+        rich_text: {},
+        description: 'Notes',
+      });
+    });
+  });
+
+  describe('number', () => {
+    it('should create a number configuration with an optional format', () => {
+      expect(schema.number()).toEqual({ number: {} });
+      expect(schema.number('dollar')).toEqual({ number: { format: 'dollar' } });
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => schema.number('doubloon' as 'dollar')).toThrow(NotionValidationError);
+    });
+  });
+
+  describe('select and multiSelect', () => {
+    it('should create options from names and option objects', () => {
+      expect(schema.select([{ name: 'High', color: 'red' }, 'Low'])).toEqual({
+        select: { options: [{ name: 'High', color: 'red' }, { name: 'Low' }] },
+      });
+      expect(schema.multiSelect(['urgent'])).toEqual({
+        multi_select: { options: [{ name: 'urgent' }] },
+      });
+    });
+
+    it('should reject option names with commas', () => {
+      expect(() => schema.select(['A, B'])).toThrow(
+        'Invalid select property schema at select.options.0.name: Option names cannot contain commas',
+      );
+    });
+
+    it('should reject invalid colors', () => {
+      expect(() => schema.multiSelect([{ name: 'A', color: 'teal' as 'red' }])).toThrow(
+        /multi_select\.options\.0\.color/,
+      );
+    });
+  });
+
+  describe('formula', () => {
+    it('should create a formula configuration', () => {
+      expect(schema.formula('prop("Price") * 2')).toEqual({
+        formula: { expression: 'prop("Price") * 2' },
+      });
+    });
+
+    it('should reject an empty expression', () => {
+      expect(() => schema.formula('')).toThrow(NotionValidationError);
+    });
+  });
+
+  describe('relation', () => {
+    it('should create a one-way relation by default', () => {
+      expect(schema.relation('ds-1')).toEqual({
+        relation: { data_source_id: 'ds-1', type: 'single_property', single_property: {} },
+      });
+    });
+
+    it('should create a two-way relation', () => {
+      expect(schema.relation('ds-1', { dual: 'Back', description: 'Linked' })).toEqual({
+        relation: {
+          data_source_id: 'ds-1',
+          type: 'dual_property',
+          dual_property: { synced_property_name: 'Back' },
+        },
+        description: 'Linked',
+      });
+      expect(schema.relation('ds-1', { dual: true }).relation).toMatchObject({
+        type: 'dual_property',
+        dual_property: {},
+      });
+    });
+
+    it('should reject an empty data source ID', () => {
+      expect(() => schema.relation('')).toThrow(NotionValidationError);
+    });
+  });
+
+  describe('rollup', () => {
+    it('should reference properties by name', () => {
+      expect(schema.rollup('Tasks', 'Estimate', 'sum')).toEqual({
+        rollup: {
+          relation_property_name: 'Tasks',
+          rollup_property_name: 'Estimate',
+          function: 'sum',
+        },
+      });
+    });
+
+    it('should reject unknown functions', () => {
+      expect(() => schema.rollup('Tasks', 'Estimate', 'total' as 'sum')).toThrow(
+        /rollup\.function/,
+      );
+    });
+  });
+
+  describe('uniqueId', () => {
+    it('should create a unique ID configuration with an optional prefix', () => {
+      expect(schema.uniqueId()).toEqual({ unique_id: {} });
+      expect(schema.uniqueId('TASK')).toEqual({ unique_id: { prefix: 'TASK' } });
+    });
+  });
+
+  it('should cover every property type', () => {
+    const types = propertyObjectSchema.options.map((option) => option.shape.type.value);
+    const built = [
+      ...Object.values(schema)
+        .filter((helper) => helper.length <= 1)
+        .map((helper) => (helper as () => object)()),
+      schema.number(),
+      schema.uniqueId(),
+      schema.select([]),
+      schema.multiSelect([]),
+      schema.formula('1'),
+      schema.relation('ds-1'),
+      schema.rollup('Tasks', 'Estimate', 'sum'),
+    ];
+
+    for (const configuration of built) {
+      expect(propertyConfigurationSchema.safeParse(configuration).success).toBe(true);
+    }
+    expect(new Set(built.flatMap((configuration) => Object.keys(configuration)))).toEqual(
+      new Set(types),
+    );
+  });
+
+  it('should build properties for databases.create and dataSources.update', async () => {
+    const fake = new FakeNotion();
+    const notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+
+    const database = await notion.databases.create({
+      parent: { type: 'workspace', workspace: true },
+      initial_data_source: {
+        properties: {
+          Name: schema.title(),
+          Priority: schema.select([{ name: 'High', color: 'red' }, 'Low']),
+          Price: schema.number('dollar'),
+          Stage: schema.status(),
+          ID: schema.uniqueId('TASK'),
+        },
+      },
+    });
+    const dataSourceId = database.dataSources[0]!.id;
+    await notion.dataSources.update(dataSourceId, {
+      properties: { Parent: schema.relation(dataSourceId, { dual: 'Children' }) },
+    });
+
+    const dataSource = await notion.dataSources.retrieve(dataSourceId);
+    expect(dataSource.getProperty('Price')).toMatchObject({ number: { format: 'dollar' } });
+    expect(dataSource.getProperty('ID')).toMatchObject({ unique_id: { prefix: 'TASK' } });
+    expect(dataSource.getProperty('Parent')).toMatchObject({
+      relation: { data_source_id: dataSourceId },
+    });
+    expect(dataSource.getProperty('Stage')?.type).toBe('status');
+  });
+});
@@ -0,0 +1,484 @@
+import type { z } from 'zod';
+import {
+  formulaConfigurationSchema,
+  type FormulaPropertyConfiguration,
+  multiSelectConfigurationSchema,
+  type MultiSelectPropertyConfiguration,
+  type NotionNumberFormat,
+  type NotionPropertyOptionRequest,
+  type NotionRollupFunction,
+  numberConfigurationSchema,
+  type NumberPropertyConfiguration,
+  relationConfigurationSchema,
+  type RelationPropertyConfiguration,
+  rollupConfigurationSchema,
+  type RollupPropertyConfiguration,
+  selectConfigurationSchema,
+  type SelectPropertyConfiguration,
+  uniqueIdConfigurationSchema,
+  type UniqueIdPropertyConfiguration,
+} from '../schemas';
+import { NotionValidationError } from '../validation';
+
+// ---------------------------------------------------------------------------
+// Shared types
+// ---------------------------------------------------------------------------
+
+/** Options accepted by every property schema helper. */
+interface PropertySchemaOptions {
+  /** Property description shown in Notion */
+  description?: string;
+}
+
+/** A property configuration without settings, such as `{ checkbox: {} }`. */
+type EmptyConfiguration<T extends string> = { [K in T]: Record<string, never> } & {
+  description?: string;
+};
+
+/** A select or multi-select option, or just its name. */
+type OptionInput = string | NotionPropertyOptionRequest;
+
+/** Options for relation properties. */
+interface RelationSchemaOptions extends PropertySchemaOptions {
+  /**
+   * Make the relation two-way. A string names the synced property created on
+   * the related data source; `true` lets Notion name it.
+   */
+  dual?: string | boolean;
+}
+
+/** Add the shared options to a configuration. */
+function withOptions<T extends object>(
+  configuration: T,
+  options?: PropertySchemaOptions,
+): T & PropertySchemaOptions {
+  return options?.description === undefined
+    ? configuration
+    : { ...configuration, description: options.description };
+}
+
+/** Validate a configuration, turning the first issue into a `NotionValidationError`. */
+function validate<T>(configurationSchema: z.ZodType<T>, configuration: T, type: string): T {
+  const result = configurationSchema.safeParse(configuration);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.map(String).join('.') ?? type;
+    throw new NotionValidationError(
+      `Invalid ${type} property schema at ${path}: ${issue?.message ?? 'unknown error'}`,
+    );
+  }
+  return configuration;
+}
+
+/** Resolve option input to an option request. */
+function resolveOption(option: OptionInput): NotionPropertyOptionRequest {
+  return typeof option === 'string' ? { name: option } : option;
+}
+
+/** Create a configuration for a property type without settings. */
+function empty<T extends string>(type: T, options?: PropertySchemaOptions): EmptyConfiguration<T> {
+  return withOptions({ [type]: {} } as { [K in T]: Record<string, never> }, options);
+}
+
+// ---------------------------------------------------------------------------
+// Property schema helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a title property schema. Every data source has exactly one.
+ *
+ * @example
+ * ```ts
+ * schema.title()
+ * ```
+ */
+function title(options?: PropertySchemaOptions): EmptyConfiguration<'title'> {
+  return empty('title', options);
+}
+
+/**
+ * Create a rich text property schema.
+ *
+ * @example
+ * ```ts
+ * schema.richText({ description: 'Free-form notes' })
+ * ```
+ */
+function richText(options?: PropertySchemaOptions): EmptyConfiguration<'rich_text'> {
+  return empty('rich_text', options);
+}
+
+/**
+ * Create a number property schema.
+ *
+ * @example
+ * ```ts
+ * schema.number()
+ * schema.number('dollar')
+ * ```
+ */
+function number(
+  format?: NotionNumberFormat,
+  options?: PropertySchemaOptions,
+): NumberPropertyConfiguration {
+  return validate(
+    numberConfigurationSchema,
+    withOptions({ number: format === undefined ? {} : { format } }, options),
+    'number',
+  );
+}
+
+/**
+ * Create a select property schema.
+ *
+ * @example
+ * ```ts
+ * schema.select([{ name: 'High', color: 'red' }, { name: 'Low', color: 'gray' }])
+ * schema.select(['Bug', 'Feature'])
+ * ```
+ */
+function select(
+  choices: OptionInput[],
+  options?: PropertySchemaOptions,
+): SelectPropertyConfiguration {
+  return validate(
+    selectConfigurationSchema,
+    withOptions({ select: { options: choices.map(resolveOption) } }, options),
+    'select',
+  );
+}
+
+/**
+ * Create a multi-select property schema.
+ *
+ * @example
+ * ```ts
+ * schema.multiSelect([{ name: 'urgent', color: 'red' }, 'frontend'])
+ * ```
+ */
+function multiSelect(
+  choices: OptionInput[],
+  options?: PropertySchemaOptions,
+): MultiSelectPropertyConfiguration {
+  return validate(
+    multiSelectConfigurationSchema,
+    withOptions({ multi_select: { options: choices.map(resolveOption) } }, options),
+    'multi_select',
+  );
+}
+
+/**
+ * Create a status property schema. Notion creates the default "Not started",
+ * "In progress" and "Done" options and their groups; the API cannot set them.
+ *
+ * @example
+ * ```ts
+ * schema.status()
+ * ```
+ */
+function status(options?: PropertySchemaOptions): EmptyConfiguration<'status'> {
+  return empty('status', options);
+}
+
+/**
+ * Create a date property schema.
+ *
+ * @example
+ * ```ts
+ * schema.date()
+ * ```
+ */
+function date(options?: PropertySchemaOptions): EmptyConfiguration<'date'> {
+  return empty('date', options);
+}
+
+/**
+ * Create a people property schema.
+ *
+ * @example
+ * ```ts
+ * schema.people()
+ * ```
+ */
+function people(options?: PropertySchemaOptions): EmptyConfiguration<'people'> {
+  return empty('people', options);
+}
+
+/**
+ * Create a files property schema.
+ *
+ * @example
+ * ```ts
+ * schema.files()
+ * ```
+ */
+function files(options?: PropertySchemaOptions): EmptyConfiguration<'files'> {
+  return empty('files', options);
+}
+
+/**
+ * Create a checkbox property schema.
+ *
+ * @example
+ * ```ts
+ * schema.checkbox()
+ * ```
+ */
+function checkbox(options?: PropertySchemaOptions): EmptyConfiguration<'checkbox'> {
+  return empty('checkbox', options);
+}
+
+/**
+ * Create a URL property schema.
+ *
+ * @example
+ * ```ts
+ * schema.url()
+ * ```
+ */
+function url(options?: PropertySchemaOptions): EmptyConfiguration<'url'> {
+  return empty('url', options);
+}
+
+/**
+ * Create an email property schema.
+ *
+ * @example
+ * ```ts
+ * schema.email()
+ * ```
+ */
+function email(options?: PropertySchemaOptions): EmptyConfiguration<'email'> {
+  return empty('email', options);
+}
+
+/**
+ * Create a phone number property schema.
+ *
+ * @example
+ * ```ts
+ * schema.phoneNumber()
+ * ```
+ */
+function phoneNumber(options?: PropertySchemaOptions): EmptyConfiguration<'phone_number'> {
+  return empty('phone_number', options);
+}
+
+/**
+ * Create a place property schema.
+ *
+ * @example
+ * ```ts
+ * schema.place()
+ * ```
+ */
+function place(options?: PropertySchemaOptions): EmptyConfiguration<'place'> {
+  return empty('place', options);
+}
+
+/**
+ * Create a formula property schema.
+ *
+ * @example
+ * ```ts
+ * schema.formula('prop("Price") * prop("Quantity")')
+ * ```
+ */
+function formula(
+  expression: string,
+  options?: PropertySchemaOptions,
+): FormulaPropertyConfiguration {
+  return validate(
+    formulaConfigurationSchema,
+    withOptions({ formula: { expression } }, options),
+    'formula',
+  );
+}
+
+/**
+ * Create a relation property schema pointing at another data source.
+ *
+ * @example
+ * ```ts
+ * schema.relation('data-source-id')
+ * schema.relation('data-source-id', { dual: 'Tasks' }) // two-way, synced as "Tasks"
+ * ```
+ */
+function relation(
+  dataSourceId: string,
+  options?: RelationSchemaOptions,
+): RelationPropertyConfiguration {
+  const dual = options?.dual ?? false;
+  const configuration =
+    dual === false
+      ? {
+          data_source_id: dataSourceId,
+          type: 'single_property' as const,
+          single_property: {},
+        }
+      : {
+          data_source_id: dataSourceId,
+          type: 'dual_property' as const,
+          dual_property: dual === true ? {} : { synced_property_name: dual },
+        };
+
+  return validate(
+    relationConfigurationSchema,
+    withOptions({ relation: configuration }, options),
+    'relation',
+  );
+}
+
+/**
+ * Create a rollup property schema that aggregates a property of related pages.
+ *
+ * @param relationProperty - Name of the relation property on this data source
+ * @param rollupProperty - Name of the property to aggregate on the related data source
+ * @param fn - Aggregation function
+ *
+ * @example
+ * ```ts
+ * schema.rollup('Tasks', 'Estimate', 'sum')
+ * ```
+ */
+function rollup(
+  relationProperty: string,
+  rollupProperty: string,
+  fn: NotionRollupFunction,
+  options?: PropertySchemaOptions,
+): RollupPropertyConfiguration {
+  return validate(
+    rollupConfigurationSchema,
+    withOptions(
+      {
+        rollup: {
+          relation_property_name: relationProperty,
+          rollup_property_name: rollupProperty,
+          function: fn,
+        },
+      },
+      options,
+    ),
+    'rollup',
+  );
+}
+
+/**
+ * Create a unique ID property schema.
+ *
+ * @example
+ * ```ts
+ * schema.uniqueId()
+ * schema.uniqueId('TASK') // IDs like TASK-42
+ * ```
+ */
+function uniqueId(
+  prefix?: string | null,
+  options?: PropertySchemaOptions,
+): UniqueIdPropertyConfiguration {
+  return validate(
+    uniqueIdConfigurationSchema,
+    withOptions({ unique_id: prefix === undefined ? {} : { prefix } }, options),
+    'unique_id',
+  );
+}
+
+/**
+ * Create a created time property schema.
+ *
+ * @example
+ * ```ts
+ * schema.createdTime()
+ * ```
+ */
+function createdTime(options?: PropertySchemaOptions): EmptyConfiguration<'created_time'> {
+  return empty('created_time', options);
+}
+
+/**
+ * Create a created by property schema.
+ *
+ * @example
+ * ```ts
+ * schema.createdBy()
+ * ```
+ */
+function createdBy(options?: PropertySchemaOptions): EmptyConfiguration<'created_by'> {
+  return empty('created_by', options);
+}
+
+/**
+ * Create a last edited time property schema.
+ *
+ * @example
+ * ```ts
+ * schema.lastEditedTime()
+ * ```
+ */
+function lastEditedTime(options?: PropertySchemaOptions): EmptyConfiguration<'last_edited_time'> {
+  return empty('last_edited_time', options);
+}
+
+/**
+ * Create a last edited by property schema.
+ *
+ * @example
+ * ```ts
+ * schema.lastEditedBy()
+ * ```
+ */
+function lastEditedBy(options?: PropertySchemaOptions): EmptyConfiguration<'last_edited_by'> {
+  return empty('last_edited_by', options);
+}
+
+// ---------------------------------------------------------------------------
+// Public export
+// ---------------------------------------------------------------------------
+
+/**
+ * Factory functions for constructing data source property schemas, for the
+ * `properties` of `dataSources.create`, `dataSources.update` and
+ * `databases.create`. Configurations are validated before they are returned,
+ * throwing `NotionValidationError` on invalid input.
+ *
+ * @example
+ * ```ts
+ * import { schema } from '@visus-io/notion-sdk-ts';
+ *
+ * notion.dataSources.create({
+ *   parent: { database_id: 'db-id' },
+ *   properties: {
+ *     Name: schema.title(),
+ *     Priority: schema.select([{ name: 'High', color: 'red' }, { name: 'Low' }]),
+ *     Price: schema.number('dollar'),
+ *     Total: schema.formula('prop("Price") * 2'),
+ *     Project: schema.relation('projects-data-source-id', { dual: 'Tasks' }),
+ *     ID: schema.uniqueId('TASK'),
+ *   },
+ * });
+ * ```
+ */
+export const schema = {
+  title,
+  richText,
+  number,
+  select,
+  multiSelect,
+  status,
+  date,
+  people,
+  files,
+  checkbox,
+  url,
+  email,
+  phoneNumber,
+  place,
+  formula,
+  relation,
+  rollup,
+  uniqueId,
+  createdTime,
+  createdBy,
+  lastEditedTime,
+  lastEditedBy,
+};
@@ -1,6 +1,44 @@
 // Export main SDK class
-export { Notion } from './notion';
-export type { NotionClientOptions } from './client';
+export { Notion, NotionOAuth } from './notion';
+export type {
+  CallOptions,
+  MiddlewareResponse,
+  NotionClientOptions,
+  NotionMiddleware,
+  NotionOAuthClientOptions,
+  NotionTokenProvider,
+  RequestOptions,
+  RetryContext,
+  RetryOptions,
+} from './client';
+export { RateLimiter } from './rateLimiter';
+export type { RateLimiterOptions, RequestPriority } from './rateLimiter';
+export { generateDataSourceTypes, generateDataSourceTypesById } from './codegen';
+export type { GenerateTypesOptions } from './codegen';
+export { NotionWebhooks, verifyWebhookSignature } from './webhooks';
+export type {
+  NotionWebhooksOptions,
+  WebhookHandler,
+  WebhookHandlers,
+  WebhookRequest,
+  WebhookResponse,
+} from './webhooks';
+export {
+  applyMigration,
+  formatMigrationPlan,
+  migrateDataSource,
+  NotionMigrationError,
+  planMigration,
+} from './migrations';
+export type {
+  ApplyMigrationOptions,
+  DesiredProperties,
+  DesiredProperty,
+  MigrateDataSourceOptions,
+  MigrationPlan,
+  MigrationStep,
+  PlanMigrationOptions,
+} from './migrations';
 
 // Export API namespaces
 export * from './api';
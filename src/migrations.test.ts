@@ -0,0 +1,249 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeNotion } from './fake';
+import {
+  applyMigration,
+  type DesiredProperties,
+  formatMigrationPlan,
+  migrateDataSource,
+  NotionMigrationError,
+  planMigration,
+} from './migrations';
+import { DataSource } from './models';
+import { Notion } from './notion';
+import type { NotionPropertiesObject } from './schemas';
+import { NotionValidationError } from './validation';
+
+describe('migrations', () => {
+  const user = { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' };
+
+  const dataSource = (properties: NotionPropertiesObject): DataSource =>
+    new DataSource({
+      object: 'data_source',
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      properties,
+      parent: { type: 'database_id', database_id: '223e4567-e89b-12d3-a456-426614174000' },
+      database_parent: { type: 'workspace', workspace: true },
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: user,
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: user,
+      title: [],
+      description: [],
+      icon: null,
+      cover: null,
+      url: 'https://notion.so/data-source',
+      public_url: null,
+      is_inline: false,
+      archived: false,
+      in_trash: false,
+    });
+
+  const live = dataSource({
+    Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+    Points: { id: 'p%3Bt', name: 'Points', type: 'number', number: { format: 'number' } },
+    Priority: {
+      id: 'pri',
+      name: 'Priority',
+      type: 'select',
+      select: {
+        options: [
+          { id: 'h', name: 'High', color: 'red' },
+          { id: 'l', name: 'Low', color: 'gray' },
+        ],
+      },
+    },
+    Notes: { id: 'n', name: 'Notes', type: 'rich_text', rich_text: {} },
+    Legacy: { id: 'leg', name: 'Legacy', type: 'checkbox', checkbox: {} },
+  } as NotionPropertiesObject);
+
+  describe('planMigration', () => {
+    it('should report no steps for a matching declaration', () => {
+      const plan = planMigration(live, {
+        Name: { title: {} },
+        Points: { number: { format: 'number' } },
+        Priority: { select: { options: [{ name: 'High' }, { name: 'Low', color: 'gray' }] } },
+        Notes: { rich_text: {} },
+        Legacy: { checkbox: {} },
+      });
+
+      expect(plan).toEqual({
+        dataSourceId: live.id,
+        steps: [],
+        destructive: false,
+        properties: {},
+      });
+      expect(formatMigrationPlan(plan)).toBe(`Data source ${live.id} is up to date.`);
+    });
+
+    it('should plan adds, renames, type changes, option changes and removals', () => {
+      const plan = planMigration(live, {
+        Task: { title: {} },
+        'Story Points': { id: 'p;t', number: { format: 'dollar' } },
+        Priority: {
+          select: {
+            options: [
+              { name: 'High', color: 'red' },
+              { name: 'Urgent', color: 'purple' },
+            ],
+          },
+        },
+        Notes: { date: {} },
+        Estimate: { number: { format: 'number' }, description: 'Hours' },
+      });
+
+      expect(plan.steps).toEqual([
+        { kind: 'rename', property: 'Task', from: 'Name', propertyId: 'title', destructive: false },
+        {
+          kind: 'rename',
+          property: 'Story Points',
+          from: 'Points',
+          propertyId: 'p%3Bt',
+          destructive: false,
+        },
+        { kind: 'update', property: 'Story Points', type: 'number', destructive: false },
+        { kind: 'add_options', property: 'Priority', options: ['Urgent'], destructive: false },
+        { kind: 'remove_options', property: 'Priority', options: ['Low'], destructive: true },
+        {
+          kind: 'change_type',
+          property: 'Notes',
+          from: 'rich_text',
+          to: 'date',
+          destructive: true,
+        },
+        { kind: 'add', property: 'Estimate', type: 'number', destructive: false },
+        { kind: 'remove', property: 'Legacy', type: 'checkbox', destructive: true },
+      ]);
+      expect(plan.destructive).toBe(true);
+      expect(plan.properties).toEqual({
+        title: { name: 'Task' },
+        'p%3Bt': { name: 'Story Points', number: { format: 'dollar' } },
+        pri: {
+          select: {
+            options: [
+              { id: 'h', name: 'High' },
+              { name: 'Urgent', color: 'purple' },
+            ],
+          },
+        },
+        n: { date: {} },
+        Estimate: { number: { format: 'number' }, description: 'Hours' },
+        leg: null,
+      });
+    });
+
+    it('should keep undeclared properties when asked', () => {
+      const plan = planMigration(live, { Name: { title: {} } }, { removeUndeclared: false });
+
+      expect(plan.steps).toEqual([]);
+    });
+
+    it('should reject declarations without exactly one type or with unknown IDs', () => {
+      expect(() => planMigration(live, { Name: {} })).toThrow(NotionValidationError);
+      expect(() => planMigration(live, { Name: { title: {}, number: {} } })).toThrow(
+        /exactly one property type, found 2/,
+      );
+      expect(() => planMigration(live, { Name: { id: 'missing', title: {} } })).toThrow(
+        /refers to ID "missing"/,
+      );
+    });
+  });
+
+  describe('formatMigrationPlan', () => {
+    it('should mark additions, safe changes and destructive changes', () => {
+      const plan = planMigration(live, {
+        Name: { title: {} },
+        Points: { number: { format: 'number' } },
+        Priority: { select: { options: [{ name: 'High' }, { name: 'Low' }, { name: 'New' }] } },
+        Notes: { rich_text: {} },
+        Estimate: { number: {} },
+      });
+
+      expect(formatMigrationPlan(plan)).toBe(
+        [
+          `Migration plan for data source ${live.id}: 3 changes, 1 destructive`,
+          '  ~ add options to "Priority": New',
+          '  + add "Estimate" (number)',
+          '  ! remove "Legacy" (checkbox)',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('applying', () => {
+    let notion: Notion;
+    let dataSourceId: string;
+
+    const desired: DesiredProperties = {
+      Task: { title: {} },
+      Priority: {
+        select: {
+          options: [
+            { name: 'High', color: 'red' },
+            { name: 'Urgent', color: 'purple' },
+          ],
+        },
+      },
+      Estimate: { number: { format: 'number' } },
+    };
+
+    beforeEach(async () => {
+      const fake = new FakeNotion();
+      notion = new Notion({ auth: 'test', fetch: fake.fetch, rateLimit: false });
+      const database = await notion.databases.create({
+        parent: { type: 'workspace', workspace: true },
+        title: [{ type: 'text', text: { content: 'Tasks' } }],
+        initial_data_source: {
+          properties: {
+            Name: { title: {} },
+            Priority: {
+              select: {
+                options: [
+                  { name: 'High', color: 'red' },
+                  { name: 'Low', color: 'gray' },
+                ],
+              },
+            },
+          },
+        },
+      });
+      dataSourceId = database.dataSources[0]!.id;
+    });
+
+    it('should refuse destructive plans unless allowed', async () => {
+      const plan = planMigration(await notion.dataSources.retrieve(dataSourceId), desired);
+
+      await expect(applyMigration(notion, plan)).rejects.toThrow(NotionMigrationError);
+      await expect(applyMigration(notion, plan)).rejects.toMatchObject({
+        steps: [{ kind: 'remove_options', property: 'Priority', options: ['Low'] }],
+      });
+    });
+
+    it('should apply plans through dataSources.update', async () => {
+      const dryRun = await migrateDataSource(notion, dataSourceId, desired, { dryRun: true });
+      expect(dryRun.steps).toHaveLength(4);
+
+      await migrateDataSource(notion, dataSourceId, desired, { allowDestructive: true });
+
+      const migrated = await notion.dataSources.retrieve(dataSourceId);
+      expect(migrated.getPropertyNames().sort()).toEqual(['Estimate', 'Priority', 'Task']);
+      const priority = migrated.getProperty('Priority');
+      expect(
+        priority?.type === 'select' && priority.select.options.map((option) => option.name),
+      ).toEqual(['High', 'Urgent']);
+      expect(planMigration(migrated, desired).steps).toEqual([]);
+    });
+  });
+});
+
+describe('NotionMigrationError', () => {
+  it('should create an error with the blocked steps', () => {
+    const steps = [
+      { kind: 'remove' as const, property: 'Legacy', type: 'checkbox', destructive: true },
+    ];
+    const error = new NotionMigrationError('Migration has destructive steps', steps);
+
+    expect(error.name).toBe('NotionMigrationError');
+    expect(error.steps).toEqual(steps);
+    expect(error).toBeInstanceOf(Error);
+  });
+});
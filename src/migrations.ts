@@ -0,0 +1,521 @@
+import type { CallOptions } from './client';
+import type { DataSource } from './models';
+import type { Notion } from './notion';
+import type {
+  NotionPropertyConfiguration,
+  NotionPropertyConfigurationUpdate,
+  NotionPropertyObject,
+  NotionPropertyOptionRequest,
+} from './schemas';
+import { NotionValidationError } from './validation';
+
+/**
+ * A property in a declared data source schema, in the format `dataSources.update`
+ * accepts: one key naming the property type, holding its configuration. The
+ * `schema.*` helpers build these.
+ *
+ * Set `id` to the live property's ID to rename it instead of adding a new property.
+ *
+ * @example
+ * ```ts
+ * { select: { options: [{ name: 'High', color: 'red' }] } }
+ * { id: 'a%3Bc', number: { format: 'dollar' } }
+ * schema.select([{ name: 'High', color: 'red' }])
+ * ```
+ */
+export type DesiredProperty = NotionPropertyConfiguration & {
+  /** ID of the live property this declaration describes (enables renames) */
+  id?: string;
+};
+
+/**
+ * A declared data source schema, keyed by property name.
+ */
+export type DesiredProperties = Record<string, DesiredProperty>;
+
+/**
+ * One change in a migration plan.
+ */
+export type MigrationStep = {
+  /** Whether the change can lose data (removals and type changes) */
+  destructive: boolean;
+} & (
+  | { kind: 'add'; property: string; type: string }
+  | { kind: 'rename'; property: string; from: string; propertyId: string }
+  | { kind: 'change_type'; property: string; from: string; to: string }
+  | { kind: 'update'; property: string; type: string }
+  | { kind: 'add_options'; property: string; options: string[] }
+  | { kind: 'remove_options'; property: string; options: string[] }
+  | { kind: 'remove'; property: string; type: string }
+);
+
+/**
+ * The changes needed to bring a data source to a declared schema.
+ */
+export interface MigrationPlan {
+  /** The data source the plan was computed against */
+  dataSourceId: string;
+
+  /** Changes in declaration order, followed by removals */
+  steps: MigrationStep[];
+
+  /** Whether any step is destructive */
+  destructive: boolean;
+
+  /** The `properties` body for `dataSources.update` */
+  properties: Record<string, NotionPropertyConfigurationUpdate | null>;
+}
+
+/**
+ * Options for planning a migration.
+ */
+export interface PlanMigrationOptions {
+  /** Remove live properties missing from the declaration (default: true) */
+  removeUndeclared?: boolean;
+}
+
+/**
+ * Options for applying a migration.
+ */
+export interface ApplyMigrationOptions {
+  /** Apply removals and type changes (default: false) */
+  allowDestructive?: boolean;
+}
+
+/**
+ * Options for `migrateDataSource`.
+ */
+export interface MigrateDataSourceOptions extends PlanMigrationOptions, ApplyMigrationOptions {
+  /** Compute the plan without applying it (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Migration error (a plan with destructive changes was applied without `allowDestructive`).
+ */
+export class NotionMigrationError extends Error {
+  /** The destructive steps that blocked the migration */
+  readonly steps: MigrationStep[];
+
+  constructor(message: string, steps: MigrationStep[]) {
+    super(message);
+    this.name = 'NotionMigrationError';
+    this.steps = steps;
+
+    if ('captureStackTrace' in Error) {
+      (
+        Error as typeof Error & {
+          captureStackTrace: (obj: object, fn: (...args: unknown[]) => unknown) => void;
+        }
+      ).captureStackTrace(this, NotionMigrationError);
+    }
+  }
+}
+
+/** Property types `dataSources.update` can set; status options cannot be changed. */
+const PROPERTY_TYPES = new Set<string>([
+  'checkbox',
+  'created_by',
+  'created_time',
+  'date',
+  'email',
+  'files',
+  'formula',
+  'last_edited_by',
+  'last_edited_time',
+  'multi_select',
+  'number',
+  'people',
+  'phone_number',
+  'place',
+  'relation',
+  'rich_text',
+  'rollup',
+  'select',
+  'status',
+  'title',
+  'unique_id',
+  'url',
+]);
+
+function decodeId(id: string): string {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
+
+function typeOf(name: string, property: DesiredProperty): string {
+  const types = Object.keys(property).filter((key) => PROPERTY_TYPES.has(key));
+  if (types.length !== 1) {
+    throw new NotionValidationError(
+      `Property "${name}" must declare exactly one property type, found ${types.length}`,
+    );
+  }
+  return types[0];
+}
+
+/**
+ * Whether every value in `desired` equals the value at the same path in
+ * `live`. Keys only present in the live configuration (such as IDs assigned by
+ * Notion) are ignored.
+ */
+function isSubset(desired: unknown, live: unknown): boolean {
+  if (Array.isArray(desired)) {
+    return (
+      Array.isArray(live) &&
+      desired.length === live.length &&
+      desired.every((item, index) => isSubset(item, live[index]))
+    );
+  }
+  if (typeof desired === 'object' && desired !== null) {
+    if (typeof live !== 'object' || live === null) {
+      return false;
+    }
+    const liveRecord = live as Record<string, unknown>;
+    return Object.entries(desired).every(([key, value]) => isSubset(value, liveRecord[key]));
+  }
+  return desired === live;
+}
+
+/** The configuration under a property's type key, e.g. `property.number`. */
+function configOf(
+  property: NotionPropertyObject | NotionPropertyConfiguration,
+  type: string,
+): unknown {
+  return Object.entries(property).find(([key]) => key === type)?.[1];
+}
+
+/** The options of a select or multi_select property, or none for other types. */
+function optionsOf(
+  property: NotionPropertyObject | NotionPropertyConfiguration,
+): NotionPropertyOptionRequest[] {
+  if ('select' in property) {
+    return property.select.options;
+  }
+  if ('multi_select' in property) {
+    return property.multi_select.options;
+  }
+  return [];
+}
+
+/** The type-named configuration of a declaration, without its ID, name and description. */
+function configurationOf(desired: DesiredProperty): NotionPropertyConfiguration {
+  const { id: _id, name: _name, description: _description, ...configuration } = desired;
+  return configuration;
+}
+
+function findLive(
+  dataSource: DataSource,
+  name: string,
+  desired: DesiredProperty,
+  type: string,
+): NotionPropertyObject | undefined {
+  const live = Object.values(dataSource.properties);
+  if (desired.id !== undefined) {
+    const id = decodeId(desired.id);
+    const match = live.find((property) => decodeId(property.id) === id);
+    if (!match) {
+      throw new NotionValidationError(
+        `Property "${name}" refers to ID "${desired.id}", which is not in data source ${dataSource.id}`,
+      );
+    }
+    return match;
+  }
+
+  // A data source has exactly one title property, so a renamed title is still the same property
+  return (
+    dataSource.properties[name] ??
+    (type === 'title' ? live.find((property) => property.type === 'title') : undefined)
+  );
+}
+
+/**
+ * Merge declared select options with the live ones, keeping the IDs of
+ * existing options.
+ */
+function diffOptions(
+  desired: NotionPropertyOptionRequest[],
+  live: NotionPropertyOptionRequest[],
+): { added: string[]; removed: string[]; options: NotionPropertyOptionRequest[] } {
+  const liveByName = new Map(live.map((option) => [option.name, option]));
+  const desiredNames = new Set(desired.map((option) => option.name));
+
+  return {
+    added: desired.filter((option) => !liveByName.has(option.name)).map((option) => option.name),
+    removed: live.filter((option) => !desiredNames.has(option.name)).map((option) => option.name),
+    options: desired.map((option) => {
+      const existing = liveByName.get(option.name);
+      return existing ? { id: existing.id, name: option.name } : option;
+    }),
+  };
+}
+
+/**
+ * Diff a declared property configuration against the live one, returning the
+ * steps and the configuration to send (undefined when unchanged).
+ */
+function diffConfig(
+  name: string,
+  type: string,
+  configuration: NotionPropertyConfiguration,
+  live: NotionPropertyObject,
+): { steps: MigrationStep[]; configuration?: NotionPropertyConfiguration } {
+  if (live.type !== type) {
+    return {
+      steps: [
+        { kind: 'change_type', property: name, from: live.type, to: type, destructive: true },
+      ],
+      configuration,
+    };
+  }
+
+  if ('select' in configuration || 'multi_select' in configuration) {
+    const { added, removed, options } = diffOptions(optionsOf(configuration), optionsOf(live));
+    const steps: MigrationStep[] = [];
+    if (added.length > 0) {
+      steps.push({ kind: 'add_options', property: name, options: added, destructive: false });
+    }
+    if (removed.length > 0) {
+      steps.push({ kind: 'remove_options', property: name, options: removed, destructive: true });
+    }
+    if (steps.length === 0) {
+      return { steps };
+    }
+    return {
+      steps,
+      configuration:
+        'select' in configuration ? { select: { options } } : { multi_select: { options } },
+    };
+  }
+
+  // Status options cannot be changed through the API
+  if (type !== 'status' && !isSubset(configOf(configuration, type), configOf(live, type))) {
+    return {
+      steps: [{ kind: 'update', property: name, type, destructive: false }],
+      configuration,
+    };
+  }
+  return { steps: [] };
+}
+
+/**
+ * Diff one declared property against its live counterpart, returning the
+ * steps and the update body entry.
+ */
+function diffProperty(
+  name: string,
+  desired: DesiredProperty,
+  type: string,
+  live: NotionPropertyObject,
+): { steps: MigrationStep[]; entry: NotionPropertyConfigurationUpdate } {
+  const steps: MigrationStep[] = [];
+  let entry: NotionPropertyConfigurationUpdate = {};
+
+  if (live.name !== name) {
+    steps.push({
+      kind: 'rename',
+      property: name,
+      from: live.name,
+      propertyId: live.id,
+      destructive: false,
+    });
+    entry = { name };
+  }
+
+  const diff = diffConfig(name, type, configurationOf(desired), live);
+  steps.push(...diff.steps);
+  if (diff.configuration !== undefined) {
+    entry = { ...entry, ...diff.configuration };
+  }
+
+  if (desired.description !== undefined && desired.description !== (live.description ?? '')) {
+    if (!steps.some((step) => step.kind === 'update')) {
+      steps.push({ kind: 'update', property: name, type, destructive: false });
+    }
+    entry = { ...entry, description: desired.description };
+  }
+
+  return { steps, entry };
+}
+
+/**
+ * Compute the changes needed to bring a data source to a declared schema.
+ *
+ * Declared properties are matched to live ones by `id` when given, otherwise by
+ * name (a renamed title property is matched to the live title). The plan lists
+ * additions, renames, type changes, configuration updates, select option
+ * additions and removals, and removals of undeclared properties.
+ *
+ * @param dataSource - The live data source
+ * @param desired - The declared schema, keyed by property name
+ * @param options - Planning options
+ * @returns The migration plan
+ * @throws {NotionValidationError} If a declaration has no single property type or an unknown ID
+ */
+export function planMigration(
+  dataSource: DataSource,
+  desired: DesiredProperties,
+  options?: PlanMigrationOptions,
+): MigrationPlan {
+  const steps: MigrationStep[] = [];
+  const properties: MigrationPlan['properties'] = {};
+  const matched = new Set<string>();
+
+  for (const [name, declaration] of Object.entries(desired)) {
+    const type = typeOf(name, declaration);
+    const live = findLive(dataSource, name, declaration, type);
+
+    if (!live) {
+      steps.push({ kind: 'add', property: name, type, destructive: false });
+      properties[name] = {
+        ...configurationOf(declaration),
+        ...(declaration.description !== undefined && { description: declaration.description }),
+      };
+      continue;
+    }
+
+    matched.add(live.id);
+    const diff = diffProperty(name, declaration, type, live);
+    steps.push(...diff.steps);
+    if (Object.keys(diff.entry).length > 0) {
+      properties[live.id] = diff.entry;
+    }
+  }
+
+  if (options?.removeUndeclared ?? true) {
+    for (const live of Object.values(dataSource.properties)) {
+      if (!matched.has(live.id)) {
+        steps.push({ kind: 'remove', property: live.name, type: live.type, destructive: true });
+        properties[live.id] = null;
+      }
+    }
+  }
+
+  return {
+    dataSourceId: dataSource.id,
+    steps,
+    destructive: steps.some((step) => step.destructive),
+    properties,
+  };
+}
+
+function describeStep(step: MigrationStep): string {
+  switch (step.kind) {
+    case 'add':
+      return `add "${step.property}" (${step.type})`;
+    case 'rename':
+      return `rename "${step.from}" to "${step.property}"`;
+    case 'change_type':
+      return `change type of "${step.property}" from ${step.from} to ${step.to}`;
+    case 'update':
+      return `update "${step.property}" (${step.type})`;
+    case 'add_options':
+      return `add options to "${step.property}": ${step.options.join(', ')}`;
+    case 'remove_options':
+      return `remove options from "${step.property}": ${step.options.join(', ')}`;
+    case 'remove':
+      return `remove "${step.property}" (${step.type})`;
+  }
+}
+
+/**
+ * Render a migration plan as a human-readable dry run. Additions are marked
+ * `+`, other safe changes `~` and destructive changes `!`.
+ *
+ * @param plan - The plan to render
+ * @returns One line per step, after a summary line
+ */
+export function formatMigrationPlan(plan: MigrationPlan): string {
+  if (plan.steps.length === 0) {
+    return `Data source ${plan.dataSourceId} is up to date.`;
+  }
+
+  const destructive = plan.steps.filter((step) => step.destructive).length;
+  const changes = `${plan.steps.length} change${plan.steps.length === 1 ? '' : 's'}`;
+  const lines = [
+    `Migration plan for data source ${plan.dataSourceId}: ${changes}, ${destructive} destructive`,
+  ];
+  for (const step of plan.steps) {
+    let marker = '~';
+    if (step.destructive) {
+      marker = '!';
+    } else if (step.kind === 'add') {
+      marker = '+';
+    }
+    lines.push(`  ${marker} ${describeStep(step)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Apply a migration plan with `dataSources.update`.
+ *
+ * @param notion - The client to apply the plan with
+ * @param plan - The plan from `planMigration`
+ * @param options - Apply options
+ * @param callOptions - Per-call options such as an abort signal
+ * @returns The updated data source, or the plan's data source unchanged when there is nothing to do
+ * @throws {NotionMigrationError} If the plan is destructive and `allowDestructive` is not set
+ */
+export async function applyMigration(
+  notion: Notion,
+  plan: MigrationPlan,
+  options?: ApplyMigrationOptions,
+  callOptions?: CallOptions,
+): Promise<DataSource> {
+  if (plan.destructive && !options?.allowDestructive) {
+    const steps = plan.steps.filter((step) => step.destructive);
+    const changes = `${steps.length} destructive change${steps.length === 1 ? '' : 's'}`;
+    const details = steps.map((step) => `  ! ${describeStep(step)}`).join('\n');
+    throw new NotionMigrationError(
+      `Migration of data source ${plan.dataSourceId} has ${changes}; pass allowDestructive to apply:\n${details}`,
+      steps,
+    );
+  }
+
+  if (plan.steps.length === 0) {
+    return notion.dataSources.retrieve(plan.dataSourceId, undefined, callOptions);
+  }
+  return notion.dataSources.update(plan.dataSourceId, { properties: plan.properties }, callOptions);
+}
+
+/**
+ * Retrieve a data source, plan the migration to a declared schema, and apply
+ * it unless `dryRun` is set.
+ *
+ * @example
+ * ```ts
+ * const plan = await migrateDataSource(notion, 'ds-id', {
+ *   Name: { title: {} },
+ *   Priority: { select: { options: [{ name: 'High', color: 'red' }] } },
+ *   Estimate: { number: { format: 'number' } },
+ * }, { dryRun: true });
+ *
+ * console.log(formatMigrationPlan(plan));
+ * ```
+ *
+ * @param notion - The client to use
+ * @param dataSourceId - The ID of the data source to migrate
+ * @param desired - The declared schema, keyed by property name
+ * @param options - Planning and apply options
+ * @param callOptions - Per-call options such as an abort signal
+ * @returns The plan that was applied (or would be, for a dry run)
+ * @throws {NotionMigrationError} If the plan is destructive and `allowDestructive` is not set
+ */
+export async function migrateDataSource(
+  notion: Notion,
+  dataSourceId: string,
+  desired: DesiredProperties,
+  options?: MigrateDataSourceOptions,
+  callOptions?: CallOptions,
+): Promise<MigrationPlan> {
+  const dataSource = await notion.dataSources.retrieve(dataSourceId, undefined, callOptions);
+  const plan = planMigration(dataSource, desired, options);
+
+  if (!options?.dryRun) {
+    await applyMigration(notion, plan, options, callOptions);
+  }
+  return plan;
+}
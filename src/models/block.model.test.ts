@@ -113,4 +113,43 @@ describe('Block', () => {
     expect(block.isHeading()).toBe(false);
     expect(block.getPlainText()).toBe(null);
   });
+
+  it('should expose attached children and keep media captions', () => {
+    const base = {
+      object: 'block',
+      parent: { type: 'page_id', page_id: '223e4567-e89b-12d3-a456-426614174000' },
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: { object: 'user', id: '323e4567-e89b-12d3-a456-426614174000' },
+      archived: false,
+      in_trash: false,
+    };
+
+    const image = new Block({
+      ...base,
+      id: '423e4567-e89b-12d3-a456-426614174000',
+      type: 'image',
+      has_children: false,
+      image: {
+        type: 'external',
+        external: { url: 'https://example.com/a.png' },
+        caption: [],
+      },
+    });
+    const toggle = new Block(
+      {
+        ...base,
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        type: 'toggle',
+        has_children: true,
+        toggle: { rich_text: [], color: 'default' },
+      },
+      [image],
+    );
+
+    expect(toggle.children).toEqual([image]);
+    expect(image.children).toEqual([]);
+    expect(image.toJSON().image?.caption).toEqual([]);
+  });
 });
@@ -5,8 +5,11 @@ import { blockSchema, type NotionBlock } from '../schemas';
  * Block model wrapping a validated Notion block object with helper methods.
  */
 export class Block extends BaseModel<NotionBlock> {
-  constructor(data: unknown) {
+  private readonly childBlocks: Block[];
+
+  constructor(data: unknown, children: Block[] = []) {
     super(data as NotionBlock, blockSchema);
+    this.childBlocks = children;
   }
 
   get object(): string {
@@ -41,6 +44,14 @@ export class Block extends BaseModel<NotionBlock> {
     return this.data.has_children;
   }
 
+  /**
+   * Returns the nested child blocks.
+   * Only populated when the block was fetched as part of a block tree.
+   */
+  get children(): Block[] {
+    return this.childBlocks;
+  }
+
   /**
    * Check if this is a text-based block type.
    */
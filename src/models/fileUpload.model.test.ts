@@ -158,6 +158,28 @@ describe('FileUpload', () => {
     expect(fileUpload.contentLength).toBeNull();
   });
 
+  it('should expose multi-part upload details', () => {
+    const fileUploadData = {
+      object: 'file_upload' as const,
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      created_time: '2023-01-01T00:00:00.000Z',
+      expiry_time: null,
+      status: 'pending' as const,
+      filename: 'video.mp4',
+      content_type: 'video/mp4',
+      content_length: 52428800,
+      upload_url: 'https://example.com/upload',
+      complete_url: 'https://example.com/complete',
+      file_import_result: '',
+      mode: 'multi_part' as const,
+      number_of_parts: { total: 5, sent: 2 },
+    };
+
+    const fileUpload = new FileUpload(fileUploadData);
+    expect(fileUpload.mode).toBe('multi_part');
+    expect(fileUpload.numberOfParts).toEqual({ total: 5, sent: 2 });
+  });
+
   it('should serialize to JSON', () => {
     const fileUploadData = {
       object: 'file_upload' as const,
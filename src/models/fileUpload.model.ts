@@ -1,5 +1,5 @@
 import { BaseModel } from './base.model';
-import { fileUploadSchema, type NotionFileUpload } from '../schemas';
+import { fileUploadSchema, type NotionFileImportResult, type NotionFileUpload } from '../schemas';
 
 /**
  * FileUpload model class with helper methods.
@@ -80,12 +80,26 @@ export class FileUpload extends BaseModel<NotionFileUpload> {
   }
 
   /**
-   * Returns the file import result.
+   * Returns the file import result (an object for uploads imported from an external URL).
    */
-  get fileImportResult(): string {
+  get fileImportResult(): string | NotionFileImportResult {
     return this.data.file_import_result;
   }
 
+  /**
+   * Returns the upload mode (undefined if not reported by the API).
+   */
+  get mode(): 'single_part' | 'multi_part' | 'external_url' | undefined {
+    return this.data.mode;
+  }
+
+  /**
+   * Returns the total and sent part counts of a multi-part upload.
+   */
+  get numberOfParts(): { total: number; sent: number } | undefined {
+    return this.data.number_of_parts ? { ...this.data.number_of_parts } : undefined;
+  }
+
   /**
    * Checks if the upload is pending.
    */
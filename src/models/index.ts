@@ -5,5 +5,13 @@ export { Database } from './database.model';
 export { DataSource } from './dataSource.model';
 export { FileUpload } from './fileUpload.model';
 export { Page } from './page.model';
+export type {
+  PageDate,
+  PageFile,
+  PagePlainDate,
+  PagePlainFile,
+  PagePlainValue,
+  PageVerification,
+} from './page.model';
 export { RichText } from './richText.model';
 export { User } from './user.model';
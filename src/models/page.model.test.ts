@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { NotionPropertyError } from '../errors';
 import { Page } from '.';
 
 describe('Page', () => {
@@ -238,4 +239,190 @@ describe('Page', () => {
     const page = new Page(pageData);
     expect(page.getTitle()).toBeNull();
   });
+
+  it('should report properties whose values may be truncated', () => {
+    const person = { object: 'user', id: '223e4567-e89b-12d3-a456-426614174000' };
+    const pageData = {
+      object: 'page',
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: person,
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: person,
+      archived: false,
+      in_trash: false,
+      icon: null,
+      cover: null,
+      properties: {
+        Name: { id: 'title', type: 'title', title: [] },
+        Related: {
+          id: 'rel',
+          type: 'relation',
+          relation: [{ id: '323e4567-e89b-12d3-a456-426614174000' }],
+          has_more: true,
+        },
+        Complete: { id: 'comp', type: 'relation', relation: [], has_more: false },
+        Team: { id: 'team', type: 'people', people: Array.from({ length: 25 }, () => person) },
+        Owners: { id: 'own', type: 'people', people: [person] },
+      },
+      parent: { type: 'workspace', workspace: true },
+      url: 'https://notion.so/page',
+      public_url: null,
+    };
+
+    const page = new Page(pageData);
+    expect(page.getTruncatedProperties()).toEqual(['Related', 'Team']);
+  });
+
+  describe('typed property getters', () => {
+    const person = { object: 'user', id: '223e4567-e89b-12d3-a456-426614174000' };
+    const text = (content: string) => ({
+      type: 'text',
+      text: { content, link: null },
+      annotations: {
+        bold: false,
+        italic: false,
+        strikethrough: false,
+        underline: false,
+        code: false,
+        color: 'default',
+      },
+      plain_text: content,
+      href: null,
+    });
+
+    const page = new Page({
+      object: 'page',
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      created_time: '2023-01-01T00:00:00.000Z',
+      created_by: person,
+      last_edited_time: '2023-01-02T00:00:00.000Z',
+      last_edited_by: person,
+      archived: false,
+      in_trash: false,
+      icon: null,
+      cover: null,
+      properties: {
+        Name: { id: 'title', type: 'title', title: [text('Write '), text('docs')] },
+        Notes: { id: 'n%3Ab', type: 'rich_text', rich_text: [text('Draft')] },
+        Points: { id: 'pts', type: 'number', number: 3 },
+        Done: { id: 'done', type: 'checkbox', checkbox: true },
+        Priority: {
+          id: 'pri',
+          type: 'select',
+          select: { id: 'h', name: 'High', color: 'red' },
+        },
+        Tags: {
+          id: 'tags',
+          type: 'multi_select',
+          multi_select: [
+            { id: 'a', name: 'docs', color: 'blue' },
+            { id: 'b', name: 'api', color: 'green' },
+          ],
+        },
+        State: { id: 'st', type: 'status', status: null },
+        Due: {
+          id: 'due',
+          type: 'date',
+          date: { start: '2023-03-01', end: '2023-03-05', time_zone: null },
+        },
+        Link: { id: 'url', type: 'url', url: 'https://example.com' },
+        Email: { id: 'em', type: 'email', email: null },
+        Phone: { id: 'ph', type: 'phone_number', phone_number: '555-0100' },
+        Assignees: { id: 'ppl', type: 'people', people: [person] },
+        Related: {
+          id: 'rel',
+          type: 'relation',
+          relation: [{ id: '323e4567-e89b-12d3-a456-426614174000' }],
+          has_more: false,
+        },
+        Score: { id: 'f', type: 'formula', formula: { type: 'number', number: 42 } },
+        Total: {
+          id: 'r',
+          type: 'rollup',
+          rollup: { type: 'number', function: 'sum', number: 7 },
+        },
+        Ticket: { id: 'uid', type: 'unique_id', unique_id: { prefix: 'TASK', number: 12 } },
+        Created: { id: 'ct', type: 'created_time', created_time: '2023-01-01T00:00:00.000Z' },
+        Author: { id: 'cb', type: 'created_by', created_by: person },
+      },
+      parent: { type: 'workspace', workspace: true },
+      url: 'https://notion.so/page',
+      public_url: null,
+    });
+
+    it('should read values of each property type', () => {
+      expect(page.getText('Name')).toBe('Write docs');
+      expect(page.getText('Notes')).toBe('Draft');
+      expect(page.getNumber('Points')).toBe(3);
+      expect(page.getCheckbox('Done')).toBe(true);
+      expect(page.getSelect('Priority')).toBe('High');
+      expect(page.getMultiSelect('Tags')).toEqual(['docs', 'api']);
+      expect(page.getStatus('State')).toBe(null);
+      expect(page.getDate('Due')).toEqual({
+        start: new Date('2023-03-01'),
+        end: new Date('2023-03-05'),
+        timeZone: null,
+      });
+      expect(page.getUrl('Link')).toBe('https://example.com');
+      expect(page.getEmail('Email')).toBe(null);
+      expect(page.getPhoneNumber('Phone')).toBe('555-0100');
+      expect(page.getPeople('Assignees')).toEqual([person]);
+      expect(page.getRelationIds('Related')).toEqual(['323e4567-e89b-12d3-a456-426614174000']);
+      expect(page.getFormula('Score')).toBe(42);
+      expect(page.getRollup('Total')).toBe(7);
+      expect(page.getUniqueId('Ticket')).toBe('TASK-12');
+      expect(page.getTimestamp('Created')).toEqual(new Date('2023-01-01T00:00:00.000Z'));
+      expect(page.getUser('Author')).toEqual(person);
+    });
+
+    it('should convert property values to plain JSON', () => {
+      expect(page.toPlainObject()).toEqual({
+        Name: 'Write docs',
+        Notes: 'Draft',
+        Points: 3,
+        Done: true,
+        Priority: 'High',
+        Tags: ['docs', 'api'],
+        State: null,
+        Due: { start: '2023-03-01', end: '2023-03-05' },
+        Link: 'https://example.com',
+        Email: null,
+        Phone: '555-0100',
+        Assignees: [person.id],
+        Related: ['323e4567-e89b-12d3-a456-426614174000'],
+        Score: 42,
+        Total: 7,
+        Ticket: 'TASK-12',
+        Created: '2023-01-01T00:00:00.000Z',
+        Author: person.id,
+      });
+    });
+
+    it('should look up properties by ID', () => {
+      expect(page.getNumber('pts')).toBe(3);
+      expect(page.getText('n:b')).toBe('Draft');
+      expect(page.getText('n%3Ab')).toBe('Draft');
+    });
+
+    it('should throw a NotionPropertyError for missing properties', () => {
+      expect(() => page.getNumber('Missing')).toThrow(NotionPropertyError);
+      expect(() => page.getNumber('Missing')).toThrow(/no property "Missing"/);
+    });
+
+    it('should throw a NotionPropertyError for mismatched property types', () => {
+      try {
+        page.getNumber('Notes');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(NotionPropertyError);
+        expect(error).toMatchObject({
+          property: 'Notes',
+          expectedTypes: ['number'],
+          actualType: 'rich_text',
+        });
+        expect((error as Error).message).toMatch(/is a rich_text property, expected number/);
+      }
+    });
+  });
 });
@@ -1,5 +1,193 @@
 import { BaseModel } from './base.model';
-import { type NotionPage, type NotionPageProperties, pageSchema } from '../schemas';
+import { NotionPropertyError } from '../errors';
+import {
+  type FilesProperty,
+  type NotionPage,
+  type NotionPageProperties,
+  type NotionRichText,
+  type NotionUser,
+  pagePropertiesSchema,
+  pageSchema,
+} from '../schemas';
+
+/** Number of entries page objects return for list-like property values. */
+const PROPERTY_VALUE_LIMIT = 25;
+
+type PropertyType = NotionPageProperties['type'];
+
+type PropertyOfType<T extends PropertyType> = Extract<NotionPageProperties, { type: T }>;
+
+/**
+ * A date or date range property value.
+ */
+export interface PageDate {
+  start: Date;
+  end?: Date;
+  timeZone: string | null;
+}
+
+/**
+ * A verification property value.
+ */
+export interface PageVerification {
+  state: 'verified' | 'unverified';
+  verifiedBy: NotionUser | null;
+  date: PageDate | null;
+}
+
+/**
+ * A file attached to a files property.
+ */
+export type PageFile = FilesProperty['files'][number];
+
+/**
+ * A date property value as a plain ISO 8601 string, or a `{ start, end }` pair for ranges.
+ */
+export type PagePlainDate = string | { start: string; end: string };
+
+/**
+ * A files property entry as a plain object. `url` is null for files that were
+ * attached through a file upload and have no URL yet. Files hosted by Notion
+ * (`type: 'file'`) have signed URLs that expire after an hour; entries without
+ * a `type` are treated as external links.
+ */
+export interface PagePlainFile {
+  name: string;
+  url: string | null;
+  type?: PageFile['type'];
+}
+
+/**
+ * A page property value converted to plain JSON by `Page.toPlainObject()`.
+ */
+export type PagePlainValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PagePlainDate
+  | PagePlainFile
+  | PagePlainValue[];
+
+function toPlainDate(date: { start: string; end: string | null } | null): PagePlainDate | null {
+  if (!date) {
+    return null;
+  }
+  return date.end === null ? date.start : { start: date.start, end: date.end };
+}
+
+/**
+ * Convert a property value to plain JSON. Rollup arrays hold property values
+ * without IDs, which are converted the same way.
+ */
+// eslint-disable-next-line complexity
+function toPlainValue(property: NotionPageProperties): PagePlainValue {
+  switch (property.type) {
+    case 'title':
+      return plainText(property.title);
+    case 'rich_text':
+      return plainText(property.rich_text);
+    case 'number':
+      return property.number;
+    case 'checkbox':
+      return property.checkbox;
+    case 'select':
+      return property.select?.name ?? null;
+    case 'multi_select':
+      return property.multi_select.map((option) => option.name);
+    case 'status':
+      return property.status?.name ?? null;
+    case 'date':
+      return toPlainDate(property.date);
+    case 'url':
+      return property.url;
+    case 'email':
+      return property.email;
+    case 'phone_number':
+      return property.phone_number;
+    case 'people':
+      return property.people.map((user) => user.id);
+    case 'relation':
+      return property.relation.map((relation) => relation.id);
+    case 'files':
+      return property.files.map((file) => ({
+        name: file.name,
+        url: file.external?.url ?? file.file?.url ?? null,
+        type: file.type,
+      }));
+    case 'formula':
+      return toPlainFormula(property.formula);
+    case 'rollup':
+      return toPlainRollup(property.rollup);
+    case 'unique_id':
+      return property.unique_id.prefix
+        ? `${property.unique_id.prefix}-${property.unique_id.number}`
+        : property.unique_id.number;
+    case 'verification':
+      return property.verification?.state ?? null;
+    case 'created_time':
+      return property.created_time;
+    case 'last_edited_time':
+      return property.last_edited_time;
+    case 'created_by':
+      return property.created_by.id;
+    case 'last_edited_by':
+      return property.last_edited_by.id;
+  }
+}
+
+function toPlainFormula(formula: PropertyOfType<'formula'>['formula']): PagePlainValue {
+  switch (formula.type) {
+    case 'string':
+      return formula.string;
+    case 'number':
+      return formula.number;
+    case 'boolean':
+      return formula.boolean;
+    case 'date':
+      return toPlainDate(formula.date);
+  }
+}
+
+function toPlainRollup(rollup: PropertyOfType<'rollup'>['rollup']): PagePlainValue {
+  switch (rollup.type) {
+    case 'number':
+      return rollup.number ?? null;
+    case 'date':
+      return toPlainDate(rollup.date ?? null);
+    case 'array':
+      return ((rollup.array ?? []) as unknown[]).map((item) => {
+        const parsed = pagePropertiesSchema.safeParse({ id: '', ...(item as object) });
+        return parsed.success ? toPlainValue(parsed.data) : null;
+      });
+    default:
+      return null;
+  }
+}
+
+function toPageDate(date: {
+  start: string;
+  end: string | null;
+  time_zone: string | null;
+}): PageDate {
+  return {
+    start: new Date(date.start),
+    ...(date.end !== null && { end: new Date(date.end) }),
+    timeZone: date.time_zone,
+  };
+}
+
+function plainText(richText: NotionRichText): string {
+  return richText.map((item) => item.plain_text).join('');
+}
+
+function decodePropertyId(id: string): string {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
 
 /**
  * Page model wrapping a validated Notion page object with helper methods.
@@ -46,10 +234,196 @@ export class Page extends BaseModel<NotionPage> {
   }
 
   /**
-   * Get a specific property by name.
+   * Get a specific property by name or property ID.
+   */
+  getProperty(nameOrId: string): NotionPageProperties | undefined {
+    return (
+      this.data.properties[nameOrId] ??
+      Object.values(this.data.properties).find(
+        (property) => property.id === nameOrId || decodePropertyId(property.id) === nameOrId,
+      )
+    );
+  }
+
+  /**
+   * Get the rich text of a title or rich text property.
+   */
+  getRichText(nameOrId: string): NotionRichText {
+    const property = this.expectProperty(nameOrId, 'title', 'rich_text');
+    return property.type === 'title' ? property.title : property.rich_text;
+  }
+
+  /**
+   * Get the plain text of a title or rich text property.
+   */
+  getText(nameOrId: string): string {
+    return plainText(this.getRichText(nameOrId));
+  }
+
+  /**
+   * Get the value of a number property.
+   */
+  getNumber(nameOrId: string): number | null {
+    return this.expectProperty(nameOrId, 'number').number;
+  }
+
+  /**
+   * Get the value of a checkbox property.
    */
-  getProperty(name: string): NotionPageProperties | undefined {
-    return this.data.properties[name];
+  getCheckbox(nameOrId: string): boolean {
+    return this.expectProperty(nameOrId, 'checkbox').checkbox;
+  }
+
+  /**
+   * Get the option name of a select property.
+   */
+  getSelect(nameOrId: string): string | null {
+    return this.expectProperty(nameOrId, 'select').select?.name ?? null;
+  }
+
+  /**
+   * Get the option names of a multi-select property.
+   */
+  getMultiSelect(nameOrId: string): string[] {
+    return this.expectProperty(nameOrId, 'multi_select').multi_select.map((option) => option.name);
+  }
+
+  /**
+   * Get the option name of a status property.
+   */
+  getStatus(nameOrId: string): string | null {
+    return this.expectProperty(nameOrId, 'status').status?.name ?? null;
+  }
+
+  /**
+   * Get the value of a date property.
+   */
+  getDate(nameOrId: string): PageDate | null {
+    const { date } = this.expectProperty(nameOrId, 'date');
+    return date && toPageDate(date);
+  }
+
+  /**
+   * Get the value of a URL property.
+   */
+  getUrl(nameOrId: string): string | null {
+    return this.expectProperty(nameOrId, 'url').url;
+  }
+
+  /**
+   * Get the value of an email property.
+   */
+  getEmail(nameOrId: string): string | null {
+    return this.expectProperty(nameOrId, 'email').email;
+  }
+
+  /**
+   * Get the value of a phone number property.
+   */
+  getPhoneNumber(nameOrId: string): string | null {
+    return this.expectProperty(nameOrId, 'phone_number').phone_number;
+  }
+
+  /**
+   * Get the users of a people property.
+   */
+  getPeople(nameOrId: string): NotionUser[] {
+    return this.expectProperty(nameOrId, 'people').people;
+  }
+
+  /**
+   * Get the related page IDs of a relation property.
+   * Page objects include at most 25 relations; see `getTruncatedProperties`.
+   */
+  getRelationIds(nameOrId: string): string[] {
+    return this.expectProperty(nameOrId, 'relation').relation.map((relation) => relation.id);
+  }
+
+  /**
+   * Get the files of a files property.
+   */
+  getFiles(nameOrId: string): PageFile[] {
+    return this.expectProperty(nameOrId, 'files').files;
+  }
+
+  /**
+   * Get the computed value of a formula property.
+   */
+  getFormula(nameOrId: string): string | number | boolean | PageDate | null {
+    const { formula } = this.expectProperty(nameOrId, 'formula');
+
+    switch (formula.type) {
+      case 'string':
+        return formula.string;
+      case 'number':
+        return formula.number;
+      case 'boolean':
+        return formula.boolean;
+      case 'date':
+        return toPageDate(formula.date);
+    }
+  }
+
+  /**
+   * Get the computed value of a rollup property: a number, a date, or the
+   * array of rolled-up property values. Incomplete and unsupported rollups
+   * return null.
+   */
+  getRollup(nameOrId: string): number | PageDate | unknown[] | null {
+    const { rollup } = this.expectProperty(nameOrId, 'rollup');
+
+    switch (rollup.type) {
+      case 'number':
+        return rollup.number ?? null;
+      case 'date':
+        return rollup.date ? toPageDate(rollup.date) : null;
+      case 'array':
+        return (rollup.array ?? []) as unknown[];
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get the value of a unique ID property, formatted as `PREFIX-123` (or `123` without a prefix).
+   */
+  getUniqueId(nameOrId: string): string {
+    const { unique_id } = this.expectProperty(nameOrId, 'unique_id');
+    return unique_id.prefix ? `${unique_id.prefix}-${unique_id.number}` : String(unique_id.number);
+  }
+
+  /**
+   * Get the value of a verification property (wiki pages).
+   */
+  getVerification(nameOrId: string): PageVerification | null {
+    const { verification } = this.expectProperty(nameOrId, 'verification');
+    if (!verification) {
+      return null;
+    }
+
+    return {
+      state: verification.state,
+      verifiedBy: verification.verified_by,
+      date: verification.date && toPageDate(verification.date),
+    };
+  }
+
+  /**
+   * Get the value of a created time or last edited time property.
+   */
+  getTimestamp(nameOrId: string): Date {
+    const property = this.expectProperty(nameOrId, 'created_time', 'last_edited_time');
+    return new Date(
+      property.type === 'created_time' ? property.created_time : property.last_edited_time,
+    );
+  }
+
+  /**
+   * Get the user of a created by or last edited by property.
+   */
+  getUser(nameOrId: string): NotionUser {
+    const property = this.expectProperty(nameOrId, 'created_by', 'last_edited_by');
+    return property.type === 'created_by' ? property.created_by : property.last_edited_by;
   }
 
   /**
@@ -64,6 +438,69 @@ export class Page extends BaseModel<NotionPage> {
     return null;
   }
 
+  /**
+   * Get the names of properties whose values may have been truncated.
+   *
+   * Page objects return at most 25 entries for `title`, `rich_text`, `people`,
+   * `relation` and `rollup` values. Relations report truncation with `has_more`;
+   * other values are assumed truncated when they hold 25 entries. Fetch the full
+   * values with `pages.properties.retrieve`, or use `pages.hydrate`.
+   */
+  getTruncatedProperties(): string[] {
+    return Object.entries(this.data.properties)
+      .filter(([, property]) => isTruncated(property))
+      .map(([name]) => name);
+  }
+
+  /**
+   * Convert the page's property values to plain JSON, keyed by property name.
+   *
+   * Title and rich text become strings, selects and statuses become option
+   * names, dates become ISO strings (or `{ start, end }` ranges), and people
+   * and relations become IDs. Use `fromPlainObject` to turn the result back
+   * into property values for `pages.create` or `pages.update`.
+   *
+   * Rich text annotations, colors, links and mentions are not kept, so
+   * sending a title or rich text value back replaces its formatting.
+   */
+  toPlainObject(): Record<string, PagePlainValue> {
+    const values: Record<string, PagePlainValue> = {};
+    for (const [name, property] of Object.entries(this.data.properties)) {
+      values[name] = toPlainValue(property);
+    }
+    return values;
+  }
+
+  /**
+   * Look up a property and check that it has one of the given types.
+   *
+   * @throws {NotionPropertyError} If the page has no such property or it has another type
+   */
+  private expectProperty<T extends PropertyType>(
+    nameOrId: string,
+    ...types: T[]
+  ): PropertyOfType<T> {
+    const property = this.getProperty(nameOrId);
+    const expected = types.join(' or ');
+
+    if (!property) {
+      throw new NotionPropertyError(
+        `Page ${this.id} has no property "${nameOrId}" (expected a ${expected} property)`,
+        nameOrId,
+        types,
+      );
+    }
+    if (!(types as PropertyType[]).includes(property.type)) {
+      throw new NotionPropertyError(
+        `Property "${nameOrId}" of page ${this.id} is a ${property.type} property, expected ${expected}`,
+        nameOrId,
+        types,
+        property.type,
+      );
+    }
+    return property as PropertyOfType<T>;
+  }
+
   /**
    * Check if the page is a child of a database.
    */
@@ -78,3 +515,20 @@ export class Page extends BaseModel<NotionPage> {
     return this.data.parent.type === 'page_id';
   }
 }
+
+function isTruncated(property: NotionPageProperties): boolean {
+  switch (property.type) {
+    case 'relation':
+      return property.has_more;
+    case 'title':
+      return property.title.length >= PROPERTY_VALUE_LIMIT;
+    case 'rich_text':
+      return property.rich_text.length >= PROPERTY_VALUE_LIMIT;
+    case 'people':
+      return property.people.length >= PROPERTY_VALUE_LIMIT;
+    case 'rollup':
+      return (property.rollup.array?.length ?? 0) >= PROPERTY_VALUE_LIMIT;
+    default:
+      return false;
+  }
+}
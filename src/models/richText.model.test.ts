@@ -241,6 +241,74 @@ describe('RichText', () => {
     expect(richText.toHTML()).toBe('<a href="https://example.com">Visit site</a>');
   });
 
+  it('should not render links with unsafe schemes in HTML', () => {
+    const richTextData = [
+      {
+        type: 'text',
+        text: { content: 'Click', link: null },
+        annotations: {
+          bold: false,
+          italic: false,
+          strikethrough: false,
+          underline: false,
+          code: false,
+          color: 'default',
+        },
+        plain_text: 'Click',
+        href: 'javascript:alert(1)',
+      },
+    ];
+
+    const richText = new RichText(richTextData);
+    expect(richText.toHTML()).toBe('Click');
+  });
+
+  it.each(['\x01javascript:alert(1)', 'java\tscript:alert(1)', 'java\nscript:alert(1)'])(
+    'should not link unsafe schemes hidden by control characters (%j)',
+    (href) => {
+      const richText = new RichText([
+        {
+          type: 'text',
+          text: { content: 'Click', link: { url: href } },
+          annotations: {
+            bold: false,
+            italic: false,
+            strikethrough: false,
+            underline: false,
+            code: false,
+            color: 'default',
+          },
+          plain_text: 'Click',
+          href,
+        },
+      ]);
+
+      expect(richText.toHTML()).toBe('Click');
+    },
+  );
+
+  it('should encode link URLs and drop unsafe schemes in markdown', () => {
+    const segment = (href: string): Record<string, unknown> => ({
+      type: 'text',
+      text: { content: 'Click', link: { url: href } },
+      annotations: {
+        bold: false,
+        italic: false,
+        strikethrough: false,
+        underline: false,
+        code: false,
+        color: 'default',
+      },
+      plain_text: 'Click',
+      href,
+    });
+
+    expect(new RichText([segment('https://example.com/a (1).png')]).toMarkdown()).toBe(
+      '[Click](https://example.com/a%20%281%29.png)',
+    );
+    expect(new RichText([segment('java\tscript:alert(1)')]).toMarkdown()).toBe('Click');
+  });
+
   it('should handle empty links', () => {
     const richTextData = [
       {
@@ -1,3 +1,4 @@
+import { escapeHTML, htmlUrl, markdownUrl } from '../helpers/escape.helpers';
 import { type NotionRichText, richTextSchema } from '../schemas';
 
 /**
@@ -19,6 +20,9 @@ export class RichText {
 
   /**
    * Get the markdown representation of the rich text.
+   *
+   * Links with schemes other than `http:`, `https:` and `mailto:` (for example
+   * `javascript:`) are rendered as plain text.
    */
   toMarkdown(): string {
     return this.data
@@ -35,7 +39,8 @@ export class RichText {
         if (ann.bold) text = `**${text}**`;
         if (ann.italic) text = `*${text}*`;
         if (ann.strikethrough) text = `~~${text}~~`;
-        if (segment.href) text = `[${text}](${segment.href})`;
+        const href = markdownUrl(segment.href);
+        if (href) text = `[${text}](${href})`;
 
         return text;
       })
@@ -44,16 +49,19 @@ export class RichText {
 
   /**
    * Get the HTML representation of the rich text.
+   *
+   * Links with schemes other than `http:`, `https:` and `mailto:` (for example
+   * `javascript:`) are rendered as plain text.
    */
   toHTML(): string {
     return this.data
       .map((segment) => {
-        let text = this.escapeHTML(segment.plain_text);
+        let text = escapeHTML(segment.plain_text);
         const ann = segment.annotations;
 
         // Handle different types
         if (segment.type === 'equation') {
-          return `<span class="equation">${this.escapeHTML(segment.equation.expression)}</span>`;
+          return `<span class="equation">${escapeHTML(segment.equation.expression)}</span>`;
         }
 
         if (ann.code) text = `<code>${text}</code>`;
@@ -61,7 +69,10 @@ export class RichText {
         if (ann.italic) text = `<em>${text}</em>`;
         if (ann.strikethrough) text = `<s>${text}</s>`;
         if (ann.underline) text = `<u>${text}</u>`;
-        if (segment.href) text = `<a href="${this.escapeHTML(segment.href)}">${text}</a>`;
+        const href = htmlUrl(segment.href);
+        if (href) {
+          text = `<a href="${href}">${text}</a>`;
+        }
 
         return text;
       })
@@ -99,13 +110,4 @@ export class RichText {
   toJSON(): NotionRichText {
     return structuredClone(this.data);
   }
-
-  private escapeHTML(text: string): string {
-    return text
-      .replaceAll('&', '&amp;')
-      .replaceAll('<', '&lt;')
-      .replaceAll('>', '&gt;')
-      .replaceAll('"', '&quot;')
-      .replaceAll("'", '&#039;');
-  }
 }
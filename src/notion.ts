@@ -1,10 +1,11 @@
-import { NotionClient, type NotionClientOptions } from './client';
+import { NotionClient, type NotionClientOptions, type NotionOAuthClientOptions } from './client';
 import {
   BlocksAPI,
   CommentsAPI,
   DatabasesAPI,
   DataSourcesAPI,
   FileUploadsAPI,
+  OAuthAPI,
   PagesAPI,
   SearchAPI,
   UsersAPI,
@@ -42,6 +43,10 @@ import {
  * await notion.comments.create({ parent: { page_id: 'page-id' }, rich_text: [...] });
  *
  * const fileUpload = await notion.fileUploads.uploadFile('image.png', buffer, 'image/png');
+ *
+ * // Public integrations: pass a token provider so refreshed tokens are used
+ * const workspace = new Notion({ auth: () => tokenStore.accessToken() });
+ * const token = await workspace.oauth.refresh({ client_id, client_secret, refresh_token });
  * ```
  */
 export class Notion {
@@ -71,6 +76,9 @@ export class Notion {
   /** FileUploads API for uploading files to Notion */
   public readonly fileUploads: FileUploadsAPI;
 
+  /** OAuth API for public integrations (token exchange, refresh, introspect, revoke) */
+  public readonly oauth: OAuthAPI;
+
   constructor(options: NotionClientOptions) {
     this.client = new NotionClient(options);
     this.pages = new PagesAPI(this.client);
@@ -81,5 +89,32 @@ export class Notion {
     this.users = new UsersAPI(this.client);
     this.comments = new CommentsAPI(this.client);
     this.fileUploads = new FileUploadsAPI(this.client);
+    this.oauth = new OAuthAPI(this.client);
+  }
+
+  /**
+   * Number of requests waiting for the client-side rate limiter, across all API namespaces.
+   */
+  get queueDepth(): number {
+    return this.client.queueDepth;
+  }
+}
+
+/**
+ * Entry point for public integrations that do not have an access token yet.
+ * Exposes the OAuth API on a client without `auth`, since the token endpoints
+ * authenticate with the integration's client ID and secret.
+ *
+ * @example
+ * ```typescript
+ * import { NotionOAuth } from '@visus-io/notion-sdk-ts';
+ *
+ * const oauth = new NotionOAuth();
+ * const token = await oauth.token({ client_id, client_secret, code, redirect_uri });
+ * ```
+ */
+export class NotionOAuth extends OAuthAPI {
+  constructor(options: NotionOAuthClientOptions = {}) {
+    super(new NotionClient(options));
   }
 }
@@ -0,0 +1,148 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import ts from 'typescript';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotionAbortError } from './errors';
+import { RateLimiter } from './rateLimiter';
+import { NotionValidationError } from './validation';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Acquire a token and record the order in which it was granted. */
+  function track(limiter: RateLimiter, order: string[], label: string, priority?: 'high' | 'low') {
+    return limiter.acquire(priority).then(() => {
+      order.push(label);
+    });
+  }
+
+  it('should allow a burst of requests immediately', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 3 });
+    const order: string[] = [];
+
+    void track(limiter, order, 'a');
+    void track(limiter, order, 'b');
+    void track(limiter, order, 'c');
+    void track(limiter, order, 'd');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(limiter.queueDepth).toBe(1);
+  });
+
+  it('should release queued requests at the configured rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 1 });
+    const order: string[] = [];
+
+    void track(limiter, order, 'a');
+    void track(limiter, order, 'b');
+    void track(limiter, order, 'c');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['a']);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(order).toEqual(['a', 'b']);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it('should serve higher priority lanes first', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 1 });
+    const order: string[] = [];
+
+    void track(limiter, order, 'first');
+    void track(limiter, order, 'low', 'low');
+    void track(limiter, order, 'normal');
+    void track(limiter, order, 'high', 'high');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(limiter.queueDepthByPriority).toEqual({ high: 1, normal: 1, low: 1 });
+
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(order).toEqual(['first', 'high', 'normal', 'low']);
+  });
+
+  it('should refill the bucket after an idle period', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 2 });
+    const order: string[] = [];
+
+    await track(limiter, order, 'a');
+    await track(limiter, order, 'b');
+    await vi.advanceTimersByTimeAsync(2000);
+
+    void track(limiter, order, 'c');
+    void track(limiter, order, 'd');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(order).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should remove a queued request from the queue when its signal is aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1 });
+    const controller = new AbortController();
+    const order: string[] = [];
+
+    void track(limiter, order, 'a');
+    const aborted = limiter.acquire('normal', controller.signal);
+    void track(limiter, order, 'b');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.queueDepth).toBe(2);
+
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow(NotionAbortError);
+    expect(limiter.queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(['a', 'b']);
+  });
+
+  it.each([0, -1, Number.NaN, Number.POSITIVE_INFINITY])(
+    'should reject requestsPerSecond of %s',
+    (requestsPerSecond) => {
+      expect(() => new RateLimiter({ requestsPerSecond })).toThrow(NotionValidationError);
+    },
+  );
+
+  it('should keep the process alive until queued requests are released', async () => {
+    vi.useRealTimers();
+    const dir = await mkdtemp(join(tmpdir(), 'rate-limiter-'));
+    try {
+      for (const name of ['rateLimiter', 'errors', 'validation']) {
+        const source = await readFile(join(__dirname, `${name}.ts`), 'utf8');
+        const { outputText } = ts.transpileModule(source, {
+          compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2021 },
+        });
+        await writeFile(join(dir, `${name}.js`), outputText);
+      }
+      const script = `
+        const { RateLimiter } = require('./rateLimiter.js');
+        const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 3 });
+        let released = 0;
+        for (let i = 0; i < 6; i++) limiter.acquire().then(() => released++);
+        process.on('exit', () => console.log(released));
+      `;
+
+      const { stdout } = await promisify(execFile)(process.execPath, ['-e', script], {
+        cwd: dir,
+        timeout: 10_000,
+      });
+
+      expect(stdout.trim()).toBe('6');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
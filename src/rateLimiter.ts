@@ -0,0 +1,150 @@
+import { NotionAbortError } from './errors';
+import { NotionValidationError } from './validation';
+
+/**
+ * Priority lane for a queued request. Higher lanes are always served first.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Configuration options for the client-side rate limiter.
+ */
+export interface RateLimiterOptions {
+  /** Average number of requests allowed per second; must be positive and finite (default: 3) */
+  requestsPerSecond?: number;
+
+  /** Maximum number of requests that can be sent at once after an idle period (default: 3) */
+  burst?: number;
+}
+
+/** Lanes in the order they are served. */
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Token-bucket rate limiter with priority lanes.
+ *
+ * The bucket holds up to `burst` tokens and refills at `requestsPerSecond`.
+ * Each request takes one token; when the bucket is empty, requests wait in a
+ * queue per priority lane and are released as tokens become available, with
+ * `high` requests always ahead of `normal` and `low` ones.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 3, burst: 5 });
+ *
+ * await limiter.acquire('high');
+ * console.log(limiter.queueDepth);
+ * ```
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly queues: Record<RequestPriority, (() => void)[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private tokens: number;
+  private lastRefill: number;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @throws {NotionValidationError} If `requestsPerSecond` is not a positive, finite number
+   */
+  constructor(options: RateLimiterOptions = {}) {
+    const requestsPerSecond = options.requestsPerSecond ?? 3;
+    if (!Number.isFinite(requestsPerSecond) || requestsPerSecond <= 0) {
+      throw new NotionValidationError(
+        `requestsPerSecond must be a positive, finite number (got ${requestsPerSecond})`,
+      );
+    }
+    this.requestsPerSecond = requestsPerSecond;
+    this.burst = Math.max(1, options.burst ?? 3);
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Total number of requests waiting for a token.
+   */
+  get queueDepth(): number {
+    return PRIORITIES.reduce((total, priority) => total + this.queues[priority].length, 0);
+  }
+
+  /**
+   * Number of requests waiting for a token in each priority lane.
+   */
+  get queueDepthByPriority(): Record<RequestPriority, number> {
+    return {
+      high: this.queues.high.length,
+      normal: this.queues.normal.length,
+      low: this.queues.low.length,
+    };
+  }
+
+  /**
+   * Wait until a request may be sent.
+   *
+   * @param priority - Lane to queue the request in (default: normal)
+   * @param signal - Removes the request from the queue when aborted
+   * @throws {NotionAbortError} If the signal is aborted before a token is granted
+   */
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new NotionAbortError(undefined, signal.reason));
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const onAbort = (): void => {
+        queue.splice(queue.indexOf(release), 1);
+        reject(new NotionAbortError(undefined, signal?.reason));
+      };
+      const release = (): void => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(release);
+      this.drain();
+    });
+  }
+
+  /**
+   * Adds the tokens accumulated since the last refill.
+   */
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.requestsPerSecond;
+    this.tokens = Math.min(this.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Releases queued requests while tokens are available and schedules the next release.
+   */
+  private drain(): void {
+    this.refill();
+
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      while (queue.length > 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        queue.shift()?.();
+      }
+    }
+
+    if (this.queueDepth > 0 && this.timer === undefined) {
+      const waitMs = ((1 - this.tokens) / this.requestsPerSecond) * 1000;
+      this.timer = setTimeout(
+        () => {
+          this.timer = undefined;
+          this.drain();
+        },
+        Math.max(1, Math.ceil(waitMs)),
+      );
+    }
+  }
+}
@@ -24,6 +24,14 @@ const headingsObject = z.object({
   children: z.array(z.any()).optional(),
 });
 
+/** Media blocks (audio, file, image, pdf, video) are file objects with an optional caption. */
+const mediaObject = fileSchema.and(
+  z.object({
+    caption: richTextSchema.optional(),
+    name: z.string().optional(),
+  }),
+);
+
 export const blockSchema = z.object({
   object: z.literal('block'),
   id: z.uuid(),
@@ -71,7 +79,7 @@ export const blockSchema = z.object({
   has_children: z.boolean(),
 
   // Block-specific properties
-  audio: fileSchema.optional(),
+  audio: mediaObject.optional(),
   bookmark: z
     .object({
       caption: richTextSchema,
@@ -125,20 +133,11 @@ export const blockSchema = z.object({
     })
     .optional(),
   equation: z.object({ expression: z.string() }).optional(),
-  file: z
-    .object({
-      caption: richTextSchema,
-      type: z.enum(['file', 'file_upload', 'external']),
-      file: fileSchema.optional(),
-      external: fileSchema.optional(),
-      file_upload: fileSchema.optional(),
-      name: z.string().optional(),
-    })
-    .optional(),
+  file: mediaObject.optional(),
   heading_1: headingsObject.optional(),
   heading_2: headingsObject.optional(),
   heading_3: headingsObject.optional(),
-  image: fileSchema.optional(),
+  image: mediaObject.optional(),
   link_preview: z.object({ url: z.url() }).optional(),
   numbered_list_item: z
     .object({
@@ -156,16 +155,7 @@ export const blockSchema = z.object({
       children: z.array(z.any()).optional(),
     })
     .optional(),
-  pdf: z
-    .object({
-      caption: richTextSchema,
-      type: z.enum(['file', 'file_upload', 'external']),
-      file: fileSchema.optional(),
-      external: fileSchema.optional(),
-      file_upload: fileSchema.optional(),
-      name: z.string().optional(),
-    })
-    .optional(),
+  pdf: mediaObject.optional(),
   quote: z
     .object({
       rich_text: richTextSchema,
@@ -222,7 +212,7 @@ export const blockSchema = z.object({
       children: z.array(z.any()).optional(),
     })
     .optional(),
-  video: fileSchema.optional(),
+  video: mediaObject.optional(),
 });
 
 export type NotionBlock = z.infer<typeof blockSchema>;
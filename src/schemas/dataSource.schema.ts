@@ -72,3 +72,32 @@ export const dataSourceSchema = z.object({
 });
 
 export type NotionDataSource = z.infer<typeof dataSourceSchema>;
+
+/**
+ * A page template of a data source.
+ *
+ * Notion API reference:
+ * https://developers.notion.com/reference/list-data-source-templates
+ */
+export const dataSourceTemplateSchema = z.object({
+  /** The ID of the template page, usable as `template_id` when creating or updating pages */
+  id: z.uuid(),
+
+  /** Name of the template */
+  name: z.string(),
+
+  /** Whether this is the data source's default template */
+  is_default: z.boolean(),
+});
+
+/**
+ * One page of a data source's templates.
+ */
+export const dataSourceTemplateListSchema = z.object({
+  templates: z.array(dataSourceTemplateSchema),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+});
+
+export type NotionDataSourceTemplate = z.infer<typeof dataSourceTemplateSchema>;
+export type NotionDataSourceTemplateList = z.infer<typeof dataSourceTemplateListSchema>;
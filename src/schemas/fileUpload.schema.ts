@@ -10,6 +10,24 @@ import { z } from 'zod';
  * https://developers.notion.com/reference/file-upload-object
  */
 
+/**
+ * Outcome of importing a file from an external URL (`mode: 'external_url'`).
+ */
+export const fileImportResultSchema = z.object({
+  imported_time: z.iso.datetime(),
+  type: z.enum(['success', 'error']),
+  success: z.object({}).optional(),
+  error: z
+    .object({
+      type: z.string(),
+      code: z.string(),
+      message: z.string(),
+      parameter: z.string().nullable().optional(),
+      status_code: z.number().int().nullable().optional(),
+    })
+    .optional(),
+});
+
 export const fileUploadSchema = z.object({
   object: z.literal('file_upload'),
   id: z.uuid(),
@@ -21,7 +39,16 @@ export const fileUploadSchema = z.object({
   content_length: z.number().nullable(),
   upload_url: z.string(),
   complete_url: z.string(),
-  file_import_result: z.string(),
+  file_import_result: z.union([z.string(), fileImportResultSchema]),
+  mode: z.enum(['single_part', 'multi_part', 'external_url']).optional(),
+  external_url: z.string().nullable().optional(),
+  number_of_parts: z
+    .object({
+      total: z.number().int(),
+      sent: z.number().int(),
+    })
+    .optional(),
 });
 
+export type NotionFileImportResult = z.infer<typeof fileImportResultSchema>;
 export type NotionFileUpload = z.infer<typeof fileUploadSchema>;
@@ -7,10 +7,14 @@ export * from './dataSource.schema';
 export * from './emoji.schema';
 export * from './file.schema';
 export * from './fileUpload.schema';
+export * from './oauth.schema';
 export * from './page.schema';
 export * from './pageProperties.schema';
+export * from './propertyConfiguration.schema';
+export * from './propertyItem.schema';
 export * from './propertyObjects.schema';
 export * from './pagination.schema';
 export * from './parent.schema';
 export * from './richText.schema';
 export * from './user.schema';
+export * from './webhook.schema';
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { userSchema } from './user.schema';
+
+/**
+ * Notion OAuth response schemas.
+ *
+ * Public integrations exchange an authorization code for an access token,
+ * refresh it, and can introspect or revoke it.
+ *
+ * Notion API reference:
+ * https://developers.notion.com/reference/create-a-token
+ */
+
+/** Who the integration was authorized by. */
+const oauthOwnerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('workspace'),
+    workspace: z.literal(true),
+  }),
+  z.object({
+    type: z.literal('user'),
+    user: userSchema,
+  }),
+]);
+
+/**
+ * Access token returned by the token endpoint for an authorization code or refresh token.
+ */
+export const oauthTokenSchema = z.object({
+  access_token: z.string(),
+  token_type: z.literal('bearer'),
+  refresh_token: z.string().nullable().optional(),
+  bot_id: z.string(),
+  workspace_id: z.string(),
+  workspace_name: z.string().nullable().optional(),
+  workspace_icon: z.string().nullable().optional(),
+  owner: oauthOwnerSchema,
+  duplicated_template_id: z.string().nullable().optional(),
+  request_id: z.string().optional(),
+});
+
+/**
+ * Token introspection result.
+ */
+export const oauthIntrospectionSchema = z.object({
+  active: z.boolean(),
+  scope: z.string().optional(),
+  iat: z.number().int().optional(),
+  request_id: z.string().optional(),
+});
+
+export type NotionOAuthToken = z.infer<typeof oauthTokenSchema>;
+export type NotionOAuthOwner = z.infer<typeof oauthOwnerSchema>;
+export type NotionOAuthIntrospection = z.infer<typeof oauthIntrospectionSchema>;
@@ -21,6 +21,7 @@ export type PaginatedListType =
   | 'comment'
   | 'database'
   | 'data_source'
+  | 'file_upload'
   | 'page'
   | 'page_or_database'
   | 'page_or_data_source'
@@ -42,6 +43,7 @@ export const paginatedListSchema = <T extends z.ZodTypeAny>(resultSchema: T) =>
       'comment',
       'database',
       'data_source',
+      'file_upload',
       'page',
       'page_or_database',
       'page_or_data_source',
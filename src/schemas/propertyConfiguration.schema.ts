@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import {
+  numberFormatSchema,
+  optionColorSchema,
+  rollupFunctionSchema,
+} from './propertyObjects.schema';
+
+/**
+ * Property configurations are the request side of data source property objects:
+ * what `dataSources.create`, `dataSources.update` and `databases.create` accept
+ * in `properties`. Unlike property objects they carry no `id` or `type`; the
+ * configuration key names the type.
+ *
+ * Notion API reference:
+ * https://developers.notion.com/reference/property-schema-object
+ */
+
+/** Fields shared by all property configurations */
+const baseConfigurationShape = {
+  /** Renames the property when updating a data source */
+  name: z.string().optional(),
+  description: z.string().optional(),
+};
+
+/** Option for select and multi_select configurations; `id` keeps an existing option */
+const optionRequestSchema = z.object({
+  id: z.string().optional(),
+  name: z
+    .string()
+    .min(1)
+    .max(100)
+    .refine((name) => !name.includes(','), 'Option names cannot contain commas'),
+  color: optionColorSchema.optional(),
+  description: z.string().optional(),
+});
+
+/** Checkbox configuration (empty object) */
+const checkboxConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  checkbox: z.object({}),
+});
+
+/** Created by configuration (empty object) */
+const createdByConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  created_by: z.object({}),
+});
+
+/** Created time configuration (empty object) */
+const createdTimeConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  created_time: z.object({}),
+});
+
+/** Date configuration (empty object) */
+const dateConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  date: z.object({}),
+});
+
+/** Email configuration (empty object) */
+const emailConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  email: z.object({}),
+});
+
+/** Files configuration (empty object) */
+const filesConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  files: z.object({}),
+});
+
+/** Last edited by configuration (empty object) */
+const lastEditedByConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  last_edited_by: z.object({}),
+});
+
+/** Last edited time configuration (empty object) */
+const lastEditedTimeConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  last_edited_time: z.object({}),
+});
+
+/** People configuration (empty object) */
+const peopleConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  people: z.object({}),
+});
+
+/** Phone number configuration (empty object) */
+const phoneNumberConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  phone_number: z.object({}),
+});
+
+/** Place configuration (empty object) */
+const placeConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  place: z.object({}),
+});
+
+/** Rich text configuration (empty object) */
+const richTextConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  rich_text: z.object({}),
+});
+
+/** Title configuration (empty object) */
+const titleConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  title: z.object({}),
+});
+
+/** URL configuration (empty object) */
+const urlConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  url: z.object({}),
+});
+
+/** Formula configuration */
+export const formulaConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  formula: z.object({
+    expression: z.string().min(1),
+  }),
+});
+
+/** Multi-select configuration */
+export const multiSelectConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  multi_select: z.object({
+    options: z.array(optionRequestSchema).max(100),
+  }),
+});
+
+/** Number configuration */
+export const numberConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  number: z.object({
+    format: numberFormatSchema.optional(),
+  }),
+});
+
+/** Relation configuration: one-way, or two-way with a synced property on the related data source */
+export const relationConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  relation: z.union([
+    z.object({
+      data_source_id: z.string().min(1),
+      type: z.literal('single_property').optional(),
+      single_property: z.object({}),
+    }),
+    z.object({
+      data_source_id: z.string().min(1),
+      type: z.literal('dual_property').optional(),
+      dual_property: z.object({
+        synced_property_name: z.string().optional(),
+        synced_property_id: z.string().optional(),
+      }),
+    }),
+  ]),
+});
+
+/** Rollup configuration; each property is referenced by name or ID */
+export const rollupConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  rollup: z
+    .object({
+      function: rollupFunctionSchema,
+      relation_property_name: z.string().optional(),
+      relation_property_id: z.string().optional(),
+      rollup_property_name: z.string().optional(),
+      rollup_property_id: z.string().optional(),
+    })
+    .refine(
+      (rollup) => (rollup.relation_property_name ?? rollup.relation_property_id) !== undefined,
+      'A rollup needs a relation property name or ID',
+    )
+    .refine(
+      (rollup) => (rollup.rollup_property_name ?? rollup.rollup_property_id) !== undefined,
+      'A rollup needs a rollup property name or ID',
+    ),
+});
+
+/** Select configuration */
+export const selectConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  select: z.object({
+    options: z.array(optionRequestSchema).max(100),
+  }),
+});
+
+/** Status configuration (empty object); Notion creates the default options and groups */
+const statusConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  status: z.object({}),
+});
+
+/** Unique ID configuration */
+export const uniqueIdConfigurationSchema = z.object({
+  ...baseConfigurationShape,
+  unique_id: z.object({
+    prefix: z.string().nullable().optional(),
+  }),
+});
+
+/**
+ * Union of all property configurations accepted when creating or updating a data source.
+ */
+export const propertyConfigurationSchema = z.union([
+  checkboxConfigurationSchema,
+  createdByConfigurationSchema,
+  createdTimeConfigurationSchema,
+  dateConfigurationSchema,
+  emailConfigurationSchema,
+  filesConfigurationSchema,
+  formulaConfigurationSchema,
+  lastEditedByConfigurationSchema,
+  lastEditedTimeConfigurationSchema,
+  multiSelectConfigurationSchema,
+  numberConfigurationSchema,
+  peopleConfigurationSchema,
+  phoneNumberConfigurationSchema,
+  placeConfigurationSchema,
+  relationConfigurationSchema,
+  richTextConfigurationSchema,
+  rollupConfigurationSchema,
+  selectConfigurationSchema,
+  statusConfigurationSchema,
+  titleConfigurationSchema,
+  urlConfigurationSchema,
+  uniqueIdConfigurationSchema,
+]);
+
+/**
+ * A property change when updating a data source: a new configuration, or a
+ * rename or description change of an existing property.
+ */
+export const propertyConfigurationUpdateSchema = z.union([
+  propertyConfigurationSchema,
+  z.object(baseConfigurationShape),
+]);
+
+export type NotionPropertyConfiguration = z.infer<typeof propertyConfigurationSchema>;
+export type NotionPropertyConfigurationUpdate = z.infer<typeof propertyConfigurationUpdateSchema>;
+export type NotionPropertyOptionRequest = z.infer<typeof optionRequestSchema>;
+
+// Export individual configuration types for convenience
+export type FormulaPropertyConfiguration = z.infer<typeof formulaConfigurationSchema>;
+export type MultiSelectPropertyConfiguration = z.infer<typeof multiSelectConfigurationSchema>;
+export type NumberPropertyConfiguration = z.infer<typeof numberConfigurationSchema>;
+export type RelationPropertyConfiguration = z.infer<typeof relationConfigurationSchema>;
+export type RollupPropertyConfiguration = z.infer<typeof rollupConfigurationSchema>;
+export type SelectPropertyConfiguration = z.infer<typeof selectConfigurationSchema>;
+export type UniqueIdPropertyConfiguration = z.infer<typeof uniqueIdConfigurationSchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { paginatedListSchema } from './pagination.schema';
+
+/**
+ * Notion property item schemas.
+ *
+ * `GET /pages/{page_id}/properties/{property_id}` returns a single property item
+ * for most property types. `title`, `rich_text`, `relation`, `people` and
+ * `rollup` values are returned as a paginated list of items instead, one item
+ * per rich text object, related page, person or rolled-up value; page objects
+ * truncate these values at 25 entries.
+ *
+ * Notion API reference:
+ * https://developers.notion.com/reference/property-item-object
+ */
+
+/**
+ * A single property item. The value is stored under the key named by `type`.
+ */
+export const propertyItemSchema = z.looseObject({
+  object: z.literal('property_item'),
+  id: z.string(),
+  type: z.string(),
+});
+
+/**
+ * One page of a paginated property value. `property_item` describes the
+ * property as a whole, e.g. the function and result type of a rollup.
+ */
+export const propertyItemListSchema = paginatedListSchema(propertyItemSchema).extend({
+  property_item: z.looseObject({
+    id: z.string(),
+    type: z.string(),
+    next_url: z.string().nullable(),
+  }),
+});
+
+export type NotionPropertyItem = z.infer<typeof propertyItemSchema>;
+export type NotionPropertyItemList = z.infer<typeof propertyItemListSchema>;
@@ -9,7 +9,7 @@ import { z } from 'zod';
  */
 
 /** Valid color values for select, multi_select, and status options */
-const colorSchema = z.enum([
+export const optionColorSchema = z.enum([
   'blue',
   'brown',
   'default',
@@ -26,7 +26,7 @@ const colorSchema = z.enum([
 const selectOptionSchema = z.object({
   id: z.string(),
   name: z.string(),
-  color: colorSchema,
+  color: optionColorSchema,
 });
 
 /** Checkbox property configuration (empty object) */
@@ -124,7 +124,7 @@ const multiSelectPropertySchema = z.object({
 });
 
 /** Number format options */
-const numberFormatSchema = z.enum([
+export const numberFormatSchema = z.enum([
   'argentine_peso',
   'baht',
   'australian_dollar',
@@ -229,7 +229,7 @@ const richTextPropertySchema = z.object({
 });
 
 /** Rollup function options */
-const rollupFunctionSchema = z.enum([
+export const rollupFunctionSchema = z.enum([
   'average',
   'checked',
   'count_per_group',
@@ -286,14 +286,14 @@ const selectPropertySchema = z.object({
 const statusOptionSchema = z.object({
   id: z.string(),
   name: z.string(),
-  color: colorSchema,
+  color: optionColorSchema,
 });
 
 /** Status group for status properties */
 const statusGroupSchema = z.object({
   id: z.string(),
   name: z.string(),
-  color: colorSchema,
+  color: optionColorSchema,
   option_ids: z.array(z.string()),
 });
 
@@ -372,6 +372,9 @@ export const propertiesObjectSchema = z.record(z.string(), propertyObjectSchema)
 
 export type NotionPropertyObject = z.infer<typeof propertyObjectSchema>;
 export type NotionPropertiesObject = z.infer<typeof propertiesObjectSchema>;
+export type NotionOptionColor = z.infer<typeof optionColorSchema>;
+export type NotionNumberFormat = z.infer<typeof numberFormatSchema>;
+export type NotionRollupFunction = z.infer<typeof rollupFunctionSchema>;
 
 // Export individual property types for convenience
 export type CheckboxPropertyObject = z.infer<typeof checkboxPropertySchema>;
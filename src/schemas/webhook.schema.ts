@@ -0,0 +1,145 @@
+import { z } from 'zod';
+
+/**
+ * Notion webhook event schemas.
+ *
+ * Every event shares an envelope (subscription, workspace, authors, entity)
+ * and carries a `data` object whose shape depends on the event `type`.
+ *
+ * Notion API reference:
+ * https://developers.notion.com/reference/webhooks-events-delivery
+ */
+
+/** A user, bot or agent that caused the event. */
+const webhookAuthorSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+});
+
+/** Parent of the entity the event is about. */
+const webhookParentSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  data_source_id: z.string().optional(),
+});
+
+const webhookEventBaseSchema = z.object({
+  id: z.string(),
+  timestamp: z.iso.datetime(),
+  workspace_id: z.string(),
+  workspace_name: z.string().optional(),
+  subscription_id: z.string(),
+  integration_id: z.string(),
+  authors: z.array(webhookAuthorSchema),
+  accessible_by: z.array(webhookAuthorSchema).optional(),
+  attempt_number: z.number().int(),
+  api_version: z.string().optional(),
+});
+
+/** Builds the schema of one event type from its entity type and `data` shape. */
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+function webhookEvent<TType extends string, TEntity extends string, TData extends z.ZodType>(
+  type: TType,
+  entity: TEntity,
+  data: TData,
+) {
+  return webhookEventBaseSchema.extend({
+    type: z.literal(type),
+    entity: z.object({ id: z.string(), type: z.literal(entity) }),
+    data,
+  });
+}
+
+const parentDataSchema = z.object({
+  parent: webhookParentSchema,
+});
+
+const contentUpdatedDataSchema = z.object({
+  parent: webhookParentSchema,
+  updated_blocks: z.array(z.object({ id: z.string(), type: z.literal('block') })),
+});
+
+const propertiesUpdatedDataSchema = z.object({
+  parent: webhookParentSchema,
+  updated_properties: z.array(z.string()),
+});
+
+const schemaUpdatedDataSchema = z.object({
+  parent: webhookParentSchema,
+  updated_properties: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      action: z.enum(['created', 'updated', 'deleted']),
+    }),
+  ),
+});
+
+const commentDataSchema = z.object({
+  page_id: z.string(),
+  parent: webhookParentSchema,
+});
+
+const fileUploadDataSchema = z.object({
+  parent: webhookParentSchema.optional(),
+});
+
+/**
+ * Any webhook event, discriminated by `type`.
+ */
+export const webhookEventSchema = z.discriminatedUnion('type', [
+  webhookEvent('page.created', 'page', parentDataSchema),
+  webhookEvent('page.content_updated', 'page', contentUpdatedDataSchema),
+  webhookEvent('page.properties_updated', 'page', propertiesUpdatedDataSchema),
+  webhookEvent('page.moved', 'page', parentDataSchema),
+  webhookEvent('page.deleted', 'page', parentDataSchema),
+  webhookEvent('page.undeleted', 'page', parentDataSchema),
+  webhookEvent('page.locked', 'page', parentDataSchema),
+  webhookEvent('page.unlocked', 'page', parentDataSchema),
+  webhookEvent('database.created', 'database', parentDataSchema),
+  webhookEvent('database.content_updated', 'database', contentUpdatedDataSchema),
+  webhookEvent('database.moved', 'database', parentDataSchema),
+  webhookEvent('database.deleted', 'database', parentDataSchema),
+  webhookEvent('database.undeleted', 'database', parentDataSchema),
+  webhookEvent('database.schema_updated', 'database', schemaUpdatedDataSchema),
+  webhookEvent('data_source.created', 'data_source', parentDataSchema),
+  webhookEvent('data_source.content_updated', 'data_source', contentUpdatedDataSchema),
+  webhookEvent('data_source.moved', 'data_source', parentDataSchema),
+  webhookEvent('data_source.deleted', 'data_source', parentDataSchema),
+  webhookEvent('data_source.undeleted', 'data_source', parentDataSchema),
+  webhookEvent('data_source.schema_updated', 'data_source', schemaUpdatedDataSchema),
+  webhookEvent('comment.created', 'comment', commentDataSchema),
+  webhookEvent('comment.updated', 'comment', commentDataSchema),
+  webhookEvent('comment.deleted', 'comment', commentDataSchema),
+  webhookEvent('file_upload.created', 'file_upload', fileUploadDataSchema),
+  webhookEvent('file_upload.completed', 'file_upload', fileUploadDataSchema),
+  webhookEvent('file_upload.upload_failed', 'file_upload', fileUploadDataSchema),
+  webhookEvent('file_upload.expired', 'file_upload', fileUploadDataSchema),
+]);
+
+/**
+ * One-time request Notion sends when a subscription is created, carrying the
+ * token used to sign all later events.
+ */
+export const webhookVerificationSchema = z.object({
+  verification_token: z.string(),
+});
+
+export type NotionWebhookEvent = z.infer<typeof webhookEventSchema>;
+export type NotionWebhookEventType = NotionWebhookEvent['type'];
+export type NotionWebhookVerification = z.infer<typeof webhookVerificationSchema>;
+
+/**
+ * The webhook event of a given type.
+ *
+ * @example
+ * ```typescript
+ * function onComment(event: WebhookEvent<'comment.created'>) {
+ *   console.log(event.data.page_id);
+ * }
+ * ```
+ */
+export type WebhookEvent<TType extends NotionWebhookEventType> = Extract<
+  NotionWebhookEvent,
+  { type: TType }
+>;
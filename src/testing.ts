@@ -0,0 +1,12 @@
+// Test doubles, exported from the `./testing` subpath so the package root stays
+// free of Node-only modules such as `node:fs`
+export { Cassette } from './cassette';
+export type {
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMatchField,
+  CassetteMode,
+  CassetteOptions,
+} from './cassette';
+export { FakeNotion } from './fake';
+export type { FakeErrorInjection, FakeNotionOptions, FakeRequest } from './fake';
@@ -0,0 +1,211 @@
+import { createHmac } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NotionWebhooks, verifyWebhookSignature } from './webhooks';
+
+describe('webhooks', () => {
+  const verificationToken = 'secret_verification_token';
+
+  const sign = (body: string, token = verificationToken) =>
+    `sha256=${createHmac('sha256', token).update(body).digest('hex')}`;
+
+  const pageContentUpdated = {
+    id: 'event-id',
+    timestamp: '2025-06-01T12:00:00.000Z',
+    workspace_id: 'workspace-id',
+    workspace_name: 'Acme',
+    subscription_id: 'subscription-id',
+    integration_id: 'integration-id',
+    type: 'page.content_updated',
+    authors: [{ id: 'user-id', type: 'person' }],
+    attempt_number: 1,
+    entity: { id: 'page-id', type: 'page' },
+    data: {
+      parent: { id: 'parent-id', type: 'space' },
+      updated_blocks: [{ id: 'block-id', type: 'block' }],
+    },
+  };
+
+  const signedRequest = (payload: unknown) => {
+    const body = JSON.stringify(payload);
+    return { body, headers: { 'X-Notion-Signature': sign(body) } };
+  };
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept a valid signature', () => {
+      const body = JSON.stringify(pageContentUpdated);
+
+      expect(verifyWebhookSignature(body, sign(body), verificationToken)).toBe(true);
+      expect(verifyWebhookSignature(Buffer.from(body), sign(body), verificationToken)).toBe(true);
+    });
+
+    it('should reject a missing, malformed or mismatched signature', () => {
+      const body = JSON.stringify(pageContentUpdated);
+
+      expect(verifyWebhookSignature(body, undefined, verificationToken)).toBe(false);
+      expect(verifyWebhookSignature(body, 'sha256=abc', verificationToken)).toBe(false);
+      expect(verifyWebhookSignature(body, sign(body, 'other'), verificationToken)).toBe(false);
+      expect(verifyWebhookSignature(`${body} `, sign(body), verificationToken)).toBe(false);
+    });
+  });
+
+  describe('NotionWebhooks', () => {
+    it('should pass the verification token to onVerification', async () => {
+      const onVerification = vi.fn();
+      const webhooks = new NotionWebhooks({ onVerification });
+
+      const response = await webhooks.handle({
+        body: JSON.stringify({ verification_token: 'secret_new_token' }),
+        headers: {},
+      });
+
+      expect(response.status).toBe(200);
+      expect(onVerification).toHaveBeenCalledWith('secret_new_token');
+    });
+
+    it('should reject verification handshakes once a token is configured', async () => {
+      const onVerification = vi.fn();
+      const webhooks = new NotionWebhooks({ verificationToken, onVerification });
+
+      const response = await webhooks.handle({
+        body: JSON.stringify({ verification_token: 'secret_forged_token' }),
+        headers: {},
+      });
+
+      expect(response.status).toBe(401);
+      expect(onVerification).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch a verified event to its typed handler', async () => {
+      const handler = vi.fn();
+      const other = vi.fn();
+      const webhooks = new NotionWebhooks({ verificationToken })
+        .on('page.content_updated', handler)
+        .on('comment.created', other);
+
+      const response = await webhooks.handle(signedRequest(pageContentUpdated));
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'page.content_updated',
+          entity: { id: 'page-id', type: 'page' },
+        }),
+      );
+      expect(handler.mock.calls[0]?.[0].data.updated_blocks).toEqual([
+        { id: 'block-id', type: 'block' },
+      ]);
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should reject events with an invalid signature or without a token', async () => {
+      const handler = vi.fn();
+      const body = JSON.stringify(pageContentUpdated);
+
+      const webhooks = new NotionWebhooks({
+        verificationToken,
+        handlers: { 'page.content_updated': handler },
+      });
+      const unconfigured = new NotionWebhooks({ handlers: { 'page.content_updated': handler } });
+
+      const invalid = await webhooks.handle({
+        body,
+        headers: { 'x-notion-signature': sign(body, 'other') },
+      });
+      const missing = await webhooks.handle({ body, headers: {} });
+      const noToken = await unconfigured.handle(signedRequest(pageContentUpdated));
+
+      expect(invalid.status).toBe(401);
+      expect(missing.status).toBe(401);
+      expect(noToken.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed payloads', async () => {
+      const webhooks = new NotionWebhooks({ verificationToken });
+
+      const notJson = await webhooks.handle({ body: '{', headers: {} });
+      const invalid = await webhooks.handle(
+        signedRequest({ ...pageContentUpdated, entity: undefined }),
+      );
+
+      expect(notJson.status).toBe(400);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should acknowledge unknown event types', async () => {
+      const webhooks = new NotionWebhooks({ verificationToken });
+
+      const response = await webhooks.handle(
+        signedRequest({ ...pageContentUpdated, type: 'view.created' }),
+      );
+
+      expect(response).toEqual({ status: 200, body: 'Ignored' });
+    });
+
+    it('should answer with 500 and call onError when a handler throws', async () => {
+      const error = new Error('boom');
+      const onError = vi.fn();
+      const webhooks = new NotionWebhooks({ verificationToken, onError }).on(
+        'page.content_updated',
+        () => {
+          throw error;
+        },
+      );
+
+      const response = await webhooks.handle(signedRequest(pageContentUpdated));
+
+      expect(response.status).toBe(500);
+      expect(onError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ type: 'page.content_updated' }),
+      );
+    });
+
+    describe('with a Node.js http server', () => {
+      let server: Server | undefined;
+
+      afterEach(async () => {
+        await new Promise((resolve) => server?.close(resolve));
+        server = undefined;
+      });
+
+      it('should handle deliveries end to end', async () => {
+        const handler = vi.fn();
+        const webhooks = new NotionWebhooks({ verificationToken }).on(
+          'page.content_updated',
+          handler,
+        );
+
+        server = createServer((req, res) => {
+          const chunks: Buffer[] = [];
+          req.on('data', (chunk: Buffer) => chunks.push(chunk));
+          req.on('end', () => {
+            void webhooks
+              .handle({ body: Buffer.concat(chunks), headers: req.headers })
+              .then((result) => res.writeHead(result.status).end(result.body));
+          });
+        });
+        await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+
+        const { body, headers } = signedRequest(pageContentUpdated);
+        const accepted = await fetch(`http://127.0.0.1:${port}`, {
+          method: 'POST',
+          body,
+          headers,
+        });
+        const rejected = await fetch(`http://127.0.0.1:${port}`, {
+          method: 'POST',
+          body,
+          headers: { 'X-Notion-Signature': sign(body, 'other') },
+        });
+
+        expect(accepted.status).toBe(200);
+        expect(rejected.status).toBe(401);
+        expect(handler).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  type NotionWebhookEvent,
+  type NotionWebhookEventType,
+  type WebhookEvent,
+  webhookEventSchema,
+  webhookVerificationSchema,
+} from './schemas';
+
+/**
+ * Handler for one webhook event type.
+ */
+export type WebhookHandler<TType extends NotionWebhookEventType> = (
+  event: WebhookEvent<TType>,
+) => void | Promise<void>;
+
+/**
+ * Handlers by event type.
+ */
+export type WebhookHandlers = {
+  [TType in NotionWebhookEventType]?: WebhookHandler<TType>;
+};
+
+/**
+ * An incoming webhook request, independent of the HTTP framework.
+ */
+export interface WebhookRequest {
+  /** Raw request body exactly as received (the signature covers these bytes) */
+  body: string | Uint8Array;
+
+  /** Request headers (a Fetch `Headers` object or a Node.js `IncomingHttpHeaders` record) */
+  headers: Headers | Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Response to send back to Notion.
+ */
+export interface WebhookResponse {
+  /** HTTP status code (Notion retries deliveries answered with a non-2xx status) */
+  status: number;
+
+  /** Plain-text response body */
+  body: string;
+}
+
+/**
+ * Configuration options for webhook handling.
+ */
+export interface NotionWebhooksOptions {
+  /**
+   * Verification token of the subscription, used to check the `X-Notion-Signature`
+   * header (events are rejected until it is set)
+   */
+  verificationToken?: string;
+
+  /** Handlers by event type (more can be added with `on`) */
+  handlers?: WebhookHandlers;
+
+  /**
+   * Called with the token sent in the verification handshake when a subscription
+   * is created. Handshakes are only accepted while `verificationToken` is unset.
+   */
+  onVerification?: (verificationToken: string) => void | Promise<void>;
+
+  /** Called when a handler throws; the delivery is answered with a 500 so Notion retries it */
+  onError?: (error: unknown, event: NotionWebhookEvent) => void;
+}
+
+/** Event types this SDK knows the shape of. */
+const KNOWN_EVENT_TYPES = new Set<string>(
+  webhookEventSchema.options.map((option) => option.shape.type.value),
+);
+
+/**
+ * Checks an `X-Notion-Signature` header against the raw request body in constant time.
+ *
+ * @param body - Raw request body exactly as received
+ * @param signature - Value of the `X-Notion-Signature` header (`sha256=<hex>`)
+ * @param verificationToken - Verification token of the subscription
+ * @returns Whether the signature is valid
+ */
+export function verifyWebhookSignature(
+  body: string | Uint8Array,
+  signature: string | null | undefined,
+  verificationToken: string,
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const digest = createHmac('sha256', verificationToken).update(body).digest('hex');
+  const expected = Buffer.from(`sha256=${digest}`);
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Webhook receiver that verifies, parses and dispatches Notion webhook events.
+ *
+ * `handle` answers the verification handshake (until a verification token is
+ * configured, as the handshake is unsigned), rejects requests without a
+ * valid signature, and routes each event to the handler registered for its
+ * type. Event types without a handler, including types added to Notion after
+ * this SDK, are acknowledged and ignored.
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ *
+ * const webhooks = new NotionWebhooks({
+ *   verificationToken: process.env.NOTION_WEBHOOK_TOKEN,
+ *   onVerification: (token) => console.log('Verification token:', token),
+ * })
+ *   .on('page.content_updated', (event) => console.log(event.entity.id, event.data.updated_blocks))
+ *   .on('comment.created', (event) => console.log(event.data.page_id));
+ *
+ * createServer(async (req, res) => {
+ *   const chunks: Buffer[] = [];
+ *   for await (const chunk of req) chunks.push(chunk as Buffer);
+ *
+ *   const result = await webhooks.handle({ body: Buffer.concat(chunks), headers: req.headers });
+ *   res.writeHead(result.status).end(result.body);
+ * }).listen(3000);
+ * ```
+ */
+export class NotionWebhooks {
+  private readonly handlers: WebhookHandlers;
+
+  constructor(private readonly options: NotionWebhooksOptions = {}) {
+    this.handlers = { ...options.handlers };
+  }
+
+  /**
+   * Register the handler for an event type, replacing any previous one.
+   *
+   * @param type - The event type
+   * @param handler - Called with each event of that type
+   * @returns This instance, for chaining
+   */
+  on<TType extends NotionWebhookEventType>(type: TType, handler: WebhookHandler<TType>): this {
+    (this.handlers as Record<string, unknown>)[type] = handler;
+    return this;
+  }
+
+  /**
+   * Handle a webhook delivery.
+   *
+   * @param request - Raw body and headers of the request
+   * @returns The response to send back to Notion
+   */
+  async handle(request: WebhookRequest): Promise<WebhookResponse> {
+    const body = typeof request.body === 'string' ? request.body : Buffer.from(request.body);
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString());
+    } catch {
+      return { status: 400, body: 'Invalid JSON' };
+    }
+
+    const verification = webhookVerificationSchema.safeParse(payload);
+    if (verification.success && !hasType(payload)) {
+      // The handshake is unsigned; once a token is configured, accepting it
+      // would let anyone replace the signing secret.
+      if (this.options.verificationToken) {
+        return { status: 401, body: 'Verification token already configured' };
+      }
+      await this.options.onVerification?.(verification.data.verification_token);
+      return { status: 200, body: 'OK' };
+    }
+
+    if (!this.options.verificationToken) {
+      return { status: 401, body: 'Verification token not configured' };
+    }
+
+    const signature = getHeader(request.headers, 'x-notion-signature');
+    if (!verifyWebhookSignature(body, signature, this.options.verificationToken)) {
+      return { status: 401, body: 'Invalid signature' };
+    }
+
+    if (hasType(payload) && !KNOWN_EVENT_TYPES.has(payload.type)) {
+      return { status: 200, body: 'Ignored' };
+    }
+
+    const parsed = webhookEventSchema.safeParse(payload);
+    if (!parsed.success) {
+      return { status: 400, body: 'Invalid event' };
+    }
+
+    return this.dispatch(parsed.data);
+  }
+
+  private async dispatch(event: NotionWebhookEvent): Promise<WebhookResponse> {
+    const handler = this.handlers[event.type] as
+      | ((event: NotionWebhookEvent) => void | Promise<void>)
+      | undefined;
+
+    try {
+      await handler?.(event);
+    } catch (error) {
+      this.options.onError?.(error, event);
+      return { status: 500, body: 'Handler failed' };
+    }
+
+    return { status: 200, body: 'OK' };
+  }
+}
+
+function hasType(payload: unknown): payload is { type: string } {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as { type?: unknown }).type === 'string'
+  );
+}
+
+function getHeader(headers: WebhookRequest['headers'], name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  const value = entry?.[1] as string | string[] | undefined;
+  return Array.isArray(value) ? value[0] : value;
+}